@@ -0,0 +1,12 @@
+-- Migration 016: 予約承認ワークフロー
+-- Created: 2026-10-18
+-- Description: require_approval 設定が有効な場合に、申請を承認待ちとして管理するためのカラムを追加
+
+-- applications テーブルに承認ステータスを追加（既に存在する場合はスキップ）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='approval_status' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN approval_status ENUM(''not_required'', ''pending'', ''approved'', ''rejected'') NOT NULL DEFAULT ''not_required'' COMMENT ''承認ステータス（not_required: 承認不要, pending: 承認待ち, approved: 承認済, rejected: 却下）'' AFTER cancel_status', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.STATISTICS WHERE table_name='applications' AND index_name='idx_approval_status' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD INDEX idx_approval_status (approval_status)', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
@@ -0,0 +1,16 @@
+-- Migration 017: 予約受付期間（ブッキングウィンドウ）
+-- Created: 2026-10-18
+-- Description: 何日先まで予約できるか・利用開始の何時間前まで予約できるかを全体設定と部屋ごとの上書きで管理
+
+-- 利用開始までの最低時間（時間）の設定を追加
+INSERT IGNORE INTO system_settings (setting_key, setting_value, setting_type, description) VALUES
+('reservation_min_lead_hours', '0', 'number', '予約受付の締切（利用開始時刻の何時間前まで予約可能か）');
+
+-- rooms テーブルに部屋ごとの上書き設定を追加（NULL の場合はシステム設定を使用）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='rooms' AND column_name='reservation_advance_days' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE rooms ADD COLUMN reservation_advance_days INT UNSIGNED DEFAULT NULL COMMENT ''予約可能な最大日数（NULL: システム設定を使用）'' AFTER max_reservation_count', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='rooms' AND column_name='reservation_min_lead_hours' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE rooms ADD COLUMN reservation_min_lead_hours INT UNSIGNED DEFAULT NULL COMMENT ''利用開始の何時間前まで予約可能か（NULL: システム設定を使用）'' AFTER reservation_advance_days', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
@@ -0,0 +1,20 @@
+-- Migration 018: 利用明細単位の部分キャンセル
+-- Created: 2026-10-18
+-- Description: 複数日・複数枠の申請のうち、特定の利用日や時間帯だけをキャンセルできるようにする
+
+-- usages テーブルにキャンセル状態を追加（既に存在する場合はスキップ）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='usages' AND column_name='cancel_status' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD COLUMN cancel_status ENUM(''none'', ''cancelled'') NOT NULL DEFAULT ''none'' COMMENT ''利用明細のキャンセル状態'' AFTER subtotal_amount', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='usages' AND column_name='cancelled_at' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD COLUMN cancelled_at DATETIME DEFAULT NULL COMMENT ''利用明細のキャンセル日時'' AFTER cancel_status', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='usages' AND column_name='cancellation_fee' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD COLUMN cancellation_fee INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''部分キャンセルで発生したキャンセル料（申請の合計金額に含む）'' AFTER cancelled_at', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.STATISTICS WHERE table_name='usages' AND index_name='idx_usage_cancel_status' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD INDEX idx_usage_cancel_status (cancel_status)', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
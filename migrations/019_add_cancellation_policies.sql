@@ -0,0 +1,35 @@
+-- Migration 019: 段階的キャンセル料ポリシー
+-- Created: 2026-10-18
+-- Description: キャンセル料の段階（何日前から何%）を管理画面で編集できるようにし、予約時点のポリシー版を申請ごとに保存
+
+-- キャンセル料ポリシー（変更のたびに新しい版を追加し、過去の版は変更しない）
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    version INT UNSIGNED NOT NULL COMMENT 'ポリシーの版',
+    tiers JSON NOT NULL COMMENT '既定の段階 [{"daysBefore": 7, "rate": 50}, ...]',
+    room_tiers JSON DEFAULT NULL COMMENT '部屋ごとの段階 {"<room_id>": [{"daysBefore": 0, "rate": 100}, ...]}',
+    is_current BOOLEAN NOT NULL DEFAULT FALSE COMMENT '新規予約に適用中の版',
+    created_by INT UNSIGNED DEFAULT NULL COMMENT '作成した職員',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uk_version (version),
+    INDEX idx_is_current (is_current),
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- 初版は従来のルール（使用日前は無料、当日以降は全額）
+INSERT IGNORE INTO cancellation_policies (version, tiers, room_tiers, is_current) VALUES
+(1, '[{"daysBefore": 1, "rate": 0}, {"daysBefore": 0, "rate": 100}]', NULL, TRUE);
+
+-- applications テーブルに予約時点のポリシー版を追加
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='cancellation_policy_id' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN cancellation_policy_id INT UNSIGNED DEFAULT NULL COMMENT ''予約時点のキャンセル料ポリシー'' AFTER cancellation_fee', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS WHERE table_name='applications' AND constraint_name='fk_applications_cancellation_policy' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD CONSTRAINT fk_applications_cancellation_policy FOREIGN KEY (cancellation_policy_id) REFERENCES cancellation_policies(id)', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 既存の予約には従来のルール（初版）を適用
+UPDATE applications
+SET cancellation_policy_id = (SELECT id FROM cancellation_policies WHERE version = 1)
+WHERE cancellation_policy_id IS NULL;
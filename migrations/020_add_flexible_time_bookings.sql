@@ -0,0 +1,22 @@
+-- Migration 020: 自由時間制の部屋の予約
+-- Created: 2026-10-18
+-- Description: 練習室・会議室など自由時間制の部屋を開始・終了時刻で予約できるようにし、土日祝日の単位料金を追加
+
+-- usages テーブルに開始・終了時刻を追加（自由時間制の部屋のみ使用、時間帯予約では NULL）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='usages' AND column_name='start_time' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD COLUMN start_time TIME DEFAULT NULL COMMENT ''自由時間制の開始時刻'' AFTER use_evening_extension', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='usages' AND column_name='end_time' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD COLUMN end_time TIME DEFAULT NULL COMMENT ''自由時間制の終了時刻'' AFTER start_time', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 時間の重なりチェック用インデックス
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.STATISTICS WHERE table_name='usages' AND index_name='idx_room_date_time_range' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD INDEX idx_room_date_time_range (room_id, date, start_time, end_time)', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- rooms テーブルに土日祝日の単位料金を追加（NULL の場合は平日の単位料金を使用）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='rooms' AND column_name='weekend_price_per_unit' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE rooms ADD COLUMN weekend_price_per_unit DECIMAL(10, 2) DEFAULT NULL COMMENT ''土日祝日の単位あたりの料金'' AFTER price_per_unit', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
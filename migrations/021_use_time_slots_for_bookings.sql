@@ -0,0 +1,54 @@
+-- Migration 021: 時間帯マスターによる予約
+-- Created: 2026-10-18
+-- Description: 予約・空き状況・料金計算を time_slots / room_time_slot_prices の設定に基づいて行うようにし、既存の予約を初期設定の時間帯に対応付け
+
+-- room_time_slot_prices テーブルに土日祝日料金を追加（NULL の場合は平日料金を使用）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='room_time_slot_prices' AND column_name='weekend_price' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE room_time_slot_prices ADD COLUMN weekend_price DECIMAL(10, 2) DEFAULT NULL COMMENT ''土日祝日料金'' AFTER base_price', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 利用明細ごとの予約時間帯
+CREATE TABLE IF NOT EXISTS usage_time_slots (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    usage_id INT UNSIGNED NOT NULL COMMENT '利用明細ID',
+    time_slot_id INT UNSIGNED NOT NULL COMMENT '時間帯ID',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_usage_time_slot (usage_id, time_slot_id),
+    INDEX idx_time_slot_id (time_slot_id),
+    FOREIGN KEY (usage_id) REFERENCES usages(id) ON DELETE CASCADE,
+    FOREIGN KEY (time_slot_id) REFERENCES time_slots(id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='利用明細の予約時間帯';
+
+-- 部屋の従来の料金列を初期設定の時間帯の料金として登録（設定済みの料金は変更しない）
+INSERT IGNORE INTO room_time_slot_prices (room_id, time_slot_id, base_price, weekend_price, ac_price_per_hour)
+SELECT r.id, ts.id,
+  COALESCE(CASE ts.code
+    WHEN 'morning' THEN r.base_price_morning
+    WHEN 'midday_extension' THEN r.extension_price_midday
+    WHEN 'afternoon' THEN r.base_price_afternoon
+    WHEN 'evening_extension' THEN r.extension_price_evening
+    WHEN 'evening' THEN r.base_price_evening
+  END, 0),
+  CASE ts.code
+    WHEN 'morning' THEN r.weekend_price_morning
+    WHEN 'midday_extension' THEN r.weekend_extension_price_midday
+    WHEN 'afternoon' THEN r.weekend_price_afternoon
+    WHEN 'evening_extension' THEN r.weekend_extension_price_evening
+    WHEN 'evening' THEN r.weekend_price_evening
+  END,
+  COALESCE(r.ac_price_per_hour, 0)
+FROM rooms r
+INNER JOIN time_slots ts ON ts.code IN ('morning', 'midday_extension', 'afternoon', 'evening_extension', 'evening');
+
+-- 既存の利用明細の時間帯フラグを初期設定の時間帯に対応付け
+INSERT IGNORE INTO usage_time_slots (usage_id, time_slot_id)
+SELECT u.id, ts.id
+FROM usages u
+INNER JOIN time_slots ts ON (
+  (ts.code = 'morning' AND u.use_morning = TRUE)
+  OR (ts.code = 'midday_extension' AND u.use_midday_extension = TRUE)
+  OR (ts.code = 'afternoon' AND u.use_afternoon = TRUE)
+  OR (ts.code = 'evening_extension' AND u.use_evening_extension = TRUE)
+  OR (ts.code = 'evening' AND u.use_evening = TRUE)
+)
+WHERE u.start_time IS NULL;
@@ -0,0 +1,8 @@
+-- Migration 022: 定期予約（繰り返し予約）
+-- Created: 2026-10-18
+-- Description: 毎週・毎月第N曜日の定期予約を1件の申請として登録し、繰り返しの設定を申請に保存
+
+-- applications テーブルに繰り返しの設定を追加（NULL = 通常の申請）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='recurrence_rule' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN recurrence_rule JSON DEFAULT NULL COMMENT ''定期予約の繰り返し設定'' AFTER remarks', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
@@ -0,0 +1,47 @@
+-- Migration 023: 満室の時間帯の空き待ち
+-- Created: 2026-10-18
+-- Description: 満室の部屋・日付・時間帯に空き待ちを登録し、キャンセルで空きが出た場合に先着順で期限付きの案内を送る
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    user_id INT UNSIGNED NOT NULL COMMENT '利用者ID',
+    room_id INT UNSIGNED NOT NULL COMMENT '部屋ID',
+    date DATE NOT NULL COMMENT '利用日',
+    time_slot_id INT UNSIGNED NOT NULL COMMENT '時間帯ID',
+    status ENUM('waiting', 'offered', 'accepted', 'expired', 'cancelled') NOT NULL DEFAULT 'waiting' COMMENT 'waiting: 空き待ち, offered: 案内中（枠を確保）, accepted: 予約済み',
+    offered_at DATETIME DEFAULT NULL COMMENT '案内日時',
+    offer_expires_at DATETIME DEFAULT NULL COMMENT '案内の期限（期限までは枠を確保）',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_room_date_status (room_id, date, status),
+    INDEX idx_user_status (user_id, status),
+    INDEX idx_status_expires (status, offer_expires_at),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+    FOREIGN KEY (time_slot_id) REFERENCES time_slots(id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='空き待ち';
+
+-- 案内の有効時間（この時間内に予約しない場合は次の方に案内）
+INSERT IGNORE INTO system_settings (setting_key, setting_value, setting_type, description) VALUES
+('waitlist_offer_hours', '24', 'number', '空き待ちの案内の有効時間（時間）');
+
+-- 空き待ちの案内通知
+INSERT IGNORE INTO notification_templates (template_code, template_name, description, subject, body_text, available_variables, is_system) VALUES
+('waitlist_offer', '空き待ちの案内', '空き待ちの時間帯に空きが出た時に送信',
+'【空きのご案内】{{room_name}} {{usage_date}} {{time_slots}}',
+'{{user_name}} 様
+
+空き待ちにご登録いただいていた時間帯に空きが出ました。
+
+■空きが出た時間帯
+部屋: {{room_name}}
+利用日: {{usage_date}}
+時間帯: {{time_slots}}
+
+{{expires_at}} までこの時間帯をお取り置きしています。
+期限までにご予約ください。期限を過ぎた場合は次の方にご案内します。',
+'["user_name", "room_name", "usage_date", "time_slots", "expires_at"]',
+TRUE);
+
+INSERT IGNORE INTO notification_settings (setting_key, setting_name, description, is_enabled, template_code, send_timing) VALUES
+('notify_waitlist_offer', '空き待ちの案内', '空き待ちの時間帯に空きが出た時にユーザーに通知', TRUE, 'waitlist_offer', 'immediate');
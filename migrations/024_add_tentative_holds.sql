@@ -0,0 +1,64 @@
+-- Migration 024: 仮予約（仮押さえ）
+-- Created: 2026-10-18
+-- Description: 一定期間だけ枠を確保する仮予約を追加。期限までに本予約に確定しない場合は自動的に解放する
+
+-- applications テーブルに仮予約の状態を追加（既に存在する場合はスキップ）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='hold_status' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN hold_status ENUM(''none'', ''tentative'', ''confirmed'', ''expired'') NOT NULL DEFAULT ''none'' COMMENT ''仮予約（none: 通常の申請, tentative: 仮押さえ中, confirmed: 本予約に確定, expired: 期限切れで解放）'' AFTER approval_status', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='hold_expires_at' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN hold_expires_at DATETIME DEFAULT NULL COMMENT ''仮押さえの期限'' AFTER hold_status', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='hold_reminder_sent_at' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN hold_reminder_sent_at DATETIME DEFAULT NULL COMMENT ''期限前のお知らせの送信日時'' AFTER hold_expires_at', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.STATISTICS WHERE table_name='applications' AND index_name='idx_hold_status_expires' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD INDEX idx_hold_status_expires (hold_status, hold_expires_at)', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 仮押さえの期間・お知らせの時期・1人あたりの件数
+INSERT IGNORE INTO system_settings (setting_key, setting_value, setting_type, description) VALUES
+('tentative_hold_days', '7', 'number', '仮予約で枠を確保する日数'),
+('tentative_hold_reminder_days', '2', 'number', '仮予約の期限の何日前にお知らせを送るか'),
+('tentative_hold_max_per_user', '2', 'number', '1人が同時に持てる仮予約の件数');
+
+-- 仮予約の通知
+INSERT IGNORE INTO notification_templates (template_code, template_name, description, subject, body_text, available_variables, is_system) VALUES
+('tentative_hold_reminder', '仮予約の期限のお知らせ', '仮予約の期限が近づいた時に送信',
+'【仮予約の期限が近づいています】{{event_name}}',
+'{{user_name}} 様
+
+仮予約（仮押さえ）の期限が近づいています。
+
+■仮予約の内容
+申請番号: {{application_id}}
+イベント名: {{event_name}}
+部屋: {{room_name}}
+利用日: {{usage_date}}
+
+{{expires_at}} までに本予約への確定をお願いします。
+期限を過ぎた場合、仮押さえは自動的に取り消されます。',
+'["user_name", "application_id", "event_name", "room_name", "usage_date", "expires_at"]',
+TRUE),
+('tentative_hold_expired', '仮予約の期限切れ', '仮予約が期限切れで取り消された時に送信',
+'【仮予約を取り消しました】{{event_name}}',
+'{{user_name}} 様
+
+期限までに本予約への確定がなかったため、以下の仮予約（仮押さえ）を取り消しました。
+
+■取り消した仮予約
+申請番号: {{application_id}}
+イベント名: {{event_name}}
+部屋: {{room_name}}
+利用日: {{usage_date}}
+
+引き続きご利用を希望される場合は、あらためてお申し込みください。',
+'["user_name", "application_id", "event_name", "room_name", "usage_date"]',
+TRUE);
+
+INSERT IGNORE INTO notification_settings (setting_key, setting_name, description, is_enabled, template_code, send_timing) VALUES
+('notify_tentative_hold_reminder', '仮予約の期限のお知らせ', '仮予約の期限が近づいた時にユーザーに通知', TRUE, 'tentative_hold_reminder', 'immediate'),
+('notify_tentative_hold_expired', '仮予約の期限切れ通知', '仮予約が期限切れで取り消された時にユーザーに通知', TRUE, 'tentative_hold_expired', 'immediate');
@@ -0,0 +1,101 @@
+-- Migration 025: 人気の部屋の抽選受付
+-- Created: 2026-10-18
+-- Description: 部屋・月ごとに抽選の受付期間を設け、応募者の希望順位に沿ってシード値付きの抽選で枠を割り当てる。当選者には支払期限付きの未決済の申請を作成する
+
+CREATE TABLE IF NOT EXISTS lottery_rounds (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    room_id INT UNSIGNED NOT NULL COMMENT '部屋ID',
+    target_month CHAR(7) NOT NULL COMMENT '抽選対象の月（YYYY-MM）',
+    entry_start_at DATETIME NOT NULL COMMENT '応募の受付開始日時',
+    entry_end_at DATETIME NOT NULL COMMENT '応募の受付終了日時',
+    payment_due_days INT UNSIGNED NOT NULL DEFAULT 14 COMMENT '当選から支払期限までの日数',
+    status ENUM('accepting', 'drawn', 'cancelled') NOT NULL DEFAULT 'accepting' COMMENT 'accepting: 受付中（抽選前）, drawn: 抽選済み',
+    seed VARCHAR(64) DEFAULT NULL COMMENT '抽選に使用したシード値（同じシード値で結果を再現できる）',
+    drawn_at DATETIME DEFAULT NULL COMMENT '抽選日時',
+    drawn_by INT UNSIGNED DEFAULT NULL COMMENT '抽選を行った職員',
+    created_by INT UNSIGNED DEFAULT NULL COMMENT '作成した職員',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY uk_room_month (room_id, target_month),
+    INDEX idx_status (status),
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+    FOREIGN KEY (drawn_by) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='抽選の受付';
+
+CREATE TABLE IF NOT EXISTS lottery_entries (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    round_id INT UNSIGNED NOT NULL COMMENT '抽選ID',
+    user_id INT UNSIGNED NOT NULL COMMENT '利用者ID',
+    event_name VARCHAR(255) NOT NULL COMMENT 'イベント名',
+    expected_attendees INT DEFAULT NULL COMMENT '予定人数',
+    entrance_fee_type ENUM('free', 'paid') NOT NULL DEFAULT 'free',
+    entrance_fee_amount INT NOT NULL DEFAULT 0,
+    status ENUM('entered', 'won', 'lost', 'cancelled') NOT NULL DEFAULT 'entered' COMMENT 'entered: 応募中, won: 当選, lost: 落選, cancelled: 取り下げ',
+    draw_order INT UNSIGNED DEFAULT NULL COMMENT '抽選順（1から）',
+    won_preference_id INT UNSIGNED DEFAULT NULL COMMENT '当選した希望',
+    application_id INT UNSIGNED DEFAULT NULL COMMENT '当選で作成した申請',
+    result_note VARCHAR(255) DEFAULT NULL COMMENT '申請を作成できなかった場合などの理由',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY uk_round_user (round_id, user_id),
+    INDEX idx_user_status (user_id, status),
+    FOREIGN KEY (round_id) REFERENCES lottery_rounds(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (application_id) REFERENCES applications(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='抽選への応募';
+
+CREATE TABLE IF NOT EXISTS lottery_preferences (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    entry_id INT UNSIGNED NOT NULL COMMENT '応募ID',
+    preference_rank TINYINT UNSIGNED NOT NULL COMMENT '希望順位（1 = 第1希望）',
+    date DATE NOT NULL COMMENT '利用日',
+    time_slot_ids JSON NOT NULL COMMENT '希望する時間帯ID',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uk_entry_rank (entry_id, preference_rank),
+    FOREIGN KEY (entry_id) REFERENCES lottery_entries(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='抽選の希望（順位付き）';
+
+-- applications テーブルに支払期限を追加（既に存在する場合はスキップ）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='payment_due_at' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN payment_due_at DATETIME DEFAULT NULL COMMENT ''支払期限（抽選の当選など）'' AFTER payment_provider_id', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 1件の応募で指定できる希望の数
+INSERT IGNORE INTO system_settings (setting_key, setting_value, setting_type, description) VALUES
+('lottery_max_preferences', '3', 'number', '抽選の応募で指定できる希望の数');
+
+-- 抽選結果の通知
+INSERT IGNORE INTO notification_templates (template_code, template_name, description, subject, body_text, available_variables, is_system) VALUES
+('lottery_won', '抽選の当選', '抽選に当選し申請を作成した時に送信',
+'【抽選結果のお知らせ（当選）】{{event_name}}',
+'{{user_name}} 様
+
+{{room_name}}（{{target_month}}）の抽選に当選しました。
+当選した日時で申請を作成しています。
+
+■当選した予約
+申請番号: {{application_id}}
+イベント名: {{event_name}}
+部屋: {{room_name}}
+利用日: {{usage_date}}
+時間帯: {{time_slots}}
+合計金額: {{total_amount}}円（第{{preference_rank}}希望）
+
+{{payment_due_at}} までにお支払いをお願いします。',
+'["user_name", "application_id", "event_name", "room_name", "usage_date", "time_slots", "total_amount", "target_month", "preference_rank", "payment_due_at"]',
+TRUE),
+('lottery_lost', '抽選の落選', '抽選に落選した時に送信',
+'【抽選結果のお知らせ】{{room_name}} {{target_month}}',
+'{{user_name}} 様
+
+{{room_name}}（{{target_month}}）の抽選にご応募いただきありがとうございました。
+厳正な抽選の結果、今回はご希望の日時をご用意できませんでした。
+
+抽選後に空いている日時は、通常の予約としてお申し込みいただけます。',
+'["user_name", "room_name", "target_month"]',
+TRUE);
+
+INSERT IGNORE INTO notification_settings (setting_key, setting_name, description, is_enabled, template_code, send_timing) VALUES
+('notify_lottery_won', '抽選の当選通知', '抽選に当選した時にユーザーに通知', TRUE, 'lottery_won', 'immediate'),
+('notify_lottery_lost', '抽選の落選通知', '抽選に落選した時にユーザーに通知', TRUE, 'lottery_lost', 'immediate');
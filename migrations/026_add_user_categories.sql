@@ -0,0 +1,12 @@
+-- Migration 026: 利用者区分ごとの優先予約期間
+-- Created: 2026-10-18
+-- Description: 利用者に区分（市民・登録団体・市外・事業者）を設け、区分ごとに何日先まで予約できるかを設定する
+
+-- users テーブルに利用者区分を追加（既存の利用者は市外として扱う）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='users' AND column_name='user_category' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE users ADD COLUMN user_category ENUM(''resident'', ''registered_group'', ''outside'', ''business'') NOT NULL DEFAULT ''outside'' COMMENT ''利用者区分（resident: 市民, registered_group: 登録団体, outside: 市外, business: 事業者）'' AFTER organization_name', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 区分ごとの最大予約可能日数（設定のない区分は reservation_advance_days を使用）
+INSERT IGNORE INTO system_settings (setting_key, setting_value, setting_type, description) VALUES
+('reservation_advance_days_by_category', '{"resident": 180, "registered_group": 180}', 'json', '利用者区分ごとの予約可能な最大日数（日）。設定のない区分は予約可能な最大日数を使用');
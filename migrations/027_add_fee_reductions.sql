@@ -0,0 +1,82 @@
+-- Migration 027: 使用料の減免
+-- Created: 2026-10-18
+-- Description: 減免の種類（割合による減額・全額免除、部屋料金・設備料金の対象）を設定し、申請者が理由と添付書類を添えて減免を申請、職員の承認後に申請の金額へ反映する
+
+CREATE TABLE IF NOT EXISTS fee_reduction_rules (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL COMMENT '減免の名称',
+    description TEXT DEFAULT NULL COMMENT '対象となる団体・利用の説明',
+    reduction_type ENUM('percentage', 'exemption') NOT NULL DEFAULT 'percentage' COMMENT 'percentage: 割合で減額, exemption: 全額免除',
+    rate TINYINT UNSIGNED NOT NULL DEFAULT 100 COMMENT '減額率（%）。全額免除は100',
+    scope ENUM('room', 'equipment', 'room_and_equipment') NOT NULL DEFAULT 'room' COMMENT '減免の対象（room: 部屋料金, equipment: 設備料金）',
+    requires_attachment BOOLEAN NOT NULL DEFAULT FALSE COMMENT '証明書類の添付が必要',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    display_order INT NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_active_order (is_active, display_order)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='使用料の減免の種類';
+
+INSERT INTO fee_reduction_rules (name, description, reduction_type, rate, scope, requires_attachment, display_order)
+SELECT * FROM (
+  SELECT '公益団体の活動' AS name, '市に登録された公益団体が営利を目的とせずに行う活動' AS description, 'percentage' AS reduction_type, 50 AS rate, 'room' AS scope, TRUE AS requires_attachment, 1 AS display_order
+  UNION ALL
+  SELECT '学校の教育活動', '市内の小・中学校が授業・学校行事として利用する場合', 'exemption', 100, 'room_and_equipment', TRUE, 2
+  UNION ALL
+  SELECT '障害者団体の活動', '障害のある方の団体が自主的な活動として利用する場合', 'percentage', 50, 'room_and_equipment', TRUE, 3
+) AS seed
+WHERE NOT EXISTS (SELECT 1 FROM fee_reduction_rules);
+
+-- applications テーブルに減免の申請・審査の項目を追加（既に存在する場合はスキップ）
+-- 減額率と対象は審査中に種類が変更されても申請時の内容で計算できるよう申請に保存する
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='reduction_status' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications
+    ADD COLUMN reduction_status ENUM(''none'', ''pending'', ''approved'', ''rejected'') NOT NULL DEFAULT ''none'' COMMENT ''減免の状態（pending: 審査中, approved: 承認, rejected: 却下）'' AFTER cancellation_policy_id,
+    ADD COLUMN reduction_rule_id INT UNSIGNED DEFAULT NULL COMMENT ''申請された減免の種類'' AFTER reduction_status,
+    ADD COLUMN reduction_rate TINYINT UNSIGNED DEFAULT NULL COMMENT ''申請時点の減額率（%）'' AFTER reduction_rule_id,
+    ADD COLUMN reduction_scope ENUM(''room'', ''equipment'', ''room_and_equipment'') DEFAULT NULL COMMENT ''申請時点の減免の対象'' AFTER reduction_rate,
+    ADD COLUMN reduction_reason TEXT DEFAULT NULL COMMENT ''減免を申請する理由'' AFTER reduction_scope,
+    ADD COLUMN reduction_attachment_path VARCHAR(500) DEFAULT NULL COMMENT ''証明書類（公開されない保存先）'' AFTER reduction_reason,
+    ADD COLUMN reduction_requested_at DATETIME DEFAULT NULL COMMENT ''減免の申請日時'' AFTER reduction_attachment_path,
+    ADD COLUMN reduction_amount INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''減免額（total_amount は減免後の金額）'' AFTER reduction_requested_at,
+    ADD COLUMN reduction_reviewed_by INT UNSIGNED DEFAULT NULL COMMENT ''審査した職員'' AFTER reduction_amount,
+    ADD COLUMN reduction_reviewed_at DATETIME DEFAULT NULL COMMENT ''審査日時'' AFTER reduction_reviewed_by,
+    ADD COLUMN reduction_review_comment TEXT DEFAULT NULL COMMENT ''審査のコメント（却下の理由など）'' AFTER reduction_reviewed_at,
+    ADD INDEX idx_reduction_status (reduction_status),
+    ADD FOREIGN KEY (reduction_rule_id) REFERENCES fee_reduction_rules(id) ON DELETE SET NULL,
+    ADD FOREIGN KEY (reduction_reviewed_by) REFERENCES users(id) ON DELETE SET NULL', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 減免の審査結果の通知
+INSERT IGNORE INTO notification_templates (template_code, template_name, description, subject, body_text, available_variables, is_system) VALUES
+('fee_reduction_approved', '減免の承認', '使用料の減免申請を承認した時に送信',
+'【減免承認のお知らせ】{{event_name}}',
+'{{user_name}} 様
+
+申請番号 {{application_id}}（{{event_name}}）の使用料の減免を承認しました。
+
+■減免の内容
+減免の種類: {{rule_name}}
+減免前の金額: {{original_amount}}円
+減免額: {{reduction_amount}}円
+お支払い金額: {{total_amount}}円
+
+マイページからお支払いをお願いします。',
+'["user_name", "application_id", "event_name", "rule_name", "original_amount", "reduction_amount", "total_amount"]',
+TRUE),
+('fee_reduction_rejected', '減免の却下', '使用料の減免申請を却下した時に送信',
+'【減免審査結果のお知らせ】{{event_name}}',
+'{{user_name}} 様
+
+申請番号 {{application_id}}（{{event_name}}）の使用料の減免（{{rule_name}}）は承認されませんでした。
+
+■理由
+{{review_comment}}
+
+お支払い金額は減免前の {{total_amount}}円 です。内容を見直して再度申請することもできます。',
+'["user_name", "application_id", "event_name", "rule_name", "review_comment", "total_amount"]',
+TRUE);
+
+INSERT IGNORE INTO notification_settings (setting_key, setting_name, description, is_enabled, template_code, send_timing) VALUES
+('notify_fee_reduction_approved', '減免の承認通知', '減免申請を承認した時にユーザーに通知', TRUE, 'fee_reduction_approved', 'immediate'),
+('notify_fee_reduction_rejected', '減免の却下通知', '減免申請を却下した時にユーザーに通知', TRUE, 'fee_reduction_rejected', 'immediate');
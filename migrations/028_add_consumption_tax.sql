@@ -0,0 +1,73 @@
+-- Migration 028: 消費税の内訳（適格請求書対応）
+-- Created: 2026-10-18
+-- Description: 税込で設定されている料金について、明細（部屋・設備・空調・物販）ごとに税抜金額・税率・消費税額を保存し、申請には税率ごとに端数処理した消費税額を保存する
+
+-- 消費税の設定
+INSERT IGNORE INTO system_settings (setting_key, setting_value, setting_type, description) VALUES
+('consumption_tax_rate', '10', 'number', '消費税率（%）。料金は税込で設定し、この税率で税抜金額と消費税額を計算する'),
+('tax_rounding', 'floor', 'string', '消費税額の1円未満の端数処理（floor: 切り捨て, round: 四捨五入, ceil: 切り上げ）'),
+('invoice_registration_number', '', 'string', '適格請求書発行事業者の登録番号（T + 13桁）');
+
+-- usages テーブルに料金ごとの税抜金額・消費税額を追加（既に存在する場合はスキップ）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='usages' AND column_name='tax_rate' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages
+    ADD COLUMN tax_rate TINYINT UNSIGNED NOT NULL DEFAULT 10 COMMENT ''適用した消費税率（%）'' AFTER subtotal_amount,
+    ADD COLUMN room_charge_excluding_tax INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''部屋料金（税抜）'' AFTER tax_rate,
+    ADD COLUMN room_tax_amount INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''部屋料金の消費税額'' AFTER room_charge_excluding_tax,
+    ADD COLUMN equipment_charge_excluding_tax INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''設備料金（税抜）'' AFTER room_tax_amount,
+    ADD COLUMN equipment_tax_amount INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''設備料金の消費税額'' AFTER equipment_charge_excluding_tax,
+    ADD COLUMN ac_charge_excluding_tax INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''空調料金（税抜）'' AFTER equipment_tax_amount,
+    ADD COLUMN ac_tax_amount INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''空調料金の消費税額'' AFTER ac_charge_excluding_tax', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 既存の利用明細は税率10%・切り捨てで内訳を補完
+UPDATE usages SET
+  room_tax_amount = FLOOR(room_charge_after_multiplier * 10 / 110),
+  room_charge_excluding_tax = room_charge_after_multiplier - FLOOR(room_charge_after_multiplier * 10 / 110),
+  equipment_tax_amount = FLOOR(equipment_charge * 10 / 110),
+  equipment_charge_excluding_tax = equipment_charge - FLOOR(equipment_charge * 10 / 110),
+  ac_tax_amount = FLOOR(ac_charge * 10 / 110),
+  ac_charge_excluding_tax = ac_charge - FLOOR(ac_charge * 10 / 110)
+WHERE subtotal_amount > 0
+  AND room_charge_excluding_tax = 0 AND equipment_charge_excluding_tax = 0 AND ac_charge_excluding_tax = 0;
+
+-- applications テーブルに請求書の消費税額と税率ごとの内訳を追加
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='tax_amount' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications
+    ADD COLUMN tax_amount INT NOT NULL DEFAULT 0 COMMENT ''消費税額（税率ごとに1回端数処理した合計。キャンセル料は不課税）'' AFTER total_amount,
+    ADD COLUMN tax_breakdown JSON DEFAULT NULL COMMENT ''税率ごとの税込金額・税抜金額・消費税額'' AFTER tax_amount', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- 既存の申請は有効な利用明細の小計から減免額を除いた金額（キャンセル料は不課税）を税率10%として補完
+UPDATE applications a
+INNER JOIN (
+  SELECT application_id, SUM(CASE WHEN cancel_status = 'none' THEN subtotal_amount ELSE 0 END) as taxable_amount
+  FROM usages GROUP BY application_id
+) t ON t.application_id = a.id
+SET
+  a.tax_amount = FLOOR((t.taxable_amount - a.reduction_amount) * 10 / 110),
+  a.tax_breakdown = JSON_ARRAY(JSON_OBJECT(
+    'amount', t.taxable_amount - a.reduction_amount,
+    'taxRate', 10,
+    'taxExcludedAmount', (t.taxable_amount - a.reduction_amount) - FLOOR((t.taxable_amount - a.reduction_amount) * 10 / 110),
+    'taxAmount', FLOOR((t.taxable_amount - a.reduction_amount) * 10 / 110)
+  ))
+WHERE a.tax_breakdown IS NULL;
+
+-- 商品ごとの税率（NULL は標準の消費税率。飲食料品などの軽減税率は 8 を設定）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='products' AND column_name='tax_rate' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE products ADD COLUMN tax_rate TINYINT UNSIGNED DEFAULT NULL COMMENT ''税率（%）。NULL は標準の消費税率'' AFTER price', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- sales テーブルに税抜金額・消費税額を追加
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='sales' AND column_name='tax_rate' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE sales
+    ADD COLUMN tax_rate TINYINT UNSIGNED NOT NULL DEFAULT 10 COMMENT ''適用した消費税率（%）'' AFTER total_price,
+    ADD COLUMN tax_excluded_amount INT NOT NULL DEFAULT 0 COMMENT ''税抜金額'' AFTER tax_rate,
+    ADD COLUMN tax_amount INT NOT NULL DEFAULT 0 COMMENT ''消費税額'' AFTER tax_excluded_amount', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+UPDATE sales SET
+  tax_amount = FLOOR(total_price * 10 / 110),
+  tax_excluded_amount = total_price - FLOOR(total_price * 10 / 110)
+WHERE tax_excluded_amount = 0 AND total_price > 0;
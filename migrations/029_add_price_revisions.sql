@@ -0,0 +1,76 @@
+-- Migration 029: 料金改定の履歴（適用開始日つきの料金表）
+-- Created: 2026-10-18
+-- Description: 部屋・設備の料金を適用開始日つきの料金表として保存し、予約日または利用日に有効な料金表で料金を計算する。職員は将来の料金改定を事前に登録できる
+
+-- 料金表を選ぶ基準日
+INSERT IGNORE INTO system_settings (setting_key, setting_value, setting_type, description) VALUES
+('price_revision_basis', 'usage_date', 'string', '料金改定の適用基準（usage_date: 利用日に有効な料金, booking_date: 予約日に有効な料金）');
+
+CREATE TABLE IF NOT EXISTS room_price_revisions (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    room_id INT UNSIGNED NOT NULL,
+    effective_from DATE NOT NULL COMMENT '適用開始日（次の改定の前日まで有効）',
+    base_price_morning INT UNSIGNED NOT NULL DEFAULT 0,
+    base_price_afternoon INT UNSIGNED NOT NULL DEFAULT 0,
+    base_price_evening INT UNSIGNED NOT NULL DEFAULT 0,
+    extension_price_midday INT UNSIGNED NOT NULL DEFAULT 0,
+    extension_price_evening INT UNSIGNED NOT NULL DEFAULT 0,
+    weekend_price_morning INT UNSIGNED DEFAULT NULL,
+    weekend_price_afternoon INT UNSIGNED DEFAULT NULL,
+    weekend_price_evening INT UNSIGNED DEFAULT NULL,
+    weekend_extension_price_midday INT UNSIGNED DEFAULT NULL,
+    weekend_extension_price_evening INT UNSIGNED DEFAULT NULL,
+    ac_price_per_hour INT UNSIGNED NOT NULL DEFAULT 0,
+    price_per_unit INT UNSIGNED DEFAULT NULL COMMENT '自由時間制の平日の単位あたり料金',
+    weekend_price_per_unit INT UNSIGNED DEFAULT NULL COMMENT '自由時間制の土日祝日の単位あたり料金',
+    time_slot_prices JSON DEFAULT NULL COMMENT '時間帯ごとの料金 [{time_slot_id, base_price, weekend_price}]',
+    note VARCHAR(255) DEFAULT NULL COMMENT '改定の理由・メモ',
+    created_by INT UNSIGNED DEFAULT NULL COMMENT '登録した職員',
+    applied_at DATETIME DEFAULT NULL COMMENT '部屋の現在の料金に反映した日時',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_room_effective_from (room_id, effective_from),
+    INDEX idx_pending (applied_at, effective_from),
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='部屋の料金改定の履歴';
+
+CREATE TABLE IF NOT EXISTS equipment_price_revisions (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    equipment_id INT UNSIGNED NOT NULL,
+    effective_from DATE NOT NULL COMMENT '適用開始日（次の改定の前日まで有効）',
+    price_type ENUM('per_slot', 'flat', 'free') NOT NULL DEFAULT 'per_slot',
+    unit_price INT UNSIGNED NOT NULL DEFAULT 0,
+    note VARCHAR(255) DEFAULT NULL COMMENT '改定の理由・メモ',
+    created_by INT UNSIGNED DEFAULT NULL COMMENT '登録した職員',
+    applied_at DATETIME DEFAULT NULL COMMENT '設備の現在の料金に反映した日時',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_equipment_effective_from (equipment_id, effective_from),
+    INDEX idx_pending (applied_at, effective_from),
+    FOREIGN KEY (equipment_id) REFERENCES equipment(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='設備の料金改定の履歴';
+
+-- 現在の料金を最初の料金表として登録（既存の予約の料金が改定で変わらないよう、過去の日付から有効とする）
+INSERT IGNORE INTO room_price_revisions (
+  room_id, effective_from,
+  base_price_morning, base_price_afternoon, base_price_evening, extension_price_midday, extension_price_evening,
+  weekend_price_morning, weekend_price_afternoon, weekend_price_evening,
+  weekend_extension_price_midday, weekend_extension_price_evening,
+  ac_price_per_hour, price_per_unit, weekend_price_per_unit, time_slot_prices, note, applied_at
+)
+SELECT
+  r.id, '2000-01-01',
+  r.base_price_morning, r.base_price_afternoon, r.base_price_evening, r.extension_price_midday, r.extension_price_evening,
+  r.weekend_price_morning, r.weekend_price_afternoon, r.weekend_price_evening,
+  r.weekend_extension_price_midday, r.weekend_extension_price_evening,
+  r.ac_price_per_hour, r.price_per_unit, r.weekend_price_per_unit,
+  (SELECT JSON_ARRAYAGG(JSON_OBJECT('time_slot_id', p.time_slot_id, 'base_price', p.base_price, 'weekend_price', p.weekend_price))
+   FROM room_time_slot_prices p WHERE p.room_id = r.id),
+  '料金改定の履歴の開始時点の料金', NOW()
+FROM rooms r;
+
+INSERT IGNORE INTO equipment_price_revisions (equipment_id, effective_from, price_type, unit_price, note, applied_at)
+SELECT e.id, '2000-01-01', e.price_type, e.unit_price, '料金改定の履歴の開始時点の料金', NOW()
+FROM equipment e;
@@ -0,0 +1,23 @@
+-- Migration 030: 料金期間（繁忙期・特別期間の料金）
+-- Created: 2026-10-18
+-- Description: 祭りの期間や年末年始などの期間を指定し、部屋料金を倍率または固定料金で変更する。対象の部屋・時間帯を限定できる
+
+CREATE TABLE IF NOT EXISTS pricing_periods (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL COMMENT '期間名（例: 夏祭り期間、年末年始）',
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL COMMENT '終了日（この日を含む）',
+    room_ids JSON DEFAULT NULL COMMENT '対象の部屋ID（NULL = すべての部屋）',
+    time_slot_codes JSON DEFAULT NULL COMMENT '対象の時間帯コード（NULL = すべての時間帯と自由時間制の部屋）',
+    adjustment_type ENUM('multiplier', 'fixed_price') NOT NULL DEFAULT 'multiplier' COMMENT 'multiplier: 通常の料金に倍率を掛ける, fixed_price: 固定料金（平日・土日祝日料金より優先）',
+    multiplier DECIMAL(5,2) DEFAULT NULL COMMENT '倍率',
+    price INT UNSIGNED DEFAULT NULL COMMENT '固定料金（時間帯あたり、自由時間制は単位あたり）',
+    weekend_price INT UNSIGNED DEFAULT NULL COMMENT '土日祝日の固定料金（NULL = price を使用）',
+    priority INT NOT NULL DEFAULT 0 COMMENT '期間が重なる場合は値が大きいものを適用',
+    description VARCHAR(255) DEFAULT NULL,
+    created_by INT UNSIGNED DEFAULT NULL COMMENT '登録した職員',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_dates (start_date, end_date),
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='料金期間（繁忙期・特別期間の料金）';
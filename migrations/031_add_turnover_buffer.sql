@@ -0,0 +1,8 @@
+-- Migration 031: 準備・片付け（転換）時間
+-- Created: 2026-10-18
+-- Description: 部屋ごとに予約の前後に空ける転換時間を設定し、申請の準備開始日時（setup_datetime）とあわせて空き状況の計算に含める
+
+-- rooms テーブルに転換時間を追加（0 の場合は前後の予約を連続して受け付ける）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='rooms' AND column_name='turnover_buffer_minutes' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE rooms ADD COLUMN turnover_buffer_minutes INT UNSIGNED NOT NULL DEFAULT 0 COMMENT ''予約の前後に空ける転換時間（分）'' AFTER max_reservation_count', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
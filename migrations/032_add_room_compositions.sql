@@ -0,0 +1,15 @@
+-- Migration 032: 部屋の構成（全体・分割して貸し出す部屋）
+-- Created: 2026-10-18
+-- Description: 大ホールを「ホールA」「ホールB」に分割して貸し出す場合など、全体の部屋と分割した部屋を関連づける。
+--              全体の部屋の予約は分割した部屋をすべて使えなくし、分割した部屋の予約は全体の部屋を使えなくする
+
+CREATE TABLE IF NOT EXISTS room_compositions (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    combined_room_id INT UNSIGNED NOT NULL COMMENT '全体の部屋',
+    part_room_id INT UNSIGNED NOT NULL COMMENT '全体の部屋を構成する（分割した）部屋',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_combined_part (combined_room_id, part_room_id),
+    INDEX idx_part_room (part_room_id),
+    FOREIGN KEY (combined_room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+    FOREIGN KEY (part_room_id) REFERENCES rooms(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='全体の部屋と分割した部屋の構成';
@@ -0,0 +1,37 @@
+-- Migration 033: 部屋ごとの利用ルールと定員（レイアウト別の定員を含む）
+-- Created: 2026-10-18
+-- Description: 部屋ごとに禁止する利用内容（音響機器を使った演奏・飲食など）とレイアウト別の定員を設定し、
+--              申請時に参加予定人数・利用内容を確認する。職員は理由を記録して確認を省略できる
+
+-- rooms テーブルに禁止する利用内容を追加（NULL: 制限なし）
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='rooms' AND column_name='prohibited_activities' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE rooms ADD COLUMN prohibited_activities JSON DEFAULT NULL COMMENT ''禁止する利用内容のコード（amplified_music, food など）'' AFTER capacity', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+CREATE TABLE IF NOT EXISTS room_layouts (
+    id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    room_id INT UNSIGNED NOT NULL,
+    name VARCHAR(100) NOT NULL COMMENT 'レイアウト名（シアター形式、スクール形式など）',
+    capacity INT UNSIGNED NOT NULL COMMENT 'このレイアウトの定員',
+    display_order INT NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_room (room_id, display_order),
+    FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci COMMENT='部屋のレイアウト別の定員';
+
+-- usages テーブルに利用するレイアウトを追加
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='usages' AND column_name='layout_id' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE usages ADD COLUMN layout_id INT UNSIGNED DEFAULT NULL COMMENT ''利用するレイアウト（NULL: 指定なし）'' AFTER room_id, ADD CONSTRAINT fk_usages_layout FOREIGN KEY (layout_id) REFERENCES room_layouts(id) ON DELETE SET NULL', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- applications テーブルに申請者が申告した利用内容を追加
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='activities' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN activities JSON DEFAULT NULL COMMENT ''申告した利用内容のコード'' AFTER expected_attendees', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
+
+-- applications テーブルに職員による利用ルール・定員の確認の省略を追加
+SET @sql = IF((SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS WHERE table_name='applications' AND column_name='rule_override_reason' AND table_schema=DATABASE()) = 0,
+  'ALTER TABLE applications ADD COLUMN rule_override_reason VARCHAR(255) DEFAULT NULL COMMENT ''利用ルール・定員の確認を省略した理由'' AFTER activities, ADD COLUMN rule_override_by INT UNSIGNED DEFAULT NULL COMMENT ''確認を省略した職員'' AFTER rule_override_reason, ADD COLUMN rule_override_at DATETIME DEFAULT NULL AFTER rule_override_by', 'SELECT 1');
+PREPARE stmt FROM @sql; EXECUTE stmt; DEALLOCATE PREPARE stmt;
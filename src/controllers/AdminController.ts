@@ -2,10 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import ApplicationRepository from '../models/ApplicationRepository';
 import RoomRepository from '../models/RoomRepository';
 import EquipmentRepository from '../models/EquipmentRepository';
-import { calculateCancellationFee } from '../utils/pricing';
 import { createError } from '../middleware/errorHandler';
 import { emailService } from '../services/EmailService';
 import PaymentService from '../services/PaymentService';
+import CancellationPolicyService from '../services/CancellationPolicyService';
+import WaitlistService from '../services/WaitlistService';
+import PriceRevisionService from '../services/PriceRevisionService';
 
 export class AdminController {
   /**
@@ -86,18 +88,9 @@ export class AdminController {
         return;
       }
 
-      // Calculate cancellation fee
-      let totalCancellationFee = 0;
-      const cancelledAt = new Date();
-
-      for (const usage of result.usages) {
-        const fee = calculateCancellationFee(
-          usage.date,
-          cancelledAt,
-          usage.subtotal_amount
-        );
-        totalCancellationFee += fee;
-      }
+      // Calculate cancellation fee with the policy version stored on the application
+      const preview = await CancellationPolicyService.previewCancellation(result.application, result.usages);
+      const totalCancellationFee = preview.cancellation_fee;
 
       // Cancel application
       const application = await ApplicationRepository.cancel(
@@ -105,6 +98,9 @@ export class AdminController {
         totalCancellationFee
       );
 
+      // Offer the released slots to the waitlist
+      await WaitlistService.offerReleasedApplication(application.id);
+
       // Refund if applicable
       if (application.payment_status === 'paid' && application.payment_provider_id) {
         const refundAmount = application.total_amount - totalCancellationFee;
@@ -183,6 +179,7 @@ export class AdminController {
   static async createRoom(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const room = await RoomRepository.create(req.body);
+      await PriceRevisionService.recordRoomPrices(room.id, req.user?.userId ?? null);
       res.status(201).json({ message: 'Room created successfully', room });
     } catch (error: any) {
       next(createError(error.message, 400));
@@ -192,7 +189,11 @@ export class AdminController {
   static async updateRoom(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      await PriceRevisionService.applyDueRevisions();
       const room = await RoomRepository.update(parseInt(id, 10), req.body);
+      if (PriceRevisionService.hasPriceChanges(req.body)) {
+        await PriceRevisionService.recordRoomPrices(room.id, req.user?.userId ?? null);
+      }
       res.json({ message: 'Room updated successfully', room });
     } catch (error: any) {
       next(createError(error.message, 400));
@@ -224,6 +225,7 @@ export class AdminController {
   static async createEquipment(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const equipment = await EquipmentRepository.create(req.body);
+      await PriceRevisionService.recordEquipmentPrices(equipment.id, req.user?.userId ?? null);
       res.status(201).json({ message: 'Equipment created successfully', equipment });
     } catch (error: any) {
       next(createError(error.message, 400));
@@ -233,7 +235,11 @@ export class AdminController {
   static async updateEquipment(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      await PriceRevisionService.applyDueRevisions();
       const equipment = await EquipmentRepository.update(parseInt(id, 10), req.body);
+      if (PriceRevisionService.hasPriceChanges(req.body)) {
+        await PriceRevisionService.recordEquipmentPrices(equipment.id, req.user?.userId ?? null);
+      }
       res.json({ message: 'Equipment updated successfully', equipment });
     } catch (error: any) {
       next(createError(error.message, 400));
@@ -2,22 +2,25 @@ import { Request, Response, NextFunction } from 'express';
 import { body } from 'express-validator';
 import ApplicationRepository from '../models/ApplicationRepository';
 import RoomRepository from '../models/RoomRepository';
-import EquipmentRepository from '../models/EquipmentRepository';
-import AvailabilityRepository from '../models/AvailabilityRepository';
 import {
   calculateTicketMultiplier,
-  calculateUsageCharges,
-  validateUsageInput,
   calculateApplicationTotal,
 } from '../utils/pricing';
 import { handleValidationErrors } from '../utils/validation';
 import { createError } from '../middleware/errorHandler';
 import PaymentService from '../services/PaymentService';
 import UserActivityLogService from '../services/UserActivityLogService';
+import SystemSettingsService from '../services/SystemSettingsService';
+import ReservationPricingService from '../services/ReservationPricingService';
+import RecurringReservationService, { RecurrenceOccurrence } from '../services/RecurringReservationService';
+import WaitlistService from '../services/WaitlistService';
+import TentativeHoldService from '../services/TentativeHoldService';
+import UsageRuleService from '../services/UsageRuleService';
 import { emailService } from '../services/EmailService';
 import { notificationService } from '../services/NotificationService';
-import { CreateApplicationDto, CreateUsageDto } from '../models/types';
+import { CreateApplicationDto } from '../models/types';
 import { getClientIp, getUserAgent } from '../utils/ipHelper';
+import { USAGE_ACTIVITIES } from '../utils/usageRules';
 
 export class ApplicationController {
   /**
@@ -31,6 +34,32 @@ export class ApplicationController {
     body('entrance_fee_type').isIn(['free', 'paid']).withMessage('Invalid entrance fee type'),
     body('entrance_fee_amount').isInt({ min: 0 }).withMessage('Entrance fee amount must be non-negative'),
     body('usages').isArray({ min: 1 }).withMessage('At least one usage is required'),
+    body('expected_attendees').optional({ nullable: true, checkFalsy: true }).isInt({ min: 1 }).withMessage('Expected attendees must be a positive integer'),
+    body('activities').optional().isArray().withMessage('Activities must be an array'),
+    body('activities.*').optional().isIn(USAGE_ACTIVITIES).withMessage('Invalid activity'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 定期予約のプレビューの入力チェック
+   */
+  static previewRecurrenceValidation = [
+    body('entrance_fee_type').isIn(['free', 'paid']).withMessage('Invalid entrance fee type'),
+    body('entrance_fee_amount').isInt({ min: 0 }).withMessage('Entrance fee amount must be non-negative'),
+    body('usages').isArray({ min: 1 }).withMessage('At least one usage is required'),
+    body('recurrence.frequency').isIn(['weekly', 'monthly']).withMessage('Invalid recurrence frequency'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 見積もりの入力チェック（申請と同じ内容を受け付け、申請者情報は確認しない）
+   */
+  static quoteValidation = [
+    body('entrance_fee_type').isIn(['free', 'paid']).withMessage('Invalid entrance fee type'),
+    body('entrance_fee_amount').isInt({ min: 0 }).withMessage('Entrance fee amount must be non-negative'),
+    body('usages').isArray({ min: 1 }).withMessage('At least one usage is required'),
+    body('activities').optional().isArray().withMessage('Activities must be an array'),
+    body('activities.*').optional().isIn(USAGE_ACTIVITIES).withMessage('Invalid activity'),
     handleValidationErrors,
   ];
 
@@ -40,6 +69,23 @@ export class ApplicationController {
   static async createApplication(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const applicationDto: CreateApplicationDto = req.body;
+      const userId = req.user?.userId || null;
+
+      // 期限切れの仮予約・空き待ちの案内を終了（確保していた時間帯を解放）
+      await TentativeHoldService.processExpiredHolds();
+      await WaitlistService.processExpiredOffers();
+
+      // 仮予約は件数の上限を確認し、期限を設定（定期予約は対象外）
+      let holdExpiresAt: Date | null = null;
+      let maxHolds: number | undefined;
+      if (applicationDto.tentative) {
+        if (applicationDto.recurrence) {
+          throw createError('定期予約は仮予約としてお申し込みいただけません', 400);
+        }
+        const hold = await TentativeHoldService.prepareHold(userId);
+        holdExpiresAt = hold.expiresAt;
+        maxHolds = hold.maxHolds;
+      }
 
       // Calculate ticket multiplier
       const ticketMultiplier = calculateTicketMultiplier(
@@ -47,154 +93,51 @@ export class ApplicationController {
         applicationDto.entrance_fee_amount
       );
 
-      // Process each usage
-      const usagesData: any[] = [];
-      const equipmentData: any[] = [];
-      let totalAmount = 0;
-
-      for (let i = 0; i < applicationDto.usages.length; i++) {
-        const usageDto: CreateUsageDto = applicationDto.usages[i];
-
-        // Validate usage input
-        const validation = validateUsageInput({
-          useMorning: usageDto.use_morning,
-          useAfternoon: usageDto.use_afternoon,
-          useEvening: usageDto.use_evening,
-          useMiddayExtension: usageDto.use_midday_extension,
-          useEveningExtension: usageDto.use_evening_extension,
-          acRequested: usageDto.ac_requested,
-        });
-
-        if (!validation.valid) {
-          next(createError(`Usage ${i + 1}: ${validation.error}`, 400));
-          return;
-        }
+      // 参加予定人数・利用内容は部屋の定員・利用ルールと照合する
+      const usageRules = UsageRuleService.declarationOf(applicationDto);
 
-        // Get room data
-        const room = await RoomRepository.findById(usageDto.room_id);
-        if (!room) {
-          next(createError(`Room ID ${usageDto.room_id} not found`, 404));
-          return;
-        }
-
-        // Check for inventory availability (在庫チェック)
-        const isAvailable = await RoomRepository.checkAvailability(
-          usageDto.room_id,
-          usageDto.date,
-          usageDto.use_morning,
-          usageDto.use_afternoon,
-          usageDto.use_evening
+      // 定期予約は1件目の利用内容を各回に展開（予約できない回がある場合は申請前に確認を求める）
+      let usages = applicationDto.usages;
+      let skippedOccurrences: RecurrenceOccurrence[] = [];
+      if (applicationDto.recurrence) {
+        const occurrences = await RecurringReservationService.previewOccurrences(
+          applicationDto.usages[0],
+          applicationDto.recurrence,
+          ticketMultiplier,
+          { userId, usageRules }
         );
+        const unavailable = occurrences.filter((occurrence) => occurrence.status !== 'available');
 
-        if (!isAvailable) {
-          next(createError(`Room "${room.name}" is not available on ${usageDto.date} for the requested time slots (満室です)`, 409));
+        if (unavailable.length > 0 && !applicationDto.recurrence.skip_conflicts) {
+          res.status(409).json({
+            error: `${unavailable.length}回分が休館日・祝日・満室などのため予約できません`,
+            occurrences,
+          });
           return;
         }
 
-        // Check if date is available
-        const dateAvailable = await AvailabilityRepository.checkSlotAvailability(
-          usageDto.room_id,
-          usageDto.date,
-          'morning' // We'll do detailed check below
-        );
-
-        // Get equipment data
-        const equipmentUsages: any[] = [];
-        if (usageDto.equipment && usageDto.equipment.length > 0) {
-          const equipmentIds = usageDto.equipment.map((e) => e.equipment_id);
-          const equipmentItems = await EquipmentRepository.findByIds(equipmentIds);
-
-          for (const equipDto of usageDto.equipment) {
-            const equipment = equipmentItems.find((e) => e.id === equipDto.equipment_id);
-            if (!equipment) {
-              next(createError(`Equipment ID ${equipDto.equipment_id} not found`, 404));
-              return;
-            }
-
-            if (equipDto.quantity > equipment.max_quantity) {
-              next(
-                createError(
-                  `Equipment "${equipment.name}" quantity exceeds maximum (${equipment.max_quantity})`,
-                  400
-                )
-              );
-              return;
-            }
-
-            // Calculate slot count
-            let slotCount = 0;
-            if (usageDto.use_morning) slotCount++;
-            if (usageDto.use_afternoon) slotCount++;
-            if (usageDto.use_evening) slotCount++;
-
-            equipmentUsages.push({
-              equipmentId: equipment.id,
-              priceType: equipment.price_type,
-              unitPrice: equipment.unit_price,
-              quantity: equipDto.quantity,
-              slotCount,
-            });
-          }
+        skippedOccurrences = unavailable;
+        usages = RecurringReservationService.availableUsages(applicationDto.usages[0], occurrences);
+        if (usages.length === 0) {
+          throw createError('予約できる回がありません', 409);
         }
+      }
 
-        // Calculate charges for this usage
-        const charges = await calculateUsageCharges(
-          room,
-          {
-            useMorning: usageDto.use_morning,
-            useAfternoon: usageDto.use_afternoon,
-            useEvening: usageDto.use_evening,
-            useMiddayExtension: usageDto.use_midday_extension,
-            useEveningExtension: usageDto.use_evening_extension,
-            acRequested: usageDto.ac_requested,
-            acHours: undefined, // Will be filled by staff later
-          },
-          equipmentUsages,
-          ticketMultiplier,
-          usageDto.date
-        );
+      // Validate and price each usage
+      const { usagesData, equipmentData, totalAmount } = await ReservationPricingService.priceUsages(
+        usages,
+        ticketMultiplier,
+        { userId, usageRules }
+      );
 
-        totalAmount += charges.subtotalAmount;
-
-        // Prepare usage data for database
-        usagesData.push({
-          room_id: usageDto.room_id,
-          date: usageDto.date,
-          use_morning: usageDto.use_morning,
-          use_afternoon: usageDto.use_afternoon,
-          use_evening: usageDto.use_evening,
-          use_midday_extension: usageDto.use_midday_extension,
-          use_evening_extension: usageDto.use_evening_extension,
-          ac_requested: usageDto.ac_requested,
-          ac_hours: null,
-          room_base_charge_before_multiplier: charges.roomBaseChargeBeforeMultiplier,
-          room_charge_after_multiplier: charges.roomChargeAfterMultiplier,
-          equipment_charge: charges.equipmentCharge,
-          ac_charge: 0, // Will be calculated later
-          subtotal_amount: charges.subtotalAmount,
-        });
-
-        // Prepare equipment data
-        if (equipmentUsages.length > 0) {
-          equipmentData.push({
-            usageIndex: i,
-            equipment: equipmentUsages.map((e, idx) => ({
-              equipment_id: usageDto.equipment[idx].equipment_id,
-              quantity: usageDto.equipment[idx].quantity,
-              slot_count: e.slotCount,
-              line_amount: e.priceType === 'per_slot'
-                ? e.unitPrice * e.quantity * e.slotCount
-                : e.priceType === 'flat'
-                ? e.unitPrice
-                : 0,
-            })),
-          });
-        }
-      }
+      // 承認制の場合は承認待ちとして登録し、決済は承認後に行う
+      const requireApproval = (await SystemSettingsService.getSettingValue('require_approval')) === true;
+      // 仮予約は本予約に確定してから決済する
+      const autoPay = !requireApproval && !holdExpiresAt && !!applicationDto.auto_pay;
 
       // Create application data
       const applicationData = {
-        user_id: req.user?.userId || null,
+        user_id: userId,
         applicant_address: applicationDto.applicant_address || null,
         applicant_group_name: applicationDto.applicant_group_name || null,
         applicant_representative: applicationDto.applicant_representative,
@@ -218,9 +161,14 @@ export class ApplicationController {
         start_time: applicationDto.start_time || null,
         end_time: applicationDto.end_time || null,
         remarks: applicationDto.remarks || null,
+        recurrence_rule: applicationDto.recurrence ? RecurringReservationService.toRule(applicationDto.recurrence) : null,
+        activities: usageRules.activities,
         total_amount: totalAmount,
-        payment_status: (applicationDto.auto_pay ? 'paid' : 'unpaid') as 'paid' | 'unpaid',
-        payment_provider_id: applicationDto.auto_pay ? 'demo_payment' : null,
+        payment_status: (autoPay ? 'paid' : 'unpaid') as 'paid' | 'unpaid',
+        payment_provider_id: autoPay ? 'demo_payment' : null,
+        approval_status: (requireApproval ? 'pending' : 'not_required') as 'pending' | 'not_required',
+        hold_status: (holdExpiresAt ? 'tentative' : 'none') as 'tentative' | 'none',
+        hold_expires_at: holdExpiresAt,
         cancel_status: 'none' as const,
         cancelled_at: null,
         cancellation_fee: 0,
@@ -230,9 +178,15 @@ export class ApplicationController {
       const result = await ApplicationRepository.createWithUsages(
         applicationData,
         usagesData,
-        equipmentData
+        equipmentData,
+        maxHolds
       );
 
+      // 空き待ちの案内を受けて予約した時間帯は案内を完了にする
+      if (userId) {
+        await WaitlistService.acceptOffers(userId, result.usages);
+      }
+
       // TODO: Initiate payment if required
       // For now, we'll mark as unpaid (未決済) unless auto_pay is true
 
@@ -293,12 +247,81 @@ export class ApplicationController {
       }
 
       res.status(201).json({
-        message: 'Application created successfully',
+        message: holdExpiresAt
+          ? 'Tentative hold created. Please confirm it before it expires'
+          : requireApproval
+            ? 'Application submitted and is awaiting staff approval'
+            : 'Application created successfully',
         application: result.application,
         usages: result.usages,
+        ...(applicationDto.recurrence && { skipped_occurrences: skippedOccurrences }),
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
+  /**
+   * 申請内容の料金の内訳と予約できない理由を確認（予約は行わない）
+   */
+  static async quote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const applicationDto: CreateApplicationDto = req.body;
+
+      const ticketMultiplier = calculateTicketMultiplier(
+        applicationDto.entrance_fee_type,
+        applicationDto.entrance_fee_amount
+      );
+
+      // 定期予約は各回に展開して見積もる
+      const usages = applicationDto.recurrence
+        ? RecurringReservationService.expandUsages(applicationDto.usages[0], applicationDto.recurrence)
+        : applicationDto.usages;
+
+      const quote = await ReservationPricingService.quoteUsages(usages, ticketMultiplier, {
+        userId: req.user?.userId || null,
+        usageRules: UsageRuleService.declarationOf(applicationDto),
+      });
+
+      res.json(quote);
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
+  /**
+   * 定期予約の各回の予約可否と料金を確認（申請前のプレビュー、予約は行わない）
+   */
+  static async previewRecurrence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const applicationDto: CreateApplicationDto = req.body;
+
+      if (!applicationDto.recurrence) {
+        next(createError('Recurrence is required', 400));
+        return;
+      }
+
+      const ticketMultiplier = calculateTicketMultiplier(
+        applicationDto.entrance_fee_type,
+        applicationDto.entrance_fee_amount
+      );
+
+      const occurrences = await RecurringReservationService.previewOccurrences(
+        applicationDto.usages[0],
+        applicationDto.recurrence,
+        ticketMultiplier,
+        { userId: req.user?.userId || null, usageRules: UsageRuleService.declarationOf(applicationDto) }
+      );
+      const available = occurrences.filter((occurrence) => occurrence.status === 'available');
+
+      res.json({
+        occurrences,
+        available_count: available.length,
+        unavailable_count: occurrences.length - available.length,
+        total_amount: available.reduce((sum, occurrence) => sum + (occurrence.subtotal_amount || 0), 0),
       });
     } catch (error: any) {
-      next(createError(error.message, 400));
+      next(error.statusCode ? error : createError(error.message, 400));
     }
   }
 
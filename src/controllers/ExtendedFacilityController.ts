@@ -76,7 +76,7 @@ export class ExtendedFacilityController {
       }
 
       const { roomId, timeSlotId } = req.params;
-      const { basePrice, acPricePerHour, isAvailable } = req.body;
+      const { basePrice, weekendPrice, acPricePerHour, isAvailable } = req.body;
 
       await TimeSlotManagementService.setRoomTimeSlotPrices(
         parseInt(roomId),
@@ -84,7 +84,8 @@ export class ExtendedFacilityController {
         req.user.userId,
         basePrice,
         acPricePerHour,
-        isAvailable
+        isAvailable,
+        weekendPrice === undefined || weekendPrice === '' ? null : weekendPrice
       );
 
       res.json({ message: 'Room time slot prices set successfully' });
@@ -213,13 +214,17 @@ export class ExtendedFacilityController {
         return;
       }
 
-      const { userId, notes, ...applicationData } = req.body;
+      const { userId, notes, overrideBookingWindow, ruleOverrideReason, ...applicationData } = req.body;
 
       const application = await ProxyReservationService.createForMember(
         req.user.userId,
         userId,
         applicationData,
-        notes
+        notes,
+        {
+          overrideBookingWindow: overrideBookingWindow === true,
+          ruleOverrideReason: typeof ruleOverrideReason === 'string' ? ruleOverrideReason.trim() || null : null,
+        }
       );
 
       res.status(201).json(application);
@@ -235,12 +240,16 @@ export class ExtendedFacilityController {
         return;
       }
 
-      const { notes, ...applicationData } = req.body;
+      const { notes, overrideBookingWindow, ruleOverrideReason, ...applicationData } = req.body;
 
       const application = await ProxyReservationService.createForGuest(
         req.user.userId,
         applicationData,
-        notes
+        notes,
+        {
+          overrideBookingWindow: overrideBookingWindow === true,
+          ruleOverrideReason: typeof ruleOverrideReason === 'string' ? ruleOverrideReason.trim() || null : null,
+        }
       );
 
       res.status(201).json(application);
@@ -249,6 +258,30 @@ export class ExtendedFacilityController {
     }
   }
 
+  static async quoteProxyReservation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId, notes, overrideBookingWindow, ruleOverrideReason, ...applicationData } = req.body;
+
+      if (!Array.isArray(applicationData.usages) || applicationData.usages.length === 0) {
+        res.status(400).json({ error: 'At least one usage is required' });
+        return;
+      }
+
+      const quote = await ProxyReservationService.quote(
+        applicationData,
+        userId ? parseInt(userId, 10) : null,
+        {
+          overrideBookingWindow: overrideBookingWindow === true,
+          ruleOverrideReason: typeof ruleOverrideReason === 'string' ? ruleOverrideReason.trim() || null : null,
+        }
+      );
+
+      res.json(quote);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   static async getProxyReservations(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { staffId } = req.query;
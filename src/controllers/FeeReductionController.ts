@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import FeeReductionService from '../services/FeeReductionService';
+import { handleValidationErrors } from '../utils/validation';
+import { createError } from '../middleware/errorHandler';
+
+// 減免の証明書類は個人情報を含むため、公開されない保存先（/uploads 以外）に保存する
+export const FEE_REDUCTION_STORAGE_DIR = path.join(process.cwd(), 'storage/fee-reductions');
+
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    if (!fs.existsSync(FEE_REDUCTION_STORAGE_DIR)) {
+      fs.mkdirSync(FEE_REDUCTION_STORAGE_DIR, { recursive: true });
+    }
+    cb(null, FEE_REDUCTION_STORAGE_DIR);
+  },
+  filename: (req, file, cb) => {
+    const ext = path.extname(file.originalname);
+    cb(null, `reduction_${req.params.id}_${Date.now()}${ext}`);
+  },
+});
+
+const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  // 許可する形式（証明書のPDF・スキャン画像）
+  const allowedMimes = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'];
+
+  if (allowedMimes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('証明書類はPDFまたは画像ファイル（JPEG, PNG）でアップロードしてください'));
+  }
+};
+
+export const feeReductionAttachmentUpload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB
+  },
+});
+
+/**
+ * 使用料の減免コントローラー（減免の種類の公開・申請者による申請）
+ */
+export class FeeReductionController {
+  /**
+   * 減免申請の入力チェック
+   */
+  static requestValidation = [
+    body('rule_id').isInt({ min: 1 }).withMessage('減免の種類を選択してください'),
+    body('reason').trim().notEmpty().withMessage('減免を申請する理由を入力してください')
+      .isLength({ max: 2000 }).withMessage('理由は2000文字以内で入力してください'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 申請が受け付けられなかった場合（入力チェックのエラーを含む）にアップロードされた証明書類を削除
+   * multer の後、入力チェックの前に設定する
+   */
+  static discardAttachmentOnError(req: Request, res: Response, next: NextFunction): void {
+    res.on('finish', () => {
+      if (req.file && res.statusCode >= 400) {
+        fs.promises.unlink(req.file.path).catch(() => undefined);
+      }
+    });
+    next();
+  }
+
+  /**
+   * 申請できる減免の種類の一覧
+   */
+  static async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await FeeReductionService.getRules(true);
+
+      res.json({ rules });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 500));
+    }
+  }
+
+  /**
+   * 自分の予約について減免を申請
+   */
+  static async request(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const reduction = await FeeReductionService.request(
+        req.user.userId,
+        parseInt(req.params.id, 10),
+        Number(req.body.rule_id),
+        req.body.reason,
+        req.file ? req.file.path : null
+      );
+
+      res.status(201).json({
+        message: '使用料の減免を申請しました。審査結果はメールでお知らせします',
+        reduction,
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import LotteryService from '../services/LotteryService';
+import { handleValidationErrors } from '../utils/validation';
+import { createError } from '../middleware/errorHandler';
+
+/**
+ * 抽選コントローラー（ログイン中の利用者）
+ */
+export class LotteryController {
+  /**
+   * 応募の入力チェック
+   */
+  static enterValidation = [
+    body('event_name').trim().notEmpty().withMessage('Event name is required'),
+    body('entrance_fee_type').isIn(['free', 'paid']).withMessage('Entrance fee type must be free or paid'),
+    body('entrance_fee_amount').optional().isInt({ min: 0 }).withMessage('Entrance fee amount must be 0 or more'),
+    body('preferences').isArray({ min: 1 }).withMessage('Preferences are required'),
+    body('preferences.*.date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be YYYY-MM-DD'),
+    body('preferences.*.time_slot_ids').isArray({ min: 1 }).withMessage('Time slot IDs are required'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 受付中の抽選一覧を取得
+   */
+  static async getOpenRounds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const now = new Date();
+      const rounds = (await LotteryService.getRounds({ status: 'accepting' }))
+        .filter((round) => new Date(round.entry_end_at) > now);
+
+      res.json({ rounds });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 500));
+    }
+  }
+
+  /**
+   * 自分の応募一覧を取得
+   */
+  static async getMyEntries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const entries = await LotteryService.getUserEntries(req.user.userId);
+
+      res.json({ entries });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 500));
+    }
+  }
+
+  /**
+   * 抽選に応募
+   */
+  static async enter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const entry = await LotteryService.enter(req.user.userId, parseInt(req.params.roundId, 10), {
+        event_name: req.body.event_name,
+        expected_attendees: req.body.expected_attendees ? Number(req.body.expected_attendees) : undefined,
+        entrance_fee_type: req.body.entrance_fee_type,
+        entrance_fee_amount: Number(req.body.entrance_fee_amount || 0),
+        preferences: req.body.preferences.map((preference: any) => ({
+          date: preference.date,
+          time_slot_ids: preference.time_slot_ids.map(Number),
+        })),
+      });
+
+      res.status(201).json({
+        message: '抽選に応募しました。抽選結果はメールでお知らせします',
+        entry,
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
+  /**
+   * 応募を取り下げる
+   */
+  static async withdraw(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      await LotteryService.withdraw(req.user.userId, parseInt(req.params.id, 10));
+
+      res.json({ message: '抽選への応募を取り下げました' });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+}
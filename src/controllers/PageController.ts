@@ -4,6 +4,8 @@ import UserProfileService from '../services/UserProfileService';
 import RoomRepository from '../models/RoomRepository';
 import ApplicationRepository from '../models/ApplicationRepository';
 import UserActivityLogService from '../services/UserActivityLogService';
+import FeeReductionService from '../services/FeeReductionService';
+import TaxService from '../services/TaxService';
 import { getClientIp, getUserAgent } from '../utils/ipHelper';
 
 /**
@@ -203,6 +205,9 @@ export class PageController {
         user: req.user,
         application: result.application,
         usages: usagesWithDetails,
+        feeReduction: await FeeReductionService.getSummary(result.application),
+        feeReductionRules: await FeeReductionService.getRules(true),
+        tax: await TaxService.getApplicationTaxDetail(result.application),
       });
     } catch (error: any) {
       next(createError(error.message, 500));
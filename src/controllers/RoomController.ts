@@ -2,8 +2,16 @@ import { Request, Response, NextFunction } from 'express';
 import RoomRepository from '../models/RoomRepository';
 import EquipmentRepository from '../models/EquipmentRepository';
 import AvailabilityRepository from '../models/AvailabilityRepository';
+import TimeSlotRepository from '../models/TimeSlotRepository';
 import { createError } from '../middleware/errorHandler';
 import UserActivityLogService from '../services/UserActivityLogService';
+import FlexibleTimeService from '../services/FlexibleTimeService';
+import WaitlistService from '../services/WaitlistService';
+import TentativeHoldService from '../services/TentativeHoldService';
+import BookingWindowService from '../services/BookingWindowService';
+import PriceRevisionService from '../services/PriceRevisionService';
+import UsageRuleService from '../services/UsageRuleService';
+import AvailabilitySearchService from '../services/AvailabilitySearchService';
 import { getClientIp, getUserAgent } from '../utils/ipHelper';
 
 export class RoomController {
@@ -12,6 +20,8 @@ export class RoomController {
    */
   static async getRooms(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      // 適用開始日を迎えた料金改定を表示中の料金に反映
+      await PriceRevisionService.applyDueRevisions();
       const rooms = await RoomRepository.findAllActive();
       res.json({ rooms });
     } catch (error: any) {
@@ -25,6 +35,7 @@ export class RoomController {
   static async getRoomById(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      await PriceRevisionService.applyDueRevisions();
       const room = await RoomRepository.findById(parseInt(id, 10));
 
       if (!room) {
@@ -32,7 +43,10 @@ export class RoomController {
         return;
       }
 
-      res.json({ room });
+      // 申請時に選べるレイアウト（レイアウト別の定員）
+      const layouts = await UsageRuleService.getLayouts(room.id, true);
+
+      res.json({ room, layouts });
     } catch (error: any) {
       next(createError(error.message, 500));
     }
@@ -66,12 +80,24 @@ export class RoomController {
         return;
       }
 
+      // 期限切れの仮予約・空き待ちの案内を終了し、次の方に案内してから空き状況を返す
+      await TentativeHoldService.processExpiredHolds();
+      await WaitlistService.processExpiredOffers();
+
       const availability = await AvailabilityRepository.getMonthAvailability(
         roomId,
         yearNum,
         monthNum
       );
 
+      // ログイン中の利用者の区分に応じた受付期間で、まだ予約を受け付けていない日を示す
+      const bookingWindow = await BookingWindowService.getUserBookingWindow(room, req.user?.userId || null);
+      if (bookingWindow.last_bookable_date) {
+        availability.forEach((day) => {
+          day.outside_booking_window = day.date > bookingWindow.last_bookable_date!;
+        });
+      }
+
       // 空室確認ログを記録
       if (req.user && req.user.role === 'user') {
         const ipAddress = getClientIp(req);
@@ -90,6 +116,7 @@ export class RoomController {
         room: { id: room.id, name: room.name },
         year: yearNum,
         month: monthNum,
+        booking_window: bookingWindow,
         availability,
       });
     } catch (error: any) {
@@ -97,6 +124,111 @@ export class RoomController {
     }
   }
 
+  /**
+   * Search availability across rooms（部屋を横断した空き状況の検索）
+   * start_date・end_date（YYYY-MM-DD）は必須。slots（時間帯コード）、equipment_ids、weekdays（0 = 日曜〜6 = 土曜）は
+   * カンマ区切り、min_capacity は参加予定人数
+   */
+  static async searchAvailability(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const list = (value: unknown): string[] =>
+        value ? String(value).split(',').map((item) => item.trim()).filter((item) => item !== '') : [];
+
+      const criteria = {
+        startDate: String(req.query.start_date || ''),
+        endDate: String(req.query.end_date || ''),
+        slotCodes: list(req.query.slots),
+        minCapacity: req.query.min_capacity ? Number(req.query.min_capacity) : null,
+        equipmentIds: list(req.query.equipment_ids).map(Number),
+        weekdays: req.query.weekdays ? list(req.query.weekdays).map(Number) : null,
+      };
+
+      // 期限切れの仮予約・空き待ちの案内を終了し、次の方に案内してから空き状況を返す
+      await TentativeHoldService.processExpiredHolds();
+      await WaitlistService.processExpiredOffers();
+
+      const matches = await AvailabilitySearchService.search(criteria, req.user?.userId || null);
+
+      // 検索ログを記録
+      if (req.user && req.user.role === 'user') {
+        await UserActivityLogService.logSearch(
+          req.user.userId,
+          new URLSearchParams(req.query as Record<string, string>).toString(),
+          'room_availability',
+          matches.length,
+          getClientIp(req),
+          getUserAgent(req)
+        );
+      }
+
+      res.json({
+        criteria,
+        results: matches.map((match) => ({
+          room: match.room,
+          matching_days: match.days.length,
+          days: match.days,
+        })),
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 500));
+    }
+  }
+
+  /**
+   * Get time slots bookable in a room with their prices（予約できる時間帯と料金）
+   * date（YYYY-MM-DD）を指定した場合は、その日の利用に適用される料金改定後の料金を返す
+   */
+  static async getRoomTimeSlots(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roomId = parseInt(req.params.id, 10);
+      const date = req.query.date ? String(req.query.date) : null;
+
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        next(createError('Date must be YYYY-MM-DD', 400));
+        return;
+      }
+
+      await PriceRevisionService.applyDueRevisions();
+      const room = isNaN(roomId) ? null : await RoomRepository.findById(roomId);
+
+      if (!room) {
+        next(createError('Room not found', 404));
+        return;
+      }
+
+      let timeSlots = room.isFlexibleTime ? [] : await TimeSlotRepository.findRoomTimeSlots(roomId);
+      if (date) {
+        const priced = await PriceRevisionService.priceRoom(room, timeSlots, await PriceRevisionService.getTariffDate(date));
+        timeSlots = priced.slots!;
+      }
+
+      res.json({ time_slots: timeSlots });
+    } catch (error: any) {
+      next(createError(error.message, 500));
+    }
+  }
+
+  /**
+   * Get day timeline of a flexible-time room（時間単位ごとの空き状況）
+   */
+  static async getRoomTimeline(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roomId = parseInt(req.params.id, 10);
+      const date = String(req.query.date || '');
+
+      if (isNaN(roomId) || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        next(createError('Room ID and date (YYYY-MM-DD) are required', 400));
+        return;
+      }
+
+      const timeline = await FlexibleTimeService.getDayTimeline(roomId, date);
+
+      res.json(timeline);
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 500));
+    }
+  }
+
   /**
    * Get all equipment
    */
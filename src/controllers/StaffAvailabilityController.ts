@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import AvailabilityRepository from '../models/AvailabilityRepository';
+import TentativeHoldService from '../services/TentativeHoldService';
+import WaitlistService from '../services/WaitlistService';
+import { addDays } from '../utils/bookingWindow';
+
+// 1回に表示できる期間の上限（1か月分）
+const MAX_MATRIX_DAYS = 31;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 職員用の空き状況一覧コントローラー（電話での問い合わせ対応など、全部屋の空き状況をまとめて確認）
+ */
+export class StaffAvailabilityController {
+  /**
+   * 部屋 × 日 × 時間帯の空き状況・予約（start_date・end_date は YYYY-MM-DD、最大31日）
+   */
+  static async getMatrix(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const startDate = String(req.query.start_date || '');
+      const endDate = String(req.query.end_date || '');
+
+      const isDate = (date: string) => DATE_PATTERN.test(date) && addDays(date, 0) === date;
+      if (!isDate(startDate) || !isDate(endDate) || endDate < startDate) {
+        res.status(400).json({ error: 'start_date and end_date (YYYY-MM-DD) are required' });
+        return;
+      }
+      if (addDays(startDate, MAX_MATRIX_DAYS - 1) < endDate) {
+        res.status(400).json({ error: `The date range must be at most ${MAX_MATRIX_DAYS} days` });
+        return;
+      }
+
+      // 期限切れの仮予約・空き待ちの案内を終了してから空き状況を返す
+      await TentativeHoldService.processExpiredHolds();
+      await WaitlistService.processExpiredOffers();
+
+      const rooms = await AvailabilityRepository.getFacilityMatrix(startDate, endDate);
+
+      res.json({ start_date: startDate, end_date: endDate, rooms });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
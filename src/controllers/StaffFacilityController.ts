@@ -64,6 +64,40 @@ export class StaffFacilityController {
     }
   }
 
+  /**
+   * 全体の部屋を構成する部屋を設定（part_room_ids が空の場合は構成を解除）
+   */
+  static async setRoomParts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const roomId = parseInt(req.params.id);
+
+      if (isNaN(roomId)) {
+        res.status(400).json({ error: 'Invalid room ID' });
+        return;
+      }
+
+      const { part_room_ids } = req.body;
+      if (!Array.isArray(part_room_ids) || part_room_ids.some((id: any) => !Number.isInteger(Number(id)))) {
+        res.status(400).json({ error: 'part_room_ids must be an array of room IDs' });
+        return;
+      }
+
+      const partRoomIds = await StaffFacilityManagementService.setRoomParts(
+        roomId,
+        req.user.userId,
+        part_room_ids.map(Number)
+      );
+      res.json({ message: 'Room composition updated successfully', part_room_ids: partRoomIds });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * 部屋を削除
    */
@@ -271,6 +305,25 @@ export class StaffFacilityController {
     }
   }
 
+  /**
+   * 指定日の設備の貸し出し状況を取得
+   */
+  static async getEquipmentAllocations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const date = String(req.query.date || '');
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        res.status(400).json({ error: 'date (YYYY-MM-DD) is required' });
+        return;
+      }
+
+      const equipment = await StaffFacilityManagementService.getEquipmentAllocations(date);
+      res.json({ date, equipment });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // ===== 休館日管理 =====
 
   /**
@@ -0,0 +1,196 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import path from 'path';
+import FeeReductionService from '../services/FeeReductionService';
+import { FeeReductionRuleInput } from '../models/FeeReductionRepository';
+import { FeeReductionStatus } from '../models/types';
+import { handleValidationErrors } from '../utils/validation';
+
+const REDUCTION_STATUSES: FeeReductionStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * 職員用の使用料の減免管理コントローラー
+ */
+export class StaffFeeReductionController {
+  /**
+   * 減免の種類の入力チェック（更新時は指定した項目のみ）
+   */
+  static ruleValidation = [
+    body('name').optional().trim().notEmpty().isLength({ max: 100 }).withMessage('Name is required (max 100 characters)'),
+    body('reduction_type').optional().isIn(['percentage', 'exemption']).withMessage('Reduction type must be percentage or exemption'),
+    body('rate').optional().isInt({ min: 1, max: 100 }).withMessage('Rate must be between 1 and 100'),
+    body('scope').optional().isIn(['room', 'equipment', 'room_and_equipment']).withMessage('Invalid scope'),
+    body('requires_attachment').optional().isBoolean().withMessage('requires_attachment must be a boolean'),
+    body('is_active').optional().isBoolean().withMessage('is_active must be a boolean'),
+    body('display_order').optional().isInt().withMessage('Display order must be an integer'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 却下の入力チェック（申請者に理由を伝えるためコメント必須）
+   */
+  static rejectValidation = [
+    body('comment').trim().notEmpty().withMessage('Comment is required when rejecting'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 減免の種類の一覧（無効なものを含む）
+   */
+  static async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await FeeReductionService.getRules();
+
+      res.json({ rules });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 減免の種類を作成
+   */
+  static async createRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.body.name) {
+        res.status(400).json({ error: 'Name is required' });
+        return;
+      }
+
+      const rule = await FeeReductionService.createRule({
+        name: req.body.name,
+        description: req.body.description || null,
+        reduction_type: req.body.reduction_type || 'percentage',
+        rate: Number(req.body.rate || 0),
+        scope: req.body.scope || 'room',
+        requires_attachment: !!req.body.requires_attachment,
+        is_active: req.body.is_active !== undefined ? !!req.body.is_active : true,
+        display_order: Number(req.body.display_order || 0),
+      });
+
+      res.status(201).json({ message: 'Fee reduction rule created successfully', rule });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 減免の種類を更新
+   */
+  static async updateRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const ruleId = parseInt(req.params.id, 10);
+
+      if (isNaN(ruleId)) {
+        res.status(400).json({ error: 'Invalid fee reduction rule ID' });
+        return;
+      }
+
+      const updates: Partial<FeeReductionRuleInput> = {};
+      if (req.body.name !== undefined) updates.name = req.body.name;
+      if (req.body.description !== undefined) updates.description = req.body.description || null;
+      if (req.body.reduction_type !== undefined) updates.reduction_type = req.body.reduction_type;
+      if (req.body.rate !== undefined) updates.rate = Number(req.body.rate);
+      if (req.body.scope !== undefined) updates.scope = req.body.scope;
+      if (req.body.requires_attachment !== undefined) updates.requires_attachment = !!req.body.requires_attachment;
+      if (req.body.is_active !== undefined) updates.is_active = !!req.body.is_active;
+      if (req.body.display_order !== undefined) updates.display_order = Number(req.body.display_order);
+
+      const rule = await FeeReductionService.updateRule(ruleId, updates);
+
+      res.json({ message: 'Fee reduction rule updated successfully', rule });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 減免の申請一覧（status 未指定の場合はすべて）
+   */
+  static async getRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = req.query.status as FeeReductionStatus | undefined;
+
+      if (status && !REDUCTION_STATUSES.includes(status)) {
+        res.status(400).json({ error: 'Invalid status' });
+        return;
+      }
+
+      const requests = await FeeReductionService.getRequests(status);
+
+      res.json({ requests });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 減免を承認
+   */
+  static async approve(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const applicationId = parseInt(req.params.id, 10);
+
+      if (isNaN(applicationId)) {
+        res.status(400).json({ error: 'Invalid application ID' });
+        return;
+      }
+
+      const reduction = await FeeReductionService.approve(applicationId, req.user.userId, req.body.comment);
+
+      res.json({ message: 'Fee reduction approved successfully', reduction });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 減免を却下
+   */
+  static async reject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const applicationId = parseInt(req.params.id, 10);
+
+      if (isNaN(applicationId)) {
+        res.status(400).json({ error: 'Invalid application ID' });
+        return;
+      }
+
+      const reduction = await FeeReductionService.reject(applicationId, req.user.userId, req.body.comment);
+
+      res.json({ message: 'Fee reduction rejected successfully', reduction });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 証明書類をダウンロード
+   */
+  static async downloadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const applicationId = parseInt(req.params.id, 10);
+
+      if (isNaN(applicationId)) {
+        res.status(400).json({ error: 'Invalid application ID' });
+        return;
+      }
+
+      const filePath = await FeeReductionService.getAttachmentPath(applicationId);
+
+      res.download(filePath, `fee-reduction-${applicationId}${path.extname(filePath)}`);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
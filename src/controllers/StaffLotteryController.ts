@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import LotteryService from '../services/LotteryService';
+import { handleValidationErrors } from '../utils/validation';
+
+/**
+ * 職員用抽選管理コントローラー
+ */
+export class StaffLotteryController {
+  /**
+   * 抽選作成の入力チェック
+   */
+  static createRoundValidation = [
+    body('room_id').isInt({ min: 1 }).withMessage('Room ID is required'),
+    body('target_month').matches(/^\d{4}-(0[1-9]|1[0-2])$/).withMessage('Target month must be YYYY-MM'),
+    body('entry_start_at').isISO8601().withMessage('Entry start must be a date'),
+    body('entry_end_at').isISO8601().withMessage('Entry end must be a date'),
+    body('payment_due_days').optional().isInt({ min: 1 }).withMessage('Payment due days must be 1 or more'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 抽選の入力チェック（シード値は公開抽選などで職員が指定する場合のみ）
+   */
+  static drawValidation = [
+    body('seed').optional().isString().isLength({ max: 64 }).withMessage('Seed must be 64 characters or less'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 抽選一覧を取得
+   */
+  static async getRounds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { roomId, status } = req.query;
+
+      const rounds = await LotteryService.getRounds({
+        roomId: roomId ? parseInt(roomId as string, 10) : undefined,
+        status: status as any,
+      });
+
+      res.json({ rounds });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 抽選を作成
+   */
+  static async createRound(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const round = await LotteryService.createRound(req.user.userId, {
+        room_id: Number(req.body.room_id),
+        target_month: req.body.target_month,
+        entry_start_at: req.body.entry_start_at,
+        entry_end_at: req.body.entry_end_at,
+        payment_due_days: req.body.payment_due_days ? Number(req.body.payment_due_days) : undefined,
+      });
+
+      res.status(201).json({ message: 'Lottery round created successfully', round });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 抽選の結果（応募・希望・抽選順・シード値）を取得
+   */
+  static async getRoundResults(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roundId = parseInt(req.params.id, 10);
+
+      if (isNaN(roundId)) {
+        res.status(400).json({ error: 'Invalid lottery round ID' });
+        return;
+      }
+
+      res.json(await LotteryService.getRoundResults(roundId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 抽選を行う（シード値を省略した場合は自動生成）
+   */
+  static async draw(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const roundId = parseInt(req.params.id, 10);
+
+      if (isNaN(roundId)) {
+        res.status(400).json({ error: 'Invalid lottery round ID' });
+        return;
+      }
+
+      const seed = typeof req.body.seed === 'string' && req.body.seed.trim() ? req.body.seed.trim() : undefined;
+      const summary = await LotteryService.draw(req.user.userId, roundId, seed);
+
+      res.json({ message: 'Lottery drawn successfully', ...summary });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 抽選を中止
+   */
+  static async cancelRound(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roundId = parseInt(req.params.id, 10);
+
+      if (isNaN(roundId)) {
+        res.status(400).json({ error: 'Invalid lottery round ID' });
+        return;
+      }
+
+      await LotteryService.cancelRound(roundId);
+
+      res.json({ message: 'Lottery round cancelled successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
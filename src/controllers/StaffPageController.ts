@@ -93,6 +93,19 @@ export class StaffPageController {
     }
   }
 
+  /**
+   * 空き状況一覧ページ
+   */
+  static async availability(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      StaffPageController.renderWithLayout('availability.ejs', {
+        title: '空き状況一覧',
+      }, req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * 利用記録管理ページ
    */
@@ -0,0 +1,223 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import PriceRevisionService from '../services/PriceRevisionService';
+import { ROOM_PRICE_COLUMNS, RoomRevisionInput } from '../models/PriceRevisionRepository';
+import { handleValidationErrors } from '../utils/validation';
+
+// 未設定（NULL）にできる料金（土日祝日料金は NULL で平日料金を使用）
+const NULLABLE_ROOM_PRICE_COLUMNS = [
+  'weekend_price_morning',
+  'weekend_price_afternoon',
+  'weekend_price_evening',
+  'weekend_extension_price_midday',
+  'weekend_extension_price_evening',
+  'price_per_unit',
+  'weekend_price_per_unit',
+];
+
+/**
+ * 職員用の料金改定コントローラー（適用開始日つきの料金表の登録・取り消し）
+ */
+export class StaffPriceRevisionController {
+  /**
+   * 部屋の料金改定の入力チェック（指定した料金のみ変更）
+   */
+  static roomRevisionValidation = [
+    body('effective_from').isISO8601().withMessage('effective_from must be a date (YYYY-MM-DD)'),
+    ...ROOM_PRICE_COLUMNS.map((column) =>
+      NULLABLE_ROOM_PRICE_COLUMNS.includes(column)
+        ? body(column).optional({ nullable: true }).isInt({ min: 0 }).withMessage(`${column} must be a non-negative integer`)
+        : body(column).optional().isInt({ min: 0 }).withMessage(`${column} must be a non-negative integer`)
+    ),
+    body('time_slot_prices').optional().isArray().withMessage('time_slot_prices must be an array'),
+    body('time_slot_prices.*.time_slot_id').isInt({ min: 1 }).withMessage('time_slot_id is required'),
+    body('time_slot_prices.*.base_price').isInt({ min: 0 }).withMessage('base_price must be a non-negative integer'),
+    body('time_slot_prices.*.weekend_price')
+      .optional({ nullable: true })
+      .isInt({ min: 0 })
+      .withMessage('weekend_price must be a non-negative integer'),
+    body('note').optional({ nullable: true }).isLength({ max: 255 }).withMessage('Note must be at most 255 characters'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 設備の料金改定の入力チェック
+   */
+  static equipmentRevisionValidation = [
+    body('effective_from').isISO8601().withMessage('effective_from must be a date (YYYY-MM-DD)'),
+    body('price_type').optional().isIn(['per_slot', 'flat', 'free']).withMessage('Invalid price type'),
+    body('unit_price').optional().isInt({ min: 0 }).withMessage('unit_price must be a non-negative integer'),
+    body('note').optional({ nullable: true }).isLength({ max: 255 }).withMessage('Note must be at most 255 characters'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 部屋の料金改定の履歴と予定
+   */
+  static async getRoomRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roomId = parseInt(req.params.id, 10);
+
+      if (isNaN(roomId)) {
+        res.status(400).json({ error: 'Invalid room ID' });
+        return;
+      }
+
+      await PriceRevisionService.applyDueRevisions();
+      const revisions = await PriceRevisionService.getRoomRevisions(roomId);
+
+      res.json({ basis: await PriceRevisionService.getBasis(), revisions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 部屋の料金改定を登録
+   */
+  static async scheduleRoomRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const roomId = parseInt(req.params.id, 10);
+
+      if (isNaN(roomId)) {
+        res.status(400).json({ error: 'Invalid room ID' });
+        return;
+      }
+
+      const changes: Partial<RoomRevisionInput> = { note: req.body.note || null };
+      for (const column of ROOM_PRICE_COLUMNS) {
+        if (req.body[column] !== undefined) {
+          (changes as any)[column] = req.body[column] === null ? null : Number(req.body[column]);
+        }
+      }
+      if (Array.isArray(req.body.time_slot_prices)) {
+        changes.time_slot_prices = req.body.time_slot_prices.map((price: any) => ({
+          time_slot_id: Number(price.time_slot_id),
+          base_price: Number(price.base_price),
+          weekend_price: price.weekend_price === undefined || price.weekend_price === null ? null : Number(price.weekend_price),
+        }));
+      }
+
+      const revision = await PriceRevisionService.scheduleRoomRevision(
+        roomId,
+        req.user.userId,
+        String(req.body.effective_from).slice(0, 10),
+        changes
+      );
+
+      res.status(201).json({ message: 'Price revision scheduled successfully', revision });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 部屋の料金改定を取り消す（適用前のもののみ）
+   */
+  static async cancelRoomRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const revisionId = parseInt(req.params.revisionId, 10);
+
+      if (isNaN(revisionId)) {
+        res.status(400).json({ error: 'Invalid price revision ID' });
+        return;
+      }
+
+      await PriceRevisionService.cancelRoomRevision(revisionId, req.user.userId);
+
+      res.json({ message: 'Price revision cancelled successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 設備の料金改定の履歴と予定
+   */
+  static async getEquipmentRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const equipmentId = parseInt(req.params.id, 10);
+
+      if (isNaN(equipmentId)) {
+        res.status(400).json({ error: 'Invalid equipment ID' });
+        return;
+      }
+
+      await PriceRevisionService.applyDueRevisions();
+      const revisions = await PriceRevisionService.getEquipmentRevisions(equipmentId);
+
+      res.json({ basis: await PriceRevisionService.getBasis(), revisions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 設備の料金改定を登録
+   */
+  static async scheduleEquipmentRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const equipmentId = parseInt(req.params.id, 10);
+
+      if (isNaN(equipmentId)) {
+        res.status(400).json({ error: 'Invalid equipment ID' });
+        return;
+      }
+
+      const revision = await PriceRevisionService.scheduleEquipmentRevision(
+        equipmentId,
+        req.user.userId,
+        String(req.body.effective_from).slice(0, 10),
+        {
+          price_type: req.body.price_type,
+          unit_price: req.body.unit_price !== undefined ? Number(req.body.unit_price) : undefined,
+          note: req.body.note || null,
+        }
+      );
+
+      res.status(201).json({ message: 'Price revision scheduled successfully', revision });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 設備の料金改定を取り消す（適用前のもののみ）
+   */
+  static async cancelEquipmentRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const revisionId = parseInt(req.params.revisionId, 10);
+
+      if (isNaN(revisionId)) {
+        res.status(400).json({ error: 'Invalid price revision ID' });
+        return;
+      }
+
+      await PriceRevisionService.cancelEquipmentRevision(revisionId, req.user.userId);
+
+      res.json({ message: 'Price revision cancelled successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
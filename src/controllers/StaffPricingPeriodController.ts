@@ -0,0 +1,169 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import PricingPeriodService from '../services/PricingPeriodService';
+import { PricingPeriodInput } from '../models/PricingPeriodRepository';
+import { handleValidationErrors } from '../utils/validation';
+
+const PERIOD_FIELDS: (keyof PricingPeriodInput)[] = [
+  'name',
+  'start_date',
+  'end_date',
+  'room_ids',
+  'time_slot_codes',
+  'adjustment_type',
+  'multiplier',
+  'price',
+  'weekend_price',
+  'priority',
+  'description',
+];
+
+const NUMBER_FIELDS: (keyof PricingPeriodInput)[] = ['multiplier', 'price', 'weekend_price', 'priority'];
+
+/**
+ * 職員用の料金期間（繁忙期・特別期間の料金）の管理コントローラー
+ */
+export class StaffPricingPeriodController {
+  /**
+   * 料金期間の入力チェック（更新時は指定した項目のみ）
+   */
+  static periodValidation = [
+    body('name').optional().trim().notEmpty().isLength({ max: 100 }).withMessage('Name is required (max 100 characters)'),
+    body('start_date').optional().isISO8601().withMessage('start_date must be a date (YYYY-MM-DD)'),
+    body('end_date').optional().isISO8601().withMessage('end_date must be a date (YYYY-MM-DD)'),
+    body('room_ids').optional({ nullable: true }).isArray().withMessage('room_ids must be an array'),
+    body('room_ids.*').isInt({ min: 1 }).withMessage('room_ids must contain room IDs'),
+    body('time_slot_codes').optional({ nullable: true }).isArray().withMessage('time_slot_codes must be an array'),
+    body('time_slot_codes.*').isString().trim().notEmpty().withMessage('time_slot_codes must contain time slot codes'),
+    body('adjustment_type').optional().isIn(['multiplier', 'fixed_price']).withMessage('Adjustment type must be multiplier or fixed_price'),
+    body('multiplier').optional({ nullable: true }).isFloat({ gt: 0, max: 999 }).withMessage('Multiplier must be greater than 0'),
+    body('price').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Price must be a non-negative integer'),
+    body('weekend_price').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Weekend price must be a non-negative integer'),
+    body('priority').optional().isInt().withMessage('Priority must be an integer'),
+    body('description').optional({ nullable: true }).isLength({ max: 255 }).withMessage('Description must be at most 255 characters'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 料金期間の一覧（?from=YYYY-MM-DD でこの日以降に終了する期間のみ）
+   */
+  static async getPeriods(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const from = req.query.from ? String(req.query.from) : undefined;
+
+      if (from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+        res.status(400).json({ error: 'from must be a date (YYYY-MM-DD)' });
+        return;
+      }
+
+      const periods = await PricingPeriodService.getPeriods(from);
+
+      res.json({ periods });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 料金期間を登録
+   */
+  static async createPeriod(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      if (!req.body.name || !req.body.start_date || !req.body.end_date || !req.body.adjustment_type) {
+        res.status(400).json({ error: 'Name, start_date, end_date and adjustment_type are required' });
+        return;
+      }
+
+      const period = await PricingPeriodService.createPeriod(
+        req.user.userId,
+        StaffPricingPeriodController.readPeriod(req.body) as PricingPeriodInput
+      );
+
+      res.status(201).json({ message: 'Pricing period created successfully', period });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 料金期間を変更
+   */
+  static async updatePeriod(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const periodId = parseInt(req.params.id, 10);
+
+      if (isNaN(periodId)) {
+        res.status(400).json({ error: 'Invalid pricing period ID' });
+        return;
+      }
+
+      const period = await PricingPeriodService.updatePeriod(
+        periodId,
+        req.user.userId,
+        StaffPricingPeriodController.readPeriod(req.body)
+      );
+
+      res.json({ message: 'Pricing period updated successfully', period });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 料金期間を削除
+   */
+  static async deletePeriod(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const periodId = parseInt(req.params.id, 10);
+
+      if (isNaN(periodId)) {
+        res.status(400).json({ error: 'Invalid pricing period ID' });
+        return;
+      }
+
+      await PricingPeriodService.deletePeriod(periodId, req.user.userId);
+
+      res.json({ message: 'Pricing period deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * リクエストから指定された項目のみを取り出す
+   */
+  private static readPeriod(body: any): Partial<PricingPeriodInput> {
+    const data: Partial<PricingPeriodInput> = {};
+    for (const field of PERIOD_FIELDS) {
+      if (body[field] === undefined) continue;
+
+      let value = body[field];
+      if (NUMBER_FIELDS.includes(field) && value !== null) {
+        value = Number(value);
+      } else if (field === 'room_ids' && value !== null) {
+        value = value.map(Number);
+      } else if (field === 'start_date' || field === 'end_date') {
+        value = String(value).slice(0, 10);
+      } else if (field === 'description' && value === '') {
+        value = null;
+      }
+      (data as any)[field] = value;
+    }
+    return data;
+  }
+}
@@ -14,6 +14,8 @@ export class StaffReservationController {
         status,
         paymentStatus,
         cancelStatus,
+        approvalStatus,
+        holdStatus,
         roomId,
         userId,
         startDate,
@@ -37,6 +39,8 @@ export class StaffReservationController {
       }
 
       if (paymentStatus) filter.paymentStatus = paymentStatus;
+      if (approvalStatus) filter.approvalStatus = approvalStatus;
+      if (holdStatus) filter.holdStatus = holdStatus;
       if (roomId) filter.roomId = parseInt(roomId as string);
       if (userId) filter.userId = parseInt(userId as string);
       if (startDate) filter.startDate = new Date(startDate as string);
@@ -102,13 +106,192 @@ export class StaffReservationController {
         return;
       }
 
-      await StaffReservationManagementService.cancelReservation(
+      const preview = await StaffReservationManagementService.cancelReservation(
         applicationId,
         req.user.userId,
         reason
       );
 
-      res.json({ message: 'Reservation cancelled successfully' });
+      res.json({
+        message: 'Reservation cancelled successfully',
+        cancellationFee: preview.cancellation_fee,
+        refundAmount: preview.refund_amount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 利用明細（または利用明細内の時間帯）をキャンセル
+   */
+  static async cancelUsage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { slot, reason, scope } = req.body;
+      const applicationId = parseInt(req.params.id);
+      const usageId = parseInt(req.params.usageId);
+
+      if (isNaN(applicationId) || isNaN(usageId)) {
+        res.status(400).json({ error: 'Invalid application or usage ID' });
+        return;
+      }
+
+      // 定期予約のこの回以降をすべてキャンセル
+      if (scope === 'future') {
+        if (slot) {
+          res.status(400).json({ error: 'A single time slot can only be cancelled for this occurrence' });
+          return;
+        }
+
+        const result = await StaffReservationManagementService.cancelFutureOccurrences(
+          applicationId,
+          usageId,
+          req.user.userId,
+          reason
+        );
+
+        res.json({
+          message: 'Occurrences cancelled successfully',
+          cancelledUsageIds: result.usages.map((usage) => usage.id),
+          totalAmount: Number(result.application.total_amount),
+          cancellationFee: result.cancellationFee,
+          refundAmount: result.refundAmount,
+          refundFailed: result.refundFailed,
+        });
+        return;
+      }
+
+      const result = await StaffReservationManagementService.cancelUsage(
+        applicationId,
+        usageId,
+        req.user.userId,
+        slot,
+        reason
+      );
+
+      res.json({
+        message: 'Usage cancelled successfully',
+        totalAmount: Number(result.application.total_amount),
+        cancellationFee: result.cancellationFee,
+        refundAmount: result.refundAmount,
+        refundFailed: result.refundFailed,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 定期予約の回を変更（scope: this = この回のみ、future = この回以降すべて）
+   * confirm が true でない場合は変更後の料金と差額のみを返す
+   */
+  static async modifyOccurrence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { scope, usage, reason, confirm } = req.body;
+      const applicationId = parseInt(req.params.id);
+      const usageId = parseInt(req.params.usageId);
+
+      if (isNaN(applicationId) || isNaN(usageId)) {
+        res.status(400).json({ error: 'Invalid application or usage ID' });
+        return;
+      }
+
+      if (!usage || typeof usage !== 'object') {
+        res.status(400).json({ error: 'Usage changes are required' });
+        return;
+      }
+
+      const result = await StaffReservationManagementService.modifyOccurrences(
+        applicationId,
+        usageId,
+        req.user.userId,
+        scope || 'this',
+        usage,
+        confirm === true,
+        reason
+      );
+
+      res.json({
+        message: result.confirmed ? 'Reservation updated successfully' : undefined,
+        requiresConfirmation: !result.confirmed,
+        currentTotal: result.currentTotal,
+        newTotal: result.newTotal,
+        priceDifference: result.priceDifference,
+        refundAmount: result.refundAmount,
+        usages: result.usages,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 承認待ちの予約を承認
+   */
+  static async approveReservation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const { comment } = req.body;
+      const applicationId = parseInt(id);
+
+      if (isNaN(applicationId)) {
+        res.status(400).json({ error: 'Invalid application ID' });
+        return;
+      }
+
+      await StaffReservationManagementService.approveReservation(
+        applicationId,
+        req.user.userId,
+        comment
+      );
+
+      res.json({ message: 'Reservation approved successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 承認待ちの予約を却下
+   */
+  static async rejectReservation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const { comment } = req.body;
+      const applicationId = parseInt(id);
+
+      if (isNaN(applicationId)) {
+        res.status(400).json({ error: 'Invalid application ID' });
+        return;
+      }
+
+      await StaffReservationManagementService.rejectReservation(
+        applicationId,
+        req.user.userId,
+        comment
+      );
+
+      res.json({ message: 'Reservation rejected successfully' });
     } catch (error) {
       next(error);
     }
@@ -0,0 +1,124 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import UsageRuleService from '../services/UsageRuleService';
+import { RoomLayoutInput } from '../models/RoomLayoutRepository';
+import { handleValidationErrors } from '../utils/validation';
+
+/**
+ * 職員用の部屋のレイアウト（レイアウト別の定員）の管理コントローラー
+ */
+export class StaffUsageRuleController {
+  /**
+   * レイアウトの入力チェック（更新時は指定した項目のみ）
+   */
+  static layoutValidation = [
+    body('name').optional().trim().notEmpty().isLength({ max: 100 }).withMessage('Name is required (max 100 characters)'),
+    body('capacity').optional().isInt({ min: 1 }).withMessage('Capacity must be a positive integer'),
+    body('display_order').optional().isInt({ min: 0 }).withMessage('Display order must be a non-negative integer'),
+    body('is_active').optional().isBoolean().withMessage('is_active must be a boolean'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 部屋のレイアウトの一覧（受付を停止したレイアウトを含む）
+   */
+  static async getLayouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roomId = parseInt(req.params.id, 10);
+
+      if (isNaN(roomId)) {
+        res.status(400).json({ error: 'Invalid room ID' });
+        return;
+      }
+
+      const layouts = await UsageRuleService.getLayouts(roomId);
+      res.json({ layouts });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * レイアウトを登録
+   */
+  static async createLayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const roomId = parseInt(req.params.id, 10);
+
+      if (isNaN(roomId)) {
+        res.status(400).json({ error: 'Invalid room ID' });
+        return;
+      }
+
+      const layout = await UsageRuleService.createLayout(roomId, req.user.userId, {
+        name: String(req.body.name ?? ''),
+        capacity: Number(req.body.capacity),
+        display_order: req.body.display_order !== undefined ? Number(req.body.display_order) : 0,
+        is_active: req.body.is_active !== undefined ? req.body.is_active === true || req.body.is_active === 'true' : true,
+      });
+
+      res.status(201).json({ message: 'Room layout created successfully', layout });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * レイアウトを更新
+   */
+  static async updateLayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const layoutId = parseInt(req.params.layoutId, 10);
+
+      if (isNaN(layoutId)) {
+        res.status(400).json({ error: 'Invalid layout ID' });
+        return;
+      }
+
+      const changes: Partial<RoomLayoutInput> = {};
+      if (req.body.name !== undefined) changes.name = String(req.body.name);
+      if (req.body.capacity !== undefined) changes.capacity = Number(req.body.capacity);
+      if (req.body.display_order !== undefined) changes.display_order = Number(req.body.display_order);
+      if (req.body.is_active !== undefined) changes.is_active = req.body.is_active === true || req.body.is_active === 'true';
+
+      const layout = await UsageRuleService.updateLayout(layoutId, req.user.userId, changes);
+      res.json({ message: 'Room layout updated successfully', layout });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * レイアウトを削除（このレイアウトで予約済みの利用明細はレイアウトの指定なしになる）
+   */
+  static async deleteLayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const layoutId = parseInt(req.params.layoutId, 10);
+
+      if (isNaN(layoutId)) {
+        res.status(400).json({ error: 'Invalid layout ID' });
+        return;
+      }
+
+      await UsageRuleService.deleteLayout(layoutId, req.user.userId);
+      res.json({ message: 'Room layout deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
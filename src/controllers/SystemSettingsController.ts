@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import SystemSettingsService from '../services/SystemSettingsService';
+import BookingWindowService from '../services/BookingWindowService';
+import CancellationPolicyService from '../services/CancellationPolicyService';
 
 /**
  * システム設定コントローラー
@@ -60,6 +62,17 @@ export class SystemSettingsController {
         }
       }
 
+      // 予約受付期間（部屋ごとの上書きを含む）。空き状況カレンダーで受付期間外の日を表示するために使用
+      settings.booking_window = await BookingWindowService.getPublicBookingWindow();
+
+      // 新規予約に適用されるキャンセル料ポリシー
+      const cancellationPolicy = await CancellationPolicyService.getCurrentPolicy();
+      settings.cancellation_policy = {
+        version: cancellationPolicy.version,
+        tiers: cancellationPolicy.tiers,
+        room_tiers: cancellationPolicy.roomTiers,
+      };
+
       res.json(settings);
     } catch (error) {
       next(error);
@@ -132,9 +145,8 @@ export class SystemSettingsController {
       const {
         maxReservationDays,
         reservationDeadlineDays,
-        cancellationFeeDays,
-        cancellationFeeRate,
-        requireApproval
+        requireApproval,
+        minLeadHours
       } = req.body;
       const staffId = req.user.userId;
 
@@ -145,15 +157,12 @@ export class SystemSettingsController {
       if (reservationDeadlineDays !== undefined) {
         updates.push({ key: 'reservation_deadline_days', value: reservationDeadlineDays, type: 'number' as const });
       }
-      if (cancellationFeeDays !== undefined) {
-        updates.push({ key: 'cancellation_fee_days', value: cancellationFeeDays, type: 'number' as const });
-      }
-      if (cancellationFeeRate !== undefined) {
-        updates.push({ key: 'cancellation_fee_rate', value: cancellationFeeRate, type: 'number' as const });
-      }
       if (requireApproval !== undefined) {
         updates.push({ key: 'require_approval', value: requireApproval, type: 'boolean' as const });
       }
+      if (minLeadHours !== undefined) {
+        updates.push({ key: 'reservation_min_lead_hours', value: minLeadHours, type: 'number' as const });
+      }
 
       await SystemSettingsService.setBulkSettings(updates, staffId);
 
@@ -232,4 +241,43 @@ export class SystemSettingsController {
       next(error);
     }
   }
+
+  /**
+   * キャンセル料ポリシー（適用中の版と変更履歴）を取得
+   */
+  static async getCancellationPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || req.user.role !== 'admin') {
+        res.status(403).json({ error: 'Admin access required' });
+        return;
+      }
+
+      const current = await CancellationPolicyService.getCurrentPolicy();
+      const history = await CancellationPolicyService.getPolicyHistory();
+
+      res.json({ current, history });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * キャンセル料ポリシーを更新（新しい版として保存し、以降の新規予約に適用）
+   */
+  static async updateCancellationPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || req.user.role !== 'admin') {
+        res.status(403).json({ error: 'Admin access required' });
+        return;
+      }
+
+      const { tiers, roomTiers } = req.body;
+
+      const policy = await CancellationPolicyService.savePolicy(tiers, roomTiers || null, req.user.userId);
+
+      res.json({ message: 'Cancellation policy updated successfully', policy });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -1,8 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import ApplicationRepository from '../models/ApplicationRepository';
 import { createError } from '../middleware/errorHandler';
-import { calculateCancellationFee } from '../utils/pricing';
 import PaymentService from '../services/PaymentService';
+import ReservationPricingService from '../services/ReservationPricingService';
+import PartialCancellationService from '../services/PartialCancellationService';
+import RecurringReservationService from '../services/RecurringReservationService';
+import UsageRuleService from '../services/UsageRuleService';
+import WaitlistService from '../services/WaitlistService';
+import TentativeHoldService from '../services/TentativeHoldService';
+import CancellationPolicyService from '../services/CancellationPolicyService';
+import FeeReductionService from '../services/FeeReductionService';
+import TaxService from '../services/TaxService';
 import { emailService } from '../services/EmailService';
 import UserActivityLogService from '../services/UserActivityLogService';
 import { getClientIp, getUserAgent } from '../utils/ipHelper';
@@ -21,6 +29,9 @@ export class UserReservationController {
       const { status, startDate, endDate } = req.query;
       const pool = (await import('../config/database')).default;
 
+      // 期限切れの仮予約を取り消してから一覧を返す
+      await TentativeHoldService.processExpiredHolds();
+
       let query = `
         SELECT a.*,
                (SELECT COUNT(*) FROM usages WHERE application_id = a.id) as usage_count,
@@ -41,6 +52,8 @@ export class UserReservationController {
         )`;
       } else if (status === 'cancelled') {
         query += ` AND a.cancel_status = 'cancelled'`;
+      } else if (status === 'tentative') {
+        query += ` AND a.cancel_status = 'none' AND a.hold_status = 'tentative'`;
       }
 
       if (startDate) {
@@ -120,12 +133,50 @@ export class UserReservationController {
       res.json({
         application: result.application,
         usages: usagesWithDetails,
+        fee_reduction: await FeeReductionService.getSummary(result.application),
+        tax: await TaxService.getApplicationTaxDetail(result.application),
       });
     } catch (error: any) {
       next(createError(error.message, 500));
     }
   }
 
+  /**
+   * 予約全体をキャンセルした場合のキャンセル料を確認（キャンセル前のプレビュー）
+   */
+  static async getCancellationFee(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const result = await ApplicationRepository.findByIdWithDetails(parseInt(req.params.id, 10));
+
+      if (!result) {
+        next(createError('予約が見つかりません', 404));
+        return;
+      }
+
+      // 自分の予約かチェック
+      if (result.application.user_id !== req.user.userId) {
+        next(createError('アクセス権限がありません', 403));
+        return;
+      }
+
+      if (result.application.cancel_status === 'cancelled') {
+        next(createError('この予約は既にキャンセルされています', 400));
+        return;
+      }
+
+      const preview = await CancellationPolicyService.previewCancellation(result.application, result.usages);
+
+      res.json(preview);
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
   /**
    * 予約をキャンセル
    */
@@ -158,18 +209,9 @@ export class UserReservationController {
         return;
       }
 
-      // キャンセル料を計算
-      let totalCancellationFee = 0;
-      const cancelledAt = new Date();
-
-      for (const usage of result.usages) {
-        const fee = calculateCancellationFee(
-          usage.date,
-          cancelledAt,
-          usage.subtotal_amount
-        );
-        totalCancellationFee += fee;
-      }
+      // 予約時点のポリシーでキャンセル料を計算（部分キャンセルで確定済みのキャンセル料は引き継ぐ）
+      const preview = await CancellationPolicyService.previewCancellation(result.application, result.usages);
+      const totalCancellationFee = preview.cancellation_fee;
 
       // キャンセルを記録
       const pool = (await import('../config/database')).default;
@@ -177,6 +219,9 @@ export class UserReservationController {
       // キャンセル処理
       await ApplicationRepository.cancel(parseInt(id, 10), totalCancellationFee);
 
+      // 空いた時間帯の空き待ちに案内
+      await WaitlistService.offerReleasedApplication(parseInt(id, 10));
+
       // 変更履歴を記録
       await pool.query(
         `INSERT INTO application_modifications (application_id, modified_by, modification_type, reason)
@@ -237,7 +282,8 @@ export class UserReservationController {
   }
 
   /**
-   * 予約を変更（新規予約として作成し、元の予約をキャンセル）
+   * 予約を変更（日付・時間帯・延長・空調・設備）
+   * confirm が true でない場合は変更後の料金と差額のみを返し、変更は行わない
    */
   static async modifyReservation(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -247,7 +293,7 @@ export class UserReservationController {
       }
 
       const { id } = req.params;
-      const newReservationData = req.body;
+      const { usages, reason, confirm } = req.body;
 
       const result = await ApplicationRepository.findByIdWithDetails(parseInt(id, 10));
 
@@ -281,12 +327,236 @@ export class UserReservationController {
         return;
       }
 
+      if (!Array.isArray(usages) || usages.length === 0) {
+        next(createError('変更後の利用内容を1件以上指定してください', 400));
+        return;
+      }
+
+      const applicationId = parseInt(id, 10);
+      const application = result.application;
+
+      // 空き状況の再確認（自分の予約は除外）と料金の再計算
+      const priced = await ReservationPricingService.priceUsages(
+        usages,
+        Number(application.ticket_multiplier),
+        {
+          excludeApplicationId: applicationId,
+          userId: application.user_id,
+          bookedAt: application.created_at,
+          usageRules: UsageRuleService.declarationOfApplication(application),
+        }
+      );
+
+      // 部分キャンセルで確定済みのキャンセル料は変更後も合計金額に残る
+      // 合計金額は承認済みの減免を適用した後の金額のため、変更後の金額にも同じ減免を適用する
+      const retainedFees = result.usages.reduce((sum, usage) => sum + Number(usage.cancellation_fee || 0), 0);
+      const currentTotal = Number(application.total_amount);
+      const estimatedTotal = ReservationPricingService.reducedAmount(priced.usagesData, application) + retainedFees;
+
+      // 確認前は差額のみを提示
+      if (confirm !== true) {
+        res.json({
+          requires_confirmation: true,
+          current_total: currentTotal,
+          new_total: estimatedTotal,
+          price_difference: estimatedTotal - currentTotal,
+          usages: priced.usagesData,
+        });
+        return;
+      }
+
+      const modified = await ApplicationRepository.modifyUsages(
+        applicationId,
+        priced.usagesData,
+        priced.equipmentData,
+        priced.totalAmount,
+        req.user.userId,
+        reason || 'ユーザーによる予約変更'
+      );
+
+      // 差額・返金額は保存された変更後の合計金額から求める
+      const newTotal = Number(modified.application.total_amount);
+      const priceDifference = newTotal - currentTotal;
+
+      // 決済済みで減額になった場合は差額を返金（増額分は窓口で追加徴収）
+      let refundAmount = 0;
+      if (priceDifference < 0 && application.payment_status === 'paid' && application.payment_provider_id) {
+        refundAmount = -priceDifference;
+        await PaymentService.refundPayment(application.payment_provider_id, refundAmount);
+      }
+
+      if (req.user.role === 'user') {
+        await UserActivityLogService.logModifySuccess(
+          req.user.userId,
+          applicationId,
+          application.event_name,
+          currentTotal,
+          newTotal,
+          getClientIp(req),
+          getUserAgent(req)
+        );
+      }
+
       res.json({
-        message: '予約の変更は新規予約として作成してください',
-        note: '現在の予約は手動でキャンセルし、新しい予約を作成してください',
+        message: '予約を変更しました',
+        application: modified.application,
+        usages: modified.usages,
+        current_total: currentTotal,
+        new_total: newTotal,
+        price_difference: priceDifference,
+        refund_amount: refundAmount,
+        additional_payment_amount: application.payment_status === 'paid' && priceDifference > 0 ? priceDifference : 0,
       });
     } catch (error: any) {
-      next(createError(error.message, 400));
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
+  /**
+   * 利用明細（1日分）または利用明細内の1つの時間帯をキャンセル
+   */
+  static async cancelUsage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const applicationId = parseInt(req.params.id, 10);
+      const usageId = parseInt(req.params.usageId, 10);
+      const { slot, reason, scope } = req.body;
+
+      const application = await ApplicationRepository.findById(applicationId);
+
+      if (!application) {
+        next(createError('予約が見つかりません', 404));
+        return;
+      }
+
+      // 自分の予約かチェック
+      if (application.user_id !== req.user.userId) {
+        next(createError('アクセス権限がありません', 403));
+        return;
+      }
+
+      // 定期予約のこの回以降をすべてキャンセル
+      if (scope === 'future') {
+        if (slot) {
+          next(createError('時間帯の取り消しは「この回のみ」で指定してください', 400));
+          return;
+        }
+
+        const cancellation = await RecurringReservationService.cancelFutureOccurrences(applicationId, usageId, {
+          modifiedBy: req.user.userId,
+          reason: reason || 'ユーザーによる定期予約のキャンセル（この回以降）',
+        });
+
+        res.json({
+          message: 'この回以降の利用をキャンセルしました',
+          application: cancellation.application,
+          usages: cancellation.usages,
+          cancellation_fee: cancellation.cancellationFee,
+          refund_amount: cancellation.refundAmount,
+          refund_failed: cancellation.refundFailed,
+          new_total: Number(cancellation.application.total_amount),
+        });
+        return;
+      }
+
+      const cancellation = await PartialCancellationService.cancelUsage(applicationId, usageId, {
+        slot,
+        modifiedBy: req.user.userId,
+        reason: reason || 'ユーザーによる部分キャンセル',
+      });
+
+      res.json({
+        message: slot ? '指定した時間帯をキャンセルしました' : '指定した利用日をキャンセルしました',
+        application: cancellation.application,
+        usage: cancellation.usage,
+        cancellation_fee: cancellation.cancellationFee,
+        refund_amount: cancellation.refundAmount,
+        refund_failed: cancellation.refundFailed,
+        new_total: Number(cancellation.application.total_amount),
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
+  /**
+   * 定期予約の回を変更（scope: this = この回のみ、future = この回以降すべて）
+   * confirm が true でない場合は変更後の料金と差額のみを返し、変更は行わない
+   */
+  static async modifyOccurrence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const applicationId = parseInt(req.params.id, 10);
+      const usageId = parseInt(req.params.usageId, 10);
+      const { scope, usage, reason, confirm } = req.body;
+
+      const application = await ApplicationRepository.findById(applicationId);
+
+      if (!application) {
+        next(createError('予約が見つかりません', 404));
+        return;
+      }
+
+      // 自分の予約かチェック
+      if (application.user_id !== req.user.userId) {
+        next(createError('アクセス権限がありません', 403));
+        return;
+      }
+
+      if (!usage || typeof usage !== 'object') {
+        next(createError('変更後の利用内容を指定してください', 400));
+        return;
+      }
+
+      const result = await RecurringReservationService.modifyOccurrences(applicationId, usageId, scope || 'this', usage, {
+        modifiedBy: req.user.userId,
+        reason: reason || 'ユーザーによる予約変更',
+        confirm: confirm === true,
+      });
+
+      if (!result.confirmed) {
+        res.json({
+          requires_confirmation: true,
+          current_total: result.currentTotal,
+          new_total: result.newTotal,
+          price_difference: result.priceDifference,
+          usages: result.usages,
+        });
+        return;
+      }
+
+      if (req.user.role === 'user') {
+        await UserActivityLogService.logModifySuccess(
+          req.user.userId,
+          applicationId,
+          application.event_name,
+          result.currentTotal,
+          result.newTotal,
+          getClientIp(req),
+          getUserAgent(req)
+        );
+      }
+
+      res.json({
+        message: '予約を変更しました',
+        application: result.application,
+        usages: result.usages,
+        current_total: result.currentTotal,
+        new_total: result.newTotal,
+        price_difference: result.priceDifference,
+        refund_amount: result.refundAmount,
+        additional_payment_amount: application.payment_status === 'paid' && result.priceDifference > 0 ? result.priceDifference : 0,
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
     }
   }
 
@@ -362,6 +632,45 @@ export class UserReservationController {
     }
   }
 
+  /**
+   * 仮予約を本予約に確定
+   */
+  static async confirmHold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const application = await ApplicationRepository.findById(parseInt(req.params.id, 10));
+
+      if (!application) {
+        next(createError('予約が見つかりません', 404));
+        return;
+      }
+
+      // 自分の予約かチェック
+      if (application.user_id !== req.user.userId) {
+        next(createError('アクセス権限がありません', 403));
+        return;
+      }
+
+      if (application.cancel_status === 'cancelled') {
+        next(createError('キャンセル済みの予約は確定できません', 400));
+        return;
+      }
+
+      const confirmed = await TentativeHoldService.confirm(application);
+
+      res.json({
+        message: '仮予約を本予約に確定しました',
+        application: confirmed,
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
   /**
    * 予約の決済処理
    */
@@ -398,6 +707,28 @@ export class UserReservationController {
         return;
       }
 
+      // 仮予約は本予約に確定してから決済
+      if (result.application.hold_status === 'tentative') {
+        next(createError('仮予約は本予約に確定してから決済してください', 400));
+        return;
+      }
+
+      // 承認制の予約は承認後のみ決済可能
+      if (result.application.approval_status === 'pending') {
+        next(createError('この予約は職員の承認待ちのため、まだ決済できません', 400));
+        return;
+      }
+      if (result.application.approval_status === 'rejected') {
+        next(createError('承認されなかった予約は決済できません', 400));
+        return;
+      }
+
+      // 減免の審査中は金額が確定していないため決済不可
+      if (result.application.reduction_status === 'pending') {
+        next(createError('使用料の減免を審査中のため、まだ決済できません', 400));
+        return;
+      }
+
       // デモシステムのため、決済プロバイダーIDを自動生成
       const paymentProviderId = `demo_payment_${Date.now()}_${Math.random().toString(36).substring(7)}`;
 
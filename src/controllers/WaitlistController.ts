@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import WaitlistService from '../services/WaitlistService';
+import { handleValidationErrors } from '../utils/validation';
+import { createError } from '../middleware/errorHandler';
+
+/**
+ * 空き待ちコントローラー（ログイン中の利用者）
+ */
+export class WaitlistController {
+  /**
+   * 空き待ち登録の入力チェック
+   */
+  static joinValidation = [
+    body('room_id').isInt({ min: 1 }).withMessage('Room ID is required'),
+    body('date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be YYYY-MM-DD'),
+    body('time_slot_id').isInt({ min: 1 }).withMessage('Time slot ID is required'),
+    handleValidationErrors,
+  ];
+
+  /**
+   * 自分の空き待ち一覧を取得
+   */
+  static async getMyEntries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const entries = await WaitlistService.getUserEntries(req.user.userId);
+
+      res.json({ entries });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 500));
+    }
+  }
+
+  /**
+   * 満室の時間帯に空き待ちを登録
+   */
+  static async join(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      const entry = await WaitlistService.join(req.user.userId, {
+        room_id: Number(req.body.room_id),
+        date: req.body.date,
+        time_slot_id: Number(req.body.time_slot_id),
+      });
+
+      res.status(201).json({
+        message: '空き待ちを登録しました。空きが出た場合はメールでご案内します',
+        entry,
+      });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+
+  /**
+   * 空き待ちを取り消す
+   */
+  static async leave(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        next(createError('認証が必要です', 401));
+        return;
+      }
+
+      await WaitlistService.leave(req.user.userId, parseInt(req.params.id, 10));
+
+      res.json({ message: '空き待ちを取り消しました' });
+    } catch (error: any) {
+      next(error.statusCode ? error : createError(error.message, 400));
+    }
+  }
+}
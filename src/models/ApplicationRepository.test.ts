@@ -0,0 +1,510 @@
+import { ApplicationRepository } from './ApplicationRepository';
+
+/**
+ * In-memory stand-in for the MySQL pool.
+ * - `SELECT ... FROM rooms / equipment ... FOR UPDATE` takes an exclusive per-row lock held until commit/rollback
+ * - inserts are only visible to other connections after commit
+ * - every query yields to the event loop so parallel requests actually interleave
+ */
+jest.mock('../config/database', () => {
+  const db = {
+    rooms: new Map<number, any>(),
+    equipment: new Map<number, any>(),
+    usageEquipment: [] as { usage_id: number; equipment_id: number; quantity: number }[],
+    applications: [] as any[],
+    usages: [] as any[],
+    usageTimeSlots: [] as { usage_id: number; time_slot_id: number }[],
+    waitlistOffers: [] as { user_id: number; room_id: number; date: string; time_slot_id: number }[],
+    roomCompositions: [] as { combined_room_id: number; part_room_id: number }[],
+    timeSlots: [
+      { id: 1, code: 'morning', name: '午前', slot_type: 'regular', start_time: '09:00', end_time: '12:00', base_price: 15000, weekend_price: null },
+      { id: 2, code: 'midday_extension', name: '正午延長', slot_type: 'extension', start_time: '12:00', end_time: '13:00', base_price: 3000, weekend_price: null },
+      { id: 3, code: 'afternoon', name: '午後', slot_type: 'regular', start_time: '13:00', end_time: '17:00', base_price: 20000, weekend_price: null },
+      { id: 4, code: 'evening_extension', name: '夜間延長', slot_type: 'extension', start_time: '17:00', end_time: '18:00', base_price: 3000, weekend_price: null },
+      { id: 5, code: 'evening', name: '夜間', slot_type: 'regular', start_time: '18:00', end_time: '21:30', base_price: 18000, weekend_price: null },
+    ],
+    nextId: 1,
+    locks: new Map<string, Promise<void>>(),
+  };
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  const createConnection = () => {
+    const pending = { applications: [] as any[], usages: [] as any[], usageTimeSlots: [] as any[], usageEquipment: [] as any[] };
+    const releases: (() => void)[] = [];
+
+    const lockRow = async (key: string) => {
+      const previous = db.locks.get(key) || Promise.resolve();
+      let release!: () => void;
+      const current = new Promise<void>((resolve) => { release = resolve; });
+      db.locks.set(key, previous.then(() => current));
+      await previous;
+      releases.push(release);
+    };
+
+    const finish = () => {
+      releases.splice(0).forEach((release) => release());
+    };
+
+    return {
+      beginTransaction: async () => undefined,
+      commit: async () => {
+        db.applications.push(...pending.applications);
+        db.usages.push(...pending.usages);
+        db.usageTimeSlots.push(...pending.usageTimeSlots);
+        db.usageEquipment.push(...pending.usageEquipment);
+        finish();
+      },
+      rollback: async () => finish(),
+      release: () => undefined,
+      query: async (sql: string, params: any[] = []) => {
+        await tick();
+
+        if (/FROM rooms WHERE id IN \(\?\) ORDER BY id FOR UPDATE/.test(sql)) {
+          for (const roomId of params[0]) {
+            await lockRow(`rooms:${roomId}`);
+          }
+          return [params[0].map((id: number) => db.rooms.get(id)).filter(Boolean)];
+        }
+
+        if (/FROM equipment WHERE id IN \(\?\) ORDER BY id FOR UPDATE/.test(sql)) {
+          for (const equipmentId of params[0]) {
+            await lockRow(`equipment:${equipmentId}`);
+          }
+          return [params[0].map((id: number) => db.equipment.get(id)).filter(Boolean)];
+        }
+
+        if (/FROM users WHERE id = \? FOR UPDATE/.test(sql)) {
+          await lockRow(`users:${params[0]}`);
+          return [[{ id: params[0] }]];
+        }
+
+        if (/COUNT\(\*\) as count FROM applications/.test(sql)) {
+          const count = db.applications.filter(
+            (a) => a.user_id === params[0] && a.hold_status === 'tentative' && a.cancel_status === 'none'
+          ).length;
+          return [[{ count }]];
+        }
+
+        if (/FROM rooms WHERE id = \?/.test(sql)) {
+          return [[db.rooms.get(params[0])].filter(Boolean)];
+        }
+
+        if (/FROM room_compositions/.test(sql)) {
+          return [db.roomCompositions];
+        }
+
+        if (/FROM usage_equipment ue[\s\S]*INNER JOIN usage_time_slots/.test(sql)) {
+          const [startDate, endDate, equipmentIds, excludeId] = params;
+          const rows = db.usageEquipment
+            .filter((ue) => equipmentIds.includes(ue.equipment_id))
+            .flatMap((ue) => {
+              const usage = db.usages.find((u) => u.id === ue.usage_id);
+              return db.usageTimeSlots
+                .filter((uts) => uts.usage_id === ue.usage_id)
+                .map((uts) => ({ ue, usage, slot: db.timeSlots.find((slot) => slot.id === uts.time_slot_id)! }));
+            })
+            .filter(({ usage }) => usage.date >= startDate && usage.date <= endDate)
+            .filter(({ usage }) => db.applications.find((a) => a.id === usage.application_id)?.cancel_status === 'none')
+            .filter(({ usage }) => !excludeId || usage.application_id !== excludeId)
+            .map(({ ue, usage, slot }) => ({
+              usage_id: ue.usage_id,
+              application_id: usage.application_id,
+              room_id: usage.room_id,
+              equipment_id: ue.equipment_id,
+              quantity: ue.quantity,
+              date: usage.date,
+              start_time: slot.start_time,
+              end_time: slot.end_time,
+            }));
+          return [rows];
+        }
+
+        if (/INSERT INTO usage_equipment/.test(sql)) {
+          pending.usageEquipment.push({ usage_id: params[0], equipment_id: params[1], quantity: params[2] });
+          return [{ affectedRows: 1 }];
+        }
+
+        if (/FROM time_slots ts\s+INNER JOIN room_time_slot_prices/.test(sql)) {
+          return [db.timeSlots];
+        }
+
+        if (/SELECT id FROM time_slots WHERE code IN \(\?\)/.test(sql)) {
+          return [db.timeSlots.filter((slot) => params[0].includes(slot.code))];
+        }
+
+        if (/FROM usage_time_slots uts/.test(sql)) {
+          const [roomIds, startDate, endDate, excludeId] = params;
+          const rows = db.usageTimeSlots
+            .map((uts) => ({
+              usage: db.usages.find((u) => u.id === uts.usage_id),
+              slot: db.timeSlots.find((slot) => slot.id === uts.time_slot_id)!,
+            }))
+            .filter(({ usage }) => usage && roomIds.includes(usage.room_id) && usage.date >= startDate && usage.date <= endDate)
+            .filter(({ usage }) => db.applications.find((a) => a.id === usage.application_id)?.cancel_status === 'none')
+            .filter(({ usage }) => !excludeId || usage.application_id !== excludeId)
+            .map(({ usage, slot }) => ({
+              usage_id: usage.id,
+              room_id: usage.room_id,
+              date: usage.date,
+              start_time: slot.start_time,
+              end_time: slot.end_time,
+            }));
+          return [rows];
+        }
+
+        if (/FROM waitlist_entries w/.test(sql)) {
+          const [roomIds, startDate, endDate, exemptUserId] = params;
+          const rows = db.waitlistOffers
+            .filter((w) => roomIds.includes(w.room_id) && w.date >= startDate && w.date <= endDate)
+            .filter((w) => !exemptUserId || w.user_id !== exemptUserId)
+            .map((w, index) => {
+              const slot = db.timeSlots.find((s) => s.id === w.time_slot_id)!;
+              return { hold_id: index + 1, room_id: w.room_id, date: startDate, start_time: slot.start_time, end_time: slot.end_time };
+            });
+          return [rows];
+        }
+
+        if (/INSERT INTO usage_time_slots/.test(sql)) {
+          pending.usageTimeSlots.push(
+            ...params[0].map(([usageId, timeSlotId]: number[]) => ({ usage_id: usageId, time_slot_id: timeSlotId }))
+          );
+          return [{ affectedRows: params[0].length }];
+        }
+
+        if (/INSERT INTO applications/.test(sql)) {
+          const id = db.nextId++;
+          pending.applications.push({
+            id,
+            user_id: params[0],
+            hold_status: params[params.length - 3],
+            cancel_status: params[params.length - 1],
+          });
+          return [{ insertId: id }];
+        }
+
+        if (/INSERT INTO usages/.test(sql)) {
+          const id = db.nextId++;
+          pending.usages.push({
+            id,
+            application_id: params[0],
+            room_id: params[1],
+            date: params[2],
+            use_morning: params[3],
+            use_afternoon: params[4],
+            use_evening: params[5],
+          });
+          return [{ insertId: id }];
+        }
+
+        if (/SELECT \* FROM usages WHERE id = \?/.test(sql)) {
+          return [[pending.usages.find((u) => u.id === params[0])]];
+        }
+
+        if (/SELECT \* FROM applications WHERE id = \?/.test(sql)) {
+          return [[db.applications.find((a) => a.id === params[0])]];
+        }
+
+        return [[]];
+      },
+    };
+  };
+
+  const pool = {
+    __db: db,
+    getConnection: async () => createConnection(),
+    query: async () => [[]],
+  };
+
+  return { __esModule: true, default: pool, pool };
+});
+
+import pool from '../config/database';
+
+const db = (pool as any).__db;
+
+describe('ApplicationRepository.createWithUsages - concurrent bookings', () => {
+  const repository = new ApplicationRepository();
+
+  const applicationData: any = {
+    user_id: null,
+    applicant_representative: 'Test',
+    applicant_phone: '000-0000-0000',
+    applicant_email: 'test@example.com',
+    event_name: 'Concert',
+    entrance_fee_type: 'free',
+    entrance_fee_amount: 0,
+    ticket_multiplier: 1,
+    total_amount: 15000,
+    payment_status: 'unpaid',
+    cancel_status: 'none',
+  };
+
+  const usage = (overrides: Record<string, any> = {}): any => ({
+    room_id: 1,
+    date: '2025-06-01',
+    use_morning: true,
+    use_afternoon: false,
+    use_evening: false,
+    use_midday_extension: false,
+    use_evening_extension: false,
+    ac_requested: false,
+    ac_hours: null,
+    room_base_charge_before_multiplier: 15000,
+    room_charge_after_multiplier: 15000,
+    equipment_charge: 0,
+    ac_charge: 0,
+    subtotal_amount: 15000,
+    ...overrides,
+  });
+
+  const submitInParallel = (count: number, usageOverrides: Record<string, any>[] = []) =>
+    Promise.allSettled(
+      Array.from({ length: count }, (_, i) =>
+        repository.createWithUsages(applicationData, [usage(usageOverrides[i])], [])
+      )
+    );
+
+  beforeEach(() => {
+    db.rooms.clear();
+    db.applications.length = 0;
+    db.usages.length = 0;
+    db.usageTimeSlots.length = 0;
+    db.usageEquipment.length = 0;
+    db.waitlistOffers.length = 0;
+    db.roomCompositions.length = 0;
+    db.equipment.clear();
+    db.locks.clear();
+    db.rooms.set(1, { id: 1, name: 'Hall', is_active: true, max_reservation_count: 1 });
+  });
+
+  it('should accept only one of several parallel applications for the same slot', async () => {
+    const results = await submitInParallel(5);
+
+    const fulfilled = results.filter((r) => r.status === 'fulfilled');
+    const rejected = results.filter((r) => r.status === 'rejected') as PromiseRejectedResult[];
+
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(4);
+    rejected.forEach((r) => expect(r.reason.statusCode).toBe(409));
+    expect(db.usages).toHaveLength(1);
+  });
+
+  it('should allow parallel applications up to maxReservationCount', async () => {
+    db.rooms.set(1, { id: 1, name: 'Hall', is_active: true, max_reservation_count: 2 });
+
+    const results = await submitInParallel(4);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(2);
+    expect(db.usages).toHaveLength(2);
+  });
+
+  it('should accept parallel applications for different slots of the same room', async () => {
+    const results = await submitInParallel(2, [
+      { use_morning: true },
+      { use_morning: false, use_afternoon: true },
+    ]);
+
+    expect(results.every((r) => r.status === 'fulfilled')).toBe(true);
+  });
+
+  it('should count extension slots as booked time', async () => {
+    const results = await submitInParallel(2, [
+      { use_morning: true, use_midday_extension: true },
+      { use_morning: false, use_afternoon: true, use_midday_extension: true },
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('should book the slots given by time_slot_ids', async () => {
+    const results = await submitInParallel(2, [
+      { use_morning: false, time_slot_ids: [5] },
+      { use_morning: false, use_evening: true },
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(db.usageTimeSlots).toEqual([{ usage_id: expect.any(Number), time_slot_id: 5 }]);
+  });
+
+  it('should ignore cancelled applications when counting', async () => {
+    db.applications.push({ id: 100, cancel_status: 'cancelled' });
+    db.usages.push({ id: 101, application_id: 100, room_id: 1, date: '2025-06-01', use_morning: true });
+
+    const results = await submitInParallel(1);
+
+    expect(results[0].status).toBe('fulfilled');
+  });
+
+  it('should keep a slot held for a waitlist offer for the offered user only', async () => {
+    db.waitlistOffers.push({ user_id: 7, room_id: 1, date: '2025-06-01', time_slot_id: 1 });
+
+    await expect(
+      repository.createWithUsages({ ...applicationData, user_id: 8 }, [usage()], [])
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    await expect(
+      repository.createWithUsages({ ...applicationData, user_id: 7 }, [usage()], [])
+    ).resolves.toBeDefined();
+  });
+
+  describe('tentative holds', () => {
+    const hold = { ...applicationData, user_id: 5, hold_status: 'tentative' };
+
+    it('should not exceed the per-user hold limit with parallel applications', async () => {
+      const results = await Promise.allSettled(
+        ['2025-06-01', '2025-06-02', '2025-06-03'].map((date) =>
+          repository.createWithUsages(hold, [usage({ date })], [], 2)
+        )
+      );
+
+      const rejected = results.filter((r) => r.status === 'rejected') as PromiseRejectedResult[];
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].reason.statusCode).toBe(409);
+      expect(db.applications.filter((a: any) => a.hold_status === 'tentative')).toHaveLength(2);
+    });
+
+    it('should not count holds of other users', async () => {
+      db.applications.push({ id: 100, user_id: 6, hold_status: 'tentative', cancel_status: 'none' });
+
+      await expect(repository.createWithUsages(hold, [usage()], [], 1)).resolves.toBeDefined();
+    });
+  });
+
+  describe('usages in the same application', () => {
+    it('should not accept two usages of the same room, date and slot', async () => {
+      await expect(
+        repository.createWithUsages(applicationData, [usage(), usage()], [])
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.usages).toHaveLength(0);
+    });
+
+    it('should count the usages against the room capacity', async () => {
+      db.rooms.set(1, { id: 1, name: 'Hall', is_active: true, max_reservation_count: 2 });
+
+      await expect(
+        repository.createWithUsages(applicationData, [usage(), usage(), usage()], [])
+      ).rejects.toMatchObject({ statusCode: 409 });
+      await expect(
+        repository.createWithUsages(applicationData, [usage(), usage()], [])
+      ).resolves.toBeDefined();
+    });
+
+    it('should accept the same room on different dates or slots', async () => {
+      await expect(
+        repository.createWithUsages(
+          applicationData,
+          [usage(), usage({ date: '2025-06-02' }), usage({ use_morning: false, use_afternoon: true })],
+          []
+        )
+      ).resolves.toBeDefined();
+      expect(db.usages).toHaveLength(3);
+    });
+
+    it('should not accept the combined room and one of its parts together', async () => {
+      db.rooms.set(2, { id: 2, name: 'Hall A', is_active: true, max_reservation_count: 1 });
+      db.roomCompositions.push({ combined_room_id: 1, part_room_id: 2 });
+
+      await expect(
+        repository.createWithUsages(applicationData, [usage({ room_id: 2 }), usage({ room_id: 1 })], [])
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('combined rooms', () => {
+    beforeEach(() => {
+      db.rooms.set(2, { id: 2, name: 'Hall A', is_active: true, max_reservation_count: 1 });
+      db.rooms.set(3, { id: 3, name: 'Hall B', is_active: true, max_reservation_count: 1 });
+      db.roomCompositions.push({ combined_room_id: 1, part_room_id: 2 }, { combined_room_id: 1, part_room_id: 3 });
+    });
+
+    it('should not accept the combined room and one of its parts for the same slot', async () => {
+      const results = await submitInParallel(2, [{ room_id: 2 }, { room_id: 1 }]);
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+      expect(db.usages).toHaveLength(1);
+    });
+
+    it('should block the combined room even when it accepts several bookings', async () => {
+      db.rooms.set(1, { id: 1, name: 'Hall', is_active: true, max_reservation_count: 2 });
+
+      const results = await submitInParallel(2, [{ room_id: 3 }, { room_id: 1 }]);
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('should accept both parts for the same slot', async () => {
+      const results = await submitInParallel(2, [{ room_id: 2 }, { room_id: 3 }]);
+
+      expect(results.every((r) => r.status === 'fulfilled')).toBe(true);
+    });
+  });
+});
+
+describe('ApplicationRepository.createWithUsages - shared equipment stock', () => {
+  const repository = new ApplicationRepository();
+
+  const applicationData: any = {
+    user_id: null,
+    applicant_representative: 'Test',
+    applicant_phone: '000-0000-0000',
+    applicant_email: 'test@example.com',
+    event_name: 'Concert',
+    entrance_fee_type: 'free',
+    entrance_fee_amount: 0,
+    ticket_multiplier: 1,
+    total_amount: 0,
+    payment_status: 'unpaid',
+    cancel_status: 'none',
+  };
+
+  const book = (roomId: number, slots: Record<string, boolean>, quantity: number) =>
+    repository.createWithUsages(
+      applicationData,
+      [{
+        room_id: roomId,
+        date: '2025-06-01',
+        use_morning: false,
+        use_afternoon: false,
+        use_evening: false,
+        use_midday_extension: false,
+        use_evening_extension: false,
+        ...slots,
+      } as any],
+      [{ usageIndex: 0, equipment: [{ equipment_id: 7, quantity, slot_count: 1, line_amount: 0 }] }]
+    );
+
+  beforeEach(() => {
+    db.rooms.clear();
+    db.applications.length = 0;
+    db.usages.length = 0;
+    db.usageTimeSlots.length = 0;
+    db.usageEquipment.length = 0;
+    db.roomCompositions.length = 0;
+    db.equipment.clear();
+    db.locks.clear();
+    db.rooms.set(1, { id: 1, name: 'Hall', is_active: true, max_reservation_count: 1 });
+    db.rooms.set(2, { id: 2, name: 'Studio', is_active: true, max_reservation_count: 1 });
+    db.equipment.set(7, { id: 7, name: 'Wireless mic', max_quantity: 4 });
+  });
+
+  it('should not lend out more than the stock to parallel bookings of different rooms', async () => {
+    const results = await Promise.allSettled([
+      book(1, { use_afternoon: true }, 4),
+      book(2, { use_afternoon: true }, 4),
+    ]);
+
+    const rejected = results.filter((r) => r.status === 'rejected') as PromiseRejectedResult[];
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason.statusCode).toBe(409);
+    expect(db.usageEquipment).toHaveLength(1);
+  });
+
+  it('should lend the remaining stock and allow non-overlapping slots', async () => {
+    await book(1, { use_afternoon: true }, 3);
+
+    await expect(book(2, { use_afternoon: true }, 2)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(book(2, { use_afternoon: true }, 1)).resolves.toBeDefined();
+    await expect(book(2, { use_morning: true }, 4)).resolves.toBeDefined();
+  });
+});
@@ -1,6 +1,18 @@
 import { RowDataPacket, ResultSetHeader, PoolConnection } from 'mysql2/promise';
 import pool from '../config/database';
-import { Application, Usage, UsageEquipment, CreateApplicationDto } from './types';
+import { Application, Usage, NewUsage, UsageEquipment, CreateApplicationDto } from './types';
+import { createError } from '../middleware/errorHandler';
+import ClosureRepository, { usageSlotCodes } from './ClosureRepository';
+import TimeSlotRepository from './TimeSlotRepository';
+import RoomCompositionRepository from './RoomCompositionRepository';
+import EquipmentRepository from './EquipmentRepository';
+import { TimeRange, maxConcurrentBookings } from '../utils/flexibleTime';
+import { EquipmentAllocation, remainingEquipmentQuantity } from '../utils/equipmentStock';
+import { ConfiguredTimeSlot, selectTimeSlots, timeSlotRange } from '../utils/timeSlots';
+import { BlockedRange, BookingGroup, roomBlockedRanges, setupRange } from '../utils/turnover';
+import { linkedRoomIds } from '../utils/roomComposition';
+import { FeeReduction, calculateFeeReduction } from '../utils/pricing';
+import { DEFAULT_TAX_SETTINGS, TAX_ROUNDINGS, TaxRounding, summarizeTaxByRate } from '../utils/tax';
 
 export class ApplicationRepository {
   /**
@@ -19,7 +31,7 @@ export class ApplicationRepository {
    */
   async findByIdWithDetails(id: number): Promise<{
     application: Application;
-    usages: (Usage & { equipment: UsageEquipment[] })[];
+    usages: (Usage & { equipment: UsageEquipment[]; time_slots: ConfiguredTimeSlot[] })[];
   } | null> {
     const application = await this.findById(id);
     if (!application) {
@@ -34,20 +46,23 @@ export class ApplicationRepository {
   /**
    * Find usages for an application
    */
-  async findUsagesByApplicationId(applicationId: number): Promise<(Usage & { equipment: UsageEquipment[] })[]> {
+  async findUsagesByApplicationId(
+    applicationId: number
+  ): Promise<(Usage & { equipment: UsageEquipment[]; time_slots: ConfiguredTimeSlot[] })[]> {
     const [usageRows] = await pool.query<(Usage & RowDataPacket)[]>(
       'SELECT * FROM usages WHERE application_id = ? ORDER BY date ASC',
       [applicationId]
     );
 
-    // Load equipment for each usage
+    // Load equipment and time slots for each usage
     const usages = await Promise.all(
       usageRows.map(async (usage) => {
         const [equipmentRows] = await pool.query<(UsageEquipment & RowDataPacket)[]>(
           'SELECT * FROM usage_equipment WHERE usage_id = ?',
           [usage.id]
         );
-        return { ...usage, equipment: equipmentRows };
+        const timeSlots = await TimeSlotRepository.findUsageTimeSlots(usage.id);
+        return { ...usage, equipment: equipmentRows, time_slots: timeSlots };
       })
     );
 
@@ -105,18 +120,325 @@ export class ApplicationRepository {
     return rows;
   }
 
+  /**
+   * Lock the rooms used by the given usages and verify that every requested slot
+   * still has capacity. Must be called inside a transaction; the room row locks are
+   * held until commit/rollback, so concurrent bookings of the same room are serialized
+   * and cannot both pass the check.
+   *
+   * @param holdExemptUserId - 申請者宛てに空き待ちの案内で確保中の時間帯は空きとして扱う
+   * @param setupAt - 申請の準備開始日時（利用日の予約開始より前の場合は準備開始からの時間も空いている必要がある）
+   * 同じ申請内の利用明細どうし（同じ部屋・日・時間帯の重複や全体・分割した部屋）も互いに数える
+   * @throws AppError (409) when a slot is already fully booked
+   */
+  async assertSlotsAvailable(
+    connection: PoolConnection,
+    usagesData: (Pick<
+      Usage,
+      'room_id' | 'date' | 'use_morning' | 'use_afternoon' | 'use_evening' | 'use_midday_extension' | 'use_evening_extension'
+    > & Partial<Pick<Usage, 'start_time' | 'end_time'>> & { time_slot_ids?: number[] })[],
+    excludeApplicationId?: number,
+    holdExemptUserId?: number | null,
+    setupAt?: Date | null
+  ): Promise<void> {
+    if (usagesData.length === 0) {
+      return;
+    }
+
+    const setup = setupAt ? await TimeSlotRepository.findFacilitySetupTime(setupAt, connection) : null;
+
+    // 常に部屋ID順でロックを取得してデッドロックを防ぐ
+    // 全体・分割した部屋も同時にロックして、互いの予約を同時に受け付けないようにする
+    const requestedRoomIds = Array.from(new Set(usagesData.map((u) => Number(u.room_id))));
+    const compositions = await RoomCompositionRepository.findAll(connection);
+    const roomIds = Array.from(
+      new Set([...requestedRoomIds, ...requestedRoomIds.flatMap((roomId) => linkedRoomIds(compositions, roomId))])
+    ).sort((a, b) => a - b);
+    const [roomRows] = await connection.query<RowDataPacket[]>(
+      `SELECT id, name, is_active, max_reservation_count, turnover_buffer_minutes
+       FROM rooms WHERE id IN (?) ORDER BY id FOR UPDATE`,
+      [roomIds]
+    );
+    const rooms = new Map(roomRows.map((row) => [Number(row.id), row]));
+
+    // 確認済みの利用明細（同じ申請内の後の利用明細からは予約済みとして数える）
+    const requested: BookingGroup[] = [];
+
+    for (const usage of usagesData) {
+      const room = rooms.get(Number(usage.room_id));
+      if (!room || !room.is_active) {
+        throw createError(`Room ID ${usage.room_id} is not available for booking`, 409);
+      }
+
+      const dateLabel = usage.date instanceof Date
+        ? usage.date.toISOString().split('T')[0]
+        : String(usage.date);
+      const setupTime = setup?.date === dateLabel ? setup.time : null;
+      const linkedIds = linkedRoomIds(compositions, room.id);
+      const requestedRanges = roomBlockedRanges(
+        requested.filter((group) => group.date === dateLabel && (group.roomId === room.id || linkedIds.includes(group.roomId))),
+        room.id,
+        Number(room.turnover_buffer_minutes || 0),
+        room.max_reservation_count || 1
+      );
+
+      // 自由時間制の部屋は時間の重なりで判定
+      if (usage.start_time && usage.end_time) {
+        await this.assertTimeRangeAvailable(
+          connection,
+          room,
+          dateLabel,
+          usage.start_time,
+          usage.end_time,
+          excludeApplicationId,
+          setupTime,
+          requestedRanges
+        );
+        requested.push({
+          date: dateLabel,
+          roomId: room.id,
+          setupTime,
+          ranges: [{ startTime: usage.start_time, endTime: usage.end_time }],
+        });
+        continue;
+      }
+
+      const roomSlots = await TimeSlotRepository.findRoomTimeSlots(room.id, connection);
+      const { slots, error } = selectTimeSlots(roomSlots, usage);
+      if (error) {
+        throw createError(`Room "${room.name}": ${error}`, 409);
+      }
+
+      // 休館日（全館・部屋別・時間帯別）
+      const closure = await ClosureRepository.findConflict(room.id, dateLabel, slots.map((slot) => slot.code));
+      if (closure) {
+        throw createError(
+          `Room "${room.name}" is closed on ${dateLabel}${closure.reason ? ` (休館: ${closure.reason})` : ''}`,
+          409
+        );
+      }
+
+      const maxCount = room.max_reservation_count || 1;
+      const bookings = [
+        ...(await TimeSlotRepository.findBookedRanges(room.id, dateLabel, dateLabel, {
+          excludeApplicationId,
+          connection,
+          holdExemptUserId,
+        })),
+        ...requestedRanges,
+      ];
+
+      // 時間帯ごとに、時間の重なる予約の同時刻の最大数で判定（延長枠を含む）
+      for (const slot of slots) {
+        if (maxConcurrentBookings(bookings, timeSlotRange(slot)) >= maxCount) {
+          throw createError(
+            `Room "${room.name}" is not available on ${dateLabel} for the requested time slots (満室です)`,
+            409
+          );
+        }
+      }
+
+      // 準備開始が最初の時間帯より前の場合は、準備の時間も他の予約（転換時間を含む）と重ならないこと
+      const firstStart = slots.map((slot) => timeSlotRange(slot).startTime).sort()[0];
+      const setupPeriod = firstStart ? setupRange(setupTime, firstStart) : null;
+      if (setupPeriod && maxConcurrentBookings(bookings, setupPeriod) >= maxCount) {
+        throw createError(
+          `Room "${room.name}" is not available on ${dateLabel} from ${setupPeriod.startTime} for setup (準備時間が他の予約と重なります)`,
+          409
+        );
+      }
+
+      requested.push({ date: dateLabel, roomId: room.id, setupTime, ranges: slots.map(timeSlotRange) });
+    }
+  }
+
+  /**
+   * Lock the requested equipment and verify that its stock is not over-allocated.
+   * 設備は部屋をまたいで共有するため、同じ日に時間の重なる予約の数量の合計が保有数（max_quantity）を超えないことを確認する。
+   * Must be called inside a transaction after assertSlotsAvailable (locks are always taken rooms first, then equipment).
+   *
+   * @throws AppError (409) when the remaining quantity is not enough
+   */
+  async assertEquipmentAvailable(
+    connection: PoolConnection,
+    usagesData: NewUsage[],
+    equipmentData: { usageIndex: number; equipment: Omit<UsageEquipment, 'id' | 'usage_id' | 'created_at' | 'updated_at'>[] }[],
+    excludeApplicationId?: number
+  ): Promise<void> {
+    const equipmentIds = Array.from(
+      new Set(equipmentData.flatMap((e) => e.equipment.map((item) => Number(item.equipment_id))))
+    ).sort((a, b) => a - b);
+    if (equipmentIds.length === 0) {
+      return;
+    }
+
+    // 常に設備ID順でロックを取得してデッドロックを防ぐ
+    const [equipmentRows] = await connection.query<RowDataPacket[]>(
+      'SELECT id, name, max_quantity FROM equipment WHERE id IN (?) ORDER BY id FOR UPDATE',
+      [equipmentIds]
+    );
+    const equipmentById = new Map(equipmentRows.map((row) => [Number(row.id), row]));
+
+    const allocationsByDate = new Map<string, EquipmentAllocation[]>();
+
+    for (const { usageIndex, equipment } of equipmentData) {
+      const usage = usagesData[usageIndex];
+      const dateLabel = usage.date instanceof Date
+        ? usage.date.toISOString().split('T')[0]
+        : String(usage.date);
+
+      if (!allocationsByDate.has(dateLabel)) {
+        allocationsByDate.set(
+          dateLabel,
+          await EquipmentRepository.findAllocations(equipmentIds, dateLabel, dateLabel, { excludeApplicationId, connection })
+        );
+      }
+      const allocations = allocationsByDate.get(dateLabel)!;
+      const ranges = await this.usageTimeRanges(connection, usage);
+
+      for (const item of equipment) {
+        const row = equipmentById.get(Number(item.equipment_id));
+        if (!row) {
+          throw createError(`Equipment ID ${item.equipment_id} not found`, 404);
+        }
+
+        const remaining = remainingEquipmentQuantity(
+          Number(row.max_quantity),
+          allocations.filter((a) => a.equipmentId === Number(item.equipment_id)),
+          ranges
+        );
+        if (item.quantity > remaining) {
+          throw createError(
+            `Equipment "${row.name}" is not available on ${dateLabel} in the requested quantity (残り${remaining}個)`,
+            409
+          );
+        }
+
+        // 同じ申請の他の利用明細の貸し出しとしても数える
+        allocations.push(...ranges.map((range) => ({ ...range, equipmentId: Number(item.equipment_id), quantity: item.quantity })));
+      }
+    }
+  }
+
+  /**
+   * 設備の在庫確認のみを行う（見積もり用、登録は行わない）
+   * assertEquipmentAvailable と同じ判定をトランザクション内で行い、ロックは確認後すぐに解放する
+   *
+   * @returns 在庫が足りない場合はその理由、足りる場合は null
+   */
+  async checkEquipmentAvailability(
+    usagesData: NewUsage[],
+    equipmentData: { usageIndex: number; equipment: Omit<UsageEquipment, 'id' | 'usage_id' | 'created_at' | 'updated_at'>[] }[],
+    excludeApplicationId?: number
+  ): Promise<string | null> {
+    if (equipmentData.length === 0) {
+      return null;
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      await this.assertEquipmentAvailable(connection, usagesData, equipmentData, excludeApplicationId);
+      return null;
+    } catch (error: any) {
+      if (!error.statusCode) {
+        throw error;
+      }
+      return error.message;
+    } finally {
+      await connection.rollback();
+      connection.release();
+    }
+  }
+
+  /**
+   * 利用明細の予約時間（時間帯予約は時間帯ごと、自由時間制の予約は開始〜終了時刻）
+   */
+  private async usageTimeRanges(connection: PoolConnection, usage: NewUsage): Promise<TimeRange[]> {
+    if (usage.start_time && usage.end_time) {
+      return [{ startTime: String(usage.start_time).slice(0, 5), endTime: String(usage.end_time).slice(0, 5) }];
+    }
+
+    const roomSlots = await TimeSlotRepository.findRoomTimeSlots(Number(usage.room_id), connection);
+    return selectTimeSlots(roomSlots, usage).slots.map(timeSlotRange);
+  }
+
+  /**
+   * 自由時間制の部屋の空き確認（トランザクション内で使用、部屋の行ロック取得後に呼び出す）
+   * @param requestedRanges - 同じ申請内で先に確認した利用明細の使えない時間
+   */
+  private async assertTimeRangeAvailable(
+    connection: PoolConnection,
+    room: RowDataPacket,
+    date: string,
+    startTime: string,
+    endTime: string,
+    excludeApplicationId?: number,
+    setupTime: string | null = null,
+    requestedRanges: BlockedRange[] = []
+  ): Promise<void> {
+    const closure = await ClosureRepository.findTimeRangeConflict(room.id, date, startTime, endTime);
+    if (closure) {
+      throw createError(
+        `Room "${room.name}" is closed on ${date}${closure.reason ? ` (休館: ${closure.reason})` : ''}`,
+        409
+      );
+    }
+
+    const bookings = [
+      ...(await TimeSlotRepository.findBookedRanges(room.id, date, date, { excludeApplicationId, connection })),
+      ...requestedRanges,
+    ];
+    if (maxConcurrentBookings(bookings, { startTime, endTime }) >= (room.max_reservation_count || 1)) {
+      throw createError(
+        `Room "${room.name}" is not available on ${date} from ${startTime} to ${endTime} (満室です)`,
+        409
+      );
+    }
+
+    const setup = setupRange(setupTime, startTime);
+    if (setup && maxConcurrentBookings(bookings, setup) >= (room.max_reservation_count || 1)) {
+      throw createError(
+        `Room "${room.name}" is not available on ${date} from ${setup.startTime} for setup (準備時間が他の予約と重なります)`,
+        409
+      );
+    }
+  }
+
   /**
    * Create application with usages in a transaction
+   * 空き状況の確認と登録を同一トランザクション内で行う（同時申請による二重予約の防止）
+   *
+   * @param maxHolds - 仮予約の場合の利用者ごとの上限（利用者の行をロックして件数を確認し、同時申請で上限を超えないようにする）
    */
   async createWithUsages(
-    applicationData: Omit<Application, 'id' | 'created_at' | 'updated_at'>,
-    usagesData: Omit<Usage, 'id' | 'application_id' | 'created_at' | 'updated_at'>[],
-    equipmentData: { usageIndex: number; equipment: Omit<UsageEquipment, 'id' | 'usage_id' | 'created_at' | 'updated_at'>[] }[]
+    applicationData: Omit<Application, 'id' | 'cancellation_policy_id' | 'created_at' | 'updated_at'>,
+    usagesData: NewUsage[],
+    equipmentData: { usageIndex: number; equipment: Omit<UsageEquipment, 'id' | 'usage_id' | 'created_at' | 'updated_at'>[] }[],
+    maxHolds?: number
   ): Promise<{ application: Application; usages: Usage[] }> {
     const connection = await pool.getConnection();
     await connection.beginTransaction();
 
     try {
+      // 利用者の行のロックは部屋・設備より先に取得する
+      if (applicationData.hold_status === 'tentative' && applicationData.user_id && maxHolds !== undefined) {
+        await connection.query('SELECT id FROM users WHERE id = ? FOR UPDATE', [applicationData.user_id]);
+        if ((await this.countActiveHolds(applicationData.user_id, connection)) >= maxHolds) {
+          throw createError(`仮予約は同時に${maxHolds}件までです。確定または取り消しを行ってからお申し込みください`, 409);
+        }
+      }
+
+      await this.assertSlotsAvailable(
+        connection,
+        usagesData,
+        undefined,
+        applicationData.user_id,
+        applicationData.setup_datetime
+      );
+      await this.assertEquipmentAvailable(connection, usagesData, equipmentData);
+
       // Create application
       const [appResult] = await connection.query<ResultSetHeader>(
         `INSERT INTO applications (
@@ -124,9 +446,12 @@ export class ApplicationRepository {
           applicant_phone, applicant_email, event_name, expected_attendees, event_description,
           program_attachment_path, entrance_fee_type, entrance_fee_amount, ticket_multiplier,
           use_digital_signboard, setup_datetime, meeting_date, hall_manager_name, hall_manager_phone,
-          signboard_entrance, signboard_stage, open_time, start_time, end_time, remarks,
-          total_amount, payment_status, cancel_status
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          signboard_entrance, signboard_stage, open_time, start_time, end_time, remarks, recurrence_rule,
+          activities, total_amount, payment_status, payment_due_at, cancellation_policy_id, approval_status,
+          hold_status, hold_expires_at, cancel_status
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+          (SELECT id FROM cancellation_policies WHERE is_current = TRUE ORDER BY version DESC LIMIT 1),
+          ?, ?, ?, ?)`,
         [
           applicationData.user_id,
           applicationData.applicant_address,
@@ -152,8 +477,16 @@ export class ApplicationRepository {
           applicationData.start_time,
           applicationData.end_time,
           applicationData.remarks,
+          applicationData.recurrence_rule ? JSON.stringify(applicationData.recurrence_rule) : null,
+          applicationData.activities && applicationData.activities.length > 0
+            ? JSON.stringify(applicationData.activities)
+            : null,
           applicationData.total_amount,
           applicationData.payment_status,
+          applicationData.payment_due_at || null,
+          applicationData.approval_status || 'not_required',
+          applicationData.hold_status || 'none',
+          applicationData.hold_expires_at || null,
           applicationData.cancel_status,
         ]
       );
@@ -161,66 +494,126 @@ export class ApplicationRepository {
       const applicationId = appResult.insertId;
 
       // Create usages
-      const createdUsages: Usage[] = [];
-      for (let i = 0; i < usagesData.length; i++) {
-        const usage = usagesData[i];
-        const [usageResult] = await connection.query<ResultSetHeader>(
-          `INSERT INTO usages (
-            application_id, room_id, date, use_morning, use_afternoon, use_evening,
-            use_midday_extension, use_evening_extension, ac_requested, ac_hours,
-            room_base_charge_before_multiplier, room_charge_after_multiplier,
-            equipment_charge, ac_charge, subtotal_amount
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            applicationId,
-            usage.room_id,
-            usage.date,
-            usage.use_morning,
-            usage.use_afternoon,
-            usage.use_evening,
-            usage.use_midday_extension,
-            usage.use_evening_extension,
-            usage.ac_requested,
-            usage.ac_hours,
-            usage.room_base_charge_before_multiplier,
-            usage.room_charge_after_multiplier,
-            usage.equipment_charge,
-            usage.ac_charge,
-            usage.subtotal_amount,
-          ]
-        );
+      const createdUsages = await this.insertUsages(connection, applicationId, usagesData, equipmentData);
+      await this.recalculateTotal(connection, applicationId);
 
-        const usageId = usageResult.insertId;
-
-        // Create equipment for this usage
-        const equipmentForUsage = equipmentData.find((e) => e.usageIndex === i);
-        if (equipmentForUsage && equipmentForUsage.equipment.length > 0) {
-          for (const equip of equipmentForUsage.equipment) {
-            await connection.query(
-              `INSERT INTO usage_equipment (
-                usage_id, equipment_id, quantity, slot_count, line_amount
-              ) VALUES (?, ?, ?, ?, ?)`,
-              [usageId, equip.equipment_id, equip.quantity, equip.slot_count, equip.line_amount]
-            );
-          }
-        }
+      await connection.commit();
 
-        const [createdUsageRows] = await connection.query<(Usage & RowDataPacket)[]>(
-          'SELECT * FROM usages WHERE id = ?',
-          [usageId]
-        );
-        createdUsages.push(createdUsageRows[0]);
+      const [appRows] = await connection.query<(Application & RowDataPacket)[]>(
+        'SELECT * FROM applications WHERE id = ?',
+        [applicationId]
+      );
+
+      return {
+        application: appRows[0],
+        usages: createdUsages,
+      };
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * 予約内容（利用明細・設備）を置き換える
+   * 空き状況の確認（自分の予約は除外）、利用明細の入れ替え、変更履歴の記録を同一トランザクションで行う
+   *
+   * @param usageIds - 置き換える利用明細（定期予約の一部の回の変更など。省略時は有効な利用明細すべて）
+   */
+  async modifyUsages(
+    applicationId: number,
+    usagesData: NewUsage[],
+    equipmentData: { usageIndex: number; equipment: Omit<UsageEquipment, 'id' | 'usage_id' | 'created_at' | 'updated_at'>[] }[],
+    totalAmount: number,
+    modifiedBy: number,
+    reason?: string,
+    usageIds?: number[]
+  ): Promise<{ application: Application; usages: Usage[] }> {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [appRows] = await connection.query<(Application & RowDataPacket)[]>(
+        'SELECT * FROM applications WHERE id = ? FOR UPDATE',
+        [applicationId]
+      );
+      const current = appRows[0];
+      if (!current) {
+        throw createError('Application not found', 404);
       }
+      if (current.cancel_status === 'cancelled') {
+        throw createError('Cancelled applications cannot be modified', 400);
+      }
+
+      await this.assertSlotsAvailable(connection, usagesData, applicationId, current.user_id, current.setup_datetime);
+      await this.assertEquipmentAvailable(connection, usagesData, equipmentData, applicationId);
+
+      // 部分キャンセル済みの利用明細はキャンセル料の記録として残す
+      const target = usageIds ? 'AND u.id IN (?)' : '';
+      const params = usageIds ? [applicationId, usageIds] : [applicationId];
+      const [oldUsages] = await connection.query<(Usage & RowDataPacket)[]>(
+        `SELECT u.* FROM usages u WHERE u.application_id = ? AND u.cancel_status = 'none' ${target} ORDER BY u.date ASC`,
+        params
+      );
+      const [oldEquipment] = await connection.query<(UsageEquipment & RowDataPacket)[]>(
+        `SELECT ue.* FROM usage_equipment ue
+         INNER JOIN usages u ON ue.usage_id = u.id
+         WHERE u.application_id = ? AND u.cancel_status = 'none' ${target}`,
+        params
+      );
+
+      // usage_equipment は ON DELETE CASCADE で削除される
+      await connection.query(
+        `DELETE u FROM usages u WHERE u.application_id = ? AND u.cancel_status = 'none' ${target}`,
+        params
+      );
+
+      const createdUsages = await this.insertUsages(connection, applicationId, usagesData, equipmentData);
+
+      await connection.query(
+        `UPDATE applications SET
+          modification_count = COALESCE(modification_count, 0) + 1,
+          modified_at = NOW()
+        WHERE id = ?`,
+        [applicationId]
+      );
+      await this.recalculateTotal(connection, applicationId);
+
+      await connection.query(
+        `INSERT INTO application_modifications (application_id, modified_by, modification_type, old_data, new_data, reason)
+         VALUES (?, ?, 'update', ?, ?, ?)`,
+        [
+          applicationId,
+          modifiedBy,
+          JSON.stringify({
+            total_amount: current.total_amount,
+            usages: oldUsages.map((usage) => ({
+              ...usage,
+              equipment: oldEquipment.filter((e) => e.usage_id === usage.id),
+            })),
+          }),
+          JSON.stringify({
+            usages_total: totalAmount,
+            usages: usagesData.map((usage, i) => ({
+              ...usage,
+              equipment: equipmentData.find((e) => e.usageIndex === i)?.equipment || [],
+            })),
+          }),
+          reason || null,
+        ]
+      );
 
       await connection.commit();
 
-      const [appRows] = await connection.query<(Application & RowDataPacket)[]>(
+      const [updatedRows] = await connection.query<(Application & RowDataPacket)[]>(
         'SELECT * FROM applications WHERE id = ?',
         [applicationId]
       );
 
       return {
-        application: appRows[0],
+        application: updatedRows[0],
         usages: createdUsages,
       };
     } catch (error) {
@@ -231,6 +624,152 @@ export class ApplicationRepository {
     }
   }
 
+  /**
+   * 申請の合計金額と消費税額を再計算（トランザクション内で使用）
+   * 合計金額 = 有効な利用明細の小計 + 部分キャンセルで発生したキャンセル料 - 承認済みの減免額
+   * 消費税額は減免後の利用明細を税率ごとに合計して端数処理する（キャンセル料は不課税）
+   */
+  async recalculateTotal(connection: PoolConnection, applicationId: number): Promise<void> {
+    const [appRows] = await connection.query<RowDataPacket[]>(
+      'SELECT reduction_status, reduction_rate, reduction_scope FROM applications WHERE id = ? FOR UPDATE',
+      [applicationId]
+    );
+    const [usageRows] = await connection.query<RowDataPacket[]>(
+      `SELECT cancel_status, room_charge_after_multiplier, equipment_charge, subtotal_amount, cancellation_fee, tax_rate
+       FROM usages WHERE application_id = ?`,
+      [applicationId]
+    );
+    const [roundingRows] = await connection.query<RowDataPacket[]>(
+      "SELECT setting_value FROM system_settings WHERE setting_key = 'tax_rounding'"
+    );
+
+    const application = appRows[0];
+    const reduction: FeeReduction | null = application?.reduction_status === 'approved'
+      ? { rate: Number(application.reduction_rate), scope: application.reduction_scope }
+      : null;
+    const rounding: TaxRounding = TAX_ROUNDINGS.includes(roundingRows[0]?.setting_value)
+      ? roundingRows[0].setting_value
+      : DEFAULT_TAX_SETTINGS.rounding;
+
+    let cancellationFees = 0;
+    let reductionAmount = 0;
+    const taxableLines: { amount: number; taxRate: number }[] = [];
+    for (const usage of usageRows) {
+      cancellationFees += Number(usage.cancellation_fee);
+      if (usage.cancel_status !== 'none') {
+        continue;
+      }
+      const usageReduction = reduction
+        ? calculateFeeReduction(
+            {
+              roomChargeAfterMultiplier: Number(usage.room_charge_after_multiplier),
+              equipmentCharge: Number(usage.equipment_charge),
+            },
+            reduction
+          )
+        : 0;
+      reductionAmount += usageReduction;
+      taxableLines.push({ amount: Number(usage.subtotal_amount) - usageReduction, taxRate: Number(usage.tax_rate) });
+    }
+
+    const taxBreakdown = summarizeTaxByRate(taxableLines, rounding);
+    const taxableAmount = taxableLines.reduce((sum, line) => sum + line.amount, 0);
+
+    await connection.query(
+      'UPDATE applications SET total_amount = ?, reduction_amount = ?, tax_amount = ?, tax_breakdown = ? WHERE id = ?',
+      [
+        taxableAmount + cancellationFees,
+        reductionAmount,
+        taxBreakdown.reduce((sum, line) => sum + line.taxAmount, 0),
+        JSON.stringify(taxBreakdown),
+        applicationId,
+      ]
+    );
+  }
+
+  /**
+   * 利用明細と設備を登録（トランザクション内で使用）
+   */
+  private async insertUsages(
+    connection: PoolConnection,
+    applicationId: number,
+    usagesData: NewUsage[],
+    equipmentData: { usageIndex: number; equipment: Omit<UsageEquipment, 'id' | 'usage_id' | 'created_at' | 'updated_at'>[] }[]
+  ): Promise<Usage[]> {
+    const createdUsages: Usage[] = [];
+    for (let i = 0; i < usagesData.length; i++) {
+      const usage = usagesData[i];
+      const [usageResult] = await connection.query<ResultSetHeader>(
+        `INSERT INTO usages (
+          application_id, room_id, date, use_morning, use_afternoon, use_evening,
+          use_midday_extension, use_evening_extension, ac_requested, ac_hours,
+          room_base_charge_before_multiplier, room_charge_after_multiplier,
+          equipment_charge, ac_charge, subtotal_amount, start_time, end_time,
+          tax_rate, room_charge_excluding_tax, room_tax_amount, equipment_charge_excluding_tax,
+          equipment_tax_amount, ac_charge_excluding_tax, ac_tax_amount, layout_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          applicationId,
+          usage.room_id,
+          usage.date,
+          usage.use_morning,
+          usage.use_afternoon,
+          usage.use_evening,
+          usage.use_midday_extension,
+          usage.use_evening_extension,
+          usage.ac_requested,
+          usage.ac_hours,
+          usage.room_base_charge_before_multiplier,
+          usage.room_charge_after_multiplier,
+          usage.equipment_charge,
+          usage.ac_charge,
+          usage.subtotal_amount,
+          usage.start_time || null,
+          usage.end_time || null,
+          usage.tax_rate,
+          usage.room_charge_excluding_tax,
+          usage.room_tax_amount,
+          usage.equipment_charge_excluding_tax,
+          usage.equipment_tax_amount,
+          usage.ac_charge_excluding_tax,
+          usage.ac_tax_amount,
+          usage.layout_id ?? null,
+        ]
+      );
+
+      const usageId = usageResult.insertId;
+
+      // 予約時間帯（自由時間制の部屋は時刻で管理するため登録しない）
+      if (!usage.start_time) {
+        const timeSlotIds = usage.time_slot_ids && usage.time_slot_ids.length > 0
+          ? usage.time_slot_ids
+          : await TimeSlotRepository.findIdsByCodes(usageSlotCodes(usage), connection);
+        await TimeSlotRepository.replaceUsageTimeSlots(connection, usageId, timeSlotIds);
+      }
+
+      // Create equipment for this usage
+      const equipmentForUsage = equipmentData.find((e) => e.usageIndex === i);
+      if (equipmentForUsage && equipmentForUsage.equipment.length > 0) {
+        for (const equip of equipmentForUsage.equipment) {
+          await connection.query(
+            `INSERT INTO usage_equipment (
+              usage_id, equipment_id, quantity, slot_count, line_amount
+            ) VALUES (?, ?, ?, ?, ?)`,
+            [usageId, equip.equipment_id, equip.quantity, equip.slot_count, equip.line_amount]
+          );
+        }
+      }
+
+      const [createdUsageRows] = await connection.query<(Usage & RowDataPacket)[]>(
+        'SELECT * FROM usages WHERE id = ?',
+        [usageId]
+      );
+      createdUsages.push(createdUsageRows[0]);
+    }
+
+    return createdUsages;
+  }
+
   /**
    * Update application
    */
@@ -281,6 +820,81 @@ export class ApplicationRepository {
     return application;
   }
 
+  /**
+   * 利用者の有効な仮予約の件数
+   */
+  async countActiveHolds(userId: number, connection?: PoolConnection): Promise<number> {
+    const [rows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT COUNT(*) as count FROM applications
+       WHERE user_id = ? AND hold_status = 'tentative' AND cancel_status = 'none'`,
+      [userId]
+    );
+    return Number(rows[0].count);
+  }
+
+  /**
+   * 期限前のお知らせが未送信で、期限が remindBefore までの仮予約
+   */
+  async findHoldsDueForReminder(remindBefore: Date): Promise<Application[]> {
+    const [rows] = await pool.query<(Application & RowDataPacket)[]>(
+      `SELECT * FROM applications
+       WHERE hold_status = 'tentative' AND cancel_status = 'none' AND hold_reminder_sent_at IS NULL
+         AND hold_expires_at > NOW() AND hold_expires_at <= ?`,
+      [remindBefore]
+    );
+    return rows;
+  }
+
+  /**
+   * 期限前のお知らせを送信済みにする（未送信の場合のみ更新し、更新できたかを返す）
+   */
+  async markHoldReminderSent(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'UPDATE applications SET hold_reminder_sent_at = NOW() WHERE id = ? AND hold_reminder_sent_at IS NULL',
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 期限を過ぎた仮予約
+   */
+  async findExpiredHolds(): Promise<Application[]> {
+    const [rows] = await pool.query<(Application & RowDataPacket)[]>(
+      `SELECT * FROM applications
+       WHERE hold_status = 'tentative' AND cancel_status = 'none' AND hold_expires_at <= NOW()`
+    );
+    return rows;
+  }
+
+  /**
+   * 期限切れの仮予約を取り消して枠を解放（仮押さえ中の場合のみ更新し、更新できたかを返す）
+   */
+  async expireHold(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE applications SET
+        hold_status = 'expired',
+        cancel_status = 'cancelled',
+        cancelled_at = NOW(),
+        cancellation_fee = 0
+      WHERE id = ? AND hold_status = 'tentative' AND cancel_status = 'none' AND hold_expires_at <= NOW()`,
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 仮予約を本予約に確定（期限内の仮押さえ中の場合のみ更新し、更新できたかを返す）
+   */
+  async confirmHold(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE applications SET hold_status = 'confirmed', hold_expires_at = NULL
+       WHERE id = ? AND hold_status = 'tentative' AND cancel_status = 'none' AND hold_expires_at > NOW()`,
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
   /**
    * Update payment status
    */
@@ -311,7 +925,7 @@ export class ApplicationRepository {
     let query = `
       SELECT COUNT(*) as count FROM usages u
       INNER JOIN applications a ON u.application_id = a.id
-      WHERE u.room_id = ? AND u.date = ? AND a.cancel_status = 'none'
+      WHERE u.room_id = ? AND u.date = ? AND a.cancel_status = 'none' AND u.cancel_status = 'none'
     `;
     const params: any[] = [roomId, date];
 
@@ -1,7 +1,20 @@
 import { RowDataPacket } from 'mysql2';
 import pool from '../config/database';
-import { DayAvailability } from './types';
+import { AvailabilityMatrixBooking, AvailabilityMatrixDay, AvailabilityMatrixRoom, DayAvailability } from './types';
 import RoomRepository from './RoomRepository';
+import ClosureRepository from './ClosureRepository';
+import TimeSlotRepository, { FACILITY_TIMEZONE_SQL } from './TimeSlotRepository';
+import RoomCompositionRepository from './RoomCompositionRepository';
+import EquipmentRepository, { DatedEquipmentAllocation } from './EquipmentRepository';
+import { TimeRange, maxConcurrentBookings } from '../utils/flexibleTime';
+import { remainingEquipmentQuantity } from '../utils/equipmentStock';
+import { timeSlotRange } from '../utils/timeSlots';
+import { BlockedRange, BookingGroup, roomBlockedRanges } from '../utils/turnover';
+import { linkedRoomIds } from '../utils/roomComposition';
+import { addDays } from '../utils/bookingWindow';
+
+// 職員用の空き状況一覧の予約（予約した時間と表示する申請の情報）
+type MatrixBookingGroup = BookingGroup & { booking: AvailabilityMatrixBooking };
 
 export class AvailabilityRepository {
   /**
@@ -21,81 +34,95 @@ export class AvailabilityRepository {
   }
 
   /**
-   * Get reservations for a room in a specific month
+   * Get availability for a room for a specific month
+   * 在庫管理対応：時間帯ごとに、時間の重なる予約の同時刻の最大数から残数を計算
+   * 設備の残数は全部屋の予約で共有する保有数から計算
    */
-  async getReservations(roomId: number, year: number, month: number): Promise<any[]> {
-    const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
-    const endDate = new Date(year, month, 0);
-    const endDateStr = `${year}-${String(month).padStart(2, '0')}-${endDate.getDate()}`;
-
-    const [rows] = await pool.query<RowDataPacket[]>(
-      `SELECT
-        u.date,
-        u.use_morning,
-        u.use_afternoon,
-        u.use_evening,
-        a.cancel_status
-      FROM usages u
-      INNER JOIN applications a ON u.application_id = a.id
-      WHERE u.room_id = ?
-        AND u.date BETWEEN ? AND ?
-        AND a.cancel_status = 'none'
-      ORDER BY u.date ASC`,
-      [roomId, startDate, endDateStr]
-    );
+  async getMonthAvailability(roomId: number, year: number, month: number): Promise<DayAvailability[]> {
+    const daysInMonth = new Date(year, month, 0).getDate();
+    const monthPrefix = `${year}-${String(month).padStart(2, '0')}`;
 
-    return rows;
+    return this.getRangeAvailability(roomId, `${monthPrefix}-01`, `${monthPrefix}-${String(daysInMonth).padStart(2, '0')}`);
   }
 
   /**
-   * Get availability for a room for a specific month
-   * 在庫管理対応：予約数をカウントして残数を計算
+   * Get availability for a room for each date in a range（開始日・終了日を含む）
    */
-  async getMonthAvailability(roomId: number, year: number, month: number): Promise<DayAvailability[]> {
-    const closedDates = await this.getClosedDates(year, month);
-    const reservations = await this.getReservations(roomId, year, month);
+  async getRangeAvailability(roomId: number, startDate: string, endDate: string): Promise<DayAvailability[]> {
+    const closures = await ClosureRepository.findByRoomAndRange(roomId, startDate, endDate);
+    const roomSlots = await TimeSlotRepository.findRoomTimeSlots(roomId);
+    const bookedRanges = await TimeSlotRepository.findBookedRanges(roomId, startDate, endDate);
+    const equipment = await EquipmentRepository.findAllEnabled();
+    const equipmentAllocations = await EquipmentRepository.findAllocations(null, startDate, endDate);
 
     // Get room's max reservation count
     const room = await RoomRepository.findById(roomId);
     const maxCount = room?.maxReservationCount || 1;
 
-    // Create a map of reservation counts by date
-    const reservationCountMap = new Map<string, { morning: number; afternoon: number; evening: number }>();
-    reservations.forEach((res) => {
-      const dateStr = new Date(res.date).toISOString().split('T')[0];
-      if (!reservationCountMap.has(dateStr)) {
-        reservationCountMap.set(dateStr, {
-          morning: 0,
-          afternoon: 0,
-          evening: 0,
-        });
+    // Group booked time ranges by date
+    const bookingsByDate = new Map<string, BlockedRange[]>();
+    bookedRanges.forEach(({ date, ...range }) => {
+      if (!bookingsByDate.has(date)) {
+        bookingsByDate.set(date, []);
       }
-      const existing = reservationCountMap.get(dateStr)!;
-      if (res.use_morning) existing.morning++;
-      if (res.use_afternoon) existing.afternoon++;
-      if (res.use_evening) existing.evening++;
+      bookingsByDate.get(date)!.push(range);
     });
 
-    // Generate calendar for the month
-    const daysInMonth = new Date(year, month, 0).getDate();
+    const allocationsByDate = new Map<string, DatedEquipmentAllocation[]>();
+    equipmentAllocations.forEach((allocation) => {
+      if (!allocationsByDate.has(allocation.date)) {
+        allocationsByDate.set(allocation.date, []);
+      }
+      allocationsByDate.get(allocation.date)!.push(allocation);
+    });
+
+    // Generate calendar for the range
     const availability: DayAvailability[] = [];
 
-    for (let day = 1; day <= daysInMonth; day++) {
-      const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-      const isClosed = closedDates.includes(date);
-      const reservationCounts = reservationCountMap.get(date) || { morning: 0, afternoon: 0, evening: 0 };
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const closure = closures.get(date);
+      const isClosed = !!closure && closure.closedSlots === null;
+      const isSlotClosed = (slot: string) => isClosed || !!closure?.closedSlots?.includes(slot);
+      const bookings = bookingsByDate.get(date) || [];
+      const allocations = allocationsByDate.get(date) || [];
+
+      const slots: NonNullable<DayAvailability['slots']> = {};
+      for (const slot of roomSlots) {
+        const range = timeSlotRange(slot);
+        const count = maxConcurrentBookings(bookings, range);
+        const equipmentRemaining: { [equipmentId: string]: number } = {};
+        for (const item of equipment) {
+          equipmentRemaining[item.id] = remainingEquipmentQuantity(
+            Number(item.maxQuantity),
+            allocations.filter((allocation) => allocation.equipmentId === item.id),
+            [range]
+          );
+        }
+
+        slots[slot.code] = {
+          time_slot_id: slot.id,
+          available: !isSlotClosed(slot.code) && count < maxCount,
+          count,
+          blocked_reason: count >= maxCount ? this.blockedReason(bookings, range, maxCount) : null,
+          equipment_remaining: equipmentRemaining,
+        };
+      }
 
       availability.push({
         date,
         is_closed: isClosed,
-        morning_available: !isClosed && reservationCounts.morning < maxCount,
-        afternoon_available: !isClosed && reservationCounts.afternoon < maxCount,
-        evening_available: !isClosed && reservationCounts.evening < maxCount,
+        morning_available: !!slots.morning?.available,
+        afternoon_available: !!slots.afternoon?.available,
+        evening_available: !!slots.evening?.available,
+        // 休館情報（部屋別・時間帯別を含む）
+        closure_reason: closure ? closure.reason : null,
+        closed_slots: closure ? closure.closedSlots || roomSlots.map((slot) => slot.code) : [],
         // 在庫情報を追加
-        morning_count: reservationCounts.morning,
-        afternoon_count: reservationCounts.afternoon,
-        evening_count: reservationCounts.evening,
+        morning_count: slots.morning?.count || 0,
+        afternoon_count: slots.afternoon?.count || 0,
+        evening_count: slots.evening?.count || 0,
         max_count: maxCount,
+        slots,
       });
     }
 
@@ -103,40 +130,216 @@ export class AvailabilityRepository {
   }
 
   /**
-   * Check if a specific slot is available
+   * 職員用の空き状況一覧（有効な部屋すべての日ごと・時間帯ごとの予約と空き状況）
+   * 部屋数・日数によらず同じ回数のクエリで取得し、空き状況は部屋の予約カレンダーと同じ計算を行う
+   * （全体・分割した部屋の予約、準備時間・転換時間、空き待ちの案内で確保中の時間帯を含む）
    */
-  async checkSlotAvailability(
-    roomId: number,
-    date: string,
-    slot: 'morning' | 'afternoon' | 'evening'
-  ): Promise<boolean> {
-    // Check if date is closed
-    const [closedRows] = await pool.query<RowDataPacket[]>(
-      'SELECT COUNT(*) as count FROM closed_dates WHERE date = ?',
-      [date]
+  async getFacilityMatrix(startDate: string, endDate: string): Promise<AvailabilityMatrixRoom[]> {
+    const rooms = await RoomRepository.findAllActive();
+    const slotsByRoom = await TimeSlotRepository.findAllRoomTimeSlots();
+    const closuresByRoom = await ClosureRepository.findByRoomsAndRange(
+      rooms.map((room) => room.id),
+      startDate,
+      endDate
     );
+    const compositions = await RoomCompositionRepository.findAll();
 
-    if (closedRows[0].count > 0) {
-      return false;
+    const groupsByRoom = new Map<number, MatrixBookingGroup[]>();
+    for (const group of await this.findMatrixBookings(startDate, endDate)) {
+      if (!groupsByRoom.has(group.roomId)) {
+        groupsByRoom.set(group.roomId, []);
+      }
+      groupsByRoom.get(group.roomId)!.push(group);
     }
 
-    // Get room's max reservation count
-    const room = await RoomRepository.findById(roomId);
-    const maxCount = room?.maxReservationCount || 1;
+    return rooms.map((room) => {
+      const maxCount = room.maxReservationCount || 1;
+      const roomSlots = room.isFlexibleTime ? [] : slotsByRoom.get(room.id) || [];
+      const closures = closuresByRoom.get(room.id)!;
+      const ownGroups = groupsByRoom.get(room.id) || [];
+      const ranges = roomBlockedRanges(
+        [room.id, ...linkedRoomIds(compositions, room.id)].flatMap((roomId) => groupsByRoom.get(roomId) || []),
+        room.id,
+        Number(room.turnoverBufferMinutes || 0),
+        maxCount
+      );
+
+      const days: AvailabilityMatrixDay[] = [];
+      for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+        const closure = closures.get(date);
+        const isClosed = !!closure && closure.closedSlots === null;
+        const dayRanges = ranges.filter((range) => range.date === date);
+        const dayGroups = ownGroups.filter((group) => group.date === date);
+
+        const slots: AvailabilityMatrixDay['slots'] = {};
+        for (const slot of roomSlots) {
+          const range = timeSlotRange(slot);
+          const count = maxConcurrentBookings(dayRanges, range);
+          slots[slot.code] = {
+            time_slot_id: slot.id,
+            available: !isClosed && !closure?.closedSlots?.includes(slot.code) && count < maxCount,
+            count,
+            blocked_reason: count >= maxCount ? this.blockedReason(dayRanges, range, maxCount) : null,
+            bookings: dayGroups
+              .filter((group) => maxConcurrentBookings(group.ranges, range) > 0)
+              .map((group) => group.booking),
+          };
+        }
 
-    // Check for existing reservations
-    const slotColumn = `use_${slot}`;
-    const [reservationRows] = await pool.query<RowDataPacket[]>(
-      `SELECT COUNT(*) as count FROM usages u
-      INNER JOIN applications a ON u.application_id = a.id
-      WHERE u.room_id = ?
-        AND u.date = ?
-        AND u.${slotColumn} = TRUE
-        AND a.cancel_status = 'none'`,
-      [roomId, date]
+        days.push({
+          date,
+          is_closed: isClosed,
+          closure_reason: closure ? closure.reason : null,
+          closed_slots: closure ? closure.closedSlots || roomSlots.map((slot) => slot.code) : [],
+          bookings: dayGroups
+            .map((group) => group.booking)
+            .sort((a, b) => a.start_time.localeCompare(b.start_time)),
+          slots,
+        });
+      }
+
+      return {
+        room: {
+          id: room.id,
+          name: room.name,
+          capacity: Number(room.capacity),
+          max_count: maxCount,
+          is_flexible_time: !!room.isFlexibleTime,
+        },
+        time_slots: roomSlots.map((slot) => ({
+          id: slot.id,
+          code: slot.code,
+          name: slot.name,
+          start_time: slot.startTime,
+          end_time: slot.endTime,
+        })),
+        days,
+      };
+    });
+  }
+
+  /**
+   * 期間内のすべての部屋の予約（利用明細ごと、確保中の時間帯は1件ごと）と申請の情報
+   */
+  private async findMatrixBookings(startDate: string, endDate: string): Promise<MatrixBookingGroup[]> {
+    const usageColumns = `u.id as usage_id, u.application_id, u.room_id, DATE_FORMAT(u.date, '%Y-%m-%d') as date,
+         DATE_FORMAT(CONVERT_TZ(a.setup_datetime, '+00:00', ${FACILITY_TIMEZONE_SQL}), '%Y-%m-%d') as setup_date,
+         TIME_FORMAT(CONVERT_TZ(a.setup_datetime, '+00:00', ${FACILITY_TIMEZONE_SQL}), '%H:%i') as setup_time,
+         a.event_name, COALESCE(a.applicant_group_name, a.applicant_representative) as applicant_name,
+         a.payment_status, a.approval_status, a.hold_status`;
+
+    const [slotRows] = await pool.query<RowDataPacket[]>(
+      `SELECT ${usageColumns},
+         TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time
+       FROM usage_time_slots uts
+       INNER JOIN time_slots ts ON uts.time_slot_id = ts.id
+       INNER JOIN usages u ON uts.usage_id = u.id
+       INNER JOIN applications a ON u.application_id = a.id
+       WHERE u.date BETWEEN ? AND ?
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'`,
+      [startDate, endDate]
+    );
+
+    const [flexibleRows] = await pool.query<RowDataPacket[]>(
+      `SELECT ${usageColumns},
+         TIME_FORMAT(u.start_time, '%H:%i') as start_time, TIME_FORMAT(u.end_time, '%H:%i') as end_time
+       FROM usages u
+       INNER JOIN applications a ON u.application_id = a.id
+       WHERE u.date BETWEEN ? AND ?
+         AND u.start_time IS NOT NULL
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'`,
+      [startDate, endDate]
+    );
+
+    const [heldRows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.id as hold_id, w.room_id, DATE_FORMAT(w.date, '%Y-%m-%d') as date,
+         TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time
+       FROM waitlist_entries w
+       INNER JOIN time_slots ts ON w.time_slot_id = ts.id
+       WHERE w.date BETWEEN ? AND ?
+         AND w.status = 'offered'
+         AND w.offer_expires_at > NOW()`,
+      [startDate, endDate]
     );
 
-    return reservationRows[0].count < maxCount;
+    const groups = new Map<string, MatrixBookingGroup>();
+    const addRow = (key: string, row: RowDataPacket, booking: Omit<AvailabilityMatrixBooking, 'start_time' | 'end_time'>) => {
+      if (!groups.has(key)) {
+        groups.set(key, {
+          date: row.date,
+          roomId: Number(row.room_id),
+          setupTime: row.setup_date && row.setup_date === row.date ? row.setup_time : null,
+          ranges: [],
+          booking: { ...booking, start_time: row.start_time, end_time: row.end_time },
+        });
+      }
+      const group = groups.get(key)!;
+      group.ranges.push({ startTime: row.start_time, endTime: row.end_time });
+      // 予約した時間の最初から最後まで（時間帯予約は複数の時間帯をまとめる）
+      if (row.start_time < group.booking.start_time) group.booking.start_time = row.start_time;
+      if (row.end_time > group.booking.end_time) group.booking.end_time = row.end_time;
+    };
+
+    for (const row of [...slotRows, ...flexibleRows]) {
+      addRow(`usage:${row.usage_id}`, row, {
+        type: 'usage',
+        usage_id: Number(row.usage_id),
+        application_id: Number(row.application_id),
+        event_name: row.event_name || null,
+        applicant_name: row.applicant_name || null,
+        payment_status: row.payment_status,
+        approval_status: row.approval_status,
+        hold_status: row.hold_status,
+      });
+    }
+    for (const row of heldRows) {
+      addRow(`hold:${row.hold_id}`, row, {
+        type: 'waitlist_hold',
+        usage_id: null,
+        application_id: null,
+        event_name: null,
+        applicant_name: null,
+        payment_status: null,
+        approval_status: null,
+        hold_status: null,
+      });
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * この部屋の予約では満室でないのに、全体・分割した部屋の予約や準備時間・転換時間のために予約できない時間帯の理由
+   */
+  private blockedReason(
+    bookings: BlockedRange[],
+    range: TimeRange,
+    maxCount: number
+  ): 'linked' | 'setup' | 'turnover' | null {
+    if (maxConcurrentBookings(bookings.filter((b) => b.reason === 'booking'), range) >= maxCount) {
+      return null;
+    }
+    if (maxConcurrentBookings(bookings.filter((b) => b.reason === 'linked'), range) > 0) {
+      return 'linked';
+    }
+    const setups = bookings.filter((b) => b.reason === 'setup');
+    return maxConcurrentBookings(setups, range) > 0 ? 'setup' : 'turnover';
+  }
+
+  /**
+   * Check if a specific slot is available
+   * @param slot 時間帯コード（time_slots.code）
+   */
+  async checkSlotAvailability(roomId: number, date: string, slot: string): Promise<boolean> {
+    const roomSlots = await TimeSlotRepository.findRoomTimeSlots(roomId);
+    const timeSlot = roomSlots.find((s) => s.code === slot);
+    if (!timeSlot) {
+      return false;
+    }
+
+    return RoomRepository.checkTimeSlotAvailability(roomId, date, [timeSlot]);
   }
 }
 
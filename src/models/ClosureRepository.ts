@@ -0,0 +1,196 @@
+import { RowDataPacket } from 'mysql2';
+import pool from '../config/database';
+
+/**
+ * 部屋ごとの休館情報（全館休館日と部屋別休館日を統合したもの）
+ */
+export interface RoomClosure {
+  date: string;
+  reason: string | null;
+  closedSlots: string[] | null; // null = 終日休館、配列 = 休止する時間帯コード
+}
+
+/**
+ * 使用明細のフラグから時間帯コード（time_slots.code）の一覧を作成
+ */
+export function usageSlotCodes(usage: {
+  use_morning?: boolean;
+  use_afternoon?: boolean;
+  use_evening?: boolean;
+  use_midday_extension?: boolean;
+  use_evening_extension?: boolean;
+}): string[] {
+  const codes: string[] = [];
+  if (usage.use_morning) codes.push('morning');
+  if (usage.use_midday_extension) codes.push('midday_extension');
+  if (usage.use_afternoon) codes.push('afternoon');
+  if (usage.use_evening_extension) codes.push('evening_extension');
+  if (usage.use_evening) codes.push('evening');
+  return codes;
+}
+
+export class ClosureRepository {
+  /**
+   * Get closures affecting a room between two dates (inclusive), keyed by YYYY-MM-DD
+   * - closed_dates: full / year_end は全部屋、partial は affected_rooms に含まれる部屋のみ終日休館
+   * - room_closed_dates: closed_time_slots が NULL なら終日、配列なら該当時間帯のみ休止
+   */
+  async findByRoomAndRange(roomId: number, startDate: string, endDate: string): Promise<Map<string, RoomClosure>> {
+    return (await this.findByRoomsAndRange([roomId], startDate, endDate)).get(roomId)!;
+  }
+
+  /**
+   * Get closures affecting each room between two dates (inclusive), keyed by room ID and YYYY-MM-DD
+   * 部屋の数によらず同じ回数のクエリで取得する（職員用の空き状況一覧など）
+   */
+  async findByRoomsAndRange(
+    roomIds: number[],
+    startDate: string,
+    endDate: string
+  ): Promise<Map<number, Map<string, RoomClosure>>> {
+    const closuresByRoom = new Map<number, Map<string, RoomClosure>>(
+      roomIds.map((roomId) => [roomId, new Map<string, RoomClosure>()])
+    );
+    if (roomIds.length === 0) {
+      return closuresByRoom;
+    }
+
+    const [globalRows] = await pool.query<RowDataPacket[]>(
+      `SELECT DATE_FORMAT(date, "%Y-%m-%d") as date, reason, closure_type, affected_rooms
+       FROM closed_dates
+       WHERE date BETWEEN ? AND ?`,
+      [startDate, endDate]
+    );
+
+    for (const row of globalRows) {
+      const allRooms = !row.closure_type || row.closure_type === 'full' || row.closure_type === 'year_end';
+      const affectedRooms = row.closure_type === 'partial' ? this.parseJsonArray(row.affected_rooms) || [] : [];
+
+      for (const roomId of roomIds) {
+        if (allRooms || affectedRooms.includes(roomId)) {
+          closuresByRoom.get(roomId)!.set(row.date, { date: row.date, reason: row.reason || null, closedSlots: null });
+        }
+      }
+    }
+
+    const [roomRows] = await pool.query<RowDataPacket[]>(
+      `SELECT room_id, DATE_FORMAT(date, "%Y-%m-%d") as date, reason, closed_time_slots
+       FROM room_closed_dates
+       WHERE room_id IN (?) AND date BETWEEN ? AND ?`,
+      [roomIds, startDate, endDate]
+    );
+
+    if (roomRows.length === 0) {
+      return closuresByRoom;
+    }
+
+    const slotCodes = await this.getTimeSlotCodeMap();
+
+    for (const row of roomRows) {
+      const closures = closuresByRoom.get(Number(row.room_id));
+      if (!closures) {
+        continue;
+      }
+
+      const existing = closures.get(row.date);
+      if (existing && existing.closedSlots === null) {
+        continue; // 全館休館が優先
+      }
+
+      const slotIds = this.parseJsonArray(row.closed_time_slots);
+      if (slotIds === null) {
+        closures.set(row.date, { date: row.date, reason: row.reason || null, closedSlots: null });
+        continue;
+      }
+
+      const codes = slotIds
+        .map((id) => slotCodes.get(Number(id)))
+        .filter((code): code is string => !!code);
+
+      closures.set(row.date, {
+        date: row.date,
+        reason: row.reason || null,
+        closedSlots: Array.from(new Set([...(existing?.closedSlots || []), ...codes])),
+      });
+    }
+
+    return closuresByRoom;
+  }
+
+  /**
+   * Get the closure affecting a room on a specific date
+   */
+  async findByRoomAndDate(roomId: number, date: string): Promise<RoomClosure | null> {
+    const closures = await this.findByRoomAndRange(roomId, date, date);
+    return closures.get(date) || null;
+  }
+
+  /**
+   * Return the closure that blocks any of the requested slots, or null when the slots are open
+   */
+  async findConflict(roomId: number, date: string, slotCodes: string[]): Promise<RoomClosure | null> {
+    const closure = await this.findByRoomAndDate(roomId, date);
+    if (!closure) {
+      return null;
+    }
+
+    if (closure.closedSlots === null) {
+      return closure;
+    }
+
+    return slotCodes.some((code) => closure.closedSlots!.includes(code)) ? closure : null;
+  }
+
+  /**
+   * Return the closure that blocks a time range (自由時間制の部屋), or null when the range is open
+   * 休止する時間帯と時刻が重なる場合に休館とみなす
+   */
+  async findTimeRangeConflict(
+    roomId: number,
+    date: string,
+    startTime: string,
+    endTime: string
+  ): Promise<RoomClosure | null> {
+    const closure = await this.findByRoomAndDate(roomId, date);
+    if (!closure) {
+      return null;
+    }
+
+    if (closure.closedSlots === null) {
+      return closure;
+    }
+    if (closure.closedSlots.length === 0) {
+      return null;
+    }
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) as count
+       FROM time_slots
+       WHERE code IN (?) AND start_time < ? AND end_time > ?`,
+      [closure.closedSlots, endTime, startTime]
+    );
+
+    return Number(rows[0]?.count || 0) > 0 ? closure : null;
+  }
+
+  /**
+   * 時間帯ID → 時間帯コードの対応表
+   */
+  private async getTimeSlotCodeMap(): Promise<Map<number, string>> {
+    const [rows] = await pool.query<RowDataPacket[]>('SELECT id, code FROM time_slots');
+    return new Map(rows.map((row) => [Number(row.id), row.code]));
+  }
+
+  /**
+   * JSON 列（closed_time_slots・affected_rooms）を配列に変換。closed_time_slots の NULL は終日休館を表す
+   */
+  private parseJsonArray(value: any): number[] | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(parsed) ? parsed : null;
+  }
+}
+
+export default new ClosureRepository();
@@ -1,6 +1,15 @@
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { PoolConnection } from 'mysql2/promise';
 import pool from '../config/database';
 import { Equipment } from './types';
+import { EquipmentAllocation } from '../utils/equipmentStock';
+
+export interface DatedEquipmentAllocation extends EquipmentAllocation {
+  date: string;
+  usageId: number;
+  applicationId: number;
+  roomId: number;
+}
 
 export class EquipmentRepository {
   /**
@@ -149,6 +158,71 @@ export class EquipmentRepository {
     return equipment;
   }
 
+  /**
+   * Get equipment lent out between two dates (inclusive), one row per booked time range
+   * 時間帯予約は予約した時間帯ごと、自由時間制の予約は開始〜終了時刻で返す
+   *
+   * @param equipmentIds - 対象の設備（null の場合はすべて）
+   * @param options.connection - 指定した場合はロック読み取り（FOR UPDATE）で最新のコミット済みデータを読む
+   */
+  async findAllocations(
+    equipmentIds: number[] | null,
+    startDate: string,
+    endDate: string,
+    options: { excludeApplicationId?: number; connection?: PoolConnection } = {}
+  ): Promise<DatedEquipmentAllocation[]> {
+    if (equipmentIds && equipmentIds.length === 0) {
+      return [];
+    }
+
+    const { excludeApplicationId, connection } = options;
+    const conditions = `
+      AND a.cancel_status = 'none'
+      AND u.cancel_status = 'none'
+      ${equipmentIds ? 'AND ue.equipment_id IN (?)' : ''}
+      ${excludeApplicationId ? 'AND u.application_id != ?' : ''}
+      ${connection ? 'FOR UPDATE' : ''}`;
+    const params: any[] = [startDate, endDate];
+    if (equipmentIds) params.push(equipmentIds);
+    if (excludeApplicationId) params.push(excludeApplicationId);
+
+    const [slotRows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT ue.usage_id, u.application_id, u.room_id, ue.equipment_id, ue.quantity,
+         DATE_FORMAT(u.date, '%Y-%m-%d') as date,
+         TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time
+       FROM usage_equipment ue
+       INNER JOIN usages u ON ue.usage_id = u.id
+       INNER JOIN applications a ON u.application_id = a.id
+       INNER JOIN usage_time_slots uts ON uts.usage_id = u.id
+       INNER JOIN time_slots ts ON uts.time_slot_id = ts.id
+       WHERE u.date BETWEEN ? AND ? ${conditions}`,
+      params
+    );
+
+    const [flexibleRows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT ue.usage_id, u.application_id, u.room_id, ue.equipment_id, ue.quantity,
+         DATE_FORMAT(u.date, '%Y-%m-%d') as date,
+         TIME_FORMAT(u.start_time, '%H:%i') as start_time, TIME_FORMAT(u.end_time, '%H:%i') as end_time
+       FROM usage_equipment ue
+       INNER JOIN usages u ON ue.usage_id = u.id
+       INNER JOIN applications a ON u.application_id = a.id
+       WHERE u.date BETWEEN ? AND ?
+         AND u.start_time IS NOT NULL ${conditions}`,
+      params
+    );
+
+    return [...slotRows, ...flexibleRows].map((row) => ({
+      date: row.date,
+      usageId: row.usage_id,
+      applicationId: row.application_id,
+      roomId: row.room_id,
+      equipmentId: row.equipment_id,
+      quantity: Number(row.quantity),
+      startTime: row.start_time,
+      endTime: row.end_time,
+    }));
+  }
+
   /**
    * Delete equipment (soft delete by setting enabled to false)
    */
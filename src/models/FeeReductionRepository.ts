@@ -0,0 +1,158 @@
+import { RowDataPacket, ResultSetHeader, PoolConnection } from 'mysql2/promise';
+import pool from '../config/database';
+import { FeeReductionRule, FeeReductionStatus } from './types';
+
+export type FeeReductionRuleInput = Pick<
+  FeeReductionRule,
+  'name' | 'description' | 'reduction_type' | 'rate' | 'scope' | 'requires_attachment' | 'is_active' | 'display_order'
+>;
+
+export interface FeeReductionRequest {
+  application_id: number;
+  event_name: string;
+  applicant_representative: string;
+  user_id: number | null;
+  user_name: string | null;
+  payment_status: string;
+  total_amount: number;
+  reduction_amount: number;
+  reduction_status: FeeReductionStatus;
+  reduction_rule_id: number | null;
+  rule_name: string | null;
+  reduction_rate: number | null;
+  reduction_scope: FeeReductionRule['scope'] | null;
+  reduction_reason: string | null;
+  has_attachment: boolean;
+  reduction_requested_at: Date | null;
+  reduction_reviewed_at: Date | null;
+  reviewer_name: string | null;
+  reduction_review_comment: string | null;
+  first_usage_date: Date | null;
+}
+
+export class FeeReductionRepository {
+  /**
+   * 減免の種類の一覧（表示順）
+   */
+  async findRules(activeOnly: boolean = false): Promise<FeeReductionRule[]> {
+    const [rows] = await pool.query<(FeeReductionRule & RowDataPacket)[]>(
+      `SELECT * FROM fee_reduction_rules
+       ${activeOnly ? 'WHERE is_active = TRUE' : ''}
+       ORDER BY display_order ASC, id ASC`
+    );
+    return rows;
+  }
+
+  async findRuleById(id: number): Promise<FeeReductionRule | null> {
+    const [rows] = await pool.query<(FeeReductionRule & RowDataPacket)[]>(
+      'SELECT * FROM fee_reduction_rules WHERE id = ?',
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  async createRule(data: FeeReductionRuleInput): Promise<FeeReductionRule> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO fee_reduction_rules
+         (name, description, reduction_type, rate, scope, requires_attachment, is_active, display_order)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.name,
+        data.description,
+        data.reduction_type,
+        data.rate,
+        data.scope,
+        data.requires_attachment,
+        data.is_active,
+        data.display_order,
+      ]
+    );
+
+    return (await this.findRuleById(result.insertId))!;
+  }
+
+  async updateRule(id: number, data: Partial<FeeReductionRuleInput>): Promise<FeeReductionRule | null> {
+    const fields = Object.keys(data) as (keyof FeeReductionRuleInput)[];
+    if (fields.length > 0) {
+      await pool.query(
+        `UPDATE fee_reduction_rules SET ${fields.map((field) => `${field} = ?`).join(', ')} WHERE id = ?`,
+        [...fields.map((field) => data[field]), id]
+      );
+    }
+
+    return this.findRuleById(id);
+  }
+
+  /**
+   * 減免の申請を記録（未申請・却下済みの未決済の申請のみ。同時操作でも受け付けは一度だけ）
+   * 減額率と対象は申請時点の種類の内容を保存する
+   */
+  async request(
+    applicationId: number,
+    rule: FeeReductionRule,
+    reason: string,
+    attachmentPath: string | null
+  ): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE applications SET
+         reduction_status = 'pending', reduction_rule_id = ?, reduction_rate = ?, reduction_scope = ?,
+         reduction_reason = ?, reduction_attachment_path = ?, reduction_requested_at = NOW(),
+         reduction_reviewed_by = NULL, reduction_reviewed_at = NULL, reduction_review_comment = NULL
+       WHERE id = ? AND reduction_status IN ('none', 'rejected')
+         AND payment_status = 'unpaid' AND cancel_status = 'none'`,
+      [rule.id, rule.rate, rule.scope, reason, attachmentPath, applicationId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 審査結果を記録（審査中の場合のみ更新、トランザクション内で使用）
+   */
+  async recordDecision(
+    connection: PoolConnection,
+    applicationId: number,
+    status: 'approved' | 'rejected',
+    staffId: number,
+    comment: string | null
+  ): Promise<boolean> {
+    const [result] = await connection.query<ResultSetHeader>(
+      `UPDATE applications SET
+         reduction_status = ?, reduction_reviewed_by = ?, reduction_reviewed_at = NOW(), reduction_review_comment = ?
+       WHERE id = ? AND reduction_status = 'pending' AND payment_status = 'unpaid' AND cancel_status = 'none'`,
+      [status, staffId, comment, applicationId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 減免の申請一覧（職員の審査用、申請日時順）
+   */
+  async findRequests(status?: FeeReductionStatus): Promise<FeeReductionRequest[]> {
+    let query = `
+      SELECT a.id as application_id, a.event_name, a.applicant_representative, a.user_id, u.name as user_name,
+        a.payment_status, a.total_amount, a.reduction_amount, a.reduction_status, a.reduction_rule_id,
+        fr.name as rule_name, a.reduction_rate, a.reduction_scope, a.reduction_reason,
+        a.reduction_attachment_path IS NOT NULL as has_attachment,
+        a.reduction_requested_at, a.reduction_reviewed_at, rv.name as reviewer_name, a.reduction_review_comment,
+        (SELECT MIN(us.date) FROM usages us WHERE us.application_id = a.id AND us.cancel_status = 'none') as first_usage_date
+      FROM applications a
+      LEFT JOIN users u ON a.user_id = u.id
+      LEFT JOIN users rv ON a.reduction_reviewed_by = rv.id
+      LEFT JOIN fee_reduction_rules fr ON a.reduction_rule_id = fr.id
+      WHERE a.reduction_status != 'none'
+    `;
+    const params: any[] = [];
+
+    if (status) {
+      query += ' AND a.reduction_status = ?';
+      params.push(status);
+    }
+
+    query += ' ORDER BY a.reduction_requested_at ASC';
+
+    const [rows] = await pool.query<RowDataPacket[]>(query, params);
+    return rows.map((row) => ({ ...row, has_attachment: !!row.has_attachment })) as FeeReductionRequest[];
+  }
+}
+
+export default new FeeReductionRepository();
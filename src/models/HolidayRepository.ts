@@ -43,6 +43,17 @@ class HolidayRepository {
     return rows.map(row => this.toCamelCase(row));
   }
 
+  /**
+   * 期間内の祝日名を取得（キーは YYYY-MM-DD）
+   */
+  async findNamesByDateRange(startDate: string, endDate: string): Promise<Map<string, string>> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT DATE_FORMAT(date, "%Y-%m-%d") as date, name FROM holidays WHERE date BETWEEN ? AND ?',
+      [startDate, endDate]
+    );
+    return new Map(rows.map(row => [row.date, row.name]));
+  }
+
   /**
    * IDで祝日を取得
    */
@@ -0,0 +1,301 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import pool from '../config/database';
+import { LotteryRound, LotteryEntry, LotteryPreference, LotteryEntryStatus } from './types';
+
+export interface LotteryRoundWithDetails extends LotteryRound {
+  room_name: string;
+  entry_count: number;
+}
+
+export interface LotteryEntryWithPreferences extends LotteryEntry {
+  user_name: string;
+  preferences: LotteryPreference[];
+}
+
+export class LotteryRepository {
+  /**
+   * Create a lottery round
+   */
+  async createRound(data: {
+    room_id: number;
+    target_month: string;
+    entry_start_at: Date;
+    entry_end_at: Date;
+    payment_due_days: number;
+    created_by: number | null;
+  }): Promise<LotteryRound> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO lottery_rounds (room_id, target_month, entry_start_at, entry_end_at, payment_due_days, created_by)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [data.room_id, data.target_month, data.entry_start_at, data.entry_end_at, data.payment_due_days, data.created_by]
+    );
+
+    return (await this.findRoundById(result.insertId))!;
+  }
+
+  async findRoundById(id: number): Promise<LotteryRound | null> {
+    const [rows] = await pool.query<(LotteryRound & RowDataPacket)[]>(
+      'SELECT * FROM lottery_rounds WHERE id = ?',
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * 抽選の一覧（部屋名・応募数を含む、対象月の新しい順）
+   */
+  async findRounds(
+    filter: { id?: number; roomId?: number; status?: LotteryRound['status'] } = {}
+  ): Promise<LotteryRoundWithDetails[]> {
+    let query = `
+      SELECT lr.*, r.name as room_name,
+        (SELECT COUNT(*) FROM lottery_entries le WHERE le.round_id = lr.id AND le.status != 'cancelled') as entry_count
+      FROM lottery_rounds lr
+      INNER JOIN rooms r ON lr.room_id = r.id
+      WHERE 1=1
+    `;
+    const params: any[] = [];
+
+    if (filter.id) {
+      query += ' AND lr.id = ?';
+      params.push(filter.id);
+    }
+    if (filter.roomId) {
+      query += ' AND lr.room_id = ?';
+      params.push(filter.roomId);
+    }
+    if (filter.status) {
+      query += ' AND lr.status = ?';
+      params.push(filter.status);
+    }
+
+    query += ' ORDER BY lr.target_month DESC, r.display_order ASC';
+
+    const [rows] = await pool.query<RowDataPacket[]>(query, params);
+    return rows as LotteryRoundWithDetails[];
+  }
+
+  /**
+   * 部屋・月の抽選前の抽選（受付中、または受付終了後で抽選前のもの）
+   */
+  async findUndrawnRound(roomId: number, targetMonth: string): Promise<LotteryRound | null> {
+    const [rows] = await pool.query<(LotteryRound & RowDataPacket)[]>(
+      "SELECT * FROM lottery_rounds WHERE room_id = ? AND target_month = ? AND status = 'accepting'",
+      [roomId, targetMonth]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * 抽選済みにする（抽選前の場合のみ、同時に抽選された場合は false）
+   */
+  async markDrawn(id: number, seed: string, staffId: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      `UPDATE lottery_rounds SET status = 'drawn', seed = ?, drawn_at = NOW(), drawn_by = ?
+       WHERE id = ? AND status = 'accepting'`,
+      [seed, staffId, id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 抽選を中止する（抽選前の場合のみ）
+   */
+  async cancelRound(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      "UPDATE lottery_rounds SET status = 'cancelled' WHERE id = ? AND status = 'accepting'",
+      [id]
+    );
+    if (result.affectedRows > 0) {
+      await pool.query("UPDATE lottery_entries SET status = 'cancelled' WHERE round_id = ? AND status = 'entered'", [id]);
+    }
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 応募と希望を登録
+   */
+  async createEntry(
+    roundId: number,
+    userId: number,
+    data: {
+      event_name: string;
+      expected_attendees: number | null;
+      entrance_fee_type: 'free' | 'paid';
+      entrance_fee_amount: number;
+      preferences: { date: string; time_slot_ids: number[] }[];
+    }
+  ): Promise<LotteryEntry> {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [result] = await connection.query<ResultSetHeader>(
+        `INSERT INTO lottery_entries (round_id, user_id, event_name, expected_attendees, entrance_fee_type, entrance_fee_amount)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [roundId, userId, data.event_name, data.expected_attendees, data.entrance_fee_type, data.entrance_fee_amount]
+      );
+
+      for (let i = 0; i < data.preferences.length; i++) {
+        await connection.query(
+          'INSERT INTO lottery_preferences (entry_id, preference_rank, date, time_slot_ids) VALUES (?, ?, ?, ?)',
+          [result.insertId, i + 1, data.preferences[i].date, JSON.stringify(data.preferences[i].time_slot_ids)]
+        );
+      }
+
+      await connection.commit();
+      return (await this.findEntryById(result.insertId))!;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async findEntryById(id: number): Promise<LotteryEntry | null> {
+    const [rows] = await pool.query<(LotteryEntry & RowDataPacket)[]>(
+      'SELECT * FROM lottery_entries WHERE id = ?',
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * 同じ抽選への利用者の応募（取り下げたものを含む）
+   */
+  async findEntryByUser(roundId: number, userId: number): Promise<LotteryEntry | null> {
+    const [rows] = await pool.query<(LotteryEntry & RowDataPacket)[]>(
+      'SELECT * FROM lottery_entries WHERE round_id = ? AND user_id = ?',
+      [roundId, userId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * 取り下げた応募を再度応募中にし、希望を入れ替える
+   */
+  async reenterEntry(
+    entryId: number,
+    data: {
+      event_name: string;
+      expected_attendees: number | null;
+      entrance_fee_type: 'free' | 'paid';
+      entrance_fee_amount: number;
+      preferences: { date: string; time_slot_ids: number[] }[];
+    }
+  ): Promise<LotteryEntry> {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      await connection.query(
+        `UPDATE lottery_entries
+         SET status = 'entered', event_name = ?, expected_attendees = ?, entrance_fee_type = ?, entrance_fee_amount = ?
+         WHERE id = ?`,
+        [data.event_name, data.expected_attendees, data.entrance_fee_type, data.entrance_fee_amount, entryId]
+      );
+      await connection.query('DELETE FROM lottery_preferences WHERE entry_id = ?', [entryId]);
+
+      for (let i = 0; i < data.preferences.length; i++) {
+        await connection.query(
+          'INSERT INTO lottery_preferences (entry_id, preference_rank, date, time_slot_ids) VALUES (?, ?, ?, ?)',
+          [entryId, i + 1, data.preferences[i].date, JSON.stringify(data.preferences[i].time_slot_ids)]
+        );
+      }
+
+      await connection.commit();
+      return (await this.findEntryById(entryId))!;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * 利用者の応募一覧（抽選・部屋の情報を含む）
+   */
+  async findEntriesByUser(userId: number): Promise<(LotteryEntryWithPreferences & Record<string, any>)[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT le.*, us.name as user_name, lr.room_id, lr.target_month, lr.entry_end_at, lr.status as round_status,
+         r.name as room_name, a.payment_due_at
+       FROM lottery_entries le
+       INNER JOIN lottery_rounds lr ON le.round_id = lr.id
+       INNER JOIN rooms r ON lr.room_id = r.id
+       INNER JOIN users us ON le.user_id = us.id
+       LEFT JOIN applications a ON le.application_id = a.id
+       WHERE le.user_id = ?
+       ORDER BY lr.target_month DESC, le.id DESC`,
+      [userId]
+    );
+    return this.attachPreferences(rows as (LotteryEntryWithPreferences & Record<string, any>)[]);
+  }
+
+  /**
+   * 抽選の応募一覧（希望を含む、取り下げたものを除く場合は activeOnly）
+   */
+  async findEntriesByRound(roundId: number, activeOnly = false): Promise<LotteryEntryWithPreferences[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT le.*, us.name as user_name
+       FROM lottery_entries le
+       INNER JOIN users us ON le.user_id = us.id
+       WHERE le.round_id = ? ${activeOnly ? "AND le.status = 'entered'" : ''}
+       ORDER BY le.draw_order IS NULL, le.draw_order ASC, le.id ASC`,
+      [roundId]
+    );
+    return this.attachPreferences(rows as LotteryEntryWithPreferences[]);
+  }
+
+  async updateEntryStatus(id: number, status: LotteryEntryStatus): Promise<void> {
+    await pool.query('UPDATE lottery_entries SET status = ? WHERE id = ?', [status, id]);
+  }
+
+  /**
+   * 抽選結果を記録
+   */
+  async recordResult(
+    id: number,
+    result: {
+      status: 'won' | 'lost';
+      draw_order: number;
+      won_preference_id: number | null;
+      application_id: number | null;
+      result_note: string | null;
+    }
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE lottery_entries
+       SET status = ?, draw_order = ?, won_preference_id = ?, application_id = ?, result_note = ?
+       WHERE id = ?`,
+      [result.status, result.draw_order, result.won_preference_id, result.application_id, result.result_note, id]
+    );
+  }
+
+  private async attachPreferences<T extends LotteryEntryWithPreferences>(entries: T[]): Promise<T[]> {
+    if (entries.length === 0) {
+      return entries;
+    }
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, entry_id, preference_rank, DATE_FORMAT(date, '%Y-%m-%d') as date, time_slot_ids
+       FROM lottery_preferences
+       WHERE entry_id IN (?)
+       ORDER BY preference_rank ASC`,
+      [entries.map((entry) => entry.id)]
+    );
+
+    for (const entry of entries) {
+      entry.preferences = rows
+        .filter((row) => row.entry_id === entry.id)
+        .map((row) => ({
+          ...(row as LotteryPreference),
+          time_slot_ids: typeof row.time_slot_ids === 'string' ? JSON.parse(row.time_slot_ids) : row.time_slot_ids,
+        }));
+    }
+    return entries;
+  }
+}
+
+export default new LotteryRepository();
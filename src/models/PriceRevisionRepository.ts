@@ -0,0 +1,362 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import pool from '../config/database';
+import { EquipmentPriceRevision, RoomPriceRevision } from './types';
+import { EquipmentTariff, RoomTariff, findEffectiveTariff } from '../utils/priceRevision';
+
+// 料金表として保存する部屋の料金列
+export const ROOM_PRICE_COLUMNS = [
+  'base_price_morning',
+  'base_price_afternoon',
+  'base_price_evening',
+  'extension_price_midday',
+  'extension_price_evening',
+  'weekend_price_morning',
+  'weekend_price_afternoon',
+  'weekend_price_evening',
+  'weekend_extension_price_midday',
+  'weekend_extension_price_evening',
+  'ac_price_per_hour',
+  'price_per_unit',
+  'weekend_price_per_unit',
+] as const;
+
+export type RoomRevisionInput = Pick<RoomPriceRevision, (typeof ROOM_PRICE_COLUMNS)[number] | 'time_slot_prices' | 'note'>;
+
+export type EquipmentRevisionInput = Pick<EquipmentPriceRevision, 'price_type' | 'unit_price' | 'note'>;
+
+const nullableNumber = (value: any): number | null => (value === null || value === undefined ? null : Number(value));
+
+export class PriceRevisionRepository {
+  private toRoomRevision(row: RowDataPacket): RoomPriceRevision {
+    const slotPrices = typeof row.time_slot_prices === 'string' ? JSON.parse(row.time_slot_prices) : row.time_slot_prices;
+    return {
+      ...(row as RoomPriceRevision),
+      time_slot_prices: (slotPrices || []).map((price: any) => ({
+        time_slot_id: Number(price.time_slot_id),
+        base_price: Number(price.base_price || 0),
+        weekend_price: nullableNumber(price.weekend_price),
+      })),
+    };
+  }
+
+  private toRoomTariff(revision: RoomPriceRevision): RoomTariff {
+    return {
+      effectiveFrom: revision.effective_from,
+      basePriceMorning: Number(revision.base_price_morning),
+      basePriceAfternoon: Number(revision.base_price_afternoon),
+      basePriceEvening: Number(revision.base_price_evening),
+      extensionPriceMidday: Number(revision.extension_price_midday),
+      extensionPriceEvening: Number(revision.extension_price_evening),
+      weekendPriceMorning: nullableNumber(revision.weekend_price_morning),
+      weekendPriceAfternoon: nullableNumber(revision.weekend_price_afternoon),
+      weekendPriceEvening: nullableNumber(revision.weekend_price_evening),
+      weekendExtensionPriceMidday: nullableNumber(revision.weekend_extension_price_midday),
+      weekendExtensionPriceEvening: nullableNumber(revision.weekend_extension_price_evening),
+      acPricePerHour: Number(revision.ac_price_per_hour),
+      pricePerUnit: nullableNumber(revision.price_per_unit),
+      weekendPricePerUnit: nullableNumber(revision.weekend_price_per_unit),
+      timeSlotPrices: revision.time_slot_prices.map((price) => ({
+        timeSlotId: price.time_slot_id,
+        basePrice: price.base_price,
+        weekendPrice: price.weekend_price,
+      })),
+    };
+  }
+
+  // ===== 部屋 =====
+
+  /**
+   * 部屋の料金改定の履歴（適用開始日順、予定を含む）
+   */
+  async findRoomRevisions(roomId: number): Promise<RoomPriceRevision[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from
+       FROM room_price_revisions WHERE room_id = ? ORDER BY effective_from ASC`,
+      [roomId]
+    );
+    return rows.map((row) => this.toRoomRevision(row));
+  }
+
+  async findRoomRevisionById(id: number): Promise<RoomPriceRevision | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from FROM room_price_revisions WHERE id = ?`,
+      [id]
+    );
+    return rows[0] ? this.toRoomRevision(rows[0]) : null;
+  }
+
+  /**
+   * 指定日に有効な部屋の料金改定（履歴がない場合は null）
+   */
+  async findEffectiveRoomRevision(roomId: number, date: string): Promise<RoomPriceRevision | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from
+       FROM room_price_revisions
+       WHERE room_id = ? AND effective_from <= ?
+       ORDER BY effective_from DESC
+       LIMIT 1`,
+      [roomId, date]
+    );
+    return rows[0] ? this.toRoomRevision(rows[0]) : null;
+  }
+
+  /**
+   * 指定日に有効な部屋の料金表（履歴がない場合は null）
+   */
+  async findRoomTariff(roomId: number, date: string): Promise<RoomTariff | null> {
+    const revision = await this.findEffectiveRoomRevision(roomId, date);
+    return revision ? this.toRoomTariff(revision) : null;
+  }
+
+  /**
+   * 部屋の料金改定を登録（同じ適用開始日の改定は置き換える）
+   */
+  async saveRoomRevision(
+    roomId: number,
+    effectiveFrom: string,
+    data: RoomRevisionInput,
+    createdBy: number | null
+  ): Promise<RoomPriceRevision> {
+    const columns = [...ROOM_PRICE_COLUMNS, 'time_slot_prices', 'note', 'created_by'];
+    const values = [
+      ...ROOM_PRICE_COLUMNS.map((column) => data[column]),
+      JSON.stringify(data.time_slot_prices),
+      data.note,
+      createdBy,
+    ];
+
+    await pool.query<ResultSetHeader>(
+      `INSERT INTO room_price_revisions (room_id, effective_from, ${columns.join(', ')}, applied_at)
+       VALUES (?, ?, ${columns.map(() => '?').join(', ')}, NULL)
+       ON DUPLICATE KEY UPDATE ${columns.map((column) => `${column} = VALUES(${column})`).join(', ')}, applied_at = NULL`,
+      [roomId, effectiveFrom, ...values]
+    );
+
+    return (await this.findRoomRevisionAt(roomId, effectiveFrom))!;
+  }
+
+  /**
+   * 部屋の現在の料金（rooms と room_time_slot_prices）を料金表として記録（反映済みとして保存）
+   */
+  async snapshotRoom(roomId: number, effectiveFrom: string, note: string | null, createdBy: number | null): Promise<void> {
+    await pool.query(
+      `INSERT INTO room_price_revisions (
+         room_id, effective_from, ${ROOM_PRICE_COLUMNS.join(', ')}, time_slot_prices, note, created_by, applied_at
+       )
+       SELECT r.id, ?, ${ROOM_PRICE_COLUMNS.map((column) => `r.${column}`).join(', ')},
+         (SELECT JSON_ARRAYAGG(JSON_OBJECT('time_slot_id', p.time_slot_id, 'base_price', p.base_price, 'weekend_price', p.weekend_price))
+          FROM room_time_slot_prices p WHERE p.room_id = r.id),
+         ?, ?, NOW()
+       FROM rooms r
+       WHERE r.id = ?
+       ON DUPLICATE KEY UPDATE
+         ${ROOM_PRICE_COLUMNS.map((column) => `${column} = VALUES(${column})`).join(', ')},
+         time_slot_prices = VALUES(time_slot_prices), note = VALUES(note), created_by = VALUES(created_by), applied_at = NOW()`,
+      [effectiveFrom, note, createdBy, roomId]
+    );
+  }
+
+  /**
+   * 未反映の改定を削除（反映済みの料金表は履歴として残す）
+   */
+  async deletePendingRoomRevision(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'DELETE FROM room_price_revisions WHERE id = ? AND applied_at IS NULL',
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * 適用開始日を迎えた未反映の部屋の改定（適用開始日順）
+   */
+  async findDueRoomRevisions(today: string): Promise<RoomPriceRevision[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from
+       FROM room_price_revisions
+       WHERE applied_at IS NULL AND effective_from <= ?
+       ORDER BY effective_from ASC, id ASC`,
+      [today]
+    );
+    return rows.map((row) => this.toRoomRevision(row));
+  }
+
+  /**
+   * 改定を部屋の現在の料金（料金表示・編集画面の値）に反映
+   */
+  async applyRoomRevision(revision: RoomPriceRevision): Promise<void> {
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      await connection.query(
+        `UPDATE rooms SET ${ROOM_PRICE_COLUMNS.map((column) => `${column} = ?`).join(', ')} WHERE id = ?`,
+        [...ROOM_PRICE_COLUMNS.map((column) => revision[column]), revision.room_id]
+      );
+      for (const price of revision.time_slot_prices) {
+        await connection.query(
+          'UPDATE room_time_slot_prices SET base_price = ?, weekend_price = ? WHERE room_id = ? AND time_slot_id = ?',
+          [price.base_price, price.weekend_price, revision.room_id, price.time_slot_id]
+        );
+      }
+      await connection.query('UPDATE room_price_revisions SET applied_at = NOW() WHERE id = ?', [revision.id]);
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  private async findRoomRevisionAt(roomId: number, effectiveFrom: string): Promise<RoomPriceRevision | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from
+       FROM room_price_revisions WHERE room_id = ? AND effective_from = ?`,
+      [roomId, effectiveFrom]
+    );
+    return rows[0] ? this.toRoomRevision(rows[0]) : null;
+  }
+
+  // ===== 設備 =====
+
+  /**
+   * 設備の料金改定の履歴（適用開始日順、予定を含む）
+   */
+  async findEquipmentRevisions(equipmentId: number): Promise<EquipmentPriceRevision[]> {
+    const [rows] = await pool.query<(EquipmentPriceRevision & RowDataPacket)[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from
+       FROM equipment_price_revisions WHERE equipment_id = ? ORDER BY effective_from ASC`,
+      [equipmentId]
+    );
+    return rows;
+  }
+
+  async findEquipmentRevisionById(id: number): Promise<EquipmentPriceRevision | null> {
+    const [rows] = await pool.query<(EquipmentPriceRevision & RowDataPacket)[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from FROM equipment_price_revisions WHERE id = ?`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * 指定日に有効な設備の料金表（設備IDごと、履歴がない設備は含まない）
+   */
+  async findEquipmentTariffs(equipmentIds: number[], date: string): Promise<Map<number, EquipmentTariff>> {
+    const tariffs = new Map<number, EquipmentTariff>();
+    if (equipmentIds.length === 0) {
+      return tariffs;
+    }
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT equipment_id, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from, price_type, unit_price
+       FROM equipment_price_revisions
+       WHERE equipment_id IN (?) AND effective_from <= ?`,
+      [equipmentIds, date]
+    );
+
+    for (const equipmentId of equipmentIds) {
+      const tariff = findEffectiveTariff(
+        rows
+          .filter((row) => row.equipment_id === equipmentId)
+          .map((row) => ({ effectiveFrom: row.effective_from, priceType: row.price_type, unitPrice: Number(row.unit_price) })),
+        date
+      );
+      if (tariff) {
+        tariffs.set(equipmentId, tariff);
+      }
+    }
+    return tariffs;
+  }
+
+  /**
+   * 設備の料金改定を登録（同じ適用開始日の改定は置き換える）
+   */
+  async saveEquipmentRevision(
+    equipmentId: number,
+    effectiveFrom: string,
+    data: EquipmentRevisionInput,
+    createdBy: number | null
+  ): Promise<EquipmentPriceRevision> {
+    await pool.query<ResultSetHeader>(
+      `INSERT INTO equipment_price_revisions (equipment_id, effective_from, price_type, unit_price, note, created_by, applied_at)
+       VALUES (?, ?, ?, ?, ?, ?, NULL)
+       ON DUPLICATE KEY UPDATE price_type = VALUES(price_type), unit_price = VALUES(unit_price),
+         note = VALUES(note), created_by = VALUES(created_by), applied_at = NULL`,
+      [equipmentId, effectiveFrom, data.price_type, data.unit_price, data.note, createdBy]
+    );
+
+    const [rows] = await pool.query<(EquipmentPriceRevision & RowDataPacket)[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from
+       FROM equipment_price_revisions WHERE equipment_id = ? AND effective_from = ?`,
+      [equipmentId, effectiveFrom]
+    );
+    return rows[0];
+  }
+
+  /**
+   * 設備の現在の料金を料金表として記録（反映済みとして保存）
+   */
+  async snapshotEquipment(
+    equipmentId: number,
+    effectiveFrom: string,
+    note: string | null,
+    createdBy: number | null
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO equipment_price_revisions (equipment_id, effective_from, price_type, unit_price, note, created_by, applied_at)
+       SELECT e.id, ?, e.price_type, e.unit_price, ?, ?, NOW()
+       FROM equipment e
+       WHERE e.id = ?
+       ON DUPLICATE KEY UPDATE price_type = VALUES(price_type), unit_price = VALUES(unit_price),
+         note = VALUES(note), created_by = VALUES(created_by), applied_at = NOW()`,
+      [effectiveFrom, note, createdBy, equipmentId]
+    );
+  }
+
+  async deletePendingEquipmentRevision(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'DELETE FROM equipment_price_revisions WHERE id = ? AND applied_at IS NULL',
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async findDueEquipmentRevisions(today: string): Promise<EquipmentPriceRevision[]> {
+    const [rows] = await pool.query<(EquipmentPriceRevision & RowDataPacket)[]>(
+      `SELECT *, DATE_FORMAT(effective_from, '%Y-%m-%d') as effective_from
+       FROM equipment_price_revisions
+       WHERE applied_at IS NULL AND effective_from <= ?
+       ORDER BY effective_from ASC, id ASC`,
+      [today]
+    );
+    return rows;
+  }
+
+  /**
+   * 改定を設備の現在の料金に反映
+   */
+  async applyEquipmentRevision(revision: EquipmentPriceRevision): Promise<void> {
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      await connection.query(
+        'UPDATE equipment SET price_type = ?, unit_price = ? WHERE id = ?',
+        [revision.price_type, revision.unit_price, revision.equipment_id]
+      );
+      await connection.query('UPDATE equipment_price_revisions SET applied_at = NOW() WHERE id = ?', [revision.id]);
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
+
+export default new PriceRevisionRepository();
@@ -0,0 +1,127 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import pool from '../config/database';
+import { PricingPeriodRecord } from './types';
+import { PricingPeriod } from '../utils/pricingPeriod';
+
+export type PricingPeriodInput = Pick<
+  PricingPeriodRecord,
+  | 'name'
+  | 'start_date'
+  | 'end_date'
+  | 'room_ids'
+  | 'time_slot_codes'
+  | 'adjustment_type'
+  | 'multiplier'
+  | 'price'
+  | 'weekend_price'
+  | 'priority'
+  | 'description'
+>;
+
+const JSON_COLUMNS = ['room_ids', 'time_slot_codes'];
+
+const nullableNumber = (value: any): number | null => (value === null || value === undefined ? null : Number(value));
+
+const parseJson = (value: any): any => (typeof value === 'string' ? JSON.parse(value) : value ?? null);
+
+export class PricingPeriodRepository {
+  private toRecord(row: RowDataPacket): PricingPeriodRecord {
+    return {
+      ...(row as PricingPeriodRecord),
+      room_ids: parseJson(row.room_ids),
+      time_slot_codes: parseJson(row.time_slot_codes),
+      multiplier: nullableNumber(row.multiplier),
+      price: nullableNumber(row.price),
+      weekend_price: nullableNumber(row.weekend_price),
+    };
+  }
+
+  /**
+   * 料金計算用の形式に変換
+   */
+  toPricingPeriod(record: PricingPeriodRecord): PricingPeriod {
+    return {
+      id: record.id,
+      name: record.name,
+      startDate: record.start_date,
+      endDate: record.end_date,
+      roomIds: record.room_ids ? record.room_ids.map(Number) : null,
+      slotCodes: record.time_slot_codes,
+      adjustmentType: record.adjustment_type,
+      multiplier: record.multiplier,
+      price: record.price,
+      weekendPrice: record.weekend_price,
+      priority: Number(record.priority),
+    };
+  }
+
+  /**
+   * 料金期間の一覧（開始日順）
+   * @param fromDate - 指定した場合はこの日以降に終了する期間のみ
+   */
+  async findAll(fromDate?: string): Promise<PricingPeriodRecord[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(start_date, '%Y-%m-%d') as start_date, DATE_FORMAT(end_date, '%Y-%m-%d') as end_date
+       FROM pricing_periods
+       ${fromDate ? 'WHERE end_date >= ?' : ''}
+       ORDER BY start_date ASC, priority DESC, id ASC`,
+      fromDate ? [fromDate] : []
+    );
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async findById(id: number): Promise<PricingPeriodRecord | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(start_date, '%Y-%m-%d') as start_date, DATE_FORMAT(end_date, '%Y-%m-%d') as end_date
+       FROM pricing_periods WHERE id = ?`,
+      [id]
+    );
+    return rows[0] ? this.toRecord(rows[0]) : null;
+  }
+
+  /**
+   * 指定日を含む料金期間
+   */
+  async findByDate(date: string): Promise<PricingPeriod[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT *, DATE_FORMAT(start_date, '%Y-%m-%d') as start_date, DATE_FORMAT(end_date, '%Y-%m-%d') as end_date
+       FROM pricing_periods WHERE start_date <= ? AND end_date >= ?`,
+      [date, date]
+    );
+    return rows.map((row) => this.toPricingPeriod(this.toRecord(row)));
+  }
+
+  async create(data: PricingPeriodInput, createdBy: number): Promise<PricingPeriodRecord> {
+    const fields = Object.keys(data) as (keyof PricingPeriodInput)[];
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO pricing_periods (${fields.join(', ')}, created_by)
+       VALUES (${fields.map(() => '?').join(', ')}, ?)`,
+      [...fields.map((field) => this.toColumnValue(field, data[field])), createdBy]
+    );
+
+    return (await this.findById(result.insertId))!;
+  }
+
+  async update(id: number, data: Partial<PricingPeriodInput>): Promise<PricingPeriodRecord | null> {
+    const fields = Object.keys(data) as (keyof PricingPeriodInput)[];
+    if (fields.length > 0) {
+      await pool.query(
+        `UPDATE pricing_periods SET ${fields.map((field) => `${field} = ?`).join(', ')} WHERE id = ?`,
+        [...fields.map((field) => this.toColumnValue(field, data[field])), id]
+      );
+    }
+
+    return this.findById(id);
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>('DELETE FROM pricing_periods WHERE id = ?', [id]);
+    return result.affectedRows > 0;
+  }
+
+  private toColumnValue(field: string, value: any): any {
+    return JSON_COLUMNS.includes(field) && value !== null && value !== undefined ? JSON.stringify(value) : value;
+  }
+}
+
+export default new PricingPeriodRepository();
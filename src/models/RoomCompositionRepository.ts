@@ -0,0 +1,60 @@
+import { RowDataPacket, PoolConnection } from 'mysql2/promise';
+import pool from '../config/database';
+import { RoomComposition, linkedRoomIds } from '../utils/roomComposition';
+
+export class RoomCompositionRepository {
+  /**
+   * 登録済みの部屋の構成
+   */
+  async findAll(connection?: PoolConnection): Promise<RoomComposition[]> {
+    const [rows] = await (connection || pool).query<RowDataPacket[]>(
+      'SELECT combined_room_id, part_room_id FROM room_compositions ORDER BY combined_room_id, part_room_id'
+    );
+    return rows.map((row) => ({ combinedRoomId: Number(row.combined_room_id), partRoomId: Number(row.part_room_id) }));
+  }
+
+  /**
+   * 全体の部屋を構成する部屋のID
+   */
+  async findPartRoomIds(combinedRoomId: number): Promise<number[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT part_room_id FROM room_compositions WHERE combined_room_id = ? ORDER BY part_room_id',
+      [combinedRoomId]
+    );
+    return rows.map((row) => Number(row.part_room_id));
+  }
+
+  /**
+   * 予約すると指定した部屋を使えなくする部屋のID（全体の部屋・分割した部屋）
+   */
+  async findLinkedRoomIds(roomId: number, connection?: PoolConnection): Promise<number[]> {
+    return linkedRoomIds(await this.findAll(connection), roomId);
+  }
+
+  /**
+   * 全体の部屋の構成を置き換える（空の場合は構成を解除）
+   */
+  async replaceParts(combinedRoomId: number, partRoomIds: number[]): Promise<void> {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      await connection.query('DELETE FROM room_compositions WHERE combined_room_id = ?', [combinedRoomId]);
+      if (partRoomIds.length > 0) {
+        await connection.query(
+          'INSERT INTO room_compositions (combined_room_id, part_room_id) VALUES ?',
+          [partRoomIds.map((partRoomId) => [combinedRoomId, partRoomId])]
+        );
+      }
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
+
+export default new RoomCompositionRepository();
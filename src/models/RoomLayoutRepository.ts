@@ -0,0 +1,67 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import pool from '../config/database';
+import { RoomLayoutRecord } from './types';
+import { RoomLayout } from '../utils/usageRules';
+
+export type RoomLayoutInput = Pick<RoomLayoutRecord, 'name' | 'capacity' | 'display_order' | 'is_active'>;
+
+export class RoomLayoutRepository {
+  /**
+   * 利用ルールの確認用の形式に変換
+   */
+  toRoomLayout(record: RoomLayoutRecord): RoomLayout {
+    return {
+      id: record.id,
+      roomId: record.room_id,
+      name: record.name,
+      capacity: Number(record.capacity),
+    };
+  }
+
+  /**
+   * 部屋のレイアウト（表示順）
+   * @param activeOnly - 受付中のレイアウトのみ
+   */
+  async findByRoom(roomId: number, activeOnly = false): Promise<RoomLayoutRecord[]> {
+    const [rows] = await pool.query<(RoomLayoutRecord & RowDataPacket)[]>(
+      `SELECT * FROM room_layouts WHERE room_id = ? ${activeOnly ? 'AND is_active = TRUE' : ''}
+       ORDER BY display_order ASC, id ASC`,
+      [roomId]
+    );
+    return rows;
+  }
+
+  async findById(id: number): Promise<RoomLayoutRecord | null> {
+    const [rows] = await pool.query<(RoomLayoutRecord & RowDataPacket)[]>('SELECT * FROM room_layouts WHERE id = ?', [id]);
+    return rows[0] || null;
+  }
+
+  async create(roomId: number, data: RoomLayoutInput): Promise<RoomLayoutRecord> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'INSERT INTO room_layouts (room_id, name, capacity, display_order, is_active) VALUES (?, ?, ?, ?, ?)',
+      [roomId, data.name, data.capacity, data.display_order, data.is_active]
+    );
+    return (await this.findById(result.insertId))!;
+  }
+
+  async update(id: number, data: Partial<RoomLayoutInput>): Promise<RoomLayoutRecord | null> {
+    const fields = Object.keys(data) as (keyof RoomLayoutInput)[];
+    if (fields.length > 0) {
+      await pool.query(
+        `UPDATE room_layouts SET ${fields.map((field) => `${field} = ?`).join(', ')} WHERE id = ?`,
+        [...fields.map((field) => data[field]), id]
+      );
+    }
+    return this.findById(id);
+  }
+
+  /**
+   * レイアウトを削除（予約済みの利用明細のレイアウトは未指定になる）
+   */
+  async delete(id: number): Promise<boolean> {
+    const [result] = await pool.query<ResultSetHeader>('DELETE FROM room_layouts WHERE id = ?', [id]);
+    return result.affectedRows > 0;
+  }
+}
+
+export default new RoomLayoutRepository();
@@ -1,6 +1,10 @@
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import pool from '../config/database';
 import { Room } from './types';
+import ClosureRepository from './ClosureRepository';
+import TimeSlotRepository from './TimeSlotRepository';
+import { maxConcurrentBookings } from '../utils/flexibleTime';
+import { ConfiguredTimeSlot, timeSlotRange } from '../utils/timeSlots';
 
 export class RoomRepository {
   /**
@@ -11,6 +15,9 @@ export class RoomRepository {
       id: room.id,
       name: room.name,
       capacity: room.capacity,
+      prohibitedActivities: typeof room.prohibited_activities === 'string'
+        ? JSON.parse(room.prohibited_activities)
+        : room.prohibited_activities ?? null,
       basePriceMorning: room.base_price_morning,
       basePriceAfternoon: room.base_price_afternoon,
       basePriceEvening: room.base_price_evening,
@@ -25,16 +32,27 @@ export class RoomRepository {
       description: room.description,
       isActive: room.is_active,
       maxReservationCount: room.max_reservation_count,
+      turnoverBufferMinutes: Number(room.turnover_buffer_minutes || 0),
+      reservationAdvanceDays: room.reservation_advance_days,
+      reservationMinLeadHours: room.reservation_min_lead_hours,
       isFlexibleTime: room.is_flexible_time,
       minDurationMinutes: room.min_duration_minutes,
       timeUnitMinutes: room.time_unit_minutes,
       pricePerUnit: room.price_per_unit,
+      weekendPricePerUnit: room.weekend_price_per_unit,
       displayOrder: room.display_order,
       createdAt: room.created_at,
       updatedAt: room.updated_at,
     };
   }
 
+  /**
+   * JSON列の値（空の配列・未指定は NULL）
+   */
+  private toJsonColumn(value: any): string | null {
+    return Array.isArray(value) && value.length > 0 ? JSON.stringify(value) : null;
+  }
+
   /**
    * Find room by ID
    */
@@ -56,6 +74,20 @@ export class RoomRepository {
     return rows.map(row => this.toCamelCase(row));
   }
 
+  /**
+   * 指定した設備をすべて利用できる部屋のID（room_equipment で利用可能な設備）
+   */
+  async findIdsWithEquipment(equipmentIds: number[]): Promise<number[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT room_id FROM room_equipment
+       WHERE equipment_id IN (?) AND is_available = TRUE
+       GROUP BY room_id
+       HAVING COUNT(DISTINCT equipment_id) = ?`,
+      [equipmentIds, new Set(equipmentIds).size]
+    );
+    return rows.map((row) => Number(row.room_id));
+  }
+
   /**
    * Find all rooms (including inactive)
    */
@@ -76,8 +108,10 @@ export class RoomRepository {
         extension_price_midday, extension_price_evening,
         weekend_price_morning, weekend_price_afternoon, weekend_price_evening,
         weekend_extension_price_midday, weekend_extension_price_evening,
-        ac_price_per_hour, description, is_active
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ac_price_per_hour, description, is_active,
+        is_flexible_time, min_duration_minutes, time_unit_minutes, price_per_unit, weekend_price_per_unit,
+        turnover_buffer_minutes, prohibited_activities
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         data.name,
         data.capacity || null,
@@ -94,9 +128,19 @@ export class RoomRepository {
         data.acPricePerHour || data.ac_price_per_hour,
         data.description || null,
         data.isActive !== false && data.is_active !== false,
+        !!(data.isFlexibleTime || data.is_flexible_time),
+        data.minDurationMinutes || data.min_duration_minutes || null,
+        data.timeUnitMinutes || data.time_unit_minutes || null,
+        data.pricePerUnit ?? data.price_per_unit ?? null,
+        data.weekendPricePerUnit ?? data.weekend_price_per_unit ?? null,
+        data.turnoverBufferMinutes ?? data.turnover_buffer_minutes ?? 0,
+        this.toJsonColumn(data.prohibitedActivities ?? data.prohibited_activities),
       ]
     );
 
+    // 料金を初期設定の時間帯の料金として登録
+    await TimeSlotRepository.syncPricesFromRoom(result.insertId);
+
     const room = await this.findById(result.insertId);
     if (!room) {
       throw new Error('Failed to create room');
@@ -115,6 +159,7 @@ export class RoomRepository {
     const fieldMap: { [key: string]: string } = {
       name: 'name',
       capacity: 'capacity',
+      prohibitedActivities: 'prohibited_activities',
       basePriceMorning: 'base_price_morning',
       basePriceAfternoon: 'base_price_afternoon',
       basePriceEvening: 'base_price_evening',
@@ -129,10 +174,14 @@ export class RoomRepository {
       description: 'description',
       isActive: 'is_active',
       maxReservationCount: 'max_reservation_count',
+      turnoverBufferMinutes: 'turnover_buffer_minutes',
+      reservationAdvanceDays: 'reservation_advance_days',
+      reservationMinLeadHours: 'reservation_min_lead_hours',
       isFlexibleTime: 'is_flexible_time',
       minDurationMinutes: 'min_duration_minutes',
       timeUnitMinutes: 'time_unit_minutes',
       pricePerUnit: 'price_per_unit',
+      weekendPricePerUnit: 'weekend_price_per_unit',
       displayOrder: 'display_order',
       updatedAt: 'updated_at',
     };
@@ -141,7 +190,7 @@ export class RoomRepository {
       const dbField = fieldMap[key] || key;
       if (dbField !== 'id' && dbField !== 'created_at') {
         fields.push(`${dbField} = ?`);
-        values.push(value);
+        values.push(dbField === 'prohibited_activities' ? this.toJsonColumn(value) : value);
       }
     });
 
@@ -154,6 +203,11 @@ export class RoomRepository {
     values.push(id);
     await pool.query(`UPDATE rooms SET ${fields.join(', ')} WHERE id = ?`, values);
 
+    // 料金を変更した場合は時間帯の料金にも反映
+    if (fields.some((field) => /price/.test(field))) {
+      await TimeSlotRepository.syncPricesFromRoom(id);
+    }
+
     const room = await this.findById(id);
     if (!room) {
       throw new Error('Room not found');
@@ -252,22 +306,20 @@ export class RoomRepository {
   }
 
   /**
-   * Check if room has available inventory for the specified date and time slots
+   * Check availability of the given time slots（時間帯ごとに、時間の重なる予約の同時刻の最大数で判定）
    * @param roomId 部屋ID
    * @param date 予約日
-   * @param useMorning 午前使用フラグ
-   * @param useAfternoon 午後使用フラグ
-   * @param useEvening 夜間使用フラグ
+   * @param slots 予約する時間帯
    * @param excludeApplicationId 除外する予約ID（編集時に自分の予約を除外）
-   * @returns 予約可能な場合true、満室の場合false
+   * @param holdExemptUserId 空き待ちの案内でこの利用者宛てに確保中の時間帯は除外
+   * @returns 予約可能な場合true、満室・休館の場合false
    */
-  async checkAvailability(
+  async checkTimeSlotAvailability(
     roomId: number,
     date: string,
-    useMorning: boolean,
-    useAfternoon: boolean,
-    useEvening: boolean,
-    excludeApplicationId?: number
+    slots: ConfiguredTimeSlot[],
+    excludeApplicationId?: number,
+    holdExemptUserId?: number | null
   ): Promise<boolean> {
     // 部屋情報を取得（max_reservation_countを取得）
     const room = await this.findById(roomId);
@@ -275,44 +327,60 @@ export class RoomRepository {
       return false;
     }
 
-    const maxCount = room.maxReservationCount || 1;
-
-    // 各時間帯について予約数をチェック
-    const timeslots = [
-      { name: 'morning', use: useMorning },
-      { name: 'afternoon', use: useAfternoon },
-      { name: 'evening', use: useEvening }
-    ];
+    // 休館日（全館・部屋別・時間帯別）に該当する場合は予約不可
+    const closure = await ClosureRepository.findConflict(roomId, date, slots.map((slot) => slot.code));
+    if (closure) {
+      return false;
+    }
 
-    for (const slot of timeslots) {
-      if (!slot.use) continue;
+    const maxCount = room.maxReservationCount || 1;
+    const bookings = await this.findTimeRangeBookings(roomId, date, excludeApplicationId, holdExemptUserId);
 
-      // この時間帯の予約数をカウント
-      const countQuery = `
-        SELECT COUNT(DISTINCT u.application_id) as count
-        FROM usages u
-        INNER JOIN applications a ON u.application_id = a.id
-        WHERE u.room_id = ?
-          AND u.date = ?
-          AND u.use_${slot.name} = TRUE
-          AND a.cancel_status = 'none'
-          ${excludeApplicationId ? 'AND u.application_id != ?' : ''}
-      `;
+    // 予約数が最大数に達している時間帯がある場合は予約不可
+    return slots.every((slot) => maxConcurrentBookings(bookings, timeSlotRange(slot)) < maxCount);
+  }
 
-      const params = excludeApplicationId
-        ? [roomId, date, excludeApplicationId]
-        : [roomId, date];
+  /**
+   * Get booked time ranges of a room on a date（時間帯予約・自由時間制の予約の時間の一覧）
+   * 全体・分割した部屋の予約は count（この部屋の在庫数）の予約として数える
+   * @param excludeApplicationId 除外する予約ID（編集時に自分の予約を除外）
+   * @param holdExemptUserId 空き待ちの案内でこの利用者宛てに確保中の時間帯は除外
+   */
+  async findTimeRangeBookings(
+    roomId: number,
+    date: string,
+    excludeApplicationId?: number,
+    holdExemptUserId?: number | null
+  ): Promise<{ startTime: string; endTime: string; count?: number }[]> {
+    const bookings = await TimeSlotRepository.findBookedRanges(roomId, date, date, { excludeApplicationId, holdExemptUserId });
+    return bookings
+      .map(({ startTime, endTime, count }) => (count === undefined ? { startTime, endTime } : { startTime, endTime, count }))
+      .sort((x, y) => x.startTime.localeCompare(y.startTime));
+  }
 
-      const [rows] = await pool.query<RowDataPacket[]>(countQuery, params);
-      const currentCount = Number(rows[0]?.count || 0);
+  /**
+   * Check availability of a flexible-time room for a time range（時間の重なりで判定）
+   * @returns 予約可能な場合true、満室・休館の場合false
+   */
+  async checkTimeRangeAvailability(
+    roomId: number,
+    date: string,
+    startTime: string,
+    endTime: string,
+    excludeApplicationId?: number
+  ): Promise<boolean> {
+    const room = await this.findById(roomId);
+    if (!room || !room.isActive) {
+      return false;
+    }
 
-      // 予約数が最大数に達している場合は予約不可
-      if (currentCount >= maxCount) {
-        return false;
-      }
+    const closure = await ClosureRepository.findTimeRangeConflict(roomId, date, startTime, endTime);
+    if (closure) {
+      return false;
     }
 
-    return true;
+    const bookings = await this.findTimeRangeBookings(roomId, date, excludeApplicationId);
+    return maxConcurrentBookings(bookings, { startTime, endTime }) < (room.maxReservationCount || 1);
   }
 
   /**
@@ -357,6 +425,7 @@ export class RoomRepository {
           AND u.date = ?
           AND u.use_${slot.name} = TRUE
           AND a.cancel_status = 'none'
+          AND u.cancel_status = 'none'
       `;
 
       const [rows] = await pool.query<RowDataPacket[]>(countQuery, [roomId, date]);
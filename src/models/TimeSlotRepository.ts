@@ -0,0 +1,283 @@
+import { RowDataPacket, PoolConnection } from 'mysql2/promise';
+import pool from '../config/database';
+import { ConfiguredTimeSlot } from '../utils/timeSlots';
+import { BlockedRange, BookingGroup, roomBlockedRanges } from '../utils/turnover';
+import RoomCompositionRepository from './RoomCompositionRepository';
+
+// 初期設定の時間帯コードと rooms テーブルの従来の料金列（平日, 土日祝日）の対応
+const LEGACY_PRICE_COLUMNS: { [code: string]: [string, string] } = {
+  morning: ['base_price_morning', 'weekend_price_morning'],
+  midday_extension: ['extension_price_midday', 'weekend_extension_price_midday'],
+  afternoon: ['base_price_afternoon', 'weekend_price_afternoon'],
+  evening_extension: ['extension_price_evening', 'weekend_extension_price_evening'],
+  evening: ['base_price_evening', 'weekend_price_evening'],
+};
+
+const SLOT_COLUMNS = `ts.id, ts.code, ts.name, ts.slot_type,
+  TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time,
+  p.base_price, p.weekend_price`;
+
+// 施設のタイムゾーン（日時は UTC で保存しているため、日付・時刻の比較はこのオフセットに変換して行う）
+export const FACILITY_TIMEZONE_SQL = `COALESCE((SELECT setting_value FROM system_settings WHERE setting_key = 'timezone_offset'), '+09:00')`;
+
+export class TimeSlotRepository {
+  private toConfiguredTimeSlot(row: RowDataPacket): ConfiguredTimeSlot {
+    return {
+      id: row.id,
+      code: row.code,
+      name: row.name,
+      slotType: row.slot_type,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      basePrice: Number(row.base_price || 0),
+      weekendPrice: row.weekend_price === null || row.weekend_price === undefined ? null : Number(row.weekend_price),
+    };
+  }
+
+  /**
+   * Find the time slots bookable in a room（有効な時間帯のうち、部屋の料金が設定され利用可能なもの）
+   */
+  async findRoomTimeSlots(roomId: number, connection?: PoolConnection): Promise<ConfiguredTimeSlot[]> {
+    const [rows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT ${SLOT_COLUMNS}
+       FROM time_slots ts
+       INNER JOIN room_time_slot_prices p ON p.time_slot_id = ts.id AND p.room_id = ?
+       WHERE ts.is_active = TRUE
+         AND p.is_available = TRUE
+         AND ts.slot_type IN ('regular', 'extension')
+       ORDER BY ts.start_time, ts.display_order`,
+      [roomId]
+    );
+    return rows.map((row) => this.toConfiguredTimeSlot(row));
+  }
+
+  /**
+   * Find the time slots bookable in every room, keyed by room ID（部屋ごとの findRoomTimeSlots を1回のクエリで取得）
+   */
+  async findAllRoomTimeSlots(): Promise<Map<number, ConfiguredTimeSlot[]>> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT p.room_id, ${SLOT_COLUMNS}
+       FROM time_slots ts
+       INNER JOIN room_time_slot_prices p ON p.time_slot_id = ts.id
+       WHERE ts.is_active = TRUE
+         AND p.is_available = TRUE
+         AND ts.slot_type IN ('regular', 'extension')
+       ORDER BY ts.start_time, ts.display_order`
+    );
+
+    const slotsByRoom = new Map<number, ConfiguredTimeSlot[]>();
+    for (const row of rows) {
+      const roomId = Number(row.room_id);
+      if (!slotsByRoom.has(roomId)) {
+        slotsByRoom.set(roomId, []);
+      }
+      slotsByRoom.get(roomId)!.push(this.toConfiguredTimeSlot(row));
+    }
+    return slotsByRoom;
+  }
+
+  /**
+   * Find the time slots booked by a usage（料金は部屋の現在の設定）
+   */
+  async findUsageTimeSlots(usageId: number, connection?: PoolConnection): Promise<ConfiguredTimeSlot[]> {
+    const [rows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT ${SLOT_COLUMNS}
+       FROM usage_time_slots uts
+       INNER JOIN usages u ON uts.usage_id = u.id
+       INNER JOIN time_slots ts ON uts.time_slot_id = ts.id
+       LEFT JOIN room_time_slot_prices p ON p.time_slot_id = ts.id AND p.room_id = u.room_id
+       WHERE uts.usage_id = ?
+       ORDER BY ts.start_time`,
+      [usageId]
+    );
+    return rows.map((row) => this.toConfiguredTimeSlot(row));
+  }
+
+  /**
+   * Find time slot ids by code（従来の時間帯フラグからの変換用）
+   */
+  async findIdsByCodes(codes: string[], connection?: PoolConnection): Promise<number[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+    const [rows] = await (connection || pool).query<RowDataPacket[]>(
+      'SELECT id FROM time_slots WHERE code IN (?)',
+      [codes]
+    );
+    return rows.map((row) => Number(row.id));
+  }
+
+  /**
+   * 利用明細の予約時間帯を置き換える（トランザクション内で使用）
+   */
+  async replaceUsageTimeSlots(connection: PoolConnection, usageId: number, timeSlotIds: number[]): Promise<void> {
+    await connection.query('DELETE FROM usage_time_slots WHERE usage_id = ?', [usageId]);
+    if (timeSlotIds.length > 0) {
+      await connection.query(
+        'INSERT INTO usage_time_slots (usage_id, time_slot_id) VALUES ?',
+        [timeSlotIds.map((timeSlotId) => [usageId, timeSlotId])]
+      );
+    }
+  }
+
+  /**
+   * Get booked time ranges of a room between two dates (inclusive)
+   * 時間帯予約と自由時間制の予約の両方を時刻の範囲として返す
+   *
+   * 空き待ちの案内で確保中の時間帯も予約済みとして扱う
+   * 予約した時間に加えて、申請の準備開始日時から予約開始まで（reason = setup）と
+   * 部屋の転換時間（reason = turnover）も部屋を使えない時間として返す（1件の利用明細の範囲は重ならない）
+   * 全体の部屋・分割した部屋（room_compositions）の予約は reason = linked として返し、
+   * この部屋の在庫数（count）の予約として数える（在庫数が2以上でも部屋を使えない）
+   *
+   * @param options.connection - 指定した場合はロック読み取り（FOR UPDATE）で最新のコミット済みデータを読む
+   * @param options.holdExemptUserId - この利用者宛てに確保中の時間帯は除外（案内を受けた本人の予約時）
+   */
+  async findBookedRanges(
+    roomId: number,
+    startDate: string,
+    endDate: string,
+    options: { excludeApplicationId?: number; connection?: PoolConnection; holdExemptUserId?: number | null } = {}
+  ): Promise<(BlockedRange & { date: string })[]> {
+    const { excludeApplicationId, connection, holdExemptUserId } = options;
+    const roomIds = [roomId, ...(await RoomCompositionRepository.findLinkedRoomIds(roomId, connection))];
+    const exclude = excludeApplicationId ? 'AND u.application_id != ?' : '';
+    const lock = connection ? 'FOR UPDATE' : '';
+    const params = excludeApplicationId
+      ? [roomIds, startDate, endDate, excludeApplicationId]
+      : [roomIds, startDate, endDate];
+
+    // 準備開始日時は施設のタイムゾーンの日付・時刻に変換（利用日と同じ日の場合のみ使用）
+    const setupColumns = `DATE_FORMAT(CONVERT_TZ(a.setup_datetime, '+00:00', ${FACILITY_TIMEZONE_SQL}), '%Y-%m-%d') as setup_date,
+         TIME_FORMAT(CONVERT_TZ(a.setup_datetime, '+00:00', ${FACILITY_TIMEZONE_SQL}), '%H:%i') as setup_time`;
+
+    const [slotRows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT u.id as usage_id, u.room_id, DATE_FORMAT(u.date, '%Y-%m-%d') as date,
+         TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time,
+         ${setupColumns}
+       FROM usage_time_slots uts
+       INNER JOIN time_slots ts ON uts.time_slot_id = ts.id
+       INNER JOIN usages u ON uts.usage_id = u.id
+       INNER JOIN applications a ON u.application_id = a.id
+       WHERE u.room_id IN (?)
+         AND u.date BETWEEN ? AND ?
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'
+         ${exclude}
+       ${lock}`,
+      params
+    );
+
+    const [flexibleRows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT u.id as usage_id, u.room_id, DATE_FORMAT(u.date, '%Y-%m-%d') as date,
+         TIME_FORMAT(u.start_time, '%H:%i') as start_time, TIME_FORMAT(u.end_time, '%H:%i') as end_time,
+         ${setupColumns}
+       FROM usages u
+       INNER JOIN applications a ON u.application_id = a.id
+       WHERE u.room_id IN (?)
+         AND u.date BETWEEN ? AND ?
+         AND u.start_time IS NOT NULL
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'
+         ${exclude}
+       ${lock}`,
+      params
+    );
+
+    const [heldRows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT w.id as hold_id, w.room_id, DATE_FORMAT(w.date, '%Y-%m-%d') as date,
+         TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time
+       FROM waitlist_entries w
+       INNER JOIN time_slots ts ON w.time_slot_id = ts.id
+       WHERE w.room_id IN (?)
+         AND w.date BETWEEN ? AND ?
+         AND w.status = 'offered'
+         AND w.offer_expires_at > NOW()
+         ${holdExemptUserId ? 'AND w.user_id != ?' : ''}
+       ${lock}`,
+      holdExemptUserId ? [roomIds, startDate, endDate, holdExemptUserId] : [roomIds, startDate, endDate]
+    );
+
+    const [roomRows] = await (connection || pool).query<RowDataPacket[]>(
+      'SELECT turnover_buffer_minutes, max_reservation_count FROM rooms WHERE id = ?',
+      [roomId]
+    );
+    const bufferMinutes = Number(roomRows[0]?.turnover_buffer_minutes || 0);
+    const maxCount = Number(roomRows[0]?.max_reservation_count || 1);
+
+    // 利用明細（確保中の時間帯は1件ごと）にまとめて、準備・転換時間を含む範囲を計算
+    const groups = new Map<string, BookingGroup>();
+    const addRow = (key: string, row: RowDataPacket) => {
+      if (!groups.has(key)) {
+        groups.set(key, {
+          date: row.date,
+          roomId: Number(row.room_id),
+          setupTime: row.setup_date === row.date ? row.setup_time : null,
+          ranges: [],
+        });
+      }
+      groups.get(key)!.ranges.push({ startTime: row.start_time, endTime: row.end_time });
+    };
+    slotRows.forEach((row) => addRow(`usage:${row.usage_id}`, row));
+    flexibleRows.forEach((row) => addRow(`usage:${row.usage_id}`, row));
+    heldRows.forEach((row) => addRow(`hold:${row.hold_id}`, row));
+
+    return roomBlockedRanges(Array.from(groups.values()), roomId, bufferMinutes, maxCount);
+  }
+
+  /**
+   * 申請の準備開始日時の施設のタイムゾーンにおける日付と時刻（トランザクション内の空き確認用）
+   */
+  async findFacilitySetupTime(
+    setupAt: Date | string,
+    connection?: PoolConnection
+  ): Promise<{ date: string; time: string }> {
+    const [rows] = await (connection || pool).query<RowDataPacket[]>(
+      `SELECT DATE_FORMAT(CONVERT_TZ(?, '+00:00', ${FACILITY_TIMEZONE_SQL}), '%Y-%m-%d') as date,
+         TIME_FORMAT(CONVERT_TZ(?, '+00:00', ${FACILITY_TIMEZONE_SQL}), '%H:%i') as time`,
+      [new Date(setupAt), new Date(setupAt)]
+    );
+    return { date: rows[0].date, time: rows[0].time };
+  }
+
+  /**
+   * 部屋の従来の料金列（rooms.base_price_* など）を初期設定の時間帯の料金に反映
+   */
+  async syncPricesFromRoom(roomId: number): Promise<void> {
+    for (const [code, [baseColumn, weekendColumn]] of Object.entries(LEGACY_PRICE_COLUMNS)) {
+      await pool.query(
+        `INSERT INTO room_time_slot_prices (room_id, time_slot_id, base_price, weekend_price, ac_price_per_hour)
+         SELECT r.id, ts.id, COALESCE(r.${baseColumn}, 0), r.${weekendColumn}, COALESCE(r.ac_price_per_hour, 0)
+         FROM rooms r
+         INNER JOIN time_slots ts ON ts.code = ?
+         WHERE r.id = ?
+         ON DUPLICATE KEY UPDATE base_price = VALUES(base_price), weekend_price = VALUES(weekend_price)`,
+        [code, roomId]
+      );
+    }
+  }
+
+  /**
+   * 初期設定の時間帯の料金を部屋の従来の料金列に反映（料金表示・帳票用）
+   */
+  async syncRoomFromPrice(roomId: number, timeSlotId: number): Promise<void> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT ts.code, p.base_price, p.weekend_price
+       FROM room_time_slot_prices p
+       INNER JOIN time_slots ts ON p.time_slot_id = ts.id
+       WHERE p.room_id = ? AND p.time_slot_id = ?`,
+      [roomId, timeSlotId]
+    );
+    const columns = rows[0] && LEGACY_PRICE_COLUMNS[rows[0].code];
+    if (!columns) {
+      return;
+    }
+
+    await pool.query(
+      `UPDATE rooms SET ${columns[0]} = ?, ${columns[1]} = ? WHERE id = ?`,
+      [rows[0].base_price, rows[0].weekend_price, roomId]
+    );
+  }
+}
+
+export default new TimeSlotRepository();
@@ -0,0 +1,154 @@
+import { RowDataPacket, ResultSetHeader, PoolConnection } from 'mysql2/promise';
+import pool from '../config/database';
+import { WaitlistEntry } from './types';
+
+export interface WaitlistEntryWithDetails extends WaitlistEntry {
+  room_name: string;
+  time_slot_name: string;
+  start_time: string;
+  end_time: string;
+  position: number; // 空き待ちの順番（案内中・終了したものは 0）
+}
+
+export class WaitlistRepository {
+  /**
+   * Register a waitlist entry
+   */
+  async create(data: { user_id: number; room_id: number; date: string; time_slot_id: number }): Promise<WaitlistEntry> {
+    const [result] = await pool.query<ResultSetHeader>(
+      'INSERT INTO waitlist_entries (user_id, room_id, date, time_slot_id) VALUES (?, ?, ?, ?)',
+      [data.user_id, data.room_id, data.date, data.time_slot_id]
+    );
+
+    return (await this.findById(result.insertId))!;
+  }
+
+  async findById(id: number): Promise<WaitlistEntry | null> {
+    const [rows] = await pool.query<(WaitlistEntry & RowDataPacket)[]>(
+      'SELECT * FROM waitlist_entries WHERE id = ?',
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * 案内の送信用（利用者名・部屋名・時間帯名を含む）
+   */
+  async findByIdWithDetails(id: number): Promise<(WaitlistEntryWithDetails & { user_name: string }) | null> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.*, us.name as user_name, r.name as room_name, ts.name as time_slot_name,
+         TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time,
+         0 as position
+       FROM waitlist_entries w
+       INNER JOIN users us ON w.user_id = us.id
+       INNER JOIN rooms r ON w.room_id = r.id
+       INNER JOIN time_slots ts ON w.time_slot_id = ts.id
+       WHERE w.id = ?`,
+      [id]
+    );
+    return (rows[0] as WaitlistEntryWithDetails & { user_name: string }) || null;
+  }
+
+  /**
+   * 利用者の空き待ち一覧（利用日順）
+   */
+  async findByUser(userId: number): Promise<WaitlistEntryWithDetails[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT w.*, r.name as room_name, ts.name as time_slot_name,
+         TIME_FORMAT(ts.start_time, '%H:%i') as start_time, TIME_FORMAT(ts.end_time, '%H:%i') as end_time,
+         CASE WHEN w.status = 'waiting' THEN (
+           SELECT COUNT(*) FROM waitlist_entries ahead
+           WHERE ahead.room_id = w.room_id AND ahead.date = w.date AND ahead.time_slot_id = w.time_slot_id
+             AND ahead.status = 'waiting' AND (ahead.created_at < w.created_at OR (ahead.created_at = w.created_at AND ahead.id <= w.id))
+         ) ELSE 0 END as position
+       FROM waitlist_entries w
+       INNER JOIN rooms r ON w.room_id = r.id
+       INNER JOIN time_slots ts ON w.time_slot_id = ts.id
+       WHERE w.user_id = ?
+       ORDER BY w.date DESC, ts.start_time ASC`,
+      [userId]
+    );
+    return rows as WaitlistEntryWithDetails[];
+  }
+
+  /**
+   * 同じ部屋・日付・時間帯の有効な空き待ち（空き待ち中・案内中）
+   */
+  async findActive(userId: number, roomId: number, date: string, timeSlotId: number): Promise<WaitlistEntry | null> {
+    const [rows] = await pool.query<(WaitlistEntry & RowDataPacket)[]>(
+      `SELECT * FROM waitlist_entries
+       WHERE user_id = ? AND room_id = ? AND date = ? AND time_slot_id = ? AND status IN ('waiting', 'offered')`,
+      [userId, roomId, date, timeSlotId]
+    );
+    return rows[0] || null;
+  }
+
+  /**
+   * 部屋・日付の空き待ちを登録順に取得（トランザクション内で使用、行ロックを取得）
+   */
+  async findWaiting(connection: PoolConnection, roomId: number, date: string): Promise<WaitlistEntry[]> {
+    const [rows] = await connection.query<(WaitlistEntry & RowDataPacket)[]>(
+      `SELECT * FROM waitlist_entries
+       WHERE room_id = ? AND date = ? AND status = 'waiting'
+       ORDER BY created_at ASC, id ASC
+       FOR UPDATE`,
+      [roomId, date]
+    );
+    return rows;
+  }
+
+  /**
+   * 案内を送信済みにし、期限まで時間帯を確保する（トランザクション内で使用）
+   */
+  async markOffered(connection: PoolConnection, id: number, expiresAt: Date): Promise<void> {
+    await connection.query(
+      "UPDATE waitlist_entries SET status = 'offered', offered_at = NOW(), offer_expires_at = ? WHERE id = ?",
+      [expiresAt, id]
+    );
+  }
+
+  async updateStatus(id: number, status: WaitlistEntry['status']): Promise<void> {
+    await pool.query('UPDATE waitlist_entries SET status = ? WHERE id = ?', [status, id]);
+  }
+
+  /**
+   * 期限切れの案内を終了し、終了した案内の部屋・日付を返す
+   */
+  async expireOffers(): Promise<{ room_id: number; date: string }[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, room_id, DATE_FORMAT(date, '%Y-%m-%d') as date FROM waitlist_entries
+       WHERE status = 'offered' AND offer_expires_at <= NOW()`
+    );
+    if (rows.length === 0) {
+      return [];
+    }
+
+    await pool.query(
+      "UPDATE waitlist_entries SET status = 'expired' WHERE id IN (?) AND status = 'offered'",
+      [rows.map((row) => row.id)]
+    );
+    return rows.map((row) => ({ room_id: Number(row.room_id), date: row.date }));
+  }
+
+  /**
+   * 利用日を過ぎた空き待ちを終了
+   */
+  async expirePastEntries(): Promise<void> {
+    await pool.query(
+      "UPDATE waitlist_entries SET status = 'expired' WHERE status IN ('waiting', 'offered') AND date < CURDATE()"
+    );
+  }
+
+  /**
+   * 案内を受けた利用者が予約した場合に案内を完了にする
+   */
+  async acceptOffers(userId: number, roomId: number, date: string): Promise<void> {
+    await pool.query(
+      `UPDATE waitlist_entries SET status = 'accepted'
+       WHERE user_id = ? AND room_id = ? AND date = ? AND status = 'offered'`,
+      [userId, roomId, date]
+    );
+  }
+}
+
+export default new WaitlistRepository();
@@ -1,13 +1,22 @@
+import { RecurrenceRule } from '../utils/recurrence';
+import { FeeReductionScope } from '../utils/pricing';
+import { TaxedAmount } from '../utils/tax';
+import { UsageActivity } from '../utils/usageRules';
+
 /**
  * Domain model types for facility reservation system
  */
 
+// 利用者区分（resident: 市民, registered_group: 登録団体, outside: 市外, business: 事業者）
+export type UserCategory = 'resident' | 'registered_group' | 'outside' | 'business';
+
 export interface User {
   id: number;
   email: string;
   password_hash: string;
   name: string;
   organization_name: string | null;
+  user_category: UserCategory;
   phone: string;
   address: string | null;
   is_active: boolean;
@@ -50,10 +59,16 @@ export interface Room {
   description: string | null;
   isActive: boolean;
   maxReservationCount: number;
+  turnoverBufferMinutes?: number;          // 予約の前後に空ける転換時間（分）
+  prohibitedActivities?: UsageActivity[] | null; // 禁止する利用内容（NULL: 制限なし）
+  partRoomIds?: number[];                  // 全体の部屋の場合は構成する（分割した）部屋（職員用の一覧のみ）
+  reservationAdvanceDays?: number | null;  // NULL: システム設定を使用
+  reservationMinLeadHours?: number | null; // NULL: システム設定を使用
   isFlexibleTime: boolean;
   minDurationMinutes: number | null;
   timeUnitMinutes: number | null;
   pricePerUnit: number | null;
+  weekendPricePerUnit?: number | null; // NULL: 平日の単位料金を使用
   displayOrder?: number;
   createdAt: Date;
   updatedAt: Date;
@@ -82,6 +97,10 @@ export interface Application {
   applicant_email: string;
   event_name: string;
   expected_attendees: number | null;
+  activities?: UsageActivity[] | null;           // 申告した利用内容（部屋の利用ルールの確認に使用）
+  rule_override_reason?: string | null;          // 職員が利用ルール・定員の確認を省略した理由
+  rule_override_by?: number | null;
+  rule_override_at?: Date | null;
   event_description: string | null;
   program_attachment_path: string | null;
   entrance_fee_type: 'free' | 'paid';
@@ -98,16 +117,67 @@ export interface Application {
   start_time: string | null;
   end_time: string | null;
   remarks: string | null;
+  recurrence_rule?: RecurrenceRule | null; // 定期予約の繰り返し設定（通常の申請は NULL）
   total_amount: number;
+  tax_amount?: number;                     // 消費税額（税率ごとに1回端数処理した合計）
+  tax_breakdown?: TaxedAmount[] | null;    // 税率ごとの内訳（キャンセル料は不課税のため含まない）
   payment_status: 'unpaid' | 'paid' | 'refunded';
   payment_provider_id: string | null;
+  payment_due_at?: Date | null;    // 支払期限（抽選の当選など）
   cancel_status: 'none' | 'cancelled';
+  approval_status: ApprovalStatus;
+  hold_status?: HoldStatus;        // 仮予約（通常の申請は none）
+  hold_expires_at?: Date | null;   // 仮押さえの期限
   cancelled_at: Date | null;
   cancellation_fee: number;
+  cancellation_policy_id: number | null;
+  reduction_status?: FeeReductionStatus;         // 減免の状態（申請がない場合は none）
+  reduction_rule_id?: number | null;
+  reduction_rate?: number | null;                // 申請時点の減額率（%）
+  reduction_scope?: FeeReductionScope | null;    // 申請時点の減免の対象
+  reduction_reason?: string | null;
+  reduction_attachment_path?: string | null;
+  reduction_requested_at?: Date | null;
+  reduction_amount?: number;                     // 承認済みの減免額（total_amount は減免後）
+  reduction_reviewed_by?: number | null;
+  reduction_reviewed_at?: Date | null;
+  reduction_review_comment?: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+// 承認ステータス（require_approval 設定が有効な場合のみ pending から始まる）
+export type ApprovalStatus = 'not_required' | 'pending' | 'approved' | 'rejected';
+
+// 仮予約の状態（tentative の間は枠を確保し、期限までに確定しない場合は expired として解放）
+export type HoldStatus = 'none' | 'tentative' | 'confirmed' | 'expired';
+
+// 減免の状態（pending の間は支払いできない）
+export type FeeReductionStatus = 'none' | 'pending' | 'approved' | 'rejected';
+
+export interface FeeReductionRule {
+  id: number;
+  name: string;
+  description: string | null;
+  reduction_type: 'percentage' | 'exemption'; // exemption は全額免除（rate = 100）
+  rate: number;
+  scope: FeeReductionScope;
+  requires_attachment: boolean;
+  is_active: boolean;
+  display_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ApplicationApproval {
+  id: number;
+  application_id: number;
+  staff_id: number;
+  action: 'approved' | 'rejected';
+  comment: string | null;
+  created_at: Date;
+}
+
 export interface Usage {
   id: number;
   application_id: number;
@@ -118,6 +188,9 @@ export interface Usage {
   use_evening: boolean;
   use_midday_extension: boolean;
   use_evening_extension: boolean;
+  start_time: string | null; // 自由時間制の部屋のみ（HH:MM:SS）
+  end_time: string | null;
+  layout_id?: number | null; // 利用するレイアウト（room_layouts）
   ac_requested: boolean;
   ac_hours: number | null;
   room_base_charge_before_multiplier: number;
@@ -125,10 +198,26 @@ export interface Usage {
   equipment_charge: number;
   ac_charge: number;
   subtotal_amount: number;
+  tax_rate: number;                        // 適用した消費税率（%）。料金は税込
+  room_charge_excluding_tax: number;
+  room_tax_amount: number;
+  equipment_charge_excluding_tax: number;
+  equipment_tax_amount: number;
+  ac_charge_excluding_tax: number;
+  ac_tax_amount: number;
+  cancel_status: 'none' | 'cancelled'; // 利用明細単位の部分キャンセル
+  cancelled_at: Date | null;
+  cancellation_fee: number;
   created_at: Date;
   updated_at: Date;
 }
 
+// 新規登録する利用明細（キャンセル関連の列は既定値で登録される）
+// time_slot_ids を省略した場合は時間帯フラグに対応する初期設定の時間帯を登録する
+export type NewUsage = Omit<Usage, 'id' | 'application_id' | 'cancel_status' | 'cancelled_at' | 'cancellation_fee' | 'created_at' | 'updated_at'> & {
+  time_slot_ids?: number[];
+};
+
 export interface UsageEquipment {
   id: number;
   usage_id: number;
@@ -178,12 +267,84 @@ export interface RoomTimeSlotPrice {
   room_id: number;
   time_slot_id: number;
   base_price: number;
+  weekend_price: number | null; // NULL: 平日料金を使用
   ac_price_per_hour: number;
   is_available: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+// 部屋の料金改定（effective_from から次の改定の前日まで有効な料金表）
+export interface RoomPriceRevision {
+  id: number;
+  room_id: number;
+  effective_from: string; // YYYY-MM-DD
+  base_price_morning: number;
+  base_price_afternoon: number;
+  base_price_evening: number;
+  extension_price_midday: number;
+  extension_price_evening: number;
+  weekend_price_morning: number | null;
+  weekend_price_afternoon: number | null;
+  weekend_price_evening: number | null;
+  weekend_extension_price_midday: number | null;
+  weekend_extension_price_evening: number | null;
+  ac_price_per_hour: number;
+  price_per_unit: number | null;
+  weekend_price_per_unit: number | null;
+  time_slot_prices: { time_slot_id: number; base_price: number; weekend_price: number | null }[];
+  note: string | null;
+  created_by: number | null;
+  applied_at: Date | null; // 部屋の現在の料金に反映済み
+  created_at: Date;
+  updated_at: Date;
+}
+
+// 設備の料金改定
+export interface EquipmentPriceRevision {
+  id: number;
+  equipment_id: number;
+  effective_from: string; // YYYY-MM-DD
+  price_type: Equipment['price_type'];
+  unit_price: number;
+  note: string | null;
+  created_by: number | null;
+  applied_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// 料金期間（繁忙期・特別期間の料金）
+export interface PricingPeriodRecord {
+  id: number;
+  name: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;   // YYYY-MM-DD（この日を含む）
+  room_ids: number[] | null;
+  time_slot_codes: string[] | null;
+  adjustment_type: 'multiplier' | 'fixed_price';
+  multiplier: number | null;
+  price: number | null;
+  weekend_price: number | null;
+  priority: number;
+  description: string | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// 部屋のレイアウト別の定員
+export interface RoomLayoutRecord {
+  id: number;
+  room_id: number;
+  name: string;
+  capacity: number;
+  display_order: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface RoomEquipment {
   id: number;
   room_id: number;
@@ -199,6 +360,7 @@ export interface Product {
   name: string;
   category: string;
   price: number;
+  tax_rate: number | null; // NULL は標準の消費税率
   cost: number | null;
   stock_quantity: number | null;
   is_available: boolean;
@@ -215,6 +377,9 @@ export interface Sale {
   quantity: number;
   unit_price: number;
   total_price: number;
+  tax_rate: number;
+  tax_excluded_amount: number;
+  tax_amount: number;
   sold_by: number;
   sold_at: Date;
   customer_name: string | null;
@@ -233,6 +398,74 @@ export interface RoomClosedDate {
   updated_at: Date;
 }
 
+export type WaitlistStatus = 'waiting' | 'offered' | 'accepted' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: number;
+  user_id: number;
+  room_id: number;
+  date: Date | string;
+  time_slot_id: number;
+  status: WaitlistStatus;
+  offered_at: Date | null;
+  offer_expires_at: Date | null; // 案内の期限（期限までは枠を確保）
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type LotteryRoundStatus = 'accepting' | 'drawn' | 'cancelled';
+
+export interface LotteryRound {
+  id: number;
+  room_id: number;
+  target_month: string;          // YYYY-MM
+  entry_start_at: Date;
+  entry_end_at: Date;
+  payment_due_days: number;      // 当選から支払期限までの日数
+  status: LotteryRoundStatus;
+  seed: string | null;           // 抽選に使用したシード値
+  drawn_at: Date | null;
+  drawn_by: number | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type LotteryEntryStatus = 'entered' | 'won' | 'lost' | 'cancelled';
+
+export interface LotteryEntry {
+  id: number;
+  round_id: number;
+  user_id: number;
+  event_name: string;
+  expected_attendees: number | null;
+  entrance_fee_type: 'free' | 'paid';
+  entrance_fee_amount: number;
+  status: LotteryEntryStatus;
+  draw_order: number | null;
+  won_preference_id: number | null;
+  application_id: number | null;
+  result_note: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LotteryPreference {
+  id: number;
+  entry_id: number;
+  preference_rank: number;       // 1 = 第1希望
+  date: Date | string;
+  time_slot_ids: number[];
+}
+
+export interface CreateLotteryEntryDto {
+  event_name: string;
+  expected_attendees?: number;
+  entrance_fee_type: 'free' | 'paid';
+  entrance_fee_amount: number;
+  preferences: { date: string; time_slot_ids: number[] }[]; // 希望順
+}
+
 export interface ApplicationProxy {
   id: number;
   application_id: number;
@@ -281,6 +514,7 @@ export interface CreateApplicationDto {
   applicant_email: string;
   event_name: string;
   expected_attendees?: number;
+  activities?: string[]; // 利用内容のコード（音響機器を使った演奏・飲食など）
   event_description?: string;
   entrance_fee_type: 'free' | 'paid';
   entrance_fee_amount: number;
@@ -296,9 +530,19 @@ export interface CreateApplicationDto {
   end_time?: string;
   remarks?: string;
   auto_pay?: boolean; // デモシステム：自動決済フラグ
+  tentative?: boolean; // 仮予約（仮押さえ）として申請
   usages: CreateUsageDto[];
+  recurrence?: RecurrenceRequestDto; // 定期予約（usages の1件目を各回の利用内容として繰り返す）
 }
 
+export interface RecurrenceRequestDto extends RecurrenceRule {
+  include_holidays?: boolean; // 祝日も利用する（既定では祝日の回を要確認として扱う）
+  skip_conflicts?: boolean;   // 休館日・満室などの回を除いて申請する
+}
+
+// 定期予約の変更・キャンセルの範囲（この回のみ / この回以降すべて）
+export type OccurrenceScope = 'this' | 'future';
+
 export interface CreateUsageDto {
   room_id: number;
   date: string; // ISO date string
@@ -307,6 +551,10 @@ export interface CreateUsageDto {
   use_evening: boolean;
   use_midday_extension: boolean;
   use_evening_extension: boolean;
+  start_time?: string; // 自由時間制の部屋のみ（HH:MM）
+  end_time?: string;
+  time_slot_ids?: number[]; // 予約する時間帯（省略時は時間帯フラグから選択）
+  layout_id?: number | null; // 利用するレイアウト（定員はレイアウトの定員で確認）
   ac_requested: boolean;
   equipment: CreateEquipmentUsageDto[];
 }
@@ -332,6 +580,60 @@ export interface DayAvailability {
   afternoon_count?: number;
   evening_count?: number;
   max_count?: number;
+  closure_reason?: string | null;
+  closed_slots?: string[];
+  outside_booking_window?: boolean; // 利用者の受付期間より先の日（まだ予約を受け付けていない）
+  // 部屋で予約できる時間帯ごとの空き状況（キーは時間帯コード）
+  // equipment_remaining: 設備IDごとの貸し出し可能な残数（他の部屋の予約と共有）
+  // blocked_reason: 全体・分割した部屋の予約（linked）、予約の準備時間（setup）、前後の予約との転換時間（turnover）のために予約できない場合の理由
+  slots?: {
+    [code: string]: {
+      time_slot_id: number;
+      available: boolean;
+      count: number;
+      blocked_reason: 'linked' | 'setup' | 'turnover' | null;
+      equipment_remaining: { [equipmentId: string]: number };
+    };
+  };
+}
+
+// 職員用の空き状況一覧（部屋 × 日 × 時間帯）の予約（利用明細、または空き待ちの案内で確保中の時間帯）
+export interface AvailabilityMatrixBooking {
+  type: 'usage' | 'waitlist_hold';
+  usage_id: number | null;
+  application_id: number | null;
+  event_name: string | null;
+  applicant_name: string | null;
+  payment_status: Application['payment_status'] | null;
+  approval_status: ApprovalStatus | null;
+  hold_status: HoldStatus | null;
+  start_time: string;
+  end_time: string;
+}
+
+export interface AvailabilityMatrixDay {
+  date: string;
+  is_closed: boolean;
+  closure_reason: string | null;
+  closed_slots: string[];
+  bookings: AvailabilityMatrixBooking[]; // この部屋の予約（開始時刻順）
+  // 時間帯ごとの空き状況（キーは時間帯コード、自由時間制の部屋は空）
+  // bookings: この時間帯と時刻の重なるこの部屋の予約
+  slots: {
+    [code: string]: {
+      time_slot_id: number;
+      available: boolean;
+      count: number;
+      blocked_reason: 'linked' | 'setup' | 'turnover' | null;
+      bookings: AvailabilityMatrixBooking[];
+    };
+  };
+}
+
+export interface AvailabilityMatrixRoom {
+  room: { id: number; name: string; capacity: number; max_count: number; is_flexible_time: boolean };
+  time_slots: { id: number; code: string; name: string; start_time: string; end_time: string }[];
+  days: AvailabilityMatrixDay[];
 }
 
 // お知らせ機能
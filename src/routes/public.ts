@@ -6,6 +6,7 @@ import { AnnouncementController } from '../controllers/AnnouncementController';
 import { MessageController } from '../controllers/MessageController';
 import { SystemSettingsController } from '../controllers/SystemSettingsController';
 import { HolidayController } from '../controllers/HolidayController';
+import { FeeReductionController } from '../controllers/FeeReductionController';
 import { authenticate, optionalAuth } from '../middleware/auth';
 
 const router = express.Router();
@@ -21,11 +22,17 @@ router.get(
 // Room routes
 router.get('/rooms', RoomController.getRooms);
 router.get('/rooms/:id', RoomController.getRoomById);
-router.get('/rooms/:id/availability', RoomController.getRoomAvailability);
+router.get('/rooms/:id/availability', optionalAuth, RoomController.getRoomAvailability);
+router.get('/rooms/:id/time-slots', RoomController.getRoomTimeSlots);
+router.get('/rooms/:id/timeline', RoomController.getRoomTimeline);
+router.get('/availability/search', optionalAuth, RoomController.searchAvailability);
 
 // Equipment routes
 router.get('/equipment', RoomController.getEquipment);
 
+// Fee reduction rules (public)
+router.get('/fee-reduction-rules', FeeReductionController.getRules);
+
 // Review routes (public)
 router.get('/rooms/:roomId/reviews', ReviewController.getRoomReviews);
 router.get('/reviews/recent', ReviewController.getRecentReviews);
@@ -37,6 +44,18 @@ router.post(
   ApplicationController.createValidation,
   ApplicationController.createApplication
 );
+router.post(
+  '/applications/recurrence/preview',
+  optionalAuth,
+  ApplicationController.previewRecurrenceValidation,
+  ApplicationController.previewRecurrence
+);
+router.post(
+  '/applications/quote',
+  optionalAuth,
+  ApplicationController.quoteValidation,
+  ApplicationController.quote
+);
 router.get('/applications/:id', optionalAuth, ApplicationController.getApplication);
 router.get('/my-applications', authenticate, ApplicationController.getUserApplications);
 
@@ -20,6 +20,9 @@ router.get('/profile', StaffPageController.profile);
 // 予約管理
 router.get('/reservations', StaffPageController.reservations);
 
+// 空き状況一覧
+router.get('/availability', StaffPageController.availability);
+
 // 利用記録管理
 router.get('/usages', StaffPageController.usages);
 
@@ -16,6 +16,12 @@ import { SystemSettingsController } from '../controllers/SystemSettingsControlle
 import { ActivityLogController } from '../controllers/ActivityLogController';
 import { UserActivityLogController } from '../controllers/UserActivityLogController';
 import { HolidayController } from '../controllers/HolidayController';
+import { StaffLotteryController } from '../controllers/StaffLotteryController';
+import { StaffFeeReductionController } from '../controllers/StaffFeeReductionController';
+import { StaffPriceRevisionController } from '../controllers/StaffPriceRevisionController';
+import { StaffPricingPeriodController } from '../controllers/StaffPricingPeriodController';
+import { StaffUsageRuleController } from '../controllers/StaffUsageRuleController';
+import { StaffAvailabilityController } from '../controllers/StaffAvailabilityController';
 import multer from 'multer';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
@@ -79,11 +85,38 @@ router.delete('/profile/image', StaffProfileController.deleteProfileImage);
 router.get('/reservations', StaffReservationController.getReservations);
 router.get('/reservations/:id', StaffReservationController.getReservationDetail);
 router.post('/reservations/:id/cancel', StaffReservationController.cancelReservation);
+router.post('/reservations/:id/usages/:usageId/cancel', StaffReservationController.cancelUsage);
+router.patch('/reservations/:id/usages/:usageId', StaffReservationController.modifyOccurrence);
+router.post('/reservations/:id/approve', StaffReservationController.approveReservation);
+router.post('/reservations/:id/reject', StaffReservationController.rejectReservation);
 router.patch('/reservations/:id/payment-status', StaffReservationController.updatePaymentStatus);
 router.patch('/reservations/:id', StaffReservationController.updateReservation);
 router.post('/reservations/:id/notes', StaffReservationController.addNote);
 router.get('/reservations/:id/notes', StaffReservationController.getNotes);
 
+// ===== 空き状況一覧（部屋 × 日 × 時間帯） =====
+router.get('/availability-matrix', StaffAvailabilityController.getMatrix);
+
+// ===== 使用料の減免 =====
+router.get('/fee-reduction-rules', StaffFeeReductionController.getRules);
+router.post('/fee-reduction-rules', StaffFeeReductionController.ruleValidation, StaffFeeReductionController.createRule);
+router.patch('/fee-reduction-rules/:id', StaffFeeReductionController.ruleValidation, StaffFeeReductionController.updateRule);
+router.get('/fee-reductions', StaffFeeReductionController.getRequests);
+router.post('/reservations/:id/fee-reduction/approve', StaffFeeReductionController.approve);
+router.post(
+  '/reservations/:id/fee-reduction/reject',
+  StaffFeeReductionController.rejectValidation,
+  StaffFeeReductionController.reject
+);
+router.get('/reservations/:id/fee-reduction/attachment', StaffFeeReductionController.downloadAttachment);
+
+// ===== 抽選管理 =====
+router.get('/lotteries', StaffLotteryController.getRounds);
+router.post('/lotteries', StaffLotteryController.createRoundValidation, StaffLotteryController.createRound);
+router.get('/lotteries/:id', StaffLotteryController.getRoundResults);
+router.post('/lotteries/:id/draw', StaffLotteryController.drawValidation, StaffLotteryController.draw);
+router.post('/lotteries/:id/cancel', StaffLotteryController.cancelRound);
+
 // ===== 利用記録管理 =====
 router.get('/usages/:id', StaffUsageController.getUsageDetail);
 router.patch('/usages/:id/ac-hours', StaffUsageController.updateAcHours);
@@ -114,13 +147,39 @@ router.delete('/facilities/rooms/:id', StaffFacilityController.deleteRoom);
 router.post('/facilities/rooms/:id/restore', StaffFacilityController.restoreRoom);
 router.delete('/facilities/rooms/:id/permanent', StaffFacilityController.permanentlyDeleteRoom);
 router.get('/facilities/rooms/:id/usage-stats', StaffFacilityController.getRoomUsageStats);
+router.put('/facilities/rooms/:id/parts', StaffFacilityController.setRoomParts);
+router.get('/facilities/rooms/:id/price-revisions', StaffPriceRevisionController.getRoomRevisions);
+router.post(
+  '/facilities/rooms/:id/price-revisions',
+  StaffPriceRevisionController.roomRevisionValidation,
+  StaffPriceRevisionController.scheduleRoomRevision
+);
+router.delete('/facilities/room-price-revisions/:revisionId', StaffPriceRevisionController.cancelRoomRevision);
+router.get('/facilities/rooms/:id/layouts', StaffUsageRuleController.getLayouts);
+router.post('/facilities/rooms/:id/layouts', StaffUsageRuleController.layoutValidation, StaffUsageRuleController.createLayout);
+router.patch('/facilities/room-layouts/:layoutId', StaffUsageRuleController.layoutValidation, StaffUsageRuleController.updateLayout);
+router.delete('/facilities/room-layouts/:layoutId', StaffUsageRuleController.deleteLayout);
 
 // 設備管理
 router.get('/facilities/equipment', StaffFacilityController.getEquipment);
+router.get('/facilities/equipment/allocations', StaffFacilityController.getEquipmentAllocations);
 router.post('/facilities/equipment', StaffFacilityController.createEquipment);
 router.patch('/facilities/equipment/:id', StaffFacilityController.updateEquipment);
 router.delete('/facilities/equipment/:id', StaffFacilityController.deleteEquipment);
 router.get('/facilities/equipment/:id/usage-stats', StaffFacilityController.getEquipmentUsageStats);
+router.get('/facilities/equipment/:id/price-revisions', StaffPriceRevisionController.getEquipmentRevisions);
+router.post(
+  '/facilities/equipment/:id/price-revisions',
+  StaffPriceRevisionController.equipmentRevisionValidation,
+  StaffPriceRevisionController.scheduleEquipmentRevision
+);
+router.delete('/facilities/equipment-price-revisions/:revisionId', StaffPriceRevisionController.cancelEquipmentRevision);
+
+// Pricing periods (繁忙期・特別期間の料金)
+router.get('/facilities/pricing-periods', StaffPricingPeriodController.getPeriods);
+router.post('/facilities/pricing-periods', StaffPricingPeriodController.periodValidation, StaffPricingPeriodController.createPeriod);
+router.patch('/facilities/pricing-periods/:id', StaffPricingPeriodController.periodValidation, StaffPricingPeriodController.updatePeriod);
+router.delete('/facilities/pricing-periods/:id', StaffPricingPeriodController.deletePeriod);
 
 // 休館日管理
 router.get('/facilities/closed-dates', StaffFacilityController.getClosedDates);
@@ -147,6 +206,7 @@ router.get('/sales', ExtendedFacilityController.getSales);
 router.get('/sales/stats', ExtendedFacilityController.getSalesStats);
 
 // 予約代行
+router.post('/proxy-reservations/quote', ExtendedFacilityController.quoteProxyReservation);
 router.post('/proxy-reservations/member', ExtendedFacilityController.createProxyReservationForMember);
 router.post('/proxy-reservations/guest', ExtendedFacilityController.createProxyReservationForGuest);
 router.get('/proxy-reservations', ExtendedFacilityController.getProxyReservations);
@@ -232,6 +292,8 @@ router.post('/settings/basic', SystemSettingsController.updateBasicSettings);
 router.post('/settings/reservation', SystemSettingsController.updateReservationSettings);
 router.post('/settings/email', SystemSettingsController.updateEmailSettings);
 router.post('/settings/business-hours', SystemSettingsController.updateBusinessHours);
+router.get('/settings/cancellation-policy', SystemSettingsController.getCancellationPolicy);
+router.put('/settings/cancellation-policy', SystemSettingsController.updateCancellationPolicy);
 
 // ===== アクティビティログ（管理者のみ） =====
 router.get('/activity-logs', ActivityLogController.getLogs);
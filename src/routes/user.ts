@@ -4,6 +4,9 @@ import { UserReservationController } from '../controllers/UserReservationControl
 import { ReviewController } from '../controllers/ReviewController';
 import { AnnouncementController } from '../controllers/AnnouncementController';
 import { MessageController } from '../controllers/MessageController';
+import { WaitlistController } from '../controllers/WaitlistController';
+import { LotteryController } from '../controllers/LotteryController';
+import { FeeReductionController, feeReductionAttachmentUpload } from '../controllers/FeeReductionController';
 import { authenticate } from '../middleware/auth';
 
 const router = express.Router();
@@ -44,9 +47,31 @@ router.delete('/favorites/rooms/:roomId', UserProfileController.removeFavoriteRo
 router.get('/reservations', UserReservationController.getMyReservations);
 router.get('/reservations/:id', UserReservationController.getReservationDetail);
 router.get('/reservations/:id/check-modifiable', UserReservationController.checkModifiable);
+router.get('/reservations/:id/cancellation-fee', UserReservationController.getCancellationFee);
 router.post('/reservations/:id/cancel', UserReservationController.cancelReservation);
+router.post('/reservations/:id/usages/:usageId/cancel', UserReservationController.cancelUsage);
+router.patch('/reservations/:id/usages/:usageId', UserReservationController.modifyOccurrence);
+router.post('/reservations/:id/confirm', UserReservationController.confirmHold);
 router.post('/reservations/:id/payment', UserReservationController.processPayment);
 router.patch('/reservations/:id', UserReservationController.modifyReservation);
+router.post(
+  '/reservations/:id/fee-reduction',
+  feeReductionAttachmentUpload.single('attachment'),
+  FeeReductionController.discardAttachmentOnError,
+  FeeReductionController.requestValidation,
+  FeeReductionController.request
+);
+
+// 空き待ち
+router.get('/waitlist', WaitlistController.getMyEntries);
+router.post('/waitlist', WaitlistController.joinValidation, WaitlistController.join);
+router.delete('/waitlist/:id', WaitlistController.leave);
+
+// 抽選
+router.get('/lotteries', LotteryController.getOpenRounds);
+router.get('/lottery-entries', LotteryController.getMyEntries);
+router.post('/lotteries/:roundId/entries', LotteryController.enterValidation, LotteryController.enter);
+router.delete('/lottery-entries/:id', LotteryController.withdraw);
 
 // レビュー・評価
 router.get('/reviews', ReviewController.getUserReviews);
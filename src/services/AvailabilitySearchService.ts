@@ -0,0 +1,120 @@
+import RoomRepository from '../models/RoomRepository';
+import AvailabilityRepository from '../models/AvailabilityRepository';
+import LotteryRepository from '../models/LotteryRepository';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import BookingWindowService from './BookingWindowService';
+import { createError } from '../middleware/errorHandler';
+import { Room } from '../models/types';
+import {
+  AvailabilitySearchCriteria,
+  SearchDayMatch,
+  bookableSearchRange,
+  closeUnbookableSlots,
+  matchDay,
+  rankRoomMatches,
+  searchDates,
+  validateSearchCriteria,
+} from '../utils/availabilitySearch';
+import { weekdayOf } from '../utils/recurrence';
+
+export interface RoomAvailabilityMatch {
+  room: { id: number; name: string; capacity: number };
+  capacity: number;
+  displayOrder: number;
+  days: SearchDayMatch[];  // 条件に合う空きのある日（日付順）
+}
+
+/**
+ * 部屋を横断した空き状況の検索サービス
+ * 時間帯予約の部屋が対象（自由時間制の部屋は部屋ごとのタイムラインで確認する）
+ */
+export class AvailabilitySearchService {
+  /**
+   * 検索条件に合う空きのある部屋（条件に合う日の多い順）
+   * 利用者の受付期間外の日時（過去の日時・受付を締め切った時間帯を含む）・抽選の結果発表前の月・休館日は空きとして扱わない
+   * @throws AppError (400) 検索条件が正しくない場合
+   */
+  async search(
+    criteria: AvailabilitySearchCriteria,
+    userId: number | null,
+    now: Date = new Date()
+  ): Promise<RoomAvailabilityMatch[]> {
+    const error = validateSearchCriteria(criteria);
+    if (error) {
+      throw createError(error, 400);
+    }
+
+    const dates = searchDates(criteria.startDate, criteria.endDate, criteria.weekdays);
+    const equippedRoomIds = criteria.equipmentIds.length > 0
+      ? await RoomRepository.findIdsWithEquipment(criteria.equipmentIds)
+      : null;
+
+    const rooms: Room[] = (await RoomRepository.findAllActive()).filter(
+      (room) =>
+        !room.isFlexibleTime &&
+        (criteria.minCapacity === null || Number(room.capacity) >= criteria.minCapacity) &&
+        (equippedRoomIds === null || equippedRoomIds.includes(room.id))
+    );
+
+    const matches: RoomAvailabilityMatch[] = [];
+    for (const room of rooms) {
+      matches.push({
+        room: { id: room.id, name: room.name, capacity: Number(room.capacity) },
+        capacity: Number(room.capacity),
+        displayOrder: Number(room.displayOrder) || 0,
+        days: await this.findMatchingDays(room, dates, criteria, userId, now),
+      });
+    }
+
+    return rankRoomMatches(matches, criteria.minCapacity);
+  }
+
+  /**
+   * 1部屋の条件に合う空きのある日
+   */
+  private async findMatchingDays(
+    room: Room,
+    dates: string[],
+    criteria: AvailabilitySearchCriteria,
+    userId: number | null,
+    now: Date
+  ): Promise<SearchDayMatch[]> {
+    const { policy, timezoneOffset } = await BookingWindowService.getUserPolicy(room, userId);
+    const range = bookableSearchRange(criteria.startDate, criteria.endDate, policy, now, timezoneOffset);
+    if (!range) {
+      return [];
+    }
+
+    // 抽選の対象月は抽選が終わるまで先着順の予約を受け付けない
+    const lotteryMonths = new Set<string>();
+    for (const month of new Set(dates.map((date) => date.slice(0, 7)))) {
+      if (await LotteryRepository.findUndrawnRound(room.id, month)) {
+        lotteryMonths.add(month);
+      }
+    }
+
+    const startTimes: { [code: string]: string } = {};
+    for (const slot of await TimeSlotRepository.findRoomTimeSlots(room.id)) {
+      startTimes[slot.code] = slot.startTime;
+    }
+
+    const availability = await AvailabilityRepository.getRangeAvailability(room.id, range.startDate, range.endDate);
+    const days: SearchDayMatch[] = [];
+    for (const day of availability) {
+      if (day.is_closed || !dates.includes(day.date) || lotteryMonths.has(day.date.slice(0, 7))) {
+        continue;
+      }
+
+      // 今日の開始時刻を過ぎた時間帯・受付を締め切った時間帯は空きとしない
+      const slots = closeUnbookableSlots(day.date, day.slots || {}, startTimes, policy, now, timezoneOffset);
+      const freeSlots = matchDay(slots, criteria.slotCodes, criteria.equipmentIds);
+      if (freeSlots) {
+        days.push({ date: day.date, weekday: weekdayOf(day.date), free_slots: freeSlots });
+      }
+    }
+
+    return days;
+  }
+}
+
+export default new AvailabilitySearchService();
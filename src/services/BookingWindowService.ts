@@ -0,0 +1,187 @@
+import { pool } from '../config/database';
+import { RowDataPacket } from 'mysql2';
+import SystemSettingsService from './SystemSettingsService';
+import { createError } from '../middleware/errorHandler';
+import { usageSlotCodes } from '../models/ClosureRepository';
+import UserRepository from '../models/UserRepository';
+import { UserCategory } from '../models/types';
+import {
+  BookingWindowPolicy,
+  BookingWindowRoomOverrides,
+  CategoryAdvanceDays,
+  applyUserCategory,
+  checkBookingWindow,
+  lastBookableDate,
+  resolveBookingWindowPolicy,
+} from '../utils/bookingWindow';
+
+// time_slots が未登録の場合の開始時刻
+const DEFAULT_SLOT_START_TIMES: { [code: string]: string } = {
+  morning: '09:00',
+  midday_extension: '12:00',
+  afternoon: '13:00',
+  evening_extension: '17:00',
+  evening: '18:00',
+};
+
+/**
+ * 予約受付期間サービス
+ */
+export class BookingWindowService {
+  /**
+   * システム設定の受付期間（利用者区分を指定した場合は区分ごとの最大予約可能日数を適用）
+   */
+  async getDefaultPolicy(category: UserCategory | null = null): Promise<BookingWindowPolicy> {
+    const advanceDays = await SystemSettingsService.getSettingValue('reservation_advance_days');
+    const minLeadHours = await SystemSettingsService.getSettingValue('reservation_min_lead_hours');
+
+    const policy = resolveBookingWindowPolicy({
+      advanceDays: typeof advanceDays === 'number' && !isNaN(advanceDays) ? advanceDays : null,
+      minLeadHours: typeof minLeadHours === 'number' && !isNaN(minLeadHours) ? minLeadHours : 0,
+    });
+
+    return applyUserCategory(policy, category, await this.getCategoryAdvanceDays());
+  }
+
+  /**
+   * 利用者区分（ゲスト・職員の場合は null）
+   */
+  async getUserCategory(userId: number | null | undefined): Promise<UserCategory | null> {
+    if (!userId) {
+      return null;
+    }
+    const user = await UserRepository.findById(userId);
+    return user && user.role === 'user' ? user.user_category || null : null;
+  }
+
+  /**
+   * 利用者に適用される部屋の受付期間（空き状況カレンダーで受付期間外の日を表示するために使用）
+   */
+  async getUserBookingWindow(
+    room: BookingWindowRoomOverrides,
+    userId: number | null,
+    now: Date = new Date()
+  ): Promise<{
+    user_category: UserCategory | null;
+    advance_days: number | null;
+    min_lead_hours: number;
+    last_bookable_date: string | null;
+  }> {
+    const { category, policy, timezoneOffset } = await this.getUserPolicy(room, userId);
+
+    return {
+      user_category: category,
+      advance_days: policy.advanceDays,
+      min_lead_hours: policy.minLeadHours,
+      last_bookable_date: lastBookableDate(policy, now, timezoneOffset),
+    };
+  }
+
+  /**
+   * 利用者に適用される部屋の受付期間の設定と施設のタイムゾーン（時間帯ごとの受付期間の判定に使用）
+   */
+  async getUserPolicy(
+    room: BookingWindowRoomOverrides,
+    userId: number | null
+  ): Promise<{ category: UserCategory | null; policy: BookingWindowPolicy; timezoneOffset: string }> {
+    const category = await this.getUserCategory(userId);
+    const policy = resolveBookingWindowPolicy(await this.getDefaultPolicy(category), room);
+    const timezoneOffset = (await SystemSettingsService.getSettingValue('timezone_offset')) || '+09:00';
+
+    return { category, policy, timezoneOffset };
+  }
+
+  /**
+   * 公開用の受付期間（部屋ごとの上書き設定を含む）
+   */
+  async getPublicBookingWindow(): Promise<{
+    advance_days: number | null;
+    min_lead_hours: number;
+    category_advance_days: CategoryAdvanceDays;
+    room_overrides: { [roomId: number]: { advance_days: number | null; min_lead_hours: number } };
+  }> {
+    const defaults = await this.getDefaultPolicy();
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id, reservation_advance_days, reservation_min_lead_hours
+       FROM rooms
+       WHERE is_active = TRUE
+         AND (reservation_advance_days IS NOT NULL OR reservation_min_lead_hours IS NOT NULL)`
+    );
+
+    const roomOverrides: { [roomId: number]: { advance_days: number | null; min_lead_hours: number } } = {};
+    for (const row of rows) {
+      const policy = resolveBookingWindowPolicy(defaults, {
+        reservationAdvanceDays: row.reservation_advance_days,
+        reservationMinLeadHours: row.reservation_min_lead_hours,
+      });
+      roomOverrides[row.id] = { advance_days: policy.advanceDays, min_lead_hours: policy.minLeadHours };
+    }
+
+    return {
+      advance_days: defaults.advanceDays,
+      min_lead_hours: defaults.minLeadHours,
+      category_advance_days: await this.getCategoryAdvanceDays(),
+      room_overrides: roomOverrides,
+    };
+  }
+
+  /**
+   * 利用明細が受付期間内かを確認（期間外の場合は 400 エラー）
+   *
+   * @param userId - 申請者（利用者区分の受付期間を適用、ゲストの場合は null）
+   */
+  async assertWithinWindow(
+    room: BookingWindowRoomOverrides & { name: string },
+    usage: {
+      date: string | Date;
+      use_morning?: boolean;
+      use_afternoon?: boolean;
+      use_evening?: boolean;
+      use_midday_extension?: boolean;
+      use_evening_extension?: boolean;
+      start_time?: string | null; // 自由時間制の部屋
+    },
+    userId: number | null = null,
+    now: Date = new Date()
+  ): Promise<void> {
+    const category = await this.getUserCategory(userId);
+    const policy = resolveBookingWindowPolicy(await this.getDefaultPolicy(category), room);
+    const timezoneOffset = (await SystemSettingsService.getSettingValue('timezone_offset')) || '+09:00';
+
+    const date = usage.date instanceof Date ? usage.date.toISOString().slice(0, 10) : String(usage.date).slice(0, 10);
+    const startTime = usage.start_time
+      ? String(usage.start_time).slice(0, 5)
+      : await this.getStartTime(usageSlotCodes(usage));
+
+    const error = checkBookingWindow(policy, date, startTime, now, timezoneOffset);
+    if (error) {
+      throw createError(`Room "${room.name}": ${error}`, 400);
+    }
+  }
+
+  private async getCategoryAdvanceDays(): Promise<CategoryAdvanceDays> {
+    const value = await SystemSettingsService.getSettingValue('reservation_advance_days_by_category');
+    return value && typeof value === 'object' ? value : {};
+  }
+
+  /**
+   * 選択された時間帯のうち最も早い開始時刻
+   */
+  private async getStartTime(slotCodes: string[]): Promise<string> {
+    if (slotCodes.length === 0) {
+      return DEFAULT_SLOT_START_TIMES.morning;
+    }
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT TIME_FORMAT(MIN(start_time), '%H:%i') as start_time
+       FROM time_slots
+       WHERE code IN (?)`,
+      [slotCodes]
+    );
+
+    return rows[0]?.start_time || DEFAULT_SLOT_START_TIMES[slotCodes[0]] || DEFAULT_SLOT_START_TIMES.morning;
+  }
+}
+
+export default new BookingWindowService();
@@ -0,0 +1,248 @@
+import { pool } from '../config/database';
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { createError } from '../middleware/errorHandler';
+import {
+  CancellationFeeTier,
+  DEFAULT_CANCELLATION_TIERS,
+  calculateCancellationFee,
+  daysBeforeUsage,
+  findCancellationTier,
+  validateCancellationTiers,
+} from '../utils/pricing';
+import { Application, Usage } from '../models/types';
+import ReservationPricingService from './ReservationPricingService';
+
+export interface CancellationPolicy {
+  id: number | null;  // null = 版が保存されていない旧予約（従来のルール）
+  version: number;
+  tiers: CancellationFeeTier[];
+  roomTiers: { [roomId: string]: CancellationFeeTier[] };
+  isCurrent: boolean;
+  createdBy: number | null;
+  createdAt: Date | null;
+}
+
+export interface UsageCancellationFee {
+  usage_id: number;
+  room_id: number;
+  date: Date;
+  amount: number;
+  days_before: number;
+  rate: number;
+  cancellation_fee: number;
+  already_cancelled: boolean;
+}
+
+export interface CancellationFeePreview {
+  policy_version: number;
+  cancellation_fee: number;
+  refund_amount: number;
+  usages: UsageCancellationFee[];
+}
+
+const LEGACY_POLICY: CancellationPolicy = {
+  id: null,
+  version: 1,
+  tiers: DEFAULT_CANCELLATION_TIERS,
+  roomTiers: {},
+  isCurrent: false,
+  createdBy: null,
+  createdAt: null,
+};
+
+/**
+ * キャンセル料ポリシーサービス
+ * ポリシーは変更のたびに新しい版として保存し、予約には予約時点の版を適用する
+ */
+export class CancellationPolicyService {
+  private toPolicy(row: RowDataPacket): CancellationPolicy {
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return {
+      id: row.id,
+      version: row.version,
+      tiers: parse(row.tiers),
+      roomTiers: parse(row.room_tiers) || {},
+      isCurrent: !!row.is_current,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * 新規予約に適用中のポリシー
+   */
+  async getCurrentPolicy(): Promise<CancellationPolicy> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM cancellation_policies WHERE is_current = TRUE ORDER BY version DESC LIMIT 1'
+    );
+    return rows.length > 0 ? this.toPolicy(rows[0]) : LEGACY_POLICY;
+  }
+
+  /**
+   * ポリシーの版一覧（新しい順）
+   */
+  async getPolicyHistory(): Promise<CancellationPolicy[]> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM cancellation_policies ORDER BY version DESC'
+    );
+    return rows.map((row) => this.toPolicy(row));
+  }
+
+  /**
+   * 予約に保存されたポリシー（保存されていない旧予約は従来のルール）
+   */
+  async getPolicyForApplication(application: Pick<Application, 'cancellation_policy_id'>): Promise<CancellationPolicy> {
+    if (!application.cancellation_policy_id) {
+      return LEGACY_POLICY;
+    }
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT * FROM cancellation_policies WHERE id = ?',
+      [application.cancellation_policy_id]
+    );
+    return rows.length > 0 ? this.toPolicy(rows[0]) : LEGACY_POLICY;
+  }
+
+  /**
+   * 部屋に適用される段階（部屋ごとの設定がない場合は既定の段階）
+   */
+  getTiersForRoom(policy: CancellationPolicy, roomId: number): CancellationFeeTier[] {
+    return policy.roomTiers[String(roomId)] || policy.tiers;
+  }
+
+  /**
+   * 1件の利用明細のキャンセル料を計算
+   *
+   * @param amount - キャンセル対象の金額（省略時は利用明細の小計）
+   */
+  calculateUsageFee(
+    policy: CancellationPolicy,
+    usage: Pick<Usage, 'room_id' | 'date' | 'subtotal_amount'>,
+    cancelledAt: Date,
+    amount: number = Number(usage.subtotal_amount)
+  ): { daysBefore: number; rate: number; fee: number } {
+    const usageDate = new Date(usage.date);
+    const tiers = this.getTiersForRoom(policy, usage.room_id);
+    const daysBefore = daysBeforeUsage(usageDate, cancelledAt);
+    return {
+      daysBefore,
+      rate: findCancellationTier(tiers, daysBefore).rate,
+      fee: calculateCancellationFee(usageDate, cancelledAt, amount, tiers),
+    };
+  }
+
+  /**
+   * 予約全体をキャンセルした場合のキャンセル料と返金額
+   * 部分キャンセルで確定済みのキャンセル料は引き継ぐ
+   * キャンセル料は承認済みの減免を適用した後の金額に対して計算する
+   */
+  async previewCancellation(
+    application: Application,
+    usages: Usage[],
+    cancelledAt: Date = new Date()
+  ): Promise<CancellationFeePreview> {
+    const policy = await this.getPolicyForApplication(application);
+
+    let totalFee = 0;
+    const breakdown: UsageCancellationFee[] = usages.map((usage) => {
+      const retainedFee = Number(usage.cancellation_fee || 0);
+      const alreadyCancelled = usage.cancel_status === 'cancelled';
+      const amount = ReservationPricingService.reducedAmount([usage], application);
+      const { daysBefore, rate, fee } = this.calculateUsageFee(policy, usage, cancelledAt, amount);
+      // 仮予約（仮押さえ中）の取り消しにはキャンセル料はかからない
+      const chargeable = !alreadyCancelled && application.hold_status !== 'tentative';
+      const usageFee = retainedFee + (chargeable ? fee : 0);
+      totalFee += usageFee;
+
+      return {
+        usage_id: usage.id,
+        room_id: usage.room_id,
+        date: usage.date,
+        amount: alreadyCancelled ? 0 : amount,
+        days_before: daysBefore,
+        rate: chargeable ? rate : 0,
+        cancellation_fee: usageFee,
+        already_cancelled: alreadyCancelled,
+      };
+    });
+
+    return {
+      policy_version: policy.version,
+      cancellation_fee: totalFee,
+      refund_amount: application.payment_status === 'paid' ? Math.max(0, Number(application.total_amount) - totalFee) : 0,
+      usages: breakdown,
+    };
+  }
+
+  /**
+   * ポリシーを変更（新しい版を作成し、以降の新規予約に適用）
+   */
+  async savePolicy(
+    tiers: CancellationFeeTier[],
+    roomTiers: { [roomId: string]: CancellationFeeTier[] } | null,
+    staffId: number
+  ): Promise<CancellationPolicy> {
+    const validation = validateCancellationTiers(tiers);
+    if (!validation.valid) {
+      throw createError(validation.error!, 400);
+    }
+    for (const [roomId, room] of Object.entries(roomTiers || {})) {
+      const roomValidation = validateCancellationTiers(room);
+      if (!roomValidation.valid) {
+        throw createError(`Room ID ${roomId}: ${roomValidation.error}`, 400);
+      }
+    }
+
+    const normalize = (list: CancellationFeeTier[]) =>
+      list
+        .map((tier) => ({ daysBefore: tier.daysBefore, rate: tier.rate }))
+        .sort((a, b) => b.daysBefore - a.daysBefore);
+    const normalizedRoomTiers: { [roomId: string]: CancellationFeeTier[] } = {};
+    for (const [roomId, room] of Object.entries(roomTiers || {})) {
+      normalizedRoomTiers[roomId] = normalize(room);
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [versionRows] = await connection.query<RowDataPacket[]>(
+        'SELECT COALESCE(MAX(version), 0) as version FROM cancellation_policies FOR UPDATE'
+      );
+      const version = Number(versionRows[0].version) + 1;
+
+      await connection.query('UPDATE cancellation_policies SET is_current = FALSE WHERE is_current = TRUE');
+      const [result] = await connection.query<ResultSetHeader>(
+        `INSERT INTO cancellation_policies (version, tiers, room_tiers, is_current, created_by)
+         VALUES (?, ?, ?, TRUE, ?)`,
+        [
+          version,
+          JSON.stringify(normalize(tiers)),
+          Object.keys(normalizedRoomTiers).length > 0 ? JSON.stringify(normalizedRoomTiers) : null,
+          staffId,
+        ]
+      );
+
+      await connection.query(
+        `INSERT INTO staff_activity_logs (staff_id, action_type, target_type, target_id, description)
+         VALUES (?, 'update', 'cancellation_policy', ?, ?)`,
+        [staffId, result.insertId, `Cancellation policy updated to version ${version}`]
+      );
+
+      await connection.commit();
+
+      const [rows] = await pool.query<RowDataPacket[]>(
+        'SELECT * FROM cancellation_policies WHERE id = ?',
+        [result.insertId]
+      );
+      return this.toPolicy(rows[0]);
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
+
+export default new CancellationPolicyService();
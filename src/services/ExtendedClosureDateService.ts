@@ -24,7 +24,8 @@ export class ExtendedClosureDateService {
        JOIN applications a ON u.application_id = a.id
        WHERE u.room_id = ?
          AND u.date = ?
-         AND a.cancel_status = 'none'`,
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'`,
       [data.room_id, data.date]
     );
 
@@ -138,6 +139,7 @@ export class ExtendedClosureDateService {
       JOIN applications a ON u.application_id = a.id
       WHERE u.date = ?
         AND a.cancel_status = 'none'
+        AND u.cancel_status = 'none'
     `;
 
     const checkParams: any[] = [date];
@@ -0,0 +1,276 @@
+import fs from 'fs';
+import pool from '../config/database';
+import FeeReductionRepository, { FeeReductionRequest, FeeReductionRuleInput } from '../models/FeeReductionRepository';
+import ApplicationRepository from '../models/ApplicationRepository';
+import UserRepository from '../models/UserRepository';
+import { notificationService } from './NotificationService';
+import { createError } from '../middleware/errorHandler';
+import { Application, FeeReductionRule, FeeReductionStatus } from '../models/types';
+
+export interface FeeReductionSummary {
+  status: FeeReductionStatus;
+  rule_id: number | null;
+  rule_name: string | null;
+  rate: number | null;
+  scope: FeeReductionRule['scope'] | null;
+  reason: string | null;
+  has_attachment: boolean;
+  original_amount: number;   // 減免前の金額
+  reduction_amount: number;  // 承認済みの減免額
+  total_amount: number;      // 減免後の金額（お支払い金額）
+  requested_at: Date | null;
+  reviewed_at: Date | null;
+  review_comment: string | null;
+}
+
+/**
+ * 使用料の減免サービス
+ * - 職員が減免の種類（割合による減額・全額免除、部屋料金・設備料金の対象）を設定する
+ * - 申請者は未決済の申請について、理由と証明書類を添えて減免を申請する（審査中は決済できない）
+ * - 職員が承認すると申請時点の減額率で減免額を計算し、申請の金額（total_amount）を減免後の金額にする
+ */
+export class FeeReductionService {
+  /**
+   * 減免の種類の一覧（利用者向けは有効なもののみ）
+   */
+  async getRules(activeOnly: boolean = false): Promise<FeeReductionRule[]> {
+    return FeeReductionRepository.findRules(activeOnly);
+  }
+
+  /**
+   * 減免の種類を作成（職員）
+   */
+  async createRule(data: FeeReductionRuleInput): Promise<FeeReductionRule> {
+    return FeeReductionRepository.createRule(this.normalizeRule(data));
+  }
+
+  /**
+   * 減免の種類を更新（職員）。審査中・承認済みの申請は申請時点の減額率のまま
+   */
+  async updateRule(id: number, data: Partial<FeeReductionRuleInput>): Promise<FeeReductionRule> {
+    const current = await FeeReductionRepository.findRuleById(id);
+    if (!current) {
+      throw createError('Fee reduction rule not found', 404);
+    }
+
+    const normalized = this.normalizeRule({ ...current, ...data });
+    const updates: Partial<FeeReductionRuleInput> = { ...data };
+    if (data.reduction_type !== undefined || data.rate !== undefined) {
+      updates.rate = normalized.rate;
+    }
+
+    return (await FeeReductionRepository.updateRule(id, updates))!;
+  }
+
+  /**
+   * 減免を申請（申請者）
+   */
+  async request(
+    userId: number,
+    applicationId: number,
+    ruleId: number,
+    reason: string,
+    attachmentPath: string | null
+  ): Promise<FeeReductionSummary> {
+    const application = await ApplicationRepository.findById(applicationId);
+    if (!application || application.user_id !== userId) {
+      throw createError('予約が見つかりません', 404);
+    }
+
+    const rule = await FeeReductionRepository.findRuleById(ruleId);
+    if (!rule || !rule.is_active) {
+      throw createError('指定された減免の種類は利用できません', 400);
+    }
+    if (rule.requires_attachment && !attachmentPath) {
+      throw createError('この減免には証明書類の添付が必要です', 400);
+    }
+
+    if (application.reduction_status === 'pending' || application.reduction_status === 'approved') {
+      throw createError('この予約は既に減免を申請済みです', 409);
+    }
+
+    const accepted = await FeeReductionRepository.request(applicationId, rule, reason, attachmentPath);
+    if (!accepted) {
+      throw createError('決済済み・キャンセル済みの予約は減免を申請できません', 409);
+    }
+
+    // 却下された申請の証明書類は再申請で置き換わるため削除する
+    if (application.reduction_attachment_path && application.reduction_attachment_path !== attachmentPath) {
+      await fs.promises.unlink(application.reduction_attachment_path).catch(() => undefined);
+    }
+
+    return (await this.getSummary((await ApplicationRepository.findById(applicationId))!))!;
+  }
+
+  /**
+   * 減免の申請一覧（職員）
+   */
+  async getRequests(status?: FeeReductionStatus): Promise<FeeReductionRequest[]> {
+    return FeeReductionRepository.findRequests(status);
+  }
+
+  /**
+   * 減免を承認し、申請の金額に反映（職員）
+   */
+  async approve(applicationId: number, staffId: number, comment?: string): Promise<FeeReductionSummary> {
+    const application = await this.recordDecision(applicationId, staffId, 'approved', comment);
+    const summary = (await this.getSummary(application))!;
+
+    await this.logActivity(
+      staffId,
+      'approve',
+      applicationId,
+      `Fee reduction approved: ${summary.original_amount} -> ${summary.total_amount}${comment ? `. ${comment}` : ''}`
+    );
+
+    if (application.user_id) {
+      await this.sendDecisionNotification(application, summary, 'fee_reduction_approved');
+    }
+
+    return summary;
+  }
+
+  /**
+   * 減免を却下（職員）。申請者は内容を見直して再申請できる
+   */
+  async reject(applicationId: number, staffId: number, comment: string): Promise<FeeReductionSummary> {
+    const application = await this.recordDecision(applicationId, staffId, 'rejected', comment);
+    const summary = (await this.getSummary(application))!;
+
+    await this.logActivity(staffId, 'reject', applicationId, `Fee reduction rejected: ${comment}`);
+
+    if (application.user_id) {
+      await this.sendDecisionNotification(application, summary, 'fee_reduction_rejected');
+    }
+
+    return summary;
+  }
+
+  /**
+   * 証明書類の保存先（職員のダウンロード用）
+   */
+  async getAttachmentPath(applicationId: number): Promise<string> {
+    const application = await ApplicationRepository.findById(applicationId);
+    if (!application || !application.reduction_attachment_path) {
+      throw createError('Attachment not found', 404);
+    }
+    return application.reduction_attachment_path;
+  }
+
+  /**
+   * 申請の減免の内容（減免前・減免後の金額を含む）。減免の申請がない場合は null
+   */
+  async getSummary(application: Application): Promise<FeeReductionSummary | null> {
+    if (!application.reduction_status || application.reduction_status === 'none') {
+      return null;
+    }
+
+    const rule = application.reduction_rule_id
+      ? await FeeReductionRepository.findRuleById(application.reduction_rule_id)
+      : null;
+    const reductionAmount = Number(application.reduction_amount || 0);
+
+    return {
+      status: application.reduction_status,
+      rule_id: application.reduction_rule_id ?? null,
+      rule_name: rule?.name ?? null,
+      rate: application.reduction_rate ?? null,
+      scope: application.reduction_scope ?? null,
+      reason: application.reduction_reason ?? null,
+      has_attachment: !!application.reduction_attachment_path,
+      original_amount: Number(application.total_amount) + reductionAmount,
+      reduction_amount: reductionAmount,
+      total_amount: Number(application.total_amount),
+      requested_at: application.reduction_requested_at ?? null,
+      reviewed_at: application.reduction_reviewed_at ?? null,
+      review_comment: application.reduction_review_comment ?? null,
+    };
+  }
+
+  /**
+   * 審査中の減免の状態を更新し、申請の金額を再計算
+   * （審査中の場合のみ更新するため、同時操作でも判定は一度だけ）
+   */
+  private async recordDecision(
+    applicationId: number,
+    staffId: number,
+    status: 'approved' | 'rejected',
+    comment: string | undefined
+  ): Promise<Application> {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const updated = await FeeReductionRepository.recordDecision(
+        connection,
+        applicationId,
+        status,
+        staffId,
+        comment || null
+      );
+      if (!updated) {
+        throw createError('Fee reduction is not awaiting review', 409);
+      }
+
+      await ApplicationRepository.recalculateTotal(connection, applicationId);
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    return (await ApplicationRepository.findById(applicationId))!;
+  }
+
+  /**
+   * 全額免除は減額率100%として保存し、減額率を0〜100の整数に揃える
+   */
+  private normalizeRule<T extends Partial<FeeReductionRuleInput>>(data: T): T {
+    if (data.reduction_type === 'exemption') {
+      return { ...data, rate: 100 };
+    }
+    if (data.rate === undefined || !Number.isInteger(data.rate) || data.rate < 1 || data.rate > 100) {
+      throw createError('Reduction rate must be an integer between 1 and 100', 400);
+    }
+    return data;
+  }
+
+  private async sendDecisionNotification(
+    application: Application,
+    summary: FeeReductionSummary,
+    templateCode: 'fee_reduction_approved' | 'fee_reduction_rejected'
+  ): Promise<void> {
+    const user = await UserRepository.findById(application.user_id!);
+
+    await notificationService.sendNotification({
+      template_code: templateCode,
+      recipient_type: 'user',
+      recipient_id: application.user_id!,
+      variables: {
+        user_name: user?.name || application.applicant_representative,
+        application_id: application.id,
+        event_name: application.event_name,
+        rule_name: summary.rule_name || '',
+        original_amount: summary.original_amount,
+        reduction_amount: summary.reduction_amount,
+        total_amount: summary.total_amount,
+        review_comment: summary.review_comment || '',
+      },
+      related_entity_type: 'application',
+      related_entity_id: application.id,
+    });
+  }
+
+  private async logActivity(staffId: number, actionType: string, applicationId: number, description: string): Promise<void> {
+    await pool.query(
+      `INSERT INTO staff_activity_logs (staff_id, action_type, target_type, target_id, description)
+       VALUES (?, ?, 'application', ?, ?)`,
+      [staffId, actionType, applicationId, description]
+    );
+  }
+}
+
+export default new FeeReductionService();
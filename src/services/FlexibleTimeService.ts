@@ -0,0 +1,109 @@
+import SystemSettingsService from './SystemSettingsService';
+import RoomRepository from '../models/RoomRepository';
+import ClosureRepository from '../models/ClosureRepository';
+import { createError } from '../middleware/errorHandler';
+import { TimeRange, formatTime, maxConcurrentBookings, parseTime, timeUnitOf } from '../utils/flexibleTime';
+
+// 営業時間が未設定の場合の利用可能時間（午前枠の開始〜夜間枠の終了）
+const DEFAULT_OPENING_HOURS: TimeRange = { startTime: '09:00', endTime: '21:30' };
+
+export interface TimelineUnit {
+  start_time: string;
+  end_time: string;
+  available: boolean;
+  remaining: number;
+  closed: boolean;
+}
+
+export interface DayTimeline {
+  room_id: number;
+  date: string;
+  is_flexible_time: boolean;
+  time_unit_minutes: number;
+  min_duration_minutes: number | null;
+  opening_hours: TimeRange | null; // null = 休業日
+  closed_reason: string | null;
+  bookings: TimeRange[];
+  units: TimelineUnit[];
+}
+
+/**
+ * 自由時間制の部屋の営業時間・タイムラインサービス
+ */
+export class FlexibleTimeService {
+  /**
+   * 利用日の営業時間（business_hours 設定、月曜日始まり）。休業日は null
+   */
+  async getOpeningHours(date: string): Promise<TimeRange | null> {
+    const businessHours = await SystemSettingsService.getSettingValue('business_hours');
+    if (!Array.isArray(businessHours) || businessHours.length !== 7) {
+      return DEFAULT_OPENING_HOURS;
+    }
+
+    const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+    const weekday = new Date(year, month - 1, day).getDay();
+    const hours = businessHours[(weekday + 6) % 7];
+
+    if (!hours || hours.open === false) {
+      return null;
+    }
+
+    return {
+      startTime: hours.startTime || DEFAULT_OPENING_HOURS.startTime,
+      endTime: hours.endTime || DEFAULT_OPENING_HOURS.endTime,
+    };
+  }
+
+  /**
+   * 自由時間制の部屋の1日のタイムライン（時間単位ごとの空き状況）
+   */
+  async getDayTimeline(roomId: number, date: string): Promise<DayTimeline> {
+    const room = await RoomRepository.findById(roomId);
+    if (!room) {
+      throw createError('Room not found', 404);
+    }
+
+    const unit = timeUnitOf(room);
+    const maxCount = room.maxReservationCount || 1;
+    const openingHours = await this.getOpeningHours(date);
+    const closure = await ClosureRepository.findByRoomAndDate(roomId, date);
+    const bookings = await RoomRepository.findTimeRangeBookings(roomId, date);
+
+    const units: TimelineUnit[] = [];
+    if (openingHours) {
+      const open = parseTime(openingHours.startTime)!;
+      const close = parseTime(openingHours.endTime)!;
+
+      // 営業開始時刻を時間単位の区切りに切り上げる
+      for (let start = Math.ceil(open / unit) * unit; start + unit <= close; start += unit) {
+        const range = { startTime: formatTime(start), endTime: formatTime(start + unit) };
+        const closed = closure
+          ? !!(await ClosureRepository.findTimeRangeConflict(roomId, date, range.startTime, range.endTime))
+          : false;
+        const remaining = closed ? 0 : Math.max(0, maxCount - maxConcurrentBookings(bookings, range));
+
+        units.push({
+          start_time: range.startTime,
+          end_time: range.endTime,
+          available: remaining > 0,
+          remaining,
+          closed,
+        });
+      }
+    }
+
+    return {
+      room_id: roomId,
+      date,
+      is_flexible_time: !!room.isFlexibleTime,
+      time_unit_minutes: unit,
+      min_duration_minutes: room.minDurationMinutes,
+      opening_hours: openingHours,
+      closed_reason: closure && closure.closedSlots === null ? closure.reason || '休館日' : null,
+      bookings,
+      units,
+    };
+  }
+}
+
+export default new FlexibleTimeService();
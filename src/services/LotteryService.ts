@@ -0,0 +1,473 @@
+import crypto from 'crypto';
+import LotteryRepository, { LotteryEntryWithPreferences, LotteryRoundWithDetails } from '../models/LotteryRepository';
+import ApplicationRepository from '../models/ApplicationRepository';
+import RoomRepository from '../models/RoomRepository';
+import UserRepository from '../models/UserRepository';
+import ClosureRepository from '../models/ClosureRepository';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import ReservationPricingService from './ReservationPricingService';
+import SystemSettingsService from './SystemSettingsService';
+import { notificationService } from './NotificationService';
+import { drawLottery, shuffleIds, LotteryEntryInput } from '../utils/lottery';
+import { TimeRange } from '../utils/flexibleTime';
+import { ConfiguredTimeSlot, selectTimeSlots, timeSlotRange, validateTimeSlotSelection } from '../utils/timeSlots';
+import { calculateTicketMultiplier } from '../utils/pricing';
+import { createError } from '../middleware/errorHandler';
+import { CreateLotteryEntryDto, LotteryEntry, LotteryRound, LotteryPreference } from '../models/types';
+
+// 1件の応募で指定できる希望の数の既定値（lottery_max_preferences が未設定の場合）
+const DEFAULT_MAX_PREFERENCES = 3;
+const DEFAULT_PAYMENT_DUE_DAYS = 14;
+
+export interface LotteryDrawSummary {
+  round: LotteryRound;
+  entry_count: number;
+  won_count: number;
+  lost_count: number;
+}
+
+export interface LotteryRoundResults {
+  round: LotteryRoundWithDetails;
+  entries: LotteryEntryWithPreferences[];
+  order_verified: boolean | null; // 記録した抽選順がシード値から再現できるか（抽選前は null）
+}
+
+/**
+ * 抽選サービス
+ * - 人気の部屋の月ごとに受付期間を設け、期間中は応募のみを受け付ける（対象月の先着順の予約は抽選が終わるまで受け付けない）
+ * - 受付終了後に職員が抽選を行い、シード値から決まる順番で希望順位に沿って枠を割り当てる
+ * - 当選者には支払期限付きの未決済の申請を作成し、当選・落選を通知する
+ * - シード値と抽選順を記録し、職員が同じシード値で抽選順を再現して確認できる
+ */
+export class LotteryService {
+  /**
+   * 抽選を作成（職員）
+   */
+  async createRound(
+    staffId: number,
+    data: {
+      room_id: number;
+      target_month: string;
+      entry_start_at: string;
+      entry_end_at: string;
+      payment_due_days?: number;
+    }
+  ): Promise<LotteryRound> {
+    const room = await RoomRepository.findById(data.room_id);
+    if (!room || !room.isActive) {
+      throw createError('Room not found', 404);
+    }
+    if (room.isFlexibleTime) {
+      throw createError('自由時間制の部屋は抽選の対象にできません', 400);
+    }
+
+    const entryStartAt = new Date(data.entry_start_at);
+    const entryEndAt = new Date(data.entry_end_at);
+    if (isNaN(entryStartAt.getTime()) || isNaN(entryEndAt.getTime()) || entryStartAt >= entryEndAt) {
+      throw createError('受付終了日時は受付開始日時より後に設定してください', 400);
+    }
+    if (entryEndAt >= new Date(`${data.target_month}-01T00:00:00`)) {
+      throw createError('受付終了日時は抽選の対象月より前に設定してください', 400);
+    }
+
+    try {
+      return await LotteryRepository.createRound({
+        room_id: room.id,
+        target_month: data.target_month,
+        entry_start_at: entryStartAt,
+        entry_end_at: entryEndAt,
+        payment_due_days: data.payment_due_days ?? DEFAULT_PAYMENT_DUE_DAYS,
+        created_by: staffId,
+      });
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_ENTRY') {
+        throw createError(`${room.name} の ${data.target_month} の抽選はすでに登録されています`, 409);
+      }
+      throw error;
+    }
+  }
+
+  async getRounds(filter: { roomId?: number; status?: LotteryRound['status'] } = {}): Promise<LotteryRoundWithDetails[]> {
+    return LotteryRepository.findRounds(filter);
+  }
+
+  /**
+   * 抽選を中止（抽選前のみ、応募は取り下げ扱い）
+   */
+  async cancelRound(roundId: number): Promise<void> {
+    if (!(await LotteryRepository.findRoundById(roundId))) {
+      throw createError('Lottery round not found', 404);
+    }
+    if (!(await LotteryRepository.cancelRound(roundId))) {
+      throw createError('抽選済み・中止済みの抽選は中止できません', 409);
+    }
+  }
+
+  /**
+   * 抽選に応募（受付期間中のみ、1つの抽選に1件）
+   */
+  async enter(userId: number, roundId: number, dto: CreateLotteryEntryDto): Promise<LotteryEntry> {
+    const round = await LotteryRepository.findRoundById(roundId);
+    if (!round) {
+      throw createError('Lottery round not found', 404);
+    }
+    this.assertAcceptingEntries(round);
+
+    const maxPreferences = await this.getMaxPreferences();
+    if (!Array.isArray(dto.preferences) || dto.preferences.length === 0) {
+      throw createError('希望の日時を1つ以上指定してください', 400);
+    }
+    if (dto.preferences.length > maxPreferences) {
+      throw createError(`希望の日時は${maxPreferences}つまで指定できます`, 400);
+    }
+
+    const roomSlots = await TimeSlotRepository.findRoomTimeSlots(round.room_id);
+    for (let i = 0; i < dto.preferences.length; i++) {
+      await this.assertPreference(i, round, roomSlots, dto.preferences[i]);
+    }
+
+    const data = {
+      event_name: dto.event_name,
+      expected_attendees: dto.expected_attendees || null,
+      entrance_fee_type: dto.entrance_fee_type,
+      entrance_fee_amount: dto.entrance_fee_amount || 0,
+      preferences: dto.preferences,
+    };
+
+    const existing = await LotteryRepository.findEntryByUser(roundId, userId);
+    if (existing && existing.status !== 'cancelled') {
+      throw createError('この抽選にはすでに応募しています', 409);
+    }
+
+    return existing ? LotteryRepository.reenterEntry(existing.id, data) : LotteryRepository.createEntry(roundId, userId, data);
+  }
+
+  /**
+   * 応募を取り下げる（受付期間中のみ）
+   */
+  async withdraw(userId: number, entryId: number): Promise<void> {
+    const entry = await LotteryRepository.findEntryById(entryId);
+    if (!entry || entry.user_id !== userId) {
+      throw createError('Lottery entry not found', 404);
+    }
+    if (entry.status !== 'entered') {
+      throw createError('この応募は取り下げできません', 400);
+    }
+
+    this.assertAcceptingEntries((await LotteryRepository.findRoundById(entry.round_id))!);
+    await LotteryRepository.updateEntryStatus(entryId, 'cancelled');
+  }
+
+  async getUserEntries(userId: number): Promise<LotteryEntryWithPreferences[]> {
+    return LotteryRepository.findEntriesByUser(userId);
+  }
+
+  /**
+   * 抽選を行う（職員、受付終了後のみ）
+   * シード値を省略した場合は乱数で生成する。抽選済みにしてから当選者の申請を作成するため、
+   * 同じ抽選が二重に行われることはない
+   */
+  async draw(staffId: number, roundId: number, seed?: string): Promise<LotteryDrawSummary> {
+    const round = await LotteryRepository.findRoundById(roundId);
+    if (!round) {
+      throw createError('Lottery round not found', 404);
+    }
+    if (round.status !== 'accepting') {
+      throw createError('この抽選はすでに抽選済み、または中止されています', 409);
+    }
+    if (new Date() < new Date(round.entry_end_at)) {
+      throw createError('受付期間が終了してから抽選を行ってください', 400);
+    }
+
+    const room = await RoomRepository.findById(round.room_id);
+    if (!room) {
+      throw createError('Room not found', 404);
+    }
+
+    const drawSeed = seed || crypto.randomBytes(16).toString('hex');
+    if (!(await LotteryRepository.markDrawn(round.id, drawSeed, staffId))) {
+      throw createError('この抽選はすでに抽選済み、または中止されています', 409);
+    }
+
+    const entries = await LotteryRepository.findEntriesByRound(round.id, true);
+    const roomSlots = await TimeSlotRepository.findRoomTimeSlots(room.id);
+    const inputs: LotteryEntryInput[] = [];
+    for (const entry of entries) {
+      inputs.push({ id: entry.id, preferences: await this.toPreferenceInputs(room.id, roomSlots, entry.preferences) });
+    }
+
+    const existingBookings = await this.findExistingBookings(room.id, round.target_month);
+    const result = drawLottery(inputs, drawSeed, existingBookings, room.maxReservationCount || 1);
+    const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+    const dueAt = new Date(Date.now() + round.payment_due_days * 24 * 60 * 60 * 1000);
+
+    let wonCount = 0;
+    for (let i = 0; i < result.order.length; i++) {
+      const entry = entriesById.get(result.order[i])!;
+      const preference = entry.preferences.find((p) => p.id === result.winners.get(entry.id));
+
+      let applicationId: number | null = null;
+      let note: string | null = null;
+      if (preference) {
+        try {
+          applicationId = await this.createWinnerApplication(entry, preference, room.id, dueAt);
+        } catch (error: any) {
+          if (!error.statusCode) {
+            throw error;
+          }
+          // 抽選中に通常の予約などで枠が埋まった場合は落選として扱う
+          note = error.message;
+        }
+      }
+
+      await LotteryRepository.recordResult(entry.id, {
+        status: applicationId ? 'won' : 'lost',
+        draw_order: i + 1,
+        won_preference_id: applicationId ? preference!.id : null,
+        application_id: applicationId,
+        result_note: note,
+      });
+
+      if (applicationId) {
+        wonCount++;
+        await this.sendWonNotification(entry, preference!, applicationId, room.name, roomSlots, round.target_month, dueAt);
+      } else {
+        await this.sendLostNotification(entry, room.name, round.target_month);
+      }
+    }
+
+    return {
+      round: (await LotteryRepository.findRoundById(round.id))!,
+      entry_count: entries.length,
+      won_count: wonCount,
+      lost_count: entries.length - wonCount,
+    };
+  }
+
+  /**
+   * 抽選の結果（職員、応募・希望・抽選順と、シード値からの抽選順の再現の確認）
+   */
+  async getRoundResults(roundId: number): Promise<LotteryRoundResults> {
+    const round = (await LotteryRepository.findRounds({ id: roundId }))[0];
+    if (!round) {
+      throw createError('Lottery round not found', 404);
+    }
+
+    const entries = await LotteryRepository.findEntriesByRound(roundId);
+
+    let orderVerified: boolean | null = null;
+    if (round.status === 'drawn' && round.seed) {
+      const drawn = entries.filter((entry) => entry.draw_order !== null);
+      const recorded = [...drawn].sort((a, b) => a.draw_order! - b.draw_order!).map((entry) => entry.id);
+      const replayed = shuffleIds(drawn.map((entry) => entry.id), round.seed);
+      orderVerified = replayed.every((id, i) => id === recorded[i]);
+    }
+
+    return { round, entries, order_verified: orderVerified };
+  }
+
+  private assertAcceptingEntries(round: LotteryRound): void {
+    const now = new Date();
+    if (round.status !== 'accepting' || now < new Date(round.entry_start_at) || now >= new Date(round.entry_end_at)) {
+      throw createError('この抽選は受付期間外です', 400);
+    }
+  }
+
+  /**
+   * 希望の検証（対象月の日付・部屋の時間帯・休館日）
+   */
+  private async assertPreference(
+    index: number,
+    round: LotteryRound,
+    roomSlots: ConfiguredTimeSlot[],
+    preference: { date: string; time_slot_ids: number[] }
+  ): Promise<void> {
+    if (typeof preference.date !== 'string' || preference.date.slice(0, 7) !== round.target_month) {
+      throw createError(`第${index + 1}希望: ${round.target_month} の日付を指定してください`, 400);
+    }
+
+    const { slots, error } = selectTimeSlots(roomSlots, { time_slot_ids: preference.time_slot_ids });
+    const validation = error ? { valid: false, error } : validateTimeSlotSelection(slots);
+    if (!validation.valid) {
+      throw createError(`第${index + 1}希望: ${validation.error}`, 400);
+    }
+
+    const closure = await ClosureRepository.findConflict(round.room_id, preference.date, slots.map((slot) => slot.code));
+    if (closure) {
+      throw createError(`第${index + 1}希望: ${preference.date} は休館日です${closure.reason ? `（${closure.reason}）` : ''}`, 409);
+    }
+  }
+
+  /**
+   * 抽選に使用する希望の時間（応募後に時間帯の廃止・休館日の登録があった希望は割り当てない）
+   */
+  private async toPreferenceInputs(
+    roomId: number,
+    roomSlots: ConfiguredTimeSlot[],
+    preferences: LotteryPreference[]
+  ): Promise<LotteryEntryInput['preferences']> {
+    const inputs: LotteryEntryInput['preferences'] = [];
+    for (const preference of preferences) {
+      const date = String(preference.date);
+      const { slots, error } = selectTimeSlots(roomSlots, { time_slot_ids: preference.time_slot_ids });
+      const closure = error ? null : await ClosureRepository.findConflict(roomId, date, slots.map((slot) => slot.code));
+
+      inputs.push({
+        id: preference.id,
+        rank: preference.preference_rank,
+        date,
+        ranges: error || closure ? [] : slots.map(timeSlotRange),
+      });
+    }
+    return inputs;
+  }
+
+  /**
+   * 対象月の抽選前からある予約の時間（日付ごと）
+   */
+  private async findExistingBookings(roomId: number, targetMonth: string): Promise<Map<string, TimeRange[]>> {
+    const [year, month] = targetMonth.split('-').map(Number);
+    const lastDay = new Date(year, month, 0).getDate();
+    const bookings = await TimeSlotRepository.findBookedRanges(roomId, `${targetMonth}-01`, `${targetMonth}-${lastDay}`);
+
+    const byDate = new Map<string, TimeRange[]>();
+    for (const booking of bookings) {
+      const { date, ...range } = booking;
+      byDate.set(date, [...(byDate.get(date) || []), range]);
+    }
+    return byDate;
+  }
+
+  /**
+   * 当選した希望で未決済の申請を作成（受付期間のチェックは行わない）
+   */
+  private async createWinnerApplication(
+    entry: LotteryEntry,
+    preference: LotteryPreference,
+    roomId: number,
+    dueAt: Date
+  ): Promise<number> {
+    const user = await UserRepository.findById(entry.user_id);
+    if (!user || !user.is_active || user.deleted_at) {
+      throw createError('利用者が退会または利用停止のため申請を作成できません', 400);
+    }
+
+    const ticketMultiplier = calculateTicketMultiplier(entry.entrance_fee_type, entry.entrance_fee_amount);
+    const { usagesData, equipmentData, totalAmount } = await ReservationPricingService.priceUsages(
+      [
+        {
+          room_id: roomId,
+          date: String(preference.date),
+          use_morning: false,
+          use_afternoon: false,
+          use_evening: false,
+          use_midday_extension: false,
+          use_evening_extension: false,
+          time_slot_ids: preference.time_slot_ids,
+          ac_requested: false,
+          equipment: [],
+        },
+      ],
+      ticketMultiplier,
+      { userId: user.id, skipBookingWindow: true }
+    );
+
+    const result = await ApplicationRepository.createWithUsages(
+      {
+        user_id: user.id,
+        applicant_address: user.address || null,
+        applicant_group_name: user.organization_name || null,
+        applicant_representative: user.name || '',
+        applicant_phone: user.phone || '',
+        applicant_email: user.email,
+        event_name: entry.event_name,
+        expected_attendees: entry.expected_attendees,
+        event_description: null,
+        program_attachment_path: null,
+        entrance_fee_type: entry.entrance_fee_type,
+        entrance_fee_amount: entry.entrance_fee_amount,
+        ticket_multiplier: ticketMultiplier,
+        use_digital_signboard: false,
+        setup_datetime: null,
+        meeting_date: null,
+        hall_manager_name: null,
+        hall_manager_phone: null,
+        signboard_entrance: false,
+        signboard_stage: false,
+        open_time: null,
+        start_time: null,
+        end_time: null,
+        remarks: `抽選の当選（第${preference.preference_rank}希望）`,
+        total_amount: totalAmount,
+        payment_status: 'unpaid',
+        payment_provider_id: null,
+        payment_due_at: dueAt,
+        approval_status: 'not_required',
+        cancel_status: 'none',
+        cancelled_at: null,
+        cancellation_fee: 0,
+      },
+      usagesData,
+      equipmentData
+    );
+
+    return result.application.id;
+  }
+
+  private async sendWonNotification(
+    entry: LotteryEntryWithPreferences,
+    preference: LotteryPreference,
+    applicationId: number,
+    roomName: string,
+    roomSlots: ConfiguredTimeSlot[],
+    targetMonth: string,
+    dueAt: Date
+  ): Promise<void> {
+    const application = await ApplicationRepository.findById(applicationId);
+    const slots = roomSlots
+      .filter((slot) => preference.time_slot_ids.includes(slot.id))
+      .map((slot) => `${slot.name}（${slot.startTime}〜${slot.endTime}）`);
+
+    await notificationService.sendNotification({
+      template_code: 'lottery_won',
+      recipient_type: 'user',
+      recipient_id: entry.user_id,
+      variables: {
+        user_name: entry.user_name,
+        application_id: applicationId,
+        event_name: entry.event_name,
+        room_name: roomName,
+        usage_date: new Date(preference.date).toLocaleDateString('ja-JP'),
+        time_slots: slots.join('、'),
+        total_amount: application?.total_amount || 0,
+        target_month: targetMonth,
+        preference_rank: preference.preference_rank,
+        payment_due_at: dueAt.toLocaleString('ja-JP'),
+      },
+      related_entity_type: 'application',
+      related_entity_id: applicationId,
+    });
+  }
+
+  private async sendLostNotification(entry: LotteryEntryWithPreferences, roomName: string, targetMonth: string): Promise<void> {
+    await notificationService.sendNotification({
+      template_code: 'lottery_lost',
+      recipient_type: 'user',
+      recipient_id: entry.user_id,
+      variables: {
+        user_name: entry.user_name,
+        room_name: roomName,
+        target_month: targetMonth,
+      },
+      related_entity_type: 'lottery_entry',
+      related_entity_id: entry.id,
+    });
+  }
+
+  private async getMaxPreferences(): Promise<number> {
+    const value = await SystemSettingsService.getSettingValue('lottery_max_preferences');
+    return typeof value === 'number' && value > 0 ? value : DEFAULT_MAX_PREFERENCES;
+  }
+}
+
+export default new LotteryService();
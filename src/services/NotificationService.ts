@@ -257,6 +257,31 @@ export class NotificationService {
     });
   }
 
+  async sendTentativeHoldReminderNotification(applicationId: number, userId: number, expiresAt: Date): Promise<void> {
+    const variables = await this.getApplicationVariables(applicationId);
+    variables.expires_at = new Date(expiresAt).toLocaleString('ja-JP');
+    await this.sendNotification({
+      template_code: 'tentative_hold_reminder',
+      recipient_type: 'user',
+      recipient_id: userId,
+      variables,
+      related_entity_type: 'application',
+      related_entity_id: applicationId,
+    });
+  }
+
+  async sendTentativeHoldExpiredNotification(applicationId: number, userId: number): Promise<void> {
+    const variables = await this.getApplicationVariables(applicationId);
+    await this.sendNotification({
+      template_code: 'tentative_hold_expired',
+      recipient_type: 'user',
+      recipient_id: userId,
+      variables,
+      related_entity_type: 'application',
+      related_entity_id: applicationId,
+    });
+  }
+
   private async getApplicationVariables(applicationId: number): Promise<Record<string, any>> {
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT a.*, us.name as user_name, r.name as room_name, u.date as usage_date
@@ -278,6 +303,7 @@ export class NotificationService {
       application_id: app.id,
       user_name: app.applicant_representative,
       facility_name: app.event_name,
+      event_name: app.event_name,
       room_name: app.room_name || '未設定',
       usage_date: app.usage_date ? new Date(app.usage_date).toLocaleDateString('ja-JP') : '未設定',
       time_slots: '午前・午後',
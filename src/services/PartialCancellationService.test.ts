@@ -0,0 +1,326 @@
+import PartialCancellationService from './PartialCancellationService';
+import ReservationPricingService from './ReservationPricingService';
+import PaymentService from './PaymentService';
+import RoomRepository from '../models/RoomRepository';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import { ConfiguredTimeSlot } from '../utils/timeSlots';
+
+/**
+ * In-memory stand-in for the MySQL pool.
+ * - updates are applied to a working copy and only become visible on commit
+ * - rollback discards the working copy
+ */
+jest.mock('../config/database', () => {
+  const db = {
+    applications: [] as any[],
+    usages: [] as any[],
+    modifications: [] as any[],
+    commits: 0,
+    rollbacks: 0,
+  };
+
+  const createConnection = () => {
+    let work = {
+      applications: db.applications.map((a) => ({ ...a })),
+      usages: db.usages.map((u) => ({ ...u })),
+    };
+    const findUsage = (id: number) => work.usages.find((u) => u.id === id);
+    const findApplication = (id: number) => work.applications.find((a) => a.id === id);
+
+    return {
+      beginTransaction: async () => undefined,
+      commit: async () => {
+        db.applications = work.applications;
+        db.usages = work.usages;
+        db.commits++;
+      },
+      rollback: async () => {
+        work = { applications: [], usages: [] };
+        db.rollbacks++;
+      },
+      release: () => undefined,
+      query: async (sql: string, params: any[] = []) => {
+        if (/FROM applications WHERE id = \?/.test(sql)) {
+          return [[findApplication(params[0])].filter(Boolean).map((a) => ({ ...a }))];
+        }
+
+        if (/FROM usages WHERE application_id = \?/.test(sql)) {
+          return [work.usages.filter((u) => u.application_id === params[0]).map((u) => ({ ...u }))];
+        }
+
+        if (/SELECT \* FROM usages WHERE id IN \(\?\)/.test(sql)) {
+          return [work.usages.filter((u) => params[0].includes(u.id)).map((u) => ({ ...u }))];
+        }
+
+        if (/SELECT \* FROM usages WHERE id = \?/.test(sql)) {
+          return [[{ ...findUsage(params[0]) }]];
+        }
+
+        if (/UPDATE usages SET\s+use_morning/.test(sql)) {
+          Object.assign(findUsage(params[params.length - 1]), {
+            use_morning: params[0],
+            use_afternoon: params[1],
+            use_evening: params[2],
+            room_charge_after_multiplier: params[6],
+            equipment_charge: params[7],
+            ac_charge: params[8],
+            subtotal_amount: params[9],
+          });
+          return [{ affectedRows: 1 }];
+        }
+
+        if (/UPDATE usages SET cancel_status = 'cancelled'/.test(sql)) {
+          const usage = findUsage(params[2]);
+          usage.cancel_status = 'cancelled';
+          usage.cancellation_fee += params[1];
+          return [{ affectedRows: 1 }];
+        }
+
+        if (/UPDATE usages SET cancellation_fee = cancellation_fee \+ \?/.test(sql)) {
+          findUsage(params[1]).cancellation_fee += params[0];
+          return [{ affectedRows: 1 }];
+        }
+
+        if (/UPDATE applications SET total_amount = \?/.test(sql)) {
+          Object.assign(findApplication(params[4]), { total_amount: params[0], reduction_amount: params[1] });
+          return [{ affectedRows: 1 }];
+        }
+
+        if (/INSERT INTO application_modifications/.test(sql)) {
+          db.modifications.push(params);
+          return [{ affectedRows: 1 }];
+        }
+
+        return [[]];
+      },
+    };
+  };
+
+  const pool = {
+    __db: db,
+    getConnection: async () => createConnection(),
+    query: async () => [[]],
+  };
+
+  return { __esModule: true, default: pool, pool };
+});
+
+jest.mock('./PaymentService', () => ({
+  __esModule: true,
+  default: { refundPayment: jest.fn().mockResolvedValue({ success: true }) },
+}));
+
+jest.mock('./WaitlistService', () => ({
+  __esModule: true,
+  default: { offerReleasedSlots: jest.fn().mockResolvedValue(undefined) },
+}));
+
+import pool from '../config/database';
+
+const db = (pool as any).__db;
+
+describe('PartialCancellationService', () => {
+  const slot = (id: number, code: string, startTime: string, endTime: string): ConfiguredTimeSlot => ({
+    id,
+    code,
+    name: code,
+    slotType: 'regular',
+    startTime,
+    endTime,
+    basePrice: 0,
+    weekendPrice: null,
+  });
+
+  const usage = (id: number, date: Date, subtotal: number, overrides: Record<string, any> = {}) => ({
+    id,
+    application_id: 1,
+    room_id: 1,
+    date,
+    use_morning: true,
+    use_afternoon: false,
+    use_evening: false,
+    use_midday_extension: false,
+    use_evening_extension: false,
+    ac_requested: false,
+    ac_hours: null,
+    room_base_charge_before_multiplier: subtotal,
+    room_charge_after_multiplier: subtotal,
+    equipment_charge: 0,
+    ac_charge: 0,
+    subtotal_amount: subtotal,
+    tax_rate: 10,
+    cancel_status: 'none',
+    cancellation_fee: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.commits = 0;
+    db.rollbacks = 0;
+    db.modifications.length = 0;
+    db.applications = [
+      {
+        id: 1,
+        user_id: 10,
+        ticket_multiplier: 1,
+        total_amount: 35000,
+        payment_status: 'paid',
+        payment_provider_id: 'pi_1',
+        cancellation_policy_id: null,
+        reduction_status: 'none',
+        cancel_status: 'none',
+        created_at: new Date(2025, 0, 1),
+      },
+    ];
+    db.usages = [usage(11, new Date(2025, 5, 1), 15000), usage(12, new Date(2025, 5, 2), 20000)];
+  });
+
+  describe('cancelUsage - one day of a two-day application', () => {
+    it('should keep the remaining subtotal and add the cancellation fee to the total', async () => {
+      // 利用日当日のキャンセルは100%
+      const result = await PartialCancellationService.cancelUsage(1, 12, {
+        modifiedBy: 10,
+        now: new Date(2025, 5, 2, 9, 0),
+      });
+
+      expect(result.cancellationFee).toBe(20000);
+      expect(Number(result.application.total_amount)).toBe(15000 + 20000);
+      expect(result.refundAmount).toBe(0);
+      expect(PaymentService.refundPayment).not.toHaveBeenCalled();
+      expect(db.usages.find((u: any) => u.id === 12)).toMatchObject({ cancel_status: 'cancelled', cancellation_fee: 20000 });
+    });
+
+    it('should refund the cancelled day when cancelled before the usage date', async () => {
+      const result = await PartialCancellationService.cancelUsage(1, 12, {
+        modifiedBy: 10,
+        now: new Date(2025, 4, 20, 9, 0),
+      });
+
+      expect(result.cancellationFee).toBe(0);
+      expect(Number(result.application.total_amount)).toBe(15000);
+      expect(result.refundAmount).toBe(20000);
+      expect(PaymentService.refundPayment).toHaveBeenCalledWith('pi_1', 20000);
+    });
+
+    it('should base the fee and refund on the reduced amount', async () => {
+      Object.assign(db.applications[0], {
+        total_amount: 17500,
+        reduction_status: 'approved',
+        reduction_rate: 50,
+        reduction_scope: 'room_and_equipment',
+      });
+
+      const result = await PartialCancellationService.cancelUsage(1, 12, {
+        modifiedBy: 10,
+        now: new Date(2025, 5, 2, 9, 0),
+      });
+
+      expect(result.cancellationFee).toBe(10000);
+      expect(Number(result.application.total_amount)).toBe(7500 + 10000);
+      expect(result.refundAmount).toBe(0);
+    });
+
+    it('should not allow cancelling the last remaining usage', async () => {
+      db.usages[0].cancel_status = 'cancelled';
+
+      await expect(
+        PartialCancellationService.cancelUsage(1, 12, { modifiedBy: 10 })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.rollbacks).toBe(1);
+    });
+
+    it('should keep the cancellation when the refund fails', async () => {
+      (PaymentService.refundPayment as jest.Mock).mockRejectedValueOnce(new Error('gateway down'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await PartialCancellationService.cancelUsage(1, 12, {
+        modifiedBy: 10,
+        now: new Date(2025, 4, 20, 9, 0),
+      });
+
+      expect(result.refundFailed).toBe(true);
+      expect(db.commits).toBe(1);
+      expect(db.rollbacks).toBe(0);
+      expect(db.usages.find((u: any) => u.id === 12).cancel_status).toBe('cancelled');
+    });
+  });
+
+  describe('cancelUsage - a single slot inside a usage', () => {
+    beforeEach(() => {
+      db.usages[1] = usage(12, new Date(2025, 5, 2), 20000, { use_afternoon: true });
+      jest.spyOn(TimeSlotRepository, 'findUsageTimeSlots').mockResolvedValue([
+        slot(1, 'morning', '09:00', '12:00'),
+        slot(3, 'afternoon', '13:00', '17:00'),
+      ]);
+      jest.spyOn(TimeSlotRepository, 'replaceUsageTimeSlots').mockResolvedValue(undefined);
+      jest.spyOn(RoomRepository, 'findById').mockResolvedValue({ id: 1, name: 'Hall' } as any);
+      jest.spyOn(ReservationPricingService, 'priceUsage').mockResolvedValue({
+        usageData: {
+          use_morning: true,
+          use_afternoon: false,
+          use_evening: false,
+          use_midday_extension: false,
+          use_evening_extension: false,
+          room_base_charge_before_multiplier: 8000,
+          room_charge_after_multiplier: 8000,
+          equipment_charge: 0,
+          ac_charge: 0,
+          subtotal_amount: 8000,
+          time_slot_ids: [1],
+        },
+        equipment: [],
+      } as any);
+    });
+
+    it('should reprice the usage with the remaining slots', async () => {
+      const result = await PartialCancellationService.cancelUsage(1, 12, {
+        slot: 'afternoon',
+        modifiedBy: 10,
+        now: new Date(2025, 4, 20, 9, 0),
+      });
+
+      expect(result.cancelledSlot).toBe('afternoon');
+      expect(result.removedAmount).toBe(12000);
+      expect(result.usage).toMatchObject({ cancel_status: 'none', use_afternoon: false, subtotal_amount: 8000 });
+      expect(Number(result.application.total_amount)).toBe(15000 + 8000);
+      expect(result.refundAmount).toBe(12000);
+      expect(TimeSlotRepository.replaceUsageTimeSlots).toHaveBeenCalledWith(expect.anything(), 12, [1]);
+    });
+
+    it('should charge the fee on the removed slot only', async () => {
+      const result = await PartialCancellationService.cancelUsage(1, 12, {
+        slot: 'afternoon',
+        modifiedBy: 10,
+        now: new Date(2025, 5, 2, 9, 0),
+      });
+
+      expect(result.cancellationFee).toBe(12000);
+      expect(result.usage).toMatchObject({ cancel_status: 'none', cancellation_fee: 12000 });
+      expect(Number(result.application.total_amount)).toBe(15000 + 8000 + 12000);
+    });
+
+    it('should reject a slot that is not booked in the usage', async () => {
+      await expect(
+        PartialCancellationService.cancelUsage(1, 12, { slot: 'evening', modifiedBy: 10 })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('cancelUsages', () => {
+    it('should cancel several usages and keep each fee', async () => {
+      db.usages.push(usage(13, new Date(2025, 5, 9), 10000));
+      db.applications[0].total_amount = 45000;
+
+      const result = await PartialCancellationService.cancelUsages(1, [12, 13], {
+        modifiedBy: 10,
+        now: new Date(2025, 5, 2, 9, 0),
+      });
+
+      // 当日の回のみ100%
+      expect(result.cancellationFee).toBe(20000);
+      expect(Number(result.application.total_amount)).toBe(15000 + 20000);
+      expect(result.refundAmount).toBe(10000);
+    });
+  });
+});
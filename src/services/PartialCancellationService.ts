@@ -0,0 +1,431 @@
+import { pool } from '../config/database';
+import { RowDataPacket } from 'mysql2/promise';
+import ApplicationRepository from '../models/ApplicationRepository';
+import RoomRepository from '../models/RoomRepository';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import ReservationPricingService from './ReservationPricingService';
+import PaymentService from './PaymentService';
+import CancellationPolicyService from './CancellationPolicyService';
+import WaitlistService from './WaitlistService';
+import { createError } from '../middleware/errorHandler';
+import { ConfiguredTimeSlot, removeTimeSlot, validateTimeSlotSelection } from '../utils/timeSlots';
+import { Application, Usage } from '../models/types';
+
+// 取り消す時間帯のコード（time_slots.code）
+export type CancellableSlot = string;
+
+export interface PartialCancellationResult {
+  application: Application;
+  usage: Usage;
+  cancelledSlot: CancellableSlot | null; // null = 利用明細全体をキャンセル
+  removedAmount: number;                 // 取り消した料金（減免後、キャンセル料の計算の基準）
+  cancellationFee: number;               // 今回発生したキャンセル料
+  refundAmount: number;                  // 決済済みの場合の返金額
+  refundFailed: boolean;                 // 返金処理に失敗した（キャンセルは確定済み、職員が返金を手続きする）
+}
+
+export interface MultipleCancellationResult {
+  application: Application;
+  usages: Usage[];        // キャンセルした利用明細
+  removedAmount: number;
+  cancellationFee: number;
+  refundAmount: number;
+  refundFailed: boolean;
+}
+
+/**
+ * 部分キャンセルサービス
+ * 複数日の申請のうち1日分（利用明細）や、利用明細内の1つの時間帯だけを取り消す
+ */
+export class PartialCancellationService {
+  /**
+   * 利用明細（または利用明細内の時間帯）をキャンセル
+   * - 申請の合計金額 = 有効な利用明細の小計 + 部分キャンセルで発生したキャンセル料 - 承認済みの減免額
+   * - 取り消した枠はコミット時点で他の利用者に解放される
+   */
+  async cancelUsage(
+    applicationId: number,
+    usageId: number,
+    options: { slot?: CancellableSlot; modifiedBy: number; reason?: string; now?: Date }
+  ): Promise<PartialCancellationResult> {
+    const now = options.now || new Date();
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+    let result: PartialCancellationResult;
+    let released: Usage[];
+
+    try {
+      const [appRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM applications WHERE id = ? FOR UPDATE',
+        [applicationId]
+      );
+      const application = appRows[0] as Application | undefined;
+      if (!application) {
+        throw createError('Reservation not found', 404);
+      }
+      if (application.cancel_status === 'cancelled') {
+        throw createError('Reservation is already cancelled', 400);
+      }
+
+      const [usageRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM usages WHERE application_id = ? ORDER BY date ASC FOR UPDATE',
+        [applicationId]
+      );
+      const usage = usageRows.find((row) => row.id === usageId) as Usage | undefined;
+      if (!usage) {
+        throw createError('Usage not found in this reservation', 404);
+      }
+      if (usage.cancel_status === 'cancelled') {
+        throw createError('This usage is already cancelled', 400);
+      }
+
+      const [equipmentRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM usage_equipment WHERE usage_id = ?',
+        [usageId]
+      );
+
+      const bookedSlots = options.slot ? await TimeSlotRepository.findUsageTimeSlots(usageId, connection) : [];
+      const remainingSlots = this.removeSlot(bookedSlots, options.slot);
+      const cancelWholeUsage = remainingSlots === null;
+
+      if (cancelWholeUsage) {
+        const activeUsages = usageRows.filter((row) => row.cancel_status !== 'cancelled');
+        if (activeUsages.length <= 1) {
+          throw createError('最後の利用明細は予約全体のキャンセルとして手続きしてください', 400);
+        }
+      }
+
+      let removedAmount: number;
+
+      if (cancelWholeUsage) {
+        removedAmount = ReservationPricingService.reducedAmount([usage], application);
+      } else {
+        // 残りの時間帯で料金を再計算（per_slot の設備は枠数も変わる）
+        const room = await RoomRepository.findById(usage.room_id);
+        if (!room) {
+          throw createError(`Room ID ${usage.room_id} not found`, 404);
+        }
+
+        const { usageData, equipment } = await ReservationPricingService.priceUsage(
+          {
+            room_id: usage.room_id,
+            date: this.toDateString(usage.date),
+            use_morning: false,
+            use_afternoon: false,
+            use_evening: false,
+            use_midday_extension: false,
+            use_evening_extension: false,
+            ac_requested: !!usage.ac_requested,
+            equipment: equipmentRows.map((e) => ({ equipment_id: e.equipment_id, quantity: e.quantity })),
+          },
+          room,
+          Number(application.ticket_multiplier),
+          usage.ac_hours,
+          remainingSlots,
+          application.created_at
+        );
+
+        removedAmount = Math.max(
+          0,
+          ReservationPricingService.reducedAmount([usage], application) -
+            ReservationPricingService.reducedAmount([usageData], application)
+        );
+
+        await connection.query(
+          `UPDATE usages SET
+            use_morning = ?, use_afternoon = ?, use_evening = ?,
+            use_midday_extension = ?, use_evening_extension = ?,
+            room_base_charge_before_multiplier = ?, room_charge_after_multiplier = ?,
+            equipment_charge = ?, ac_charge = ?, subtotal_amount = ?,
+            tax_rate = ?, room_charge_excluding_tax = ?, room_tax_amount = ?,
+            equipment_charge_excluding_tax = ?, equipment_tax_amount = ?,
+            ac_charge_excluding_tax = ?, ac_tax_amount = ?
+          WHERE id = ?`,
+          [
+            usageData.use_morning,
+            usageData.use_afternoon,
+            usageData.use_evening,
+            usageData.use_midday_extension,
+            usageData.use_evening_extension,
+            usageData.room_base_charge_before_multiplier,
+            usageData.room_charge_after_multiplier,
+            usageData.equipment_charge,
+            usageData.ac_charge,
+            usageData.subtotal_amount,
+            usageData.tax_rate,
+            usageData.room_charge_excluding_tax,
+            usageData.room_tax_amount,
+            usageData.equipment_charge_excluding_tax,
+            usageData.equipment_tax_amount,
+            usageData.ac_charge_excluding_tax,
+            usageData.ac_tax_amount,
+            usageId,
+          ]
+        );
+
+        await TimeSlotRepository.replaceUsageTimeSlots(connection, usageId, usageData.time_slot_ids);
+
+        for (const item of equipment) {
+          await connection.query(
+            'UPDATE usage_equipment SET slot_count = ?, line_amount = ? WHERE usage_id = ? AND equipment_id = ?',
+            [item.slot_count, item.line_amount, usageId, item.equipment_id]
+          );
+        }
+      }
+
+      const policy = await CancellationPolicyService.getPolicyForApplication(application);
+      const cancellationFee = CancellationPolicyService.calculateUsageFee(policy, usage, now, removedAmount).fee;
+
+      if (cancelWholeUsage) {
+        await connection.query(
+          `UPDATE usages SET cancel_status = 'cancelled', cancelled_at = ?, cancellation_fee = cancellation_fee + ?
+           WHERE id = ?`,
+          [now, cancellationFee, usageId]
+        );
+      } else {
+        await connection.query(
+          'UPDATE usages SET cancellation_fee = cancellation_fee + ? WHERE id = ?',
+          [cancellationFee, usageId]
+        );
+      }
+
+      await connection.query(
+        `UPDATE applications SET
+          modification_count = COALESCE(modification_count, 0) + 1,
+          modified_at = NOW()
+        WHERE id = ?`,
+        [applicationId]
+      );
+      await ApplicationRepository.recalculateTotal(connection, applicationId);
+
+      const [updatedUsageRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM usages WHERE id = ?',
+        [usageId]
+      );
+      const [updatedAppRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM applications WHERE id = ?',
+        [applicationId]
+      );
+
+      await connection.query(
+        `INSERT INTO application_modifications (application_id, modified_by, modification_type, old_data, new_data, reason)
+         VALUES (?, ?, 'update', ?, ?, ?)`,
+        [
+          applicationId,
+          options.modifiedBy,
+          JSON.stringify({ total_amount: application.total_amount, usage }),
+          JSON.stringify({
+            total_amount: updatedAppRows[0].total_amount,
+            usage: updatedUsageRows[0],
+            cancelled_slot: options.slot || null,
+            cancellation_fee: cancellationFee,
+          }),
+          options.reason || (options.slot ? `Partial cancellation (${options.slot})` : 'Partial cancellation'),
+        ]
+      );
+
+      await connection.commit();
+
+      // 決済済みの場合は合計金額の減少分（減免後の取り消し分からキャンセル料を差し引いた額）を返金
+      const refundAmount = application.payment_status === 'paid'
+        ? Math.max(0, Number(application.total_amount) - Number(updatedAppRows[0].total_amount))
+        : 0;
+
+      result = {
+        application: updatedAppRows[0] as Application,
+        usage: updatedUsageRows[0] as Usage,
+        cancelledSlot: options.slot || null,
+        removedAmount,
+        cancellationFee,
+        refundAmount,
+        refundFailed: false,
+      };
+      released = [usage];
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    result.refundFailed = !(await this.settle(result.application, result.refundAmount, released));
+    return result;
+  }
+
+  /**
+   * 複数の利用明細をまとめてキャンセル（定期予約の「この回以降すべて」など）
+   * キャンセル料は利用明細ごとに利用日までの日数で計算する
+   */
+  async cancelUsages(
+    applicationId: number,
+    usageIds: number[],
+    options: { modifiedBy: number; reason?: string; now?: Date }
+  ): Promise<MultipleCancellationResult> {
+    const now = options.now || new Date();
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+    let result: MultipleCancellationResult;
+    let released: Usage[];
+
+    try {
+      const [appRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM applications WHERE id = ? FOR UPDATE',
+        [applicationId]
+      );
+      const application = appRows[0] as Application | undefined;
+      if (!application) {
+        throw createError('Reservation not found', 404);
+      }
+      if (application.cancel_status === 'cancelled') {
+        throw createError('Reservation is already cancelled', 400);
+      }
+
+      const [usageRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM usages WHERE application_id = ? ORDER BY date ASC FOR UPDATE',
+        [applicationId]
+      );
+      const usages = usageRows.filter((row) => usageIds.includes(row.id)) as Usage[];
+      if (usages.length !== usageIds.length) {
+        throw createError('Usage not found in this reservation', 404);
+      }
+      if (usages.some((usage) => usage.cancel_status === 'cancelled')) {
+        throw createError('This usage is already cancelled', 400);
+      }
+
+      const activeUsages = usageRows.filter((row) => row.cancel_status !== 'cancelled');
+      if (activeUsages.length <= usages.length) {
+        throw createError('最後の利用明細は予約全体のキャンセルとして手続きしてください', 400);
+      }
+
+      const policy = await CancellationPolicyService.getPolicyForApplication(application);
+      let removedAmount = 0;
+      let cancellationFee = 0;
+
+      for (const usage of usages) {
+        const amount = ReservationPricingService.reducedAmount([usage], application);
+        const fee = CancellationPolicyService.calculateUsageFee(policy, usage, now, amount).fee;
+        removedAmount += amount;
+        cancellationFee += fee;
+
+        await connection.query(
+          `UPDATE usages SET cancel_status = 'cancelled', cancelled_at = ?, cancellation_fee = cancellation_fee + ?
+           WHERE id = ?`,
+          [now, fee, usage.id]
+        );
+      }
+
+      await connection.query(
+        `UPDATE applications SET
+          modification_count = COALESCE(modification_count, 0) + 1,
+          modified_at = NOW()
+        WHERE id = ?`,
+        [applicationId]
+      );
+      await ApplicationRepository.recalculateTotal(connection, applicationId);
+
+      const [updatedUsageRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM usages WHERE id IN (?) ORDER BY date ASC',
+        [usageIds]
+      );
+      const [updatedAppRows] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM applications WHERE id = ?',
+        [applicationId]
+      );
+
+      await connection.query(
+        `INSERT INTO application_modifications (application_id, modified_by, modification_type, old_data, new_data, reason)
+         VALUES (?, ?, 'update', ?, ?, ?)`,
+        [
+          applicationId,
+          options.modifiedBy,
+          JSON.stringify({ total_amount: application.total_amount, usages }),
+          JSON.stringify({
+            total_amount: updatedAppRows[0].total_amount,
+            usages: updatedUsageRows,
+            cancellation_fee: cancellationFee,
+          }),
+          options.reason || 'Partial cancellation',
+        ]
+      );
+
+      await connection.commit();
+
+      const refundAmount = application.payment_status === 'paid'
+        ? Math.max(0, Number(application.total_amount) - Number(updatedAppRows[0].total_amount))
+        : 0;
+
+      result = {
+        application: updatedAppRows[0] as Application,
+        usages: updatedUsageRows as Usage[],
+        removedAmount,
+        cancellationFee,
+        refundAmount,
+        refundFailed: false,
+      };
+      released = usages;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    result.refundFailed = !(await this.settle(result.application, result.refundAmount, released));
+    return result;
+  }
+
+  /**
+   * キャンセルの確定後の返金と空き待ちへの案内
+   * キャンセルはコミット済みのため、失敗してもエラーにせず記録のみ行う
+   * @returns 返金に成功した（返金がない場合を含む）
+   */
+  private async settle(application: Application, refundAmount: number, released: Usage[]): Promise<boolean> {
+    let refunded = true;
+    if (refundAmount > 0 && application.payment_provider_id) {
+      try {
+        await PaymentService.refundPayment(application.payment_provider_id, refundAmount);
+      } catch (error) {
+        console.error(`Failed to refund partial cancellation of application ${application.id}:`, error);
+        refunded = false;
+      }
+    }
+
+    // 空いた時間帯の空き待ちに案内
+    try {
+      await WaitlistService.offerReleasedSlots(released);
+    } catch (error) {
+      console.error('Failed to offer released slots to the waitlist:', error);
+    }
+
+    return refunded;
+  }
+
+  /**
+   * 時間帯を取り除いた後の残りの時間帯を返す。通常の時間帯が残らない場合は null（利用明細全体のキャンセル）
+   * 隣接する通常の時間帯がなくなった延長枠も併せて取り除く
+   */
+  private removeSlot(bookedSlots: ConfiguredTimeSlot[], slot?: CancellableSlot): ConfiguredTimeSlot[] | null {
+    if (!slot) {
+      return null;
+    }
+
+    if (!bookedSlots.some((booked) => booked.code === slot)) {
+      throw createError(`The ${slot} slot is not booked in this usage`, 400);
+    }
+
+    const remaining = removeTimeSlot(bookedSlots, slot);
+    return validateTimeSlotSelection(remaining).valid ? remaining : null;
+  }
+
+  private toDateString(date: Date | string): string {
+    if (typeof date === 'string') {
+      return date.slice(0, 10);
+    }
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+}
+
+export default new PartialCancellationService();
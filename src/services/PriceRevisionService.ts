@@ -0,0 +1,308 @@
+import pool from '../config/database';
+import PriceRevisionRepository, {
+  EquipmentRevisionInput,
+  ROOM_PRICE_COLUMNS,
+  RoomRevisionInput,
+} from '../models/PriceRevisionRepository';
+import RoomRepository from '../models/RoomRepository';
+import EquipmentRepository from '../models/EquipmentRepository';
+import SystemSettingsService from './SystemSettingsService';
+import { createError } from '../middleware/errorHandler';
+import { EquipmentPriceRevision, RoomPriceRevision } from '../models/types';
+import { facilityDate } from '../utils/bookingWindow';
+import { ConfiguredTimeSlot } from '../utils/timeSlots';
+import {
+  EquipmentTariff,
+  PRICE_REVISION_BASES,
+  PriceRevisionBasis,
+  applyRoomTariff,
+  applyTimeSlotTariff,
+  tariffDate,
+} from '../utils/priceRevision';
+
+/**
+ * 料金改定サービス
+ * - 部屋・設備の料金は適用開始日つきの料金表として履歴を保存する
+ * - 利用明細の料金は方針（price_revision_basis）に応じて利用日または予約日に有効な料金表で計算する
+ * - 将来の改定は事前に登録でき、適用開始日を迎えると部屋・設備の現在の料金（表示用）に反映する
+ * - 管理画面で料金を直接変更した場合は、その日から有効な料金表として記録する
+ */
+export class PriceRevisionService {
+  /**
+   * 料金表を選ぶ基準（利用日・予約日）
+   */
+  async getBasis(): Promise<PriceRevisionBasis> {
+    const basis = await SystemSettingsService.getSettingValue('price_revision_basis');
+    return PRICE_REVISION_BASES.includes(basis) ? basis : 'usage_date';
+  }
+
+  /**
+   * 施設のタイムゾーンにおける日付（YYYY-MM-DD）
+   */
+  async getFacilityDate(moment: Date | string = new Date()): Promise<string> {
+    const timezoneOffset = (await SystemSettingsService.getSettingValue('timezone_offset')) || '+09:00';
+    return facilityDate(new Date(moment), timezoneOffset);
+  }
+
+  /**
+   * 利用明細の料金を計算する料金表の日付
+   * @param bookedAt - 予約日時（既存の予約の再計算・変更時。新規申請は省略して今日）
+   */
+  async getTariffDate(usageDate: string, bookedAt?: Date | string | null): Promise<string> {
+    const basis = await this.getBasis();
+    const bookingDate = bookedAt ? await this.getFacilityDate(bookedAt) : null;
+    return tariffDate(basis, usageDate, bookingDate, await this.getFacilityDate());
+  }
+
+  /**
+   * 部屋と時間帯の料金を指定日に有効な料金表の料金にする（履歴がない場合は現在の料金）
+   */
+  async priceRoom<T extends { id: number }>(
+    room: T,
+    slots: ConfiguredTimeSlot[] | undefined,
+    date: string
+  ): Promise<{ room: T; slots: ConfiguredTimeSlot[] | undefined }> {
+    const tariff = await PriceRevisionRepository.findRoomTariff(room.id, date);
+    return {
+      room: applyRoomTariff(room as any, tariff) as T,
+      slots: slots && applyTimeSlotTariff(slots, tariff),
+    };
+  }
+
+  /**
+   * 指定日に有効な設備の料金（設備IDごと）
+   */
+  async getEquipmentTariffs(equipmentIds: number[], date: string): Promise<Map<number, EquipmentTariff>> {
+    return PriceRevisionRepository.findEquipmentTariffs(equipmentIds, date);
+  }
+
+  /**
+   * 適用開始日を迎えた改定を部屋・設備の現在の料金に反映
+   */
+  async applyDueRevisions(): Promise<void> {
+    const today = await this.getFacilityDate();
+
+    for (const revision of await PriceRevisionRepository.findDueRoomRevisions(today)) {
+      await PriceRevisionRepository.applyRoomRevision(revision);
+    }
+    for (const revision of await PriceRevisionRepository.findDueEquipmentRevisions(today)) {
+      await PriceRevisionRepository.applyEquipmentRevision(revision);
+    }
+  }
+
+  // ===== 部屋 =====
+
+  /**
+   * 部屋の料金改定の履歴と予定
+   */
+  async getRoomRevisions(roomId: number): Promise<RoomPriceRevision[]> {
+    const room = await RoomRepository.findById(roomId);
+    if (!room) {
+      throw createError('Room not found', 404);
+    }
+    return PriceRevisionRepository.findRoomRevisions(roomId);
+  }
+
+  /**
+   * 部屋の将来の料金改定を登録（指定しない料金は適用開始日の時点で有効な料金のまま）
+   */
+  async scheduleRoomRevision(
+    roomId: number,
+    staffId: number,
+    effectiveFrom: string,
+    changes: Partial<RoomRevisionInput>
+  ): Promise<RoomPriceRevision> {
+    const room = await RoomRepository.findById(roomId);
+    if (!room) {
+      throw createError('Room not found', 404);
+    }
+    await this.assertFutureDate(effectiveFrom);
+
+    // 履歴がない部屋は現在の料金を今日からの料金表として記録してから改定を登録
+    let base = await PriceRevisionRepository.findEffectiveRoomRevision(roomId, effectiveFrom);
+    if (!base) {
+      await PriceRevisionRepository.snapshotRoom(roomId, await this.getFacilityDate(), null, staffId);
+      base = (await PriceRevisionRepository.findEffectiveRoomRevision(roomId, effectiveFrom))!;
+    }
+
+    const data: RoomRevisionInput = {
+      ...(Object.fromEntries(ROOM_PRICE_COLUMNS.map((column) => [column, base![column]])) as any),
+      time_slot_prices: base.time_slot_prices,
+      note: changes.note ?? null,
+    };
+    for (const column of ROOM_PRICE_COLUMNS) {
+      if (changes[column] !== undefined) {
+        (data as any)[column] = changes[column];
+      }
+    }
+    for (const price of changes.time_slot_prices || []) {
+      data.time_slot_prices = [
+        ...data.time_slot_prices.filter((p) => p.time_slot_id !== price.time_slot_id),
+        price,
+      ];
+    }
+
+    const revision = await PriceRevisionRepository.saveRoomRevision(roomId, effectiveFrom, data, staffId);
+
+    await this.logActivity(
+      staffId,
+      'create',
+      'room_price_revision',
+      revision.id,
+      `Room price revision scheduled: ${room.name} from ${effectiveFrom}`
+    );
+
+    return revision;
+  }
+
+  /**
+   * 未反映の部屋の料金改定を取り消す
+   */
+  async cancelRoomRevision(revisionId: number, staffId: number): Promise<void> {
+    const revision = await PriceRevisionRepository.findRoomRevisionById(revisionId);
+    if (!revision) {
+      throw createError('Price revision not found', 404);
+    }
+    if (!(await PriceRevisionRepository.deletePendingRoomRevision(revisionId))) {
+      throw createError('Price revisions already in effect cannot be cancelled', 409);
+    }
+
+    await this.logActivity(
+      staffId,
+      'delete',
+      'room_price_revision',
+      revisionId,
+      `Room price revision cancelled: room ${revision.room_id} from ${revision.effective_from}`
+    );
+  }
+
+  /**
+   * 更新内容に料金の項目が含まれるか（部屋・設備の管理画面の更新用）
+   */
+  hasPriceChanges(updates: object): boolean {
+    return Object.keys(updates).some((key) => /price/i.test(key));
+  }
+
+  /**
+   * 部屋の現在の料金を今日から有効な料金表として記録（管理画面で料金を直接変更した後に呼ぶ）
+   * 同じ日に複数回変更した場合は最後の料金になる
+   */
+  async recordRoomPrices(roomId: number, staffId: number | null, note: string | null = null): Promise<void> {
+    await PriceRevisionRepository.snapshotRoom(roomId, await this.getFacilityDate(), note, staffId);
+  }
+
+  // ===== 設備 =====
+
+  /**
+   * 設備の料金改定の履歴と予定
+   */
+  async getEquipmentRevisions(equipmentId: number): Promise<EquipmentPriceRevision[]> {
+    const equipment = await EquipmentRepository.findById(equipmentId);
+    if (!equipment) {
+      throw createError('Equipment not found', 404);
+    }
+    return PriceRevisionRepository.findEquipmentRevisions(equipmentId);
+  }
+
+  /**
+   * 設備の将来の料金改定を登録
+   */
+  async scheduleEquipmentRevision(
+    equipmentId: number,
+    staffId: number,
+    effectiveFrom: string,
+    changes: Partial<EquipmentRevisionInput>
+  ): Promise<EquipmentPriceRevision> {
+    const equipment = await EquipmentRepository.findById(equipmentId);
+    if (!equipment) {
+      throw createError('Equipment not found', 404);
+    }
+    await this.assertFutureDate(effectiveFrom);
+
+    let base = (await PriceRevisionRepository.findEquipmentTariffs([equipmentId], effectiveFrom)).get(equipmentId);
+    if (!base) {
+      await PriceRevisionRepository.snapshotEquipment(equipmentId, await this.getFacilityDate(), null, staffId);
+      base = (await PriceRevisionRepository.findEquipmentTariffs([equipmentId], effectiveFrom)).get(equipmentId)!;
+    }
+
+    const revision = await PriceRevisionRepository.saveEquipmentRevision(
+      equipmentId,
+      effectiveFrom,
+      {
+        price_type: changes.price_type ?? base.priceType,
+        unit_price: changes.unit_price ?? base.unitPrice,
+        note: changes.note ?? null,
+      },
+      staffId
+    );
+
+    await this.logActivity(
+      staffId,
+      'create',
+      'equipment_price_revision',
+      revision.id,
+      `Equipment price revision scheduled: ${equipment.name} from ${effectiveFrom}`
+    );
+
+    return revision;
+  }
+
+  /**
+   * 未反映の設備の料金改定を取り消す
+   */
+  async cancelEquipmentRevision(revisionId: number, staffId: number): Promise<void> {
+    const revision = await PriceRevisionRepository.findEquipmentRevisionById(revisionId);
+    if (!revision) {
+      throw createError('Price revision not found', 404);
+    }
+    if (!(await PriceRevisionRepository.deletePendingEquipmentRevision(revisionId))) {
+      throw createError('Price revisions already in effect cannot be cancelled', 409);
+    }
+
+    await this.logActivity(
+      staffId,
+      'delete',
+      'equipment_price_revision',
+      revisionId,
+      `Equipment price revision cancelled: equipment ${revision.equipment_id} from ${revision.effective_from}`
+    );
+  }
+
+  /**
+   * 設備の現在の料金を今日から有効な料金表として記録（管理画面で料金を直接変更した後に呼ぶ）
+   */
+  async recordEquipmentPrices(equipmentId: number, staffId: number | null, note: string | null = null): Promise<void> {
+    await PriceRevisionRepository.snapshotEquipment(equipmentId, await this.getFacilityDate(), note, staffId);
+  }
+
+  /**
+   * 改定の適用開始日は明日以降（今日からの料金の変更は管理画面で直接行う）
+   */
+  private async assertFutureDate(effectiveFrom: string): Promise<void> {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+      throw createError('effective_from must be a date (YYYY-MM-DD)', 400);
+    }
+    if (effectiveFrom <= (await this.getFacilityDate())) {
+      throw createError('Price revisions must take effect from tomorrow or later', 400);
+    }
+  }
+
+  /**
+   * アクティビティログを記録
+   */
+  private async logActivity(
+    staffId: number,
+    actionType: string,
+    targetType: string,
+    targetId: number,
+    description: string
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO staff_activity_logs (staff_id, action_type, target_type, target_id, description)
+       VALUES (?, ?, ?, ?, ?)`,
+      [staffId, actionType, targetType, targetId, description]
+    );
+  }
+}
+
+export default new PriceRevisionService();
@@ -0,0 +1,161 @@
+import pool from '../config/database';
+import PricingPeriodRepository, { PricingPeriodInput } from '../models/PricingPeriodRepository';
+import { createError } from '../middleware/errorHandler';
+import { PricingPeriodRecord } from '../models/types';
+import { PricingPeriod, validatePricingPeriod } from '../utils/pricingPeriod';
+
+/**
+ * 料金期間サービス（繁忙期・特別期間の料金）
+ * - 職員が期間名・期間・対象の部屋と時間帯・倍率または固定料金を登録する
+ * - 利用明細の部屋料金は利用日を含む料金期間で計算する（見積もりの内訳に期間名と通常の料金を表示）
+ * - 登録・変更した期間は、その後に料金を計算する申請・変更・再計算から適用する
+ */
+export class PricingPeriodService {
+  /**
+   * 料金期間の一覧
+   * @param fromDate - 指定した場合はこの日以降に終了する期間のみ
+   */
+  async getPeriods(fromDate?: string): Promise<PricingPeriodRecord[]> {
+    return PricingPeriodRepository.findAll(fromDate);
+  }
+
+  /**
+   * 利用日を含む料金期間（料金計算用）
+   */
+  async getPeriodsForDate(date: string): Promise<PricingPeriod[]> {
+    return PricingPeriodRepository.findByDate(date);
+  }
+
+  /**
+   * 料金期間を登録
+   */
+  async createPeriod(staffId: number, data: PricingPeriodInput): Promise<PricingPeriodRecord> {
+    const normalized = this.normalize(data);
+    this.assertValid(normalized);
+
+    const period = await PricingPeriodRepository.create(normalized, staffId);
+
+    await this.logActivity(
+      staffId,
+      'create',
+      'pricing_period',
+      period.id,
+      `Pricing period created: ${period.name} (${period.start_date} - ${period.end_date})`
+    );
+
+    return period;
+  }
+
+  /**
+   * 料金期間を変更
+   */
+  async updatePeriod(periodId: number, staffId: number, data: Partial<PricingPeriodInput>): Promise<PricingPeriodRecord> {
+    const current = await PricingPeriodRepository.findById(periodId);
+    if (!current) {
+      throw createError('Pricing period not found', 404);
+    }
+
+    const normalized = this.normalize({ ...current, ...data });
+    this.assertValid(normalized);
+
+    const updates: Partial<PricingPeriodInput> = {};
+    for (const field of Object.keys(data) as (keyof PricingPeriodInput)[]) {
+      (updates as any)[field] = normalized[field];
+    }
+    // 変更方法を切り替えた場合は使わない方の値を消す
+    if (data.adjustment_type !== undefined) {
+      updates.multiplier = normalized.multiplier;
+      updates.price = normalized.price;
+      updates.weekend_price = normalized.weekend_price;
+    }
+
+    const period = (await PricingPeriodRepository.update(periodId, updates))!;
+
+    await this.logActivity(
+      staffId,
+      'update',
+      'pricing_period',
+      periodId,
+      `Pricing period updated: ${period.name} (${period.start_date} - ${period.end_date})`
+    );
+
+    return period;
+  }
+
+  /**
+   * 料金期間を削除（料金を計算済みの申請の金額は変わらない）
+   */
+  async deletePeriod(periodId: number, staffId: number): Promise<void> {
+    const period = await PricingPeriodRepository.findById(periodId);
+    if (!period) {
+      throw createError('Pricing period not found', 404);
+    }
+
+    await PricingPeriodRepository.delete(periodId);
+
+    await this.logActivity(
+      staffId,
+      'delete',
+      'pricing_period',
+      periodId,
+      `Pricing period deleted: ${period.name} (${period.start_date} - ${period.end_date})`
+    );
+  }
+
+  /**
+   * 入力を保存用に整える（変更方法に応じて使わない値は NULL）
+   */
+  private normalize(data: PricingPeriodInput): PricingPeriodInput {
+    const isMultiplier = data.adjustment_type === 'multiplier';
+    return {
+      name: String(data.name ?? '').trim(),
+      start_date: data.start_date,
+      end_date: data.end_date,
+      room_ids: data.room_ids ?? null,
+      time_slot_codes: data.time_slot_codes ?? null,
+      adjustment_type: data.adjustment_type,
+      multiplier: isMultiplier ? data.multiplier ?? null : null,
+      price: isMultiplier ? null : data.price ?? null,
+      weekend_price: isMultiplier ? null : data.weekend_price ?? null,
+      priority: data.priority ?? 0,
+      description: data.description ?? null,
+    };
+  }
+
+  private assertValid(data: PricingPeriodInput): void {
+    const validation = validatePricingPeriod({
+      name: data.name,
+      startDate: data.start_date,
+      endDate: data.end_date,
+      roomIds: data.room_ids,
+      slotCodes: data.time_slot_codes,
+      adjustmentType: data.adjustment_type,
+      multiplier: data.multiplier,
+      price: data.price,
+      weekendPrice: data.weekend_price,
+      priority: data.priority,
+    });
+    if (!validation.valid) {
+      throw createError(validation.error!, 400);
+    }
+  }
+
+  /**
+   * アクティビティログを記録
+   */
+  private async logActivity(
+    staffId: number,
+    actionType: string,
+    targetType: string,
+    targetId: number,
+    description: string
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO staff_activity_logs (staff_id, action_type, target_type, target_id, description)
+       VALUES (?, ?, ?, ?, ?)`,
+      [staffId, actionType, targetType, targetId, description]
+    );
+  }
+}
+
+export default new PricingPeriodService();
@@ -1,11 +1,14 @@
 import { pool } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { Product, Sale } from '../models/types';
+import TaxService from './TaxService';
+import { splitTaxIncluded } from '../utils/tax';
 
 export interface CreateProductDto {
   name: string;
   category: string;
   price: number;
+  tax_rate?: number | null; // 省略時は標準の消費税率
   cost?: number;
   stock_quantity?: number;
   description?: string;
@@ -33,6 +36,7 @@ export class ProductManagementService {
       name: product.name,
       category: product.category,
       price: product.price,
+      taxRate: product.tax_rate,
       cost: product.cost,
       stock: product.stock_quantity,
       stockQuantity: product.stock_quantity,
@@ -59,6 +63,9 @@ export class ProductManagementService {
       unitPrice: sale.unit_price,
       totalAmount: sale.total_price,
       totalPrice: sale.total_price,
+      taxRate: sale.tax_rate,
+      taxExcludedAmount: sale.tax_excluded_amount,
+      taxAmount: sale.tax_amount,
       soldBy: sale.sold_by,
       staffName: sale.staff_name,
       buyerName: sale.customer_name,
@@ -90,12 +97,13 @@ export class ProductManagementService {
    */
   async createProduct(staffId: number, data: CreateProductDto): Promise<Product> {
     const [result] = await pool.query<ResultSetHeader>(
-      `INSERT INTO products (name, category, price, cost, stock_quantity, description, display_order)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO products (name, category, price, tax_rate, cost, stock_quantity, description, display_order)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         data.name,
         data.category,
         data.price,
+        data.tax_rate ?? null,
         data.cost || null,
         data.stock_quantity || null,
         data.description || null,
@@ -131,6 +139,7 @@ export class ProductManagementService {
       'name': 'name',
       'category': 'category',
       'price': 'price',
+      'taxRate': 'tax_rate',
       'cost': 'cost',
       'stock': 'stock_quantity',
       'stockQuantity': 'stock_quantity',
@@ -200,16 +209,25 @@ export class ProductManagementService {
 
     const totalPrice = product.price * data.quantity;
 
+    // 商品に税率がない場合は標準の消費税率（販売価格は税込）
+    const taxSettings = await TaxService.getTaxSettings();
+    const tax = splitTaxIncluded(totalPrice, product.tax_rate ?? taxSettings.rate, taxSettings.rounding);
+
     // 販売記録を作成
     const [result] = await pool.query<ResultSetHeader>(
-      `INSERT INTO sales (application_id, product_id, quantity, unit_price, total_price, sold_by, customer_name, notes)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO sales (
+         application_id, product_id, quantity, unit_price, total_price, tax_rate, tax_excluded_amount, tax_amount,
+         sold_by, customer_name, notes
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         data.application_id || null,
         data.product_id,
         data.quantity,
         product.price,
         totalPrice,
+        tax.taxRate,
+        tax.taxExcludedAmount,
+        tax.taxAmount,
         staffId,
         data.customer_name || null,
         data.notes || null,
@@ -306,6 +324,7 @@ export class ProductManagementService {
         COUNT(*) as total_sales,
         SUM(quantity) as total_quantity,
         SUM(total_price) as total_revenue,
+        SUM(tax_amount) as total_tax_amount,
         COUNT(DISTINCT product_id) as unique_products
       FROM sales
       WHERE 1=1
@@ -324,7 +343,7 @@ export class ProductManagementService {
     }
 
     const [rows] = await pool.query<RowDataPacket[]>(query, params);
-    return rows[0] || { total_sales: 0, total_quantity: 0, total_revenue: 0, unique_products: 0 };
+    return rows[0] || { total_sales: 0, total_quantity: 0, total_revenue: 0, total_tax_amount: 0, unique_products: 0 };
   }
 
   /**
@@ -1,6 +1,10 @@
 import { pool } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import ApplicationRepository from '../models/ApplicationRepository';
+import RoomRepository from '../models/RoomRepository';
+import BookingWindowService from './BookingWindowService';
+import ReservationPricingService, { ApplicationQuote } from './ReservationPricingService';
+import UsageRuleService, { UsageDeclaration } from './UsageRuleService';
 import { CreateApplicationDto } from '../models/types';
 import { calculateTicketMultiplier } from '../utils/pricing';
 
@@ -9,6 +13,11 @@ export interface ProxyReservationDto extends CreateApplicationDto {
   notes?: string;
 }
 
+export interface ProxyReservationOptions {
+  overrideBookingWindow?: boolean; // 職員判断で受付期間外の予約を許可
+  ruleOverrideReason?: string | null; // 職員判断で定員・利用ルールの確認を省略する理由（申請に記録）
+}
+
 /**
  * 予約代行サービス（職員が利用者に代わって予約を作成）
  */
@@ -20,7 +29,8 @@ export class ProxyReservationService {
     staffId: number,
     userId: number,
     data: any,
-    notes?: string
+    notes?: string,
+    options: ProxyReservationOptions = {}
   ): Promise<any> {
     // ユーザー情報を取得
     const [userRows] = await pool.query<RowDataPacket[]>(
@@ -34,6 +44,11 @@ export class ProxyReservationService {
 
     const user = userRows[0];
 
+    if (!options.overrideBookingWindow) {
+      await this.assertWithinBookingWindow(data.usages || [], userId);
+    }
+    const usageRules = await this.assertUsageRules(data, options);
+
     // チケット倍率を計算
     const ticketMultiplier = calculateTicketMultiplier(
       data.entrance_fee_type,
@@ -48,6 +63,7 @@ export class ProxyReservationService {
         ...applicationData,
         user_id: userId,
         ticket_multiplier: ticketMultiplier,
+        activities: usageRules.activities,
         // ユーザー情報から申請者情報を自動設定
         applicant_representative: user.name || '',
         applicant_group_name: user.organization_name || null,
@@ -60,6 +76,7 @@ export class ProxyReservationService {
     );
 
     const application = result.application;
+    await this.recordRuleOverride(application, staffId, options);
 
     // 代行記録を作成
     await pool.query(
@@ -74,7 +91,7 @@ export class ProxyReservationService {
       'create',
       'application',
       application.id,
-      `Proxy reservation created for member ${userId}`
+      `Proxy reservation created for member ${userId}${this.overrideNote(options)}`
     );
 
     return application;
@@ -86,8 +103,14 @@ export class ProxyReservationService {
   async createForGuest(
     staffId: number,
     data: any,
-    notes?: string
+    notes?: string,
+    options: ProxyReservationOptions = {}
   ): Promise<any> {
+    if (!options.overrideBookingWindow) {
+      await this.assertWithinBookingWindow(data.usages || [], null);
+    }
+    const usageRules = await this.assertUsageRules(data, options);
+
     // チケット倍率を計算
     const ticketMultiplier = calculateTicketMultiplier(
       data.entrance_fee_type,
@@ -102,12 +125,14 @@ export class ProxyReservationService {
         ...applicationData,
         user_id: null,
         ticket_multiplier: ticketMultiplier,
+        activities: usageRules.activities,
       },
       usages || [],
       equipment || []
     );
 
     const application = result.application;
+    await this.recordRuleOverride(application, staffId, options);
 
     // 代行記録を作成
     await pool.query(
@@ -122,12 +147,30 @@ export class ProxyReservationService {
       'create',
       'application',
       application.id,
-      `Proxy reservation created for guest: ${applicationData.applicant_representative}`
+      `Proxy reservation created for guest: ${applicationData.applicant_representative}${this.overrideNote(options)}`
     );
 
     return application;
   }
 
+  /**
+   * 代行予約の見積もり（申請画面と同じ料金の内訳と予約できない理由を返す、予約は行わない）
+   */
+  async quote(data: any, userId: number | null, options: ProxyReservationOptions = {}): Promise<ApplicationQuote> {
+    const ticketMultiplier = calculateTicketMultiplier(
+      data.entrance_fee_type,
+      data.entrance_fee_amount
+    );
+
+    const usageRules = UsageRuleService.declarationOf(data);
+
+    return ReservationPricingService.quoteUsages(data.usages || [], ticketMultiplier, {
+      userId,
+      skipBookingWindow: options.overrideBookingWindow,
+      usageRules: options.ruleOverrideReason ? null : usageRules,
+    });
+  }
+
   /**
    * 代行予約一覧を取得
    */
@@ -195,6 +238,56 @@ export class ProxyReservationService {
     };
   }
 
+  /**
+   * 利用明細がすべて予約受付期間内かを確認（会員の代行は会員の利用者区分の受付期間を適用）
+   */
+  private async assertWithinBookingWindow(usages: any[], userId: number | null): Promise<void> {
+    for (const usage of usages) {
+      const room = await RoomRepository.findById(usage.room_id);
+      if (!room) {
+        throw new Error(`Room ID ${usage.room_id} not found`);
+      }
+      await BookingWindowService.assertWithinWindow(room, usage, userId);
+    }
+  }
+
+  /**
+   * 参加予定人数・利用内容を部屋の定員・利用ルールと照合（確認を省略する理由がある場合は照合しない）
+   */
+  private async assertUsageRules(data: any, options: ProxyReservationOptions): Promise<UsageDeclaration> {
+    const usageRules = UsageRuleService.declarationOf(data);
+    if (!options.ruleOverrideReason) {
+      await UsageRuleService.assertUsages(data.usages || [], usageRules);
+    }
+    return usageRules;
+  }
+
+  /**
+   * 定員・利用ルールの確認を省略した理由を申請に記録
+   */
+  private async recordRuleOverride(application: any, staffId: number, options: ProxyReservationOptions): Promise<void> {
+    if (!options.ruleOverrideReason) {
+      return;
+    }
+    await UsageRuleService.recordOverride(application.id, staffId, options.ruleOverrideReason);
+    application.rule_override_reason = options.ruleOverrideReason;
+    application.rule_override_by = staffId;
+  }
+
+  /**
+   * アクティビティログに記録する職員判断の内容
+   */
+  private overrideNote(options: ProxyReservationOptions): string {
+    const notes: string[] = [];
+    if (options.overrideBookingWindow) {
+      notes.push('booking window overridden');
+    }
+    if (options.ruleOverrideReason) {
+      notes.push(`usage rules overridden: ${options.ruleOverrideReason}`);
+    }
+    return notes.length > 0 ? ` (${notes.join(', ')})` : '';
+  }
+
   /**
    * アクティビティログを記録
    */
@@ -0,0 +1,357 @@
+import ApplicationRepository from '../models/ApplicationRepository';
+import HolidayRepository from '../models/HolidayRepository';
+import ReservationPricingService, { PriceUsagesOptions } from './ReservationPricingService';
+import UsageRuleService from './UsageRuleService';
+import PartialCancellationService, { MultipleCancellationResult } from './PartialCancellationService';
+import PaymentService from './PaymentService';
+import { expandRecurrence, RecurrenceRule } from '../utils/recurrence';
+import { ConfiguredTimeSlot } from '../utils/timeSlots';
+import { createError } from '../middleware/errorHandler';
+import {
+  Application,
+  CreateUsageDto,
+  OccurrenceScope,
+  RecurrenceRequestDto,
+  Usage,
+  UsageEquipment,
+} from '../models/types';
+
+export interface RecurrenceOccurrence {
+  date: string;
+  status: 'available' | 'holiday' | 'conflict'; // holiday = 祝日（include_holidays の場合は available）
+  holiday: string | null;                       // 祝日名
+  conflict: string | null;                      // 休館日・満室・受付期間外などの理由
+  subtotal_amount: number | null;
+}
+
+export interface OccurrenceModificationResult {
+  confirmed: boolean;     // false = 料金の確認のみ（変更は行っていない）
+  application: Application | null;
+  usages: any[];          // 変更後の利用明細（確認前は料金計算結果）
+  currentTotal: number;
+  newTotal: number;
+  priceDifference: number;
+  refundAmount: number;
+}
+
+type UsageWithDetails = Usage & { equipment: UsageEquipment[]; time_slots: ConfiguredTimeSlot[] };
+
+// 変更できる利用内容（日付は「この回のみ」の場合だけ変更できる）
+const CHANGEABLE_FIELDS: (keyof CreateUsageDto)[] = [
+  'room_id',
+  'use_morning',
+  'use_afternoon',
+  'use_evening',
+  'use_midday_extension',
+  'use_evening_extension',
+  'start_time',
+  'end_time',
+  'time_slot_ids',
+  'ac_requested',
+  'equipment',
+  'layout_id',
+];
+
+// 時間帯・時刻の指定（いずれかを変更した場合は現在の選択を引き継がない）
+const TIME_FIELDS: (keyof CreateUsageDto)[] = [
+  'use_morning',
+  'use_afternoon',
+  'use_evening',
+  'use_midday_extension',
+  'use_evening_extension',
+  'start_time',
+  'end_time',
+  'time_slot_ids',
+];
+
+/**
+ * 定期予約サービス
+ * 繰り返しの設定を各回の利用明細に展開し、1件の申請として登録する。
+ * 登録後は「この回のみ」「この回以降すべて」の単位で変更・キャンセルできる
+ */
+export class RecurringReservationService {
+  /**
+   * 繰り返しの設定から各回の利用明細を作成（テンプレートの日付が開始日）
+   */
+  expandUsages(template: CreateUsageDto, rule: RecurrenceRule): CreateUsageDto[] {
+    if (!template) {
+      throw createError('定期予約の利用内容を指定してください', 400);
+    }
+
+    const { dates, error } = expandRecurrence(template.date, rule);
+    if (error) {
+      throw createError(error, 400);
+    }
+
+    return dates.map((date) => ({ ...template, date }));
+  }
+
+  /**
+   * 申請に保存する繰り返しの設定（申請時のオプションは保存しない）
+   */
+  toRule(recurrence: RecurrenceRequestDto): RecurrenceRule {
+    const { include_holidays, skip_conflicts, ...rule } = recurrence;
+    return rule;
+  }
+
+  /**
+   * 各回の休館日・祝日・既存の予約との重なりを確認（申請前のプレビュー）
+   * 申請時と同じ検証を1回ずつ行い、予約できない回は理由を conflict に設定する
+   */
+  async previewOccurrences(
+    template: CreateUsageDto,
+    recurrence: RecurrenceRequestDto,
+    ticketMultiplier: number,
+    options: PriceUsagesOptions = {}
+  ): Promise<RecurrenceOccurrence[]> {
+    const usages = this.expandUsages(template, recurrence);
+    const holidays = await HolidayRepository.findNamesByDateRange(usages[0].date, usages[usages.length - 1].date);
+
+    const occurrences: RecurrenceOccurrence[] = [];
+    for (const usage of usages) {
+      const holiday = holidays.get(usage.date) || null;
+
+      try {
+        const priced = await ReservationPricingService.priceUsages([usage], ticketMultiplier, options);
+        occurrences.push({
+          date: usage.date,
+          status: holiday && !recurrence.include_holidays ? 'holiday' : 'available',
+          holiday,
+          conflict: null,
+          subtotal_amount: priced.totalAmount,
+        });
+      } catch (error: any) {
+        // 部屋が存在しないなど、すべての回に共通するエラーはそのまま送出
+        if (error.statusCode !== 400 && error.statusCode !== 409) {
+          throw error;
+        }
+        occurrences.push({
+          date: usage.date,
+          status: 'conflict',
+          holiday,
+          conflict: error.message,
+          subtotal_amount: null,
+        });
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * プレビューで予約できる回の利用明細
+   */
+  availableUsages(template: CreateUsageDto, occurrences: RecurrenceOccurrence[]): CreateUsageDto[] {
+    return occurrences
+      .filter((occurrence) => occurrence.status === 'available')
+      .map((occurrence) => ({ ...template, date: occurrence.date }));
+  }
+
+  /**
+   * 定期予約の回を変更（この回のみ / この回以降すべて）
+   * confirm が true でない場合は変更後の料金と差額のみを返し、変更は行わない
+   */
+  async modifyOccurrences(
+    applicationId: number,
+    usageId: number,
+    scope: OccurrenceScope,
+    changes: Partial<CreateUsageDto>,
+    options: { modifiedBy: number; reason?: string; confirm?: boolean; skipBookingWindow?: boolean }
+  ): Promise<OccurrenceModificationResult> {
+    const { application, usages, targets } = await this.findTargetUsages(applicationId, usageId, scope);
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (new Date(targets[0].date) < today) {
+      throw createError('過去の予約は変更できません', 400);
+    }
+
+    if (scope === 'future' && changes.date !== undefined) {
+      throw createError('日付の変更は「この回のみ」で指定してください', 400);
+    }
+
+    const usageDtos = targets.map((usage) => this.applyChanges(usage, changes));
+
+    // 自分の予約は空き状況の計算から除外されるため、同じ申請内の他の回との重なりはここで確認
+    const targetIds = targets.map((usage) => usage.id);
+    for (const dto of usageDtos) {
+      const duplicate = usages.find(
+        (usage) =>
+          !targetIds.includes(usage.id) &&
+          usage.cancel_status === 'none' &&
+          usage.room_id === dto.room_id &&
+          this.toDateString(usage.date) === dto.date
+      );
+      if (duplicate) {
+        throw createError(`${dto.date} には同じ部屋の利用がすでに登録されています`, 409);
+      }
+    }
+
+    const priced = await ReservationPricingService.priceUsages(usageDtos, Number(application.ticket_multiplier), {
+      excludeApplicationId: applicationId,
+      skipBookingWindow: options.skipBookingWindow,
+      userId: application.user_id,
+      bookedAt: application.created_at,
+      usageRules: UsageRuleService.declarationOfApplication(application),
+    });
+
+    // 合計金額は承認済みの減免を適用した後の金額のため、入れ替える回の金額にも同じ減免を適用する
+    const currentTotal = Number(application.total_amount);
+    const removedAmount = ReservationPricingService.reducedAmount(targets, application);
+    const estimatedTotal = currentTotal - removedAmount + ReservationPricingService.reducedAmount(priced.usagesData, application);
+
+    if (options.confirm !== true) {
+      return {
+        confirmed: false,
+        application: null,
+        usages: priced.usagesData,
+        currentTotal,
+        newTotal: estimatedTotal,
+        priceDifference: estimatedTotal - currentTotal,
+        refundAmount: 0,
+      };
+    }
+
+    const modified = await ApplicationRepository.modifyUsages(
+      applicationId,
+      priced.usagesData,
+      priced.equipmentData,
+      priced.totalAmount,
+      options.modifiedBy,
+      options.reason || (scope === 'future' ? 'Recurring reservation modified from this occurrence onwards' : 'Recurring reservation occurrence modified'),
+      targetIds
+    );
+
+    // 差額・返金額は保存された変更後の合計金額から求める
+    const newTotal = Number(modified.application.total_amount);
+    const priceDifference = newTotal - currentTotal;
+
+    // 決済済みで減額になった場合は差額を返金（増額分は窓口で追加徴収）
+    let refundAmount = 0;
+    if (priceDifference < 0 && application.payment_status === 'paid' && application.payment_provider_id) {
+      refundAmount = -priceDifference;
+      await PaymentService.refundPayment(application.payment_provider_id, refundAmount);
+    }
+
+    return {
+      confirmed: true,
+      application: modified.application,
+      usages: modified.usages,
+      currentTotal,
+      newTotal,
+      priceDifference,
+      refundAmount,
+    };
+  }
+
+  /**
+   * 定期予約のこの回以降をすべてキャンセル
+   */
+  async cancelFutureOccurrences(
+    applicationId: number,
+    usageId: number,
+    options: { modifiedBy: number; reason?: string }
+  ): Promise<MultipleCancellationResult> {
+    const { targets } = await this.findTargetUsages(applicationId, usageId, 'future');
+
+    return PartialCancellationService.cancelUsages(
+      applicationId,
+      targets.map((usage) => usage.id),
+      {
+        modifiedBy: options.modifiedBy,
+        reason: options.reason || 'Recurring reservation cancelled from this occurrence onwards',
+      }
+    );
+  }
+
+  /**
+   * 変更・キャンセルの対象となる有効な利用明細（日付順）
+   */
+  private async findTargetUsages(
+    applicationId: number,
+    usageId: number,
+    scope: OccurrenceScope
+  ): Promise<{ application: Application; usages: UsageWithDetails[]; targets: UsageWithDetails[] }> {
+    if (scope !== 'this' && scope !== 'future') {
+      throw createError('scope は this または future を指定してください', 400);
+    }
+
+    const details = await ApplicationRepository.findByIdWithDetails(applicationId);
+    if (!details) {
+      throw createError('Reservation not found', 404);
+    }
+    if (details.application.cancel_status === 'cancelled') {
+      throw createError('Reservation is already cancelled', 400);
+    }
+
+    const selected = details.usages.find((usage) => usage.id === usageId);
+    if (!selected) {
+      throw createError('Usage not found in this reservation', 404);
+    }
+    if (selected.cancel_status === 'cancelled') {
+      throw createError('This usage is already cancelled', 400);
+    }
+
+    if (scope === 'this') {
+      return { application: details.application, usages: details.usages, targets: [selected] };
+    }
+
+    if (!details.application.recurrence_rule) {
+      throw createError('「この回以降すべて」は定期予約の場合のみ指定できます', 400);
+    }
+
+    const selectedDate = this.toDateString(selected.date);
+    const targets = details.usages.filter(
+      (usage) => usage.cancel_status === 'none' && this.toDateString(usage.date) >= selectedDate
+    );
+
+    return { application: details.application, usages: details.usages, targets };
+  }
+
+  /**
+   * 登録済みの利用明細に変更内容を適用した申請内容
+   */
+  private applyChanges(usage: UsageWithDetails, changes: Partial<CreateUsageDto>): CreateUsageDto {
+    const changesTime = TIME_FIELDS.some((field) => changes[field] !== undefined);
+    const current: CreateUsageDto = {
+      room_id: usage.room_id,
+      date: this.toDateString(usage.date),
+      use_morning: changesTime ? false : !!usage.use_morning,
+      use_afternoon: changesTime ? false : !!usage.use_afternoon,
+      use_evening: changesTime ? false : !!usage.use_evening,
+      use_midday_extension: changesTime ? false : !!usage.use_midday_extension,
+      use_evening_extension: changesTime ? false : !!usage.use_evening_extension,
+      start_time: !changesTime && usage.start_time ? String(usage.start_time).slice(0, 5) : undefined,
+      end_time: !changesTime && usage.end_time ? String(usage.end_time).slice(0, 5) : undefined,
+      time_slot_ids: changesTime ? undefined : usage.time_slots.map((slot) => slot.id),
+      ac_requested: !!usage.ac_requested,
+      equipment: usage.equipment.map((e) => ({ equipment_id: e.equipment_id, quantity: e.quantity })),
+      // レイアウトは部屋ごとに設定されるため、部屋を変更した場合は引き継がない
+      layout_id: changes.room_id !== undefined && changes.room_id !== usage.room_id ? null : usage.layout_id ?? null,
+    };
+
+    const dto: any = { ...current };
+    for (const field of CHANGEABLE_FIELDS) {
+      if (changes[field] !== undefined) {
+        dto[field] = changes[field];
+      }
+    }
+    if (changes.date !== undefined) {
+      dto.date = changes.date;
+    }
+
+    return dto as CreateUsageDto;
+  }
+
+  private toDateString(date: Date | string): string {
+    if (typeof date === 'string') {
+      return date.slice(0, 10);
+    }
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+}
+
+export default new RecurringReservationService();
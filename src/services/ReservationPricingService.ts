@@ -0,0 +1,549 @@
+import RoomRepository from '../models/RoomRepository';
+import EquipmentRepository from '../models/EquipmentRepository';
+import ClosureRepository from '../models/ClosureRepository';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import BookingWindowService from './BookingWindowService';
+import FlexibleTimeService from './FlexibleTimeService';
+import ApplicationRepository from '../models/ApplicationRepository';
+import LotteryRepository from '../models/LotteryRepository';
+import TaxService from './TaxService';
+import PriceRevisionService from './PriceRevisionService';
+import PricingPeriodService from './PricingPeriodService';
+import UsageRuleService, { UsageDeclaration } from './UsageRuleService';
+import { UsageCharges, calculateReducedSubtotal, calculateUsageCharges } from '../utils/pricing';
+import { validateFlexibleTimeRange } from '../utils/flexibleTime';
+import { TaxedAmount, UsageTax, calculateUsageTax, summarizeTaxByRate } from '../utils/tax';
+import {
+  ConfiguredTimeSlot,
+  countRegularSlots,
+  legacySlotFlags,
+  selectTimeSlots,
+  validateTimeSlotSelection,
+} from '../utils/timeSlots';
+import { createError } from '../middleware/errorHandler';
+import { Application, CreateUsageDto, Usage } from '../models/types';
+
+export interface PricedUsages {
+  usagesData: any[];     // usages テーブルに保存する利用データ
+  equipmentData: any[];  // usageIndex ごとの usage_equipment データ
+  totalAmount: number;
+}
+
+export interface UsageQuote {
+  room_id: number;
+  room_name: string | null;
+  date: string;
+  available: boolean;            // 受付期間・休館日・空き状況の確認で問題がない
+  problem: string | null;        // 予約できない理由
+  charges: UsageCharges | null;  // 料金の内訳（入力内容の誤りで計算できない場合は null）
+  tax: UsageTax | null;          // 料金ごとの税抜金額・消費税額
+}
+
+export interface ApplicationQuote {
+  ticket_multiplier: number;
+  usages: UsageQuote[];
+  total_amount: number;          // 料金を計算できた利用明細の合計（税込、空調の見込みは含まない）
+  tax_by_rate: TaxedAmount[];    // total_amount の税率ごとの内訳
+  ac_estimate: number;           // 空調料金の見込みの合計
+  available: boolean;            // すべての利用明細がこのまま申請できる
+  problems: string[];            // 利用明細ごとの問題と設備の在庫不足
+}
+
+export interface PriceUsagesOptions {
+  excludeApplicationId?: number;  // 変更時は自分の予約を空き状況の計算から除外
+  skipBookingWindow?: boolean;    // 職員判断で受付期間チェックを省略
+  userId?: number | null;         // 申請者（利用者区分の受付期間を適用し、空き待ちの案内で確保中の時間帯は空きとして扱う）
+  bookedAt?: Date | string | null; // 既存の予約の予約日時（予約日を基準とする料金改定の方針で使用）
+  usageRules?: UsageDeclaration | null; // 参加予定人数・利用内容（指定した場合は部屋の定員・利用ルールを確認）
+}
+
+/**
+ * 利用明細の検証と料金計算（新規申請・予約変更で共通）
+ */
+export class ReservationPricingService {
+  /**
+   * 利用明細を検証し、保存用の利用データ・設備データと合計金額を作成
+   * 検証エラーは createError（ステータスコード付き）で送出する
+   */
+  async priceUsages(
+    usageDtos: CreateUsageDto[],
+    ticketMultiplier: number,
+    options: PriceUsagesOptions = {}
+  ): Promise<PricedUsages> {
+    const usagesData: any[] = [];
+    const equipmentData: any[] = [];
+    let totalAmount = 0;
+
+    for (let i = 0; i < usageDtos.length; i++) {
+      const { room, usageDto } = await this.resolveUsage(usageDtos[i]);
+      const timeSlots = await this.assertUsage(i, usageDto, room, options);
+
+      const { usageData, equipment } = await this.priceUsage(
+        usageDto,
+        room,
+        ticketMultiplier,
+        null,
+        timeSlots,
+        options.bookedAt
+      );
+
+      totalAmount += usageData.subtotal_amount;
+      usagesData.push(usageData);
+
+      // Prepare equipment data
+      if (equipment.length > 0) {
+        equipmentData.push({ usageIndex: i, equipment });
+      }
+    }
+
+    return { usagesData, equipmentData, totalAmount };
+  }
+
+  /**
+   * 利用明細の承認済みの減免を適用した後の金額（変更・キャンセル時の差額計算で使用）
+   * 申請の合計金額（total_amount）と同じく減免後の金額で比較する
+   */
+  reducedAmount(
+    usages: Pick<Usage, 'room_charge_after_multiplier' | 'equipment_charge' | 'subtotal_amount'>[],
+    application: Pick<Application, 'reduction_status' | 'reduction_rate' | 'reduction_scope'>
+  ): number {
+    const reduction = application.reduction_status === 'approved' && application.reduction_scope
+      ? { rate: Number(application.reduction_rate), scope: application.reduction_scope }
+      : null;
+
+    return calculateReducedSubtotal(
+      usages.map((usage) => ({
+        roomChargeAfterMultiplier: Number(usage.room_charge_after_multiplier),
+        equipmentCharge: Number(usage.equipment_charge),
+        subtotalAmount: Number(usage.subtotal_amount),
+      })),
+      reduction
+    );
+  }
+
+  /**
+   * 申請内容の見積もり（申請・変更は行わない）
+   * priceUsages と同じ検証を行うが、予約できない利用明細があってもエラーにせず、
+   * 理由を problem に設定して料金を計算できる範囲で内訳を返す
+   */
+  async quoteUsages(
+    usageDtos: CreateUsageDto[],
+    ticketMultiplier: number,
+    options: PriceUsagesOptions = {}
+  ): Promise<ApplicationQuote> {
+    const usages: UsageQuote[] = [];
+    const problems: string[] = [];
+    const pricedUsages: any[] = [];
+    const pricedEquipment: any[] = [];
+
+    for (let i = 0; i < usageDtos.length; i++) {
+      const quote: UsageQuote = {
+        room_id: usageDtos[i].room_id,
+        room_name: null,
+        date: usageDtos[i].date,
+        available: false,
+        problem: null,
+        charges: null,
+        tax: null,
+      };
+      usages.push(quote);
+
+      try {
+        const { room, usageDto } = await this.resolveUsage(usageDtos[i]);
+        quote.room_name = room.name;
+
+        let timeSlots: ConfiguredTimeSlot[] | undefined;
+        try {
+          timeSlots = await this.assertUsage(i, usageDto, room, options);
+          quote.available = true;
+        } catch (error: any) {
+          if (!error.statusCode) {
+            throw error;
+          }
+          quote.problem = error.message;
+        }
+
+        const { usageData, equipment, charges, tax } = await this.priceUsage(
+          usageDto,
+          room,
+          ticketMultiplier,
+          null,
+          timeSlots,
+          options.bookedAt
+        );
+        quote.charges = charges;
+        quote.tax = tax;
+
+        if (quote.available) {
+          if (equipment.length > 0) {
+            pricedEquipment.push({ usageIndex: pricedUsages.length, equipment });
+          }
+          pricedUsages.push(usageData);
+        }
+      } catch (error: any) {
+        if (!error.statusCode) {
+          throw error;
+        }
+        quote.problem = quote.problem || error.message;
+      }
+
+      if (quote.problem) {
+        problems.push(`Usage ${i + 1}: ${quote.problem}`);
+      }
+    }
+
+    // 設備は部屋をまたいで共有するため、予約できる利用明細をまとめて在庫を確認
+    const equipmentProblem = await ApplicationRepository.checkEquipmentAvailability(
+      pricedUsages,
+      pricedEquipment,
+      options.excludeApplicationId
+    );
+    if (equipmentProblem) {
+      problems.push(equipmentProblem);
+    }
+
+    const { rounding } = await TaxService.getTaxSettings();
+
+    return {
+      ticket_multiplier: ticketMultiplier,
+      usages,
+      total_amount: usages.reduce((sum, usage) => sum + (usage.charges?.subtotalAmount || 0), 0),
+      tax_by_rate: summarizeTaxByRate(
+        usages
+          .filter((usage) => usage.charges && usage.tax)
+          .map((usage) => ({ amount: usage.charges!.subtotalAmount, taxRate: usage.tax!.taxRate })),
+        rounding
+      ),
+      ac_estimate: usages.reduce((sum, usage) => sum + (usage.charges?.breakdown.acEstimate || 0), 0),
+      available: problems.length === 0,
+      problems,
+    };
+  }
+
+  /**
+   * 利用明細の部屋を取得（自由時間制の部屋は時間帯フラグを使用しない）
+   */
+  private async resolveUsage(dto: CreateUsageDto): Promise<{ room: any; usageDto: CreateUsageDto }> {
+    const room = await RoomRepository.findById(dto.room_id);
+    if (!room) {
+      throw createError(`Room ID ${dto.room_id} not found`, 404);
+    }
+
+    const usageDto: CreateUsageDto = room.isFlexibleTime
+      ? {
+          ...dto,
+          use_morning: false,
+          use_afternoon: false,
+          use_evening: false,
+          use_midday_extension: false,
+          use_evening_extension: false,
+        }
+      : dto;
+
+    return { room, usageDto };
+  }
+
+  /**
+   * 利用明細の検証（時間帯予約・自由時間制の予約、定員・利用ルール）
+   * @returns 時間帯予約の場合は予約する時間帯
+   */
+  private async assertUsage(
+    index: number,
+    usageDto: CreateUsageDto,
+    room: any,
+    options: PriceUsagesOptions
+  ): Promise<ConfiguredTimeSlot[] | undefined> {
+    let timeSlots: ConfiguredTimeSlot[] | undefined;
+    if (room.isFlexibleTime) {
+      await this.assertFlexibleUsage(index, usageDto, room, options);
+    } else {
+      timeSlots = await this.assertSlotUsage(index, usageDto, room, options);
+    }
+
+    // Check capacity and usage rules (定員・利用ルールチェック、申告がない場合はレイアウトの指定のみ確認)
+    if (options.usageRules || usageDto.layout_id) {
+      const violations = await UsageRuleService.checkUsage(
+        room,
+        usageDto.layout_id,
+        options.usageRules ?? { expectedAttendees: null, activities: [] }
+      );
+      if (violations.length > 0) {
+        throw createError(`Usage ${index + 1}: ${violations.join(' / ')}`, 400);
+      }
+    }
+
+    return timeSlots;
+  }
+
+  /**
+   * 時間帯予約の検証（入力・受付期間・休館日・空き状況）
+   * @returns 予約する時間帯（開始時刻順）
+   */
+  private async assertSlotUsage(
+    index: number,
+    usageDto: CreateUsageDto,
+    room: any,
+    options: PriceUsagesOptions
+  ): Promise<ConfiguredTimeSlot[]> {
+    // Validate selected time slots
+    const slots = await this.resolveTimeSlots(index, usageDto, room);
+    const validation = validateTimeSlotSelection(slots);
+
+    if (!validation.valid) {
+      throw createError(`Usage ${index + 1}: ${validation.error}`, 400);
+    }
+
+    // Check booking window (予約受付期間チェック、選択した時間帯の最も早い開始時刻で判定)
+    if (!options.skipBookingWindow) {
+      await BookingWindowService.assertWithinWindow(
+        room,
+        { date: usageDto.date, start_time: slots[0].startTime },
+        options.userId
+      );
+    }
+
+    // Check lottery (抽選の対象月は抽選が終わるまで先着順の予約を受け付けない)
+    await this.assertNotInLottery(usageDto, room);
+
+    // Check room / slot closures (休館日チェック)
+    const closure = await ClosureRepository.findConflict(
+      usageDto.room_id,
+      usageDto.date,
+      slots.map((slot) => slot.code)
+    );
+    if (closure) {
+      throw createError(
+        `Room "${room.name}" is closed on ${usageDto.date}${closure.reason ? ` (休館: ${closure.reason})` : ''}`,
+        409
+      );
+    }
+
+    // Check for inventory availability (在庫チェック)
+    const isAvailable = await RoomRepository.checkTimeSlotAvailability(
+      usageDto.room_id,
+      usageDto.date,
+      slots,
+      options.excludeApplicationId,
+      options.userId
+    );
+
+    if (!isAvailable) {
+      throw createError(`Room "${room.name}" is not available on ${usageDto.date} for the requested time slots (満室です)`, 409);
+    }
+
+    return slots;
+  }
+
+  /**
+   * 抽選の結果発表前の月の先着順の予約を拒否（時間帯予約・自由時間制の部屋で共通）
+   */
+  private async assertNotInLottery(usageDto: CreateUsageDto, room: any): Promise<void> {
+    const lottery = await LotteryRepository.findUndrawnRound(usageDto.room_id, usageDto.date.slice(0, 7));
+    if (lottery) {
+      throw createError(`Room "${room.name}" is allocated by lottery for ${lottery.target_month} (抽選の結果発表後にお申し込みください)`, 409);
+    }
+  }
+
+  /**
+   * 部屋の時間帯から予約する時間帯を選択（time_slot_ids、または従来の時間帯フラグ）
+   */
+  private async resolveTimeSlots(index: number, usageDto: CreateUsageDto, room: any): Promise<ConfiguredTimeSlot[]> {
+    const roomSlots = await TimeSlotRepository.findRoomTimeSlots(room.id);
+    const { slots, error } = selectTimeSlots(roomSlots, usageDto);
+    if (error) {
+      throw createError(`Usage ${index + 1}: ${error}`, 400);
+    }
+    return slots;
+  }
+
+  /**
+   * 自由時間制の部屋の検証（開始・終了時刻・営業時間・受付期間・抽選・休館日・時間の重なり）
+   */
+  private async assertFlexibleUsage(
+    index: number,
+    usageDto: CreateUsageDto,
+    room: any,
+    options: PriceUsagesOptions
+  ): Promise<void> {
+    const openingHours = await FlexibleTimeService.getOpeningHours(usageDto.date);
+    if (!openingHours) {
+      throw createError(`Room "${room.name}" is closed on ${usageDto.date} (営業時間外)`, 409);
+    }
+
+    const validation = validateFlexibleTimeRange(
+      room,
+      { startTime: usageDto.start_time, endTime: usageDto.end_time },
+      openingHours
+    );
+    if (!validation.valid) {
+      throw createError(`Usage ${index + 1}: ${validation.error}`, 400);
+    }
+
+    // Check booking window (予約受付期間チェック)
+    if (!options.skipBookingWindow) {
+      await BookingWindowService.assertWithinWindow(room, usageDto, options.userId);
+    }
+
+    // Check lottery (抽選の対象月は抽選が終わるまで先着順の予約を受け付けない)
+    await this.assertNotInLottery(usageDto, room);
+
+    // Check closures overlapping the time range (休館日チェック)
+    const closure = await ClosureRepository.findTimeRangeConflict(
+      usageDto.room_id,
+      usageDto.date,
+      usageDto.start_time!,
+      usageDto.end_time!
+    );
+    if (closure) {
+      throw createError(
+        `Room "${room.name}" is closed on ${usageDto.date}${closure.reason ? ` (休館: ${closure.reason})` : ''}`,
+        409
+      );
+    }
+
+    // Check overlapping bookings (時間の重なりチェック)
+    const isAvailable = await RoomRepository.checkTimeRangeAvailability(
+      usageDto.room_id,
+      usageDto.date,
+      usageDto.start_time!,
+      usageDto.end_time!,
+      options.excludeApplicationId
+    );
+
+    if (!isAvailable) {
+      throw createError(
+        `Room "${room.name}" is not available on ${usageDto.date} from ${usageDto.start_time} to ${usageDto.end_time} (満室です)`,
+        409
+      );
+    }
+  }
+
+  /**
+   * 1件の利用明細の料金を計算（空き状況・受付期間のチェックは行わない）
+   *
+   * @param acHours - 空調の実使用時間（職員が入力済みの場合のみ）
+   * @param timeSlots - 予約する時間帯（省略時は部屋の時間帯から選択）
+   * @param bookedAt - 既存の予約の予約日時（新規申請は省略）
+   */
+  async priceUsage(
+    usageDto: CreateUsageDto,
+    room: any,
+    ticketMultiplier: number,
+    acHours: number | null = null,
+    timeSlots?: ConfiguredTimeSlot[],
+    bookedAt?: Date | string | null
+  ): Promise<{ usageData: any; equipment: any[]; charges: UsageCharges; tax: UsageTax }> {
+    // 時間帯予約は選択した時間帯から従来の時間帯フラグを設定
+    const selectedSlots = room.isFlexibleTime ? undefined : timeSlots || (await this.resolveTimeSlots(0, usageDto, room));
+    if (selectedSlots) {
+      usageDto = { ...usageDto, ...legacySlotFlags(selectedSlots), time_slot_ids: selectedSlots.map((slot) => slot.id) };
+    }
+
+    // 料金改定の方針に応じて利用日または予約日に有効な料金表で計算
+    const tariffDate = await PriceRevisionService.getTariffDate(usageDto.date, bookedAt);
+    const priced = await PriceRevisionService.priceRoom(room, selectedSlots, tariffDate);
+    const slots = priced.slots;
+    room = priced.room;
+
+    // Get equipment data
+    const equipmentUsages: any[] = [];
+    if (usageDto.equipment && usageDto.equipment.length > 0) {
+      const equipmentIds = usageDto.equipment.map((e) => e.equipment_id);
+      const equipmentItems = await EquipmentRepository.findByIds(equipmentIds);
+      const equipmentTariffs = await PriceRevisionService.getEquipmentTariffs(equipmentIds, tariffDate);
+
+      for (const equipDto of usageDto.equipment) {
+        const equipment = equipmentItems.find((e) => e.id === equipDto.equipment_id);
+        if (!equipment) {
+          throw createError(`Equipment ID ${equipDto.equipment_id} not found`, 404);
+        }
+
+        if (equipDto.quantity > equipment.max_quantity) {
+          throw createError(
+            `Equipment "${equipment.name}" quantity exceeds maximum (${equipment.max_quantity})`,
+            400
+          );
+        }
+
+        // Calculate slot count（通常の時間帯の数、自由時間制の部屋は1予約を1枠として数える）
+        const slotCount = slots ? countRegularSlots(slots) : usageDto.start_time ? 1 : 0;
+
+        const tariff = equipmentTariffs.get(equipment.id);
+        equipmentUsages.push({
+          equipmentId: equipment.id,
+          priceType: tariff?.priceType ?? equipment.price_type,
+          unitPrice: tariff?.unitPrice ?? equipment.unit_price,
+          quantity: equipDto.quantity,
+          slotCount,
+        });
+      }
+    }
+
+    // Calculate charges for this usage
+    const charges = await calculateUsageCharges(
+      room,
+      {
+        useMorning: usageDto.use_morning,
+        useAfternoon: usageDto.use_afternoon,
+        useEvening: usageDto.use_evening,
+        useMiddayExtension: usageDto.use_midday_extension,
+        useEveningExtension: usageDto.use_evening_extension,
+        acRequested: usageDto.ac_requested,
+        acHours: acHours ?? undefined, // Will be filled by staff later
+        startTime: usageDto.start_time,
+        endTime: usageDto.end_time,
+        timeSlots: slots,
+      },
+      equipmentUsages,
+      ticketMultiplier,
+      usageDto.date,
+      // 料金期間は料金改定の方針にかかわらず利用日で判定
+      await PricingPeriodService.getPeriodsForDate(usageDto.date)
+    );
+    const tax = calculateUsageTax(charges, await TaxService.getTaxSettings());
+
+    return {
+      usageData: {
+        room_id: usageDto.room_id,
+        date: usageDto.date,
+        use_morning: usageDto.use_morning,
+        use_afternoon: usageDto.use_afternoon,
+        use_evening: usageDto.use_evening,
+        use_midday_extension: usageDto.use_midday_extension,
+        use_evening_extension: usageDto.use_evening_extension,
+        start_time: room.isFlexibleTime ? usageDto.start_time || null : null,
+        end_time: room.isFlexibleTime ? usageDto.end_time || null : null,
+        time_slot_ids: usageDto.time_slot_ids,
+        layout_id: usageDto.layout_id ?? null,
+        ac_requested: usageDto.ac_requested,
+        ac_hours: acHours,
+        room_base_charge_before_multiplier: charges.roomBaseChargeBeforeMultiplier,
+        room_charge_after_multiplier: charges.roomChargeAfterMultiplier,
+        equipment_charge: charges.equipmentCharge,
+        ac_charge: charges.acCharge,
+        subtotal_amount: charges.subtotalAmount,
+        tax_rate: tax.taxRate,
+        room_charge_excluding_tax: tax.room.taxExcludedAmount,
+        room_tax_amount: tax.room.taxAmount,
+        equipment_charge_excluding_tax: tax.equipment.taxExcludedAmount,
+        equipment_tax_amount: tax.equipment.taxAmount,
+        ac_charge_excluding_tax: tax.ac.taxExcludedAmount,
+        ac_tax_amount: tax.ac.taxAmount,
+      },
+      equipment: equipmentUsages.map((e, idx) => ({
+        equipment_id: usageDto.equipment[idx].equipment_id,
+        quantity: usageDto.equipment[idx].quantity,
+        slot_count: e.slotCount,
+        line_amount: e.priceType === 'per_slot'
+          ? e.unitPrice * e.quantity * e.slotCount
+          : e.priceType === 'flat'
+          ? e.unitPrice
+          : 0,
+      })),
+      charges,
+      tax,
+    };
+  }
+}
+
+export default new ReservationPricingService();
@@ -54,6 +54,7 @@ export class StaffDashboardService {
            SELECT 1 FROM applications a
            WHERE a.id = u.application_id
            AND a.cancel_status = 'none'
+           AND u.cancel_status = 'none'
          )`
     );
     return rows[0]?.count || 0;
@@ -71,6 +72,7 @@ export class StaffDashboardService {
            SELECT 1 FROM applications a
            WHERE a.id = u.application_id
            AND a.cancel_status = 'none'
+           AND u.cancel_status = 'none'
          )`
     );
     return rows[0]?.count || 0;
@@ -193,6 +195,7 @@ export class StaffDashboardService {
        JOIN applications a ON u.application_id = a.id
        WHERE u.date = CURDATE()
          AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'
        ORDER BY
          u.use_morning DESC,
          u.use_afternoon DESC,
@@ -230,7 +233,9 @@ export class StaffDashboardService {
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT
          DATE(a.created_at) as date,
-         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.total_amount - a.cancellation_fee ELSE 0 END), 0) as revenue
+         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.total_amount - a.cancellation_fee ELSE 0 END), 0) as revenue,
+         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.reduction_amount ELSE 0 END), 0) as reduction,
+         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.tax_amount ELSE 0 END), 0) as tax
        FROM applications a
        WHERE YEAR(a.created_at) = ?
          AND MONTH(a.created_at) = ?
@@ -242,7 +247,9 @@ export class StaffDashboardService {
     // 月の総売上を計算
     const [totalRows] = await pool.query<RowDataPacket[]>(
       `SELECT
-         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN total_amount - cancellation_fee ELSE 0 END), 0) as total
+         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN total_amount - cancellation_fee ELSE 0 END), 0) as total,
+         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN reduction_amount ELSE 0 END), 0) as reduction,
+         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN tax_amount ELSE 0 END), 0) as tax
        FROM applications
        WHERE YEAR(created_at) = ?
          AND MONTH(created_at) = ?`,
@@ -253,8 +260,18 @@ export class StaffDashboardService {
       dailyRevenue: rows.map(row => ({
         date: row.date,
         revenue: Number(row.revenue || 0),
+        originalRevenue: Number(row.revenue || 0) + Number(row.reduction || 0),
+        reductionAmount: Number(row.reduction || 0),
+        taxAmount: Number(row.tax || 0),
+        taxExcludedRevenue: Number(row.revenue || 0) - Number(row.tax || 0),
       })),
       totalRevenue: Number(totalRows[0]?.total || 0),
+      // 減免前の売上と減免額（revenue は減免後の実収入）
+      totalOriginalRevenue: Number(totalRows[0]?.total || 0) + Number(totalRows[0]?.reduction || 0),
+      totalReductionAmount: Number(totalRows[0]?.reduction || 0),
+      // 消費税額と税抜売上（キャンセル料は不課税のため売上に含まない）
+      totalTaxAmount: Number(totalRows[0]?.tax || 0),
+      totalTaxExcludedRevenue: Number(totalRows[0]?.total || 0) - Number(totalRows[0]?.tax || 0),
     };
   }
 
@@ -266,7 +283,9 @@ export class StaffDashboardService {
     const [rows] = await pool.query<RowDataPacket[]>(
       `SELECT
          DATE(a.created_at) as date,
-         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.total_amount - a.cancellation_fee ELSE 0 END), 0) as revenue
+         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.total_amount - a.cancellation_fee ELSE 0 END), 0) as revenue,
+         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.reduction_amount ELSE 0 END), 0) as reduction,
+         COALESCE(SUM(CASE WHEN a.payment_status = 'paid' THEN a.tax_amount ELSE 0 END), 0) as tax
        FROM applications a
        WHERE DATE(a.created_at) >= DATE(?)
          AND DATE(a.created_at) <= DATE(?)
@@ -278,7 +297,9 @@ export class StaffDashboardService {
     // 期間の総売上を計算
     const [totalRows] = await pool.query<RowDataPacket[]>(
       `SELECT
-         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN total_amount - cancellation_fee ELSE 0 END), 0) as total
+         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN total_amount - cancellation_fee ELSE 0 END), 0) as total,
+         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN reduction_amount ELSE 0 END), 0) as reduction,
+         COALESCE(SUM(CASE WHEN payment_status = 'paid' THEN tax_amount ELSE 0 END), 0) as tax
        FROM applications
        WHERE DATE(created_at) >= DATE(?)
          AND DATE(created_at) <= DATE(?)`,
@@ -289,8 +310,18 @@ export class StaffDashboardService {
       dailyRevenue: rows.map(row => ({
         date: row.date,
         revenue: Number(row.revenue || 0),
+        originalRevenue: Number(row.revenue || 0) + Number(row.reduction || 0),
+        reductionAmount: Number(row.reduction || 0),
+        taxAmount: Number(row.tax || 0),
+        taxExcludedRevenue: Number(row.revenue || 0) - Number(row.tax || 0),
       })),
       totalRevenue: Number(totalRows[0]?.total || 0),
+      // 減免前の売上と減免額（revenue は減免後の実収入）
+      totalOriginalRevenue: Number(totalRows[0]?.total || 0) + Number(totalRows[0]?.reduction || 0),
+      totalReductionAmount: Number(totalRows[0]?.reduction || 0),
+      // 消費税額と税抜売上（キャンセル料は不課税のため売上に含まない）
+      totalTaxAmount: Number(totalRows[0]?.tax || 0),
+      totalTaxExcludedRevenue: Number(totalRows[0]?.total || 0) - Number(totalRows[0]?.tax || 0),
     };
   }
 
@@ -335,6 +366,7 @@ export class StaffDashboardService {
 
     query += `
       AND (a.cancel_status = 'none' OR a.cancel_status IS NULL)
+      AND u.cancel_status = 'none'
       GROUP BY r.id, r.name
       ORDER BY usage_count DESC
     `;
@@ -1,8 +1,14 @@
 import { pool } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import RoomRepository from '../models/RoomRepository';
+import RoomCompositionRepository from '../models/RoomCompositionRepository';
 import EquipmentRepository from '../models/EquipmentRepository';
+import PriceRevisionService from './PriceRevisionService';
 import { Room, Equipment, ClosedDate } from '../models/types';
+import { TimeRange } from '../utils/flexibleTime';
+import { maxAllocatedQuantity } from '../utils/equipmentStock';
+import { validateRoomComposition } from '../utils/roomComposition';
+import { createError } from '../middleware/errorHandler';
 
 export interface CreateRoomDto {
   name: string;
@@ -27,6 +33,24 @@ export interface CreateEquipmentDto {
   remark: string | null;
 }
 
+export interface EquipmentDayAllocation {
+  id: number;
+  name: string;
+  category: Equipment['category'];
+  max_quantity: number;
+  peak_quantity: number; // 同時に貸し出している数量の最大値
+  remaining: number;     // 最も混み合う時間の残数
+  bookings: {
+    application_id: number;
+    usage_id: number;
+    room_name: string;
+    event_name: string;
+    applicant_representative: string;
+    quantity: number;
+    time_ranges: TimeRange[];
+  }[];
+}
+
 export interface CreateClosedDateDto {
   date: Date;
   reason: string;
@@ -42,10 +66,53 @@ export class StaffFacilityManagementService {
    * 部屋一覧を取得
    */
   async getRooms(includeInactive: boolean = false): Promise<Room[]> {
-    if (includeInactive) {
-      return RoomRepository.findAll();
+    await PriceRevisionService.applyDueRevisions();
+    const rooms: Room[] = includeInactive ? await RoomRepository.findAll() : await RoomRepository.findAllActive();
+
+    // 全体の部屋には構成する部屋を付ける
+    const compositions = await RoomCompositionRepository.findAll();
+    return rooms.map((room) => ({
+      ...room,
+      partRoomIds: compositions
+        .filter((composition) => composition.combinedRoomId === room.id)
+        .map((composition) => composition.partRoomId),
+    }));
+  }
+
+  /**
+   * 全体の部屋を構成する部屋を設定（空の場合は構成を解除）
+   * 全体の部屋の予約は構成する部屋をすべて使えなくし、構成する部屋の予約は全体の部屋を使えなくする
+   */
+  async setRoomParts(roomId: number, staffId: number, partRoomIds: number[]): Promise<number[]> {
+    const room = await RoomRepository.findById(roomId);
+    if (!room) {
+      throw createError('Room not found', 404);
+    }
+
+    for (const partRoomId of partRoomIds) {
+      if (!(await RoomRepository.findById(partRoomId))) {
+        throw createError(`Room ID ${partRoomId} not found`, 400);
+      }
     }
-    return RoomRepository.findAllActive();
+
+    const validation = validateRoomComposition(await RoomCompositionRepository.findAll(), roomId, partRoomIds);
+    if (!validation.valid) {
+      throw createError(validation.error!, 400);
+    }
+
+    await RoomCompositionRepository.replaceParts(roomId, partRoomIds);
+
+    await this.logActivity(
+      staffId,
+      'update',
+      'room',
+      roomId,
+      partRoomIds.length > 0
+        ? `Room composition updated: ${room.name} = rooms ${partRoomIds.join(', ')}`
+        : `Room composition removed: ${room.name}`
+    );
+
+    return RoomCompositionRepository.findPartRoomIds(roomId);
   }
 
   /**
@@ -53,6 +120,7 @@ export class StaffFacilityManagementService {
    */
   async createRoom(staffId: number, data: CreateRoomDto): Promise<Room> {
     const room = await RoomRepository.create(data as any);
+    await PriceRevisionService.recordRoomPrices(room.id, staffId);
 
     await this.logActivity(
       staffId,
@@ -73,12 +141,18 @@ export class StaffFacilityManagementService {
     staffId: number,
     updates: Partial<Room>
   ): Promise<void> {
+    // 適用開始日を迎えた改定を反映してから変更（変更後の料金は今日から有効な料金表として記録）
+    await PriceRevisionService.applyDueRevisions();
+
     const room = await RoomRepository.findById(roomId);
     if (!room) {
       throw new Error('Room not found');
     }
 
     await RoomRepository.update(roomId, updates);
+    if (PriceRevisionService.hasPriceChanges(updates)) {
+      await PriceRevisionService.recordRoomPrices(roomId, staffId);
+    }
 
     await this.logActivity(
       staffId,
@@ -105,7 +179,8 @@ export class StaffFacilityManagementService {
        JOIN applications a ON u.application_id = a.id
        WHERE u.room_id = ?
          AND u.date >= CURDATE()
-         AND a.cancel_status = 'none'`,
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'`,
       [roomId]
     );
 
@@ -191,6 +266,7 @@ export class StaffFacilityManagementService {
       JOIN applications a ON u.application_id = a.id
       WHERE u.room_id = ?
         AND a.cancel_status = 'none'
+        AND u.cancel_status = 'none'
     `;
 
     const params: any[] = [roomId];
@@ -223,6 +299,7 @@ export class StaffFacilityManagementService {
    * 設備一覧を取得
    */
   async getEquipment(includeDisabled: boolean = false): Promise<Equipment[]> {
+    await PriceRevisionService.applyDueRevisions();
     if (includeDisabled) {
       return EquipmentRepository.findAll();
     }
@@ -234,6 +311,7 @@ export class StaffFacilityManagementService {
    */
   async createEquipment(staffId: number, data: CreateEquipmentDto): Promise<Equipment> {
     const equipment = await EquipmentRepository.create(data);
+    await PriceRevisionService.recordEquipmentPrices(equipment.id, staffId);
 
     await this.logActivity(
       staffId,
@@ -254,12 +332,17 @@ export class StaffFacilityManagementService {
     staffId: number,
     updates: Partial<Equipment>
   ): Promise<void> {
+    await PriceRevisionService.applyDueRevisions();
+
     const equipment = await EquipmentRepository.findById(equipmentId);
     if (!equipment) {
       throw new Error('Equipment not found');
     }
 
     await EquipmentRepository.update(equipmentId, updates);
+    if (PriceRevisionService.hasPriceChanges(updates)) {
+      await PriceRevisionService.recordEquipmentPrices(equipmentId, staffId);
+    }
 
     await this.logActivity(
       staffId,
@@ -305,6 +388,7 @@ export class StaffFacilityManagementService {
       JOIN applications a ON u.application_id = a.id
       WHERE ue.equipment_id = ?
         AND a.cancel_status = 'none'
+        AND u.cancel_status = 'none'
     `;
 
     const params: any[] = [equipmentId];
@@ -328,6 +412,68 @@ export class StaffFacilityManagementService {
     };
   }
 
+  /**
+   * 指定日の設備の貸し出し状況（全部屋の予約で共有する保有数に対する割り当て）
+   */
+  async getEquipmentAllocations(date: string): Promise<EquipmentDayAllocation[]> {
+    const equipment = await EquipmentRepository.findAll();
+    const allocations = await EquipmentRepository.findAllocations(null, date, date);
+
+    const usageIds = Array.from(new Set(allocations.map((a) => a.usageId)));
+    const [usageRows] = usageIds.length > 0
+      ? await pool.query<RowDataPacket[]>(
+        `SELECT u.id, r.name as room_name, a.event_name, a.applicant_representative
+         FROM usages u
+         JOIN rooms r ON u.room_id = r.id
+         JOIN applications a ON u.application_id = a.id
+         WHERE u.id IN (?)`,
+        [usageIds]
+      )
+      : [[] as RowDataPacket[]];
+    const usages = new Map(usageRows.map((row) => [Number(row.id), row]));
+
+    // 無効な設備は貸し出しがある場合のみ表示
+    return equipment
+      .filter((item) => item.enabled || allocations.some((a) => a.equipmentId === item.id))
+      .map((item) => {
+        const itemAllocations = allocations.filter((a) => a.equipmentId === item.id);
+        const peak = maxAllocatedQuantity(itemAllocations, { startTime: '00:00', endTime: '24:00' });
+
+        const bookings = new Map<number, EquipmentDayAllocation['bookings'][number]>();
+        for (const allocation of itemAllocations) {
+          if (!bookings.has(allocation.usageId)) {
+            const usage = usages.get(allocation.usageId);
+            bookings.set(allocation.usageId, {
+              application_id: allocation.applicationId,
+              usage_id: allocation.usageId,
+              room_name: usage?.room_name || '',
+              event_name: usage?.event_name || '',
+              applicant_representative: usage?.applicant_representative || '',
+              quantity: allocation.quantity,
+              time_ranges: [],
+            });
+          }
+          bookings.get(allocation.usageId)!.time_ranges.push({
+            startTime: allocation.startTime,
+            endTime: allocation.endTime,
+          });
+        }
+
+        return {
+          id: item.id,
+          name: item.name,
+          category: item.category,
+          max_quantity: Number(item.maxQuantity),
+          peak_quantity: peak,
+          remaining: Math.max(0, Number(item.maxQuantity) - peak),
+          bookings: Array.from(bookings.values()).map((booking) => ({
+            ...booking,
+            time_ranges: booking.time_ranges.sort((a, b) => a.startTime.localeCompare(b.startTime)),
+          })),
+        };
+      });
+  }
+
   // ===== 休館日管理 =====
 
   /**
@@ -364,7 +510,8 @@ export class StaffFacilityManagementService {
        FROM usages u
        JOIN applications a ON u.application_id = a.id
        WHERE u.date = ?
-         AND a.cancel_status = 'none'`,
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'`,
       [data.date]
     );
 
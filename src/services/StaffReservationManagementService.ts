@@ -1,12 +1,28 @@
 import { pool } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import ApplicationRepository from '../models/ApplicationRepository';
+import { Application, CreateUsageDto, HoldStatus, OccurrenceScope } from '../models/types';
 import PaymentService from './PaymentService';
+import PartialCancellationService, {
+  CancellableSlot,
+  MultipleCancellationResult,
+  PartialCancellationResult,
+} from './PartialCancellationService';
+import RecurringReservationService, { OccurrenceModificationResult } from './RecurringReservationService';
+import WaitlistService from './WaitlistService';
+import CancellationPolicyService, { CancellationFeePreview } from './CancellationPolicyService';
+import TentativeHoldService from './TentativeHoldService';
+import FeeReductionService from './FeeReductionService';
+import TaxService from './TaxService';
+import { notificationService } from './NotificationService';
+import { createError } from '../middleware/errorHandler';
 
 export interface ReservationFilter {
   status?: 'all' | 'upcoming' | 'past' | 'cancelled';
   paymentStatus?: 'all' | 'unpaid' | 'paid' | 'refunded';
   cancelStatus?: 'none' | 'cancelled';
+  approvalStatus?: 'not_required' | 'pending' | 'approved' | 'rejected';
+  holdStatus?: HoldStatus;
   roomId?: number;
   userId?: number;
   startDate?: Date;
@@ -21,8 +37,14 @@ export interface ReservationListItem {
   applicantEmail: string;
   applicantPhone: string;
   totalAmount: number;
+  originalAmount: number;  // 減免前の金額
+  reductionAmount: number;
+  reductionStatus: string;
   paymentStatus: string;
   cancelStatus: string;
+  approvalStatus: string;
+  holdStatus: string;
+  holdExpiresAt: Date | null;
   createdAt: Date;
   firstUsageDate: Date | null;
   lastUsageDate: Date | null;
@@ -51,6 +73,8 @@ export class StaffReservationManagementService {
       useEvening: usage.use_evening,
       useMiddayExtension: usage.use_midday_extension,
       useEveningExtension: usage.use_evening_extension,
+      startTime: usage.start_time,
+      endTime: usage.end_time,
       acRequested: usage.ac_requested,
       acHours: usage.ac_hours,
       roomBaseChargeBeforeMultiplier: usage.room_base_charge_before_multiplier,
@@ -58,6 +82,9 @@ export class StaffReservationManagementService {
       equipmentCharge: usage.equipment_charge,
       acCharge: usage.ac_charge,
       subtotalAmount: usage.subtotal_amount,
+      cancelStatus: usage.cancel_status,
+      cancelledAt: usage.cancelled_at,
+      cancellationFee: usage.cancellation_fee,
       roomName: usage.room_name,
       capacity: usage.capacity,
       createdAt: usage.created_at,
@@ -69,6 +96,9 @@ export class StaffReservationManagementService {
    * 予約一覧を取得（フィルタ・検索機能付き）
    */
   async getReservations(filter: ReservationFilter = {}): Promise<ReservationListItem[]> {
+    // 期限切れの仮予約を取り消してから一覧を返す
+    await TentativeHoldService.processExpiredHolds();
+
     let query = `
       SELECT
         a.id,
@@ -77,8 +107,13 @@ export class StaffReservationManagementService {
         a.applicant_email,
         a.applicant_phone,
         a.total_amount,
+        a.reduction_amount,
+        a.reduction_status,
         a.payment_status,
         a.cancel_status,
+        a.approval_status,
+        a.hold_status,
+        a.hold_expires_at,
         a.created_at,
         a.user_id,
         u.name as user_name,
@@ -117,6 +152,18 @@ export class StaffReservationManagementService {
       params.push(filter.paymentStatus);
     }
 
+    // 承認ステータスフィルタ
+    if (filter.approvalStatus) {
+      query += ' AND a.approval_status = ?';
+      params.push(filter.approvalStatus);
+    }
+
+    // 仮予約フィルタ
+    if (filter.holdStatus) {
+      query += ' AND a.hold_status = ?';
+      params.push(filter.holdStatus);
+    }
+
     // 部屋フィルタ
     if (filter.roomId) {
       query += ' AND EXISTS (SELECT 1 FROM usages us3 WHERE us3.application_id = a.id AND us3.room_id = ?)';
@@ -186,8 +233,14 @@ export class StaffReservationManagementService {
         applicantEmail: row.applicant_email,
         applicantPhone: row.applicant_phone,
         totalAmount: row.total_amount,
+        originalAmount: row.total_amount + row.reduction_amount,
+        reductionAmount: row.reduction_amount,
+        reductionStatus: row.reduction_status,
         paymentStatus: row.payment_status,
         cancelStatus: row.cancel_status,
+        approvalStatus: row.approval_status,
+        holdStatus: row.hold_status,
+        holdExpiresAt: row.hold_expires_at,
         createdAt: row.created_at,
         firstUsageDate: row.first_usage_date,
         lastUsageDate: row.last_usage_date,
@@ -249,65 +302,241 @@ export class StaffReservationManagementService {
       user = userRows[0] || null;
     }
 
+    // 承認・却下履歴を取得
+    const [approvals] = await pool.query<RowDataPacket[]>(
+      `SELECT
+         aa.*,
+         u.name as staff_name
+       FROM application_approvals aa
+       LEFT JOIN users u ON aa.staff_id = u.id
+       WHERE aa.application_id = ?
+       ORDER BY aa.created_at DESC`,
+      [applicationId]
+    );
+
     return {
       application,
       usages: usagesCamelCase,
       equipmentUsages,
       user,
+      approvals,
+      feeReduction: await FeeReductionService.getSummary(application),
+      tax: await TaxService.getApplicationTaxDetail(application),
     };
   }
 
   /**
-   * 職員による予約キャンセル
+   * 承認待ちの予約を承認
    */
-  async cancelReservation(applicationId: number, staffId: number, reason?: string): Promise<void> {
+  async approveReservation(applicationId: number, staffId: number, comment?: string): Promise<void> {
+    const application = await this.recordApprovalDecision(
+      applicationId,
+      staffId,
+      'approved',
+      comment,
+      "approval_status = 'approved'"
+    );
+
+    await this.logActivity(staffId, 'approve', 'application', applicationId, comment || 'Reservation approved');
+
+    if (application.user_id) {
+      await notificationService.sendApplicationApprovedNotification(applicationId, application.user_id);
+    }
+  }
+
+  /**
+   * 承認待ちの予約を却下（枠を解放するためキャンセル扱いにする）
+   */
+  async rejectReservation(applicationId: number, staffId: number, comment?: string): Promise<void> {
+    const application = await this.recordApprovalDecision(
+      applicationId,
+      staffId,
+      'rejected',
+      comment,
+      "approval_status = 'rejected', cancel_status = 'cancelled', cancelled_at = NOW(), cancellation_fee = 0"
+    );
+
+    await this.logActivity(staffId, 'reject', 'application', applicationId, comment || 'Reservation rejected');
+
+    // 解放した時間帯の空き待ちに案内
+    await WaitlistService.offerReleasedApplication(applicationId);
+
+    if (application.user_id) {
+      await notificationService.sendApplicationRejectedNotification(applicationId, application.user_id, comment);
+    }
+  }
+
+  /**
+   * 承認待ちの予約の状態を更新し、承認・却下履歴を記録
+   * （承認待ちの場合のみ更新するため、同時操作でも判定は一度だけ）
+   */
+  private async recordApprovalDecision(
+    applicationId: number,
+    staffId: number,
+    action: 'approved' | 'rejected',
+    comment: string | undefined,
+    assignments: string
+  ): Promise<Application> {
     const application = await ApplicationRepository.findById(applicationId);
     if (!application) {
+      throw createError('Reservation not found', 404);
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [result] = await connection.query<ResultSetHeader>(
+        `UPDATE applications SET ${assignments}
+         WHERE id = ? AND approval_status = 'pending' AND cancel_status = 'none'`,
+        [applicationId]
+      );
+
+      if (result.affectedRows === 0) {
+        throw createError('Reservation is not awaiting approval', 409);
+      }
+
+      await connection.query(
+        `INSERT INTO application_approvals (application_id, staff_id, action, comment)
+         VALUES (?, ?, ?, ?)`,
+        [applicationId, staffId, action, comment || null]
+      );
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    return application;
+  }
+
+  /**
+   * 職員による予約キャンセル
+   * キャンセル料は予約に保存されたキャンセル料ポリシーの版で計算する（仮押さえ中の仮予約はキャンセル料なし）
+   */
+  async cancelReservation(applicationId: number, staffId: number, reason?: string): Promise<CancellationFeePreview> {
+    const result = await ApplicationRepository.findByIdWithDetails(applicationId);
+    if (!result) {
       throw new Error('Reservation not found');
     }
 
+    const { application, usages } = result;
     if (application.cancel_status === 'cancelled') {
       throw new Error('Reservation is already cancelled');
     }
 
-    // 利用日を確認
-    const [usages] = await pool.query<RowDataPacket[]>(
-      'SELECT MIN(date) as first_date FROM usages WHERE application_id = ?',
-      [applicationId]
-    );
+    // キャンセル料を計算（部分キャンセルで確定済みのキャンセル料は引き継ぐ）
+    const preview = await CancellationPolicyService.previewCancellation(application, usages);
 
-    const firstUsageDate = usages[0]?.first_date;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // キャンセル料を計算
-    let cancellationFee = 0;
-    if (firstUsageDate && new Date(firstUsageDate) <= today) {
-      // 利用日当日または過去の場合は100%キャンセル料
-      cancellationFee = application.total_amount;
-    }
+    // 予約をキャンセル
+    await ApplicationRepository.cancel(applicationId, preview.cancellation_fee);
 
     // 返金処理
-    const refundAmount = application.total_amount - cancellationFee;
-    if (refundAmount > 0 && application.payment_status === 'paid') {
-      // TODO: Implement PaymentService.processRefund method
-      // await PaymentService.processRefund(
-      //   application.payment_provider_id || '',
-      //   refundAmount,
-      //   `Cancelled by staff (ID: ${staffId})`
-      // );
-      await ApplicationRepository.update(applicationId, { payment_status: 'refunded' });
+    if (preview.refund_amount > 0 && application.payment_provider_id) {
+      await PaymentService.refundPayment(application.payment_provider_id, preview.refund_amount);
+      await ApplicationRepository.updatePaymentStatus(applicationId, 'refunded', application.payment_provider_id);
     }
 
-    // 予約をキャンセル
-    await ApplicationRepository.update(applicationId, {
-      cancel_status: 'cancelled',
-      cancelled_at: new Date(),
-      cancellation_fee: cancellationFee,
-    });
+    // 空いた時間帯の空き待ちに案内
+    await WaitlistService.offerReleasedApplication(applicationId);
 
     // アクティビティログに記録
-    await this.logActivity(staffId, 'cancel', 'application', applicationId, reason || 'Cancelled by staff');
+    await this.logActivity(
+      staffId,
+      'cancel',
+      'application',
+      applicationId,
+      `${reason || 'Cancelled by staff'} (fee: ${preview.cancellation_fee}, refund: ${preview.refund_amount})`
+    );
+
+    return preview;
+  }
+
+  /**
+   * 利用明細（または利用明細内の時間帯）を職員がキャンセル
+   */
+  async cancelUsage(
+    applicationId: number,
+    usageId: number,
+    staffId: number,
+    slot?: CancellableSlot,
+    reason?: string
+  ): Promise<PartialCancellationResult> {
+    const result = await PartialCancellationService.cancelUsage(applicationId, usageId, {
+      slot,
+      modifiedBy: staffId,
+      reason: reason || 'Partially cancelled by staff',
+    });
+
+    await this.logActivity(
+      staffId,
+      'cancel_usage',
+      'application',
+      applicationId,
+      `Usage #${usageId}${slot ? ` (${slot})` : ''} cancelled, fee: ${result.cancellationFee}${reason ? `, reason: ${reason}` : ''}`
+    );
+
+    return result;
+  }
+
+  /**
+   * 定期予約のこの回以降を職員がキャンセル
+   */
+  async cancelFutureOccurrences(
+    applicationId: number,
+    usageId: number,
+    staffId: number,
+    reason?: string
+  ): Promise<MultipleCancellationResult> {
+    const result = await RecurringReservationService.cancelFutureOccurrences(applicationId, usageId, {
+      modifiedBy: staffId,
+      reason: reason || 'Recurring reservation cancelled by staff from this occurrence onwards',
+    });
+
+    await this.logActivity(
+      staffId,
+      'cancel_usage',
+      'application',
+      applicationId,
+      `Usages ${result.usages.map((usage) => `#${usage.id}`).join(', ')} cancelled, fee: ${result.cancellationFee}${reason ? `, reason: ${reason}` : ''}`
+    );
+
+    return result;
+  }
+
+  /**
+   * 定期予約の回を職員が変更（予約受付期間のチェックは行わない）
+   */
+  async modifyOccurrences(
+    applicationId: number,
+    usageId: number,
+    staffId: number,
+    scope: OccurrenceScope,
+    changes: Partial<CreateUsageDto>,
+    confirm: boolean,
+    reason?: string
+  ): Promise<OccurrenceModificationResult> {
+    const result = await RecurringReservationService.modifyOccurrences(applicationId, usageId, scope, changes, {
+      modifiedBy: staffId,
+      reason: reason || 'Modified by staff',
+      confirm,
+      skipBookingWindow: true,
+    });
+
+    if (result.confirmed) {
+      await this.logActivity(
+        staffId,
+        'update',
+        'application',
+        applicationId,
+        `Usage #${usageId} modified (${scope === 'future' ? 'this and future occurrences' : 'this occurrence'}), total: ${result.currentTotal} -> ${result.newTotal}`
+      );
+    }
+
+    return result;
   }
 
   /**
@@ -2,7 +2,9 @@ import { pool } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import UsageRepository from '../models/UsageRepository';
 import RoomRepository from '../models/RoomRepository';
-import { calculateUsageCharges } from '../utils/pricing';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import ApplicationRepository from '../models/ApplicationRepository';
+import ReservationPricingService from './ReservationPricingService';
 
 export interface UpdateUsageDto {
   acHours?: number | null;
@@ -145,98 +147,114 @@ export class StaffUsageManagementService {
 
   /**
    * 予約の合計金額を再計算
+   * 利用明細ごとに予約時と同じ料金表（料金改定の方針に応じて利用日または予約日に有効なもの）で計算し直すため、
+   * 料金を改定した後に空調の使用時間を入力しても部屋・設備の料金は変わらない
    */
   async recalculateTotalAmount(applicationId: number, staffId: number): Promise<number> {
-    // 申請情報を取得
-    const [applications] = await pool.query<RowDataPacket[]>(
-      'SELECT * FROM applications WHERE id = ?',
-      [applicationId]
-    );
-
-    if (applications.length === 0) {
-      throw new Error('Application not found');
-    }
-
-    const application = applications[0];
-
-    // 利用記録を取得
-    const [usages] = await pool.query<RowDataPacket[]>(
-      `SELECT u.*, r.*
-       FROM usages u
-       JOIN rooms r ON u.room_id = r.id
-       WHERE u.application_id = ?`,
-      [applicationId]
-    );
-
-    let totalAmount = 0;
-
-    for (const usage of usages) {
-      // 各利用の料金を計算
-      const usageInput = {
-        date: usage.date,
-        useMorning: usage.use_morning,
-        useAfternoon: usage.use_afternoon,
-        useEvening: usage.use_evening,
-        useMiddayExtension: usage.use_midday_extension,
-        useEveningExtension: usage.use_evening_extension,
-        acRequested: usage.ac_requested,
-        acHours: usage.ac_hours,
-      };
-
-      // 設備利用情報を取得
-      const [equipments] = await pool.query<RowDataPacket[]>(
-        `SELECT ue.*, e.price_type, e.unit_price
-         FROM usage_equipment ue
-         JOIN equipment e ON ue.equipment_id = e.id
-         WHERE ue.usage_id = ?`,
-        [usage.id]
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    let totalAmount: number;
+    try {
+      const [applications] = await connection.query<RowDataPacket[]>(
+        'SELECT * FROM applications WHERE id = ? FOR UPDATE',
+        [applicationId]
+      );
+      if (applications.length === 0) {
+        throw new Error('Application not found');
+      }
+      const application = applications[0];
+
+      const [usages] = await connection.query<RowDataPacket[]>(
+        `SELECT *, DATE_FORMAT(date, '%Y-%m-%d') as usage_date
+         FROM usages
+         WHERE application_id = ? AND cancel_status = 'none'
+         FOR UPDATE`,
+        [applicationId]
       );
 
-      const equipmentUsages = equipments.map(eq => ({
-        equipmentId: eq.equipment_id,
-        quantity: eq.quantity,
-        priceType: eq.price_type,
-        unitPrice: eq.unit_price,
-      }));
-
-      const room = {
-        id: usage.room_id,
-        name: usage.name,
-        capacity: usage.capacity,
-        basePriceMorning: usage.base_price_morning,
-        basePriceAfternoon: usage.base_price_afternoon,
-        basePriceEvening: usage.base_price_evening,
-        extensionPriceMidday: usage.extension_price_midday,
-        extensionPriceEvening: usage.extension_price_evening,
-        weekendPriceMorning: usage.weekend_price_morning,
-        weekendPriceAfternoon: usage.weekend_price_afternoon,
-        weekendPriceEvening: usage.weekend_price_evening,
-        weekendExtensionPriceMidday: usage.weekend_extension_price_midday,
-        weekendExtensionPriceEvening: usage.weekend_extension_price_evening,
-        acPricePerHour: usage.ac_price_per_hour,
-        description: usage.description,
-        isActive: usage.is_active,
-        createdAt: usage.created_at,
-        updatedAt: usage.updated_at,
-      };
-
-      const charges = await calculateUsageCharges(
-        room,
-        usageInput,
-        equipmentUsages as any,
-        application.ticket_multiplier,
-        usage.date
-      ) as any;
-
-      totalAmount += charges.totalCharge || charges.subtotal || 0;
+      for (const usage of usages) {
+        const room = await RoomRepository.findById(usage.room_id);
+        if (!room) {
+          throw new Error(`Room ID ${usage.room_id} not found`);
+        }
+
+        const [equipments] = await connection.query<RowDataPacket[]>(
+          'SELECT equipment_id, quantity FROM usage_equipment WHERE usage_id = ?',
+          [usage.id]
+        );
+
+        const { usageData, equipment } = await ReservationPricingService.priceUsage(
+          {
+            room_id: usage.room_id,
+            date: usage.usage_date,
+            use_morning: !!usage.use_morning,
+            use_afternoon: !!usage.use_afternoon,
+            use_evening: !!usage.use_evening,
+            use_midday_extension: !!usage.use_midday_extension,
+            use_evening_extension: !!usage.use_evening_extension,
+            start_time: usage.start_time,
+            end_time: usage.end_time,
+            ac_requested: !!usage.ac_requested,
+            equipment: equipments.map((e) => ({ equipment_id: e.equipment_id, quantity: e.quantity })),
+          },
+          room,
+          Number(application.ticket_multiplier),
+          usage.ac_hours === null ? null : Number(usage.ac_hours),
+          room.isFlexibleTime ? undefined : await TimeSlotRepository.findUsageTimeSlots(usage.id, connection),
+          application.created_at
+        );
+
+        await connection.query(
+          `UPDATE usages SET
+            room_base_charge_before_multiplier = ?, room_charge_after_multiplier = ?,
+            equipment_charge = ?, ac_charge = ?, subtotal_amount = ?,
+            tax_rate = ?, room_charge_excluding_tax = ?, room_tax_amount = ?,
+            equipment_charge_excluding_tax = ?, equipment_tax_amount = ?,
+            ac_charge_excluding_tax = ?, ac_tax_amount = ?
+          WHERE id = ?`,
+          [
+            usageData.room_base_charge_before_multiplier,
+            usageData.room_charge_after_multiplier,
+            usageData.equipment_charge,
+            usageData.ac_charge,
+            usageData.subtotal_amount,
+            usageData.tax_rate,
+            usageData.room_charge_excluding_tax,
+            usageData.room_tax_amount,
+            usageData.equipment_charge_excluding_tax,
+            usageData.equipment_tax_amount,
+            usageData.ac_charge_excluding_tax,
+            usageData.ac_tax_amount,
+            usage.id,
+          ]
+        );
+
+        for (const item of equipment) {
+          await connection.query(
+            'UPDATE usage_equipment SET slot_count = ?, line_amount = ? WHERE usage_id = ? AND equipment_id = ?',
+            [item.slot_count, item.line_amount, usage.id, item.equipment_id]
+          );
+        }
+      }
+
+      // 減免・消費税・部分キャンセルのキャンセル料を含めて合計金額を更新
+      await ApplicationRepository.recalculateTotal(connection, applicationId);
+
+      const [totals] = await connection.query<RowDataPacket[]>(
+        'SELECT total_amount FROM applications WHERE id = ?',
+        [applicationId]
+      );
+      totalAmount = Number(totals[0].total_amount);
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
     }
 
-    // 合計金額を更新
-    await pool.query(
-      'UPDATE applications SET total_amount = ? WHERE id = ?',
-      [totalAmount, applicationId]
-    );
-
     await this.logActivity(
       staffId,
       'update',
@@ -258,7 +276,9 @@ export class StaffUsageManagementService {
          r.name as room_name,
          a.event_name,
          a.applicant_representative,
-         a.cancel_status
+         a.cancel_status,
+         a.hold_status,
+         a.hold_expires_at
        FROM usages u
        JOIN rooms r ON u.room_id = r.id
        JOIN applications a ON u.application_id = a.id
@@ -284,7 +304,9 @@ export class StaffUsageManagementService {
          a.event_name,
          a.applicant_representative,
          a.cancel_status,
-         a.payment_status
+         a.payment_status,
+         a.hold_status,
+         a.hold_expires_at
        FROM usages u
        JOIN rooms r ON u.room_id = r.id
        JOIN applications a ON u.application_id = a.id
@@ -313,6 +335,7 @@ export class StaffUsageManagementService {
          AND u.ac_hours IS NULL
          AND u.date < CURDATE()
          AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'
        ORDER BY u.date DESC
        LIMIT 50`
     );
@@ -2,6 +2,10 @@ import { pool } from '../config/database';
 import { RowDataPacket } from 'mysql2';
 import UserRepository from '../models/UserRepository';
 import bcrypt from 'bcrypt';
+import { UserCategory } from '../models/types';
+
+// 利用者区分（予約受付期間の優先度に使用）
+const USER_CATEGORIES: UserCategory[] = ['resident', 'registered_group', 'outside', 'business'];
 
 export interface UserFilter {
   role?: 'user' | 'staff' | 'admin' | 'all';
@@ -25,6 +29,7 @@ export class StaffUserManagementService {
       nickname: user.nickname,
       bio: user.bio,
       organizationName: user.organization_name,
+      userCategory: user.user_category,
       phone: user.phone,
       address: user.address,
       isActive: user.is_active,
@@ -54,6 +59,7 @@ export class StaffUserManagementService {
         email,
         name,
         organization_name,
+        user_category,
         phone,
         address,
         is_active,
@@ -219,6 +225,10 @@ export class StaffUserManagementService {
       throw new Error('User not found');
     }
 
+    if (updates.userCategory !== undefined && !USER_CATEGORIES.includes(updates.userCategory)) {
+      throw new Error('Invalid user category');
+    }
+
     // camelCaseからsnake_caseに変換
     const dbUpdates: any = {};
     const fieldMapping: Record<string, string> = {
@@ -227,6 +237,7 @@ export class StaffUserManagementService {
       'email': 'email',
       'bio': 'bio',
       'organizationName': 'organization_name',
+      'userCategory': 'user_category',
       'phone': 'phone',
       'address': 'address',
       'emailVerified': 'email_verified',
@@ -392,7 +403,8 @@ export class StaffUserManagementService {
        JOIN usages u ON a.id = u.application_id
        WHERE a.user_id = ?
          AND u.date >= CURDATE()
-         AND a.cancel_status = 'none'`,
+         AND a.cancel_status = 'none'
+         AND u.cancel_status = 'none'`,
       [userId]
     );
 
@@ -188,8 +188,13 @@ export class SystemSettingsService {
     const publicKeys = [
       'site_name',
       'reservation_advance_days',
+      'reservation_min_lead_hours',
       'cancellation_deadline_hours',
       'require_approval',
+      'tentative_hold_days',
+      'tentative_hold_max_per_user',
+      'lottery_max_preferences',
+      'consumption_tax_rate',
       'contact_email',
       'business_hours',
       'maintenance_mode',  // 職員画面での警告バナー表示に必要
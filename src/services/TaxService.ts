@@ -0,0 +1,154 @@
+import pool from '../config/database';
+import { RowDataPacket } from 'mysql2/promise';
+import SystemSettingsService from './SystemSettingsService';
+import { Application } from '../models/types';
+import {
+  DEFAULT_TAX_SETTINGS,
+  TAX_ROUNDINGS,
+  TaxRounding,
+  TaxSettings,
+  TaxedAmount,
+  splitTaxIncluded,
+  summarizeTaxByRate,
+} from '../utils/tax';
+
+export interface TaxLine extends TaxedAmount {
+  type: 'room' | 'equipment' | 'ac' | 'reduction' | 'product';
+  label: string;
+  usage_id: number | null;
+  date: Date | string | null;
+}
+
+export interface ApplicationTaxDetail {
+  registration_number: string | null; // 適格請求書発行事業者の登録番号
+  rounding: TaxRounding;
+  lines: TaxLine[];                   // 明細ごとの内訳（消費税額は参考値）
+  by_rate: TaxedAmount[];             // 税率ごとの合計（請求書の消費税額）
+  tax_amount: number;
+  non_taxable_amount: number;         // 不課税（キャンセル料）
+  total_amount: number;
+  product_sales: {                    // 予約に紐づく物販（利用料とは別に精算）
+    lines: TaxLine[];
+    by_rate: TaxedAmount[];
+  };
+}
+
+/**
+ * 消費税サービス
+ * - 料金は税込で設定されており、消費税率と端数処理はシステム設定から取得する
+ * - 明細ごとの税抜金額・消費税額は料金計算時に保存し、申請の消費税額は税率ごとにまとめて計算する
+ */
+export class TaxService {
+  /**
+   * 現在の消費税率と端数処理
+   */
+  async getTaxSettings(): Promise<TaxSettings> {
+    const [rate, rounding] = await Promise.all([
+      SystemSettingsService.getSettingValue('consumption_tax_rate'),
+      SystemSettingsService.getSettingValue('tax_rounding'),
+    ]);
+
+    return {
+      rate: typeof rate === 'number' && rate >= 0 ? rate : DEFAULT_TAX_SETTINGS.rate,
+      rounding: TAX_ROUNDINGS.includes(rounding) ? rounding : DEFAULT_TAX_SETTINGS.rounding,
+    };
+  }
+
+  /**
+   * 申請の消費税の内訳（申請詳細の表示用）
+   */
+  async getApplicationTaxDetail(application: Application): Promise<ApplicationTaxDetail> {
+    const [usages] = await pool.query<RowDataPacket[]>(
+      `SELECT u.*, r.name as room_name
+       FROM usages u
+       INNER JOIN rooms r ON u.room_id = r.id
+       WHERE u.application_id = ?
+       ORDER BY u.date, u.id`,
+      [application.id]
+    );
+    const [sales] = await pool.query<RowDataPacket[]>(
+      `SELECT s.*, p.name as product_name
+       FROM sales s
+       INNER JOIN products p ON s.product_id = p.id
+       WHERE s.application_id = ?
+       ORDER BY s.sold_at`,
+      [application.id]
+    );
+    const [{ rounding }, registrationNumber] = await Promise.all([
+      this.getTaxSettings(),
+      SystemSettingsService.getSettingValue('invoice_registration_number'),
+    ]);
+
+    const lines: TaxLine[] = [];
+    let nonTaxableAmount = 0;
+    for (const usage of usages) {
+      nonTaxableAmount += Number(usage.cancellation_fee);
+      if (usage.cancel_status !== 'none') {
+        continue;
+      }
+
+      const taxRate = Number(usage.tax_rate);
+      const charges: [TaxLine['type'], string, number, number, number][] = [
+        ['room', usage.room_name, usage.room_charge_after_multiplier, usage.room_charge_excluding_tax, usage.room_tax_amount],
+        ['equipment', '設備', usage.equipment_charge, usage.equipment_charge_excluding_tax, usage.equipment_tax_amount],
+        ['ac', '空調', usage.ac_charge, usage.ac_charge_excluding_tax, usage.ac_tax_amount],
+      ];
+      for (const [type, label, amount, taxExcludedAmount, taxAmount] of charges) {
+        if (Number(amount) > 0) {
+          lines.push({
+            type,
+            label,
+            usage_id: usage.id,
+            date: usage.date,
+            amount: Number(amount),
+            taxRate,
+            taxExcludedAmount: Number(taxExcludedAmount),
+            taxAmount: Number(taxAmount),
+          });
+        }
+      }
+    }
+
+    // 減免額は1行で表示する（税率ごとの合計は利用明細ごとの税率で差し引き済み）
+    const reductionAmount = Number(application.reduction_amount || 0);
+    if (reductionAmount > 0) {
+      const taxRate = lines[0]?.taxRate ?? DEFAULT_TAX_SETTINGS.rate;
+      lines.push({
+        type: 'reduction',
+        label: '減免',
+        usage_id: null,
+        date: null,
+        ...splitTaxIncluded(-reductionAmount, taxRate, rounding),
+      });
+    }
+
+    const productLines: TaxLine[] = sales.map((sale) => ({
+      type: 'product',
+      label: `${sale.product_name} × ${sale.quantity}`,
+      usage_id: null,
+      date: sale.sold_at,
+      amount: Number(sale.total_price),
+      taxRate: Number(sale.tax_rate),
+      taxExcludedAmount: Number(sale.tax_excluded_amount),
+      taxAmount: Number(sale.tax_amount),
+    }));
+
+    const byRate = application.tax_breakdown || [];
+
+    return {
+      registration_number: registrationNumber || null,
+      rounding,
+      lines,
+      by_rate: byRate,
+      tax_amount: Number(application.tax_amount || 0),
+      non_taxable_amount: nonTaxableAmount,
+      total_amount: Number(application.total_amount),
+      product_sales: {
+        lines: productLines,
+        by_rate: summarizeTaxByRate(productLines, rounding),
+      },
+    };
+  }
+}
+
+export default new TaxService();
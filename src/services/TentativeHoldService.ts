@@ -0,0 +1,90 @@
+import ApplicationRepository from '../models/ApplicationRepository';
+import SystemSettingsService from './SystemSettingsService';
+import WaitlistService from './WaitlistService';
+import { notificationService } from './NotificationService';
+import { createError } from '../middleware/errorHandler';
+import { Application } from '../models/types';
+
+// 設定が未登録の場合の既定値
+const DEFAULT_HOLD_DAYS = 7;
+const DEFAULT_REMINDER_DAYS = 2;
+const DEFAULT_MAX_HOLDS_PER_USER = 2;
+
+/**
+ * 仮予約（仮押さえ）サービス
+ * - 仮予約は通常の予約と同じく枠を確保し、期限までに本予約に確定しない場合は自動的に取り消す
+ * - 期限前のお知らせと期限切れの取り消しは、空き状況の表示・申請時などに都度処理する
+ * - 枠の占有を防ぐため、1人が同時に持てる仮予約の件数を制限する
+ */
+export class TentativeHoldService {
+  /**
+   * 仮予約として申請できるかを確認し、仮押さえの期限と利用者ごとの上限を返す
+   * 同時申請で上限を超えないよう、上限は申請の登録時（createWithUsages）にも確認する
+   */
+  async prepareHold(userId: number | null): Promise<{ expiresAt: Date; maxHolds: number }> {
+    if (!userId) {
+      throw createError('仮予約はログインしてお申し込みください', 401);
+    }
+
+    const maxHolds = await this.getNumberSetting('tentative_hold_max_per_user', DEFAULT_MAX_HOLDS_PER_USER);
+    if ((await ApplicationRepository.countActiveHolds(userId)) >= maxHolds) {
+      throw createError(`仮予約は同時に${maxHolds}件までです。確定または取り消しを行ってからお申し込みください`, 409);
+    }
+
+    const holdDays = await this.getNumberSetting('tentative_hold_days', DEFAULT_HOLD_DAYS);
+    return { expiresAt: new Date(Date.now() + holdDays * 24 * 60 * 60 * 1000), maxHolds };
+  }
+
+  /**
+   * 仮予約を本予約に確定
+   */
+  async confirm(application: Application): Promise<Application> {
+    if (application.hold_status !== 'tentative') {
+      throw createError('この予約は仮予約ではありません', 400);
+    }
+
+    if (!(await ApplicationRepository.confirmHold(application.id))) {
+      throw createError('仮予約の期限が過ぎているため確定できません', 409);
+    }
+
+    return (await ApplicationRepository.findById(application.id))!;
+  }
+
+  /**
+   * 期限が近い仮予約にお知らせを送り、期限を過ぎた仮予約を取り消して空き待ちに案内する
+   */
+  async processExpiredHolds(): Promise<void> {
+    const reminderDays = await this.getNumberSetting('tentative_hold_reminder_days', DEFAULT_REMINDER_DAYS);
+    const remindBefore = new Date(Date.now() + reminderDays * 24 * 60 * 60 * 1000);
+
+    for (const application of await ApplicationRepository.findHoldsDueForReminder(remindBefore)) {
+      // 同時に処理された場合も送信は1回だけ
+      if (application.user_id && (await ApplicationRepository.markHoldReminderSent(application.id))) {
+        await notificationService.sendTentativeHoldReminderNotification(
+          application.id,
+          application.user_id,
+          application.hold_expires_at!
+        );
+      }
+    }
+
+    for (const application of await ApplicationRepository.findExpiredHolds()) {
+      if (!(await ApplicationRepository.expireHold(application.id))) {
+        continue;
+      }
+
+      await WaitlistService.offerReleasedApplication(application.id);
+
+      if (application.user_id) {
+        await notificationService.sendTentativeHoldExpiredNotification(application.id, application.user_id);
+      }
+    }
+  }
+
+  private async getNumberSetting(key: string, defaultValue: number): Promise<number> {
+    const value = await SystemSettingsService.getSettingValue(key);
+    return typeof value === 'number' && value >= 0 ? value : defaultValue;
+  }
+}
+
+export default new TentativeHoldService();
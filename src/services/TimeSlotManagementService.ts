@@ -1,6 +1,8 @@
 import { pool } from '../config/database';
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { TimeSlot, RoomTimeSlotPrice } from '../models/types';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import PriceRevisionService from './PriceRevisionService';
 
 export interface CreateTimeSlotDto {
   name: string;
@@ -130,6 +132,7 @@ export class TimeSlotManagementService {
 
   /**
    * 部屋の時間帯別料金を設定
+   * 予約の料金計算・空き状況はこの設定に基づく（weekendPrice が null の場合は土日祝日も平日料金）
    */
   async setRoomTimeSlotPrices(
     roomId: number,
@@ -137,15 +140,27 @@ export class TimeSlotManagementService {
     staffId: number,
     basePrice: number,
     acPricePerHour: number,
-    isAvailable: boolean = true
+    isAvailable: boolean = true,
+    weekendPrice: number | null = null
   ): Promise<void> {
+    await PriceRevisionService.applyDueRevisions();
+
     await pool.query(
-      `INSERT INTO room_time_slot_prices (room_id, time_slot_id, base_price, ac_price_per_hour, is_available)
-       VALUES (?, ?, ?, ?, ?)
-       ON DUPLICATE KEY UPDATE base_price = ?, ac_price_per_hour = ?, is_available = ?`,
-      [roomId, timeSlotId, basePrice, acPricePerHour, isAvailable, basePrice, acPricePerHour, isAvailable]
+      `INSERT INTO room_time_slot_prices (room_id, time_slot_id, base_price, weekend_price, ac_price_per_hour, is_available)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE base_price = ?, weekend_price = ?, ac_price_per_hour = ?, is_available = ?`,
+      [
+        roomId, timeSlotId, basePrice, weekendPrice, acPricePerHour, isAvailable,
+        basePrice, weekendPrice, acPricePerHour, isAvailable,
+      ]
     );
 
+    // 初期設定の時間帯は部屋の従来の料金列にも反映
+    await TimeSlotRepository.syncRoomFromPrice(roomId, timeSlotId);
+
+    // 変更後の料金は今日から有効な料金表として記録（予約済みの料金は変わらない）
+    await PriceRevisionService.recordRoomPrices(roomId, staffId);
+
     await this.logActivity(
       staffId,
       'update',
@@ -0,0 +1,205 @@
+import pool from '../config/database';
+import RoomRepository from '../models/RoomRepository';
+import RoomLayoutRepository, { RoomLayoutInput } from '../models/RoomLayoutRepository';
+import { createError } from '../middleware/errorHandler';
+import { Application, RoomLayoutRecord } from '../models/types';
+import { UsageActivity, checkUsageRules, isUsageActivity, validateRoomLayout } from '../utils/usageRules';
+
+// 申請者が申告した参加予定人数・利用内容
+export interface UsageDeclaration {
+  expectedAttendees: number | null;
+  activities: UsageActivity[];
+}
+
+/**
+ * 利用ルール・定員サービス
+ * - 職員が部屋ごとに禁止する利用内容とレイアウト別の定員を設定する
+ * - 申請時に参加予定人数と利用内容を部屋（レイアウト）の定員・利用ルールと照合する
+ * - 職員は理由を記録して確認を省略できる（代行予約）
+ */
+export class UsageRuleService {
+  /**
+   * 申請内容から参加予定人数・利用内容を取り出す
+   * @throws AppError (400) 利用内容のコードが正しくない場合
+   */
+  declarationOf(data: { expected_attendees?: number | string | null; activities?: string[] | null }): UsageDeclaration {
+    const activities = data.activities ?? [];
+    if (!Array.isArray(activities)) {
+      throw createError('activities must be an array', 400);
+    }
+    const unknown = activities.filter((activity) => !isUsageActivity(activity));
+    if (unknown.length > 0) {
+      throw createError(`Unknown activities: ${unknown.join(', ')}`, 400);
+    }
+
+    const attendees = data.expected_attendees === null || data.expected_attendees === undefined || data.expected_attendees === ''
+      ? null
+      : Number(data.expected_attendees);
+
+    return {
+      expectedAttendees: attendees !== null && Number.isFinite(attendees) ? attendees : null,
+      activities: Array.from(new Set(activities)) as UsageActivity[],
+    };
+  }
+
+  /**
+   * 既存の申請の参加予定人数・利用内容（予約変更時の確認用）
+   * @returns 職員が確認を省略した申請は null（変更後も確認しない）
+   */
+  declarationOfApplication(application: Application): UsageDeclaration | null {
+    if (application.rule_override_reason) {
+      return null;
+    }
+
+    const activities = typeof application.activities === 'string'
+      ? JSON.parse(application.activities)
+      : application.activities ?? [];
+    return this.declarationOf({ expected_attendees: application.expected_attendees, activities });
+  }
+
+  /**
+   * 1件の利用明細の利用ルール・定員の違反
+   * @throws AppError (400) 部屋のレイアウトでない・受付を停止したレイアウトを指定した場合
+   */
+  async checkUsage(room: any, layoutId: number | null | undefined, declaration: UsageDeclaration): Promise<string[]> {
+    const layout = layoutId ? await this.resolveLayout(room, layoutId) : null;
+
+    return checkUsageRules(
+      { name: room.name, capacity: room.capacity ?? null, prohibitedActivities: room.prohibitedActivities ?? null },
+      layout ? RoomLayoutRepository.toRoomLayout(layout) : null,
+      declaration.expectedAttendees,
+      declaration.activities
+    );
+  }
+
+  /**
+   * 利用明細がすべて利用ルール・定員を満たすことを確認（部屋ごとの違反をまとめて返す）
+   * @throws AppError (400)
+   */
+  async assertUsages(usages: { room_id: number; layout_id?: number | null }[], declaration: UsageDeclaration): Promise<void> {
+    for (let i = 0; i < usages.length; i++) {
+      const room = await RoomRepository.findById(usages[i].room_id);
+      if (!room) {
+        throw createError(`Room ID ${usages[i].room_id} not found`, 404);
+      }
+
+      const violations = await this.checkUsage(room, usages[i].layout_id, declaration);
+      if (violations.length > 0) {
+        throw createError(`Usage ${i + 1}: ${violations.join(' / ')}`, 400);
+      }
+    }
+  }
+
+  /**
+   * 職員が利用ルール・定員の確認を省略したことを申請に記録（アクティビティログは呼び出し側で記録）
+   */
+  async recordOverride(applicationId: number, staffId: number, reason: string): Promise<void> {
+    await pool.query(
+      `UPDATE applications
+       SET rule_override_reason = ?, rule_override_by = ?, rule_override_at = NOW()
+       WHERE id = ?`,
+      [reason, staffId, applicationId]
+    );
+  }
+
+  // ===== レイアウト管理 =====
+
+  /**
+   * 部屋のレイアウト
+   * @param activeOnly - 受付中のレイアウトのみ（申請画面用）
+   */
+  async getLayouts(roomId: number, activeOnly = false): Promise<RoomLayoutRecord[]> {
+    return RoomLayoutRepository.findByRoom(roomId, activeOnly);
+  }
+
+  async createLayout(roomId: number, staffId: number, data: RoomLayoutInput): Promise<RoomLayoutRecord> {
+    const room = await RoomRepository.findById(roomId);
+    if (!room) {
+      throw createError('Room not found', 404);
+    }
+    this.assertValidLayout(data);
+
+    const layout = await RoomLayoutRepository.create(roomId, { ...data, name: data.name.trim() });
+
+    await this.logActivity(
+      staffId,
+      'create',
+      'room_layout',
+      layout.id,
+      `Room layout created: ${room.name} ${layout.name} (${layout.capacity})`
+    );
+
+    return layout;
+  }
+
+  async updateLayout(layoutId: number, staffId: number, data: Partial<RoomLayoutInput>): Promise<RoomLayoutRecord> {
+    const current = await RoomLayoutRepository.findById(layoutId);
+    if (!current) {
+      throw createError('Room layout not found', 404);
+    }
+    this.assertValidLayout({ name: data.name ?? current.name, capacity: data.capacity ?? Number(current.capacity) });
+
+    const layout = (await RoomLayoutRepository.update(layoutId, data.name ? { ...data, name: data.name.trim() } : data))!;
+
+    await this.logActivity(
+      staffId,
+      'update',
+      'room_layout',
+      layoutId,
+      `Room layout updated: ${layout.name} (${layout.capacity})`
+    );
+
+    return layout;
+  }
+
+  async deleteLayout(layoutId: number, staffId: number): Promise<void> {
+    const layout = await RoomLayoutRepository.findById(layoutId);
+    if (!layout) {
+      throw createError('Room layout not found', 404);
+    }
+
+    await RoomLayoutRepository.delete(layoutId);
+
+    await this.logActivity(staffId, 'delete', 'room_layout', layoutId, `Room layout deleted: ${layout.name}`);
+  }
+
+  /**
+   * 利用明細に指定されたレイアウト（部屋のレイアウトで受付中であること）
+   */
+  private async resolveLayout(room: any, layoutId: number): Promise<RoomLayoutRecord> {
+    const layout = await RoomLayoutRepository.findById(layoutId);
+    if (!layout || Number(layout.room_id) !== Number(room.id)) {
+      throw createError(`Layout ID ${layoutId} is not a layout of room "${room.name}"`, 400);
+    }
+    if (!layout.is_active) {
+      throw createError(`「${room.name}」の${layout.name}は現在ご利用いただけません`, 400);
+    }
+    return layout;
+  }
+
+  private assertValidLayout(data: { name: string; capacity: number }): void {
+    const validation = validateRoomLayout(data);
+    if (!validation.valid) {
+      throw createError(validation.error!, 400);
+    }
+  }
+
+  /**
+   * アクティビティログを記録
+   */
+  private async logActivity(
+    staffId: number,
+    actionType: string,
+    targetType: string,
+    targetId: number,
+    description: string
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO staff_activity_logs (staff_id, action_type, target_type, target_id, description)
+       VALUES (?, ?, ?, ?, ?)`,
+      [staffId, actionType, targetType, targetId, description]
+    );
+  }
+}
+
+export default new UsageRuleService();
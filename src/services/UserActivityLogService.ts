@@ -185,6 +185,30 @@ export class UserActivityLogService {
     );
   }
 
+  /**
+   * 予約変更成功を記録
+   */
+  static async logModifySuccess(
+    userId: number,
+    applicationId: number,
+    eventName: string,
+    oldAmount: number,
+    newAmount: number,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.log(
+      userId,
+      'modify_booking',
+      `予約「${eventName}」を変更しました（¥${oldAmount.toLocaleString()} → ¥${newAmount.toLocaleString()}）`,
+      'application',
+      applicationId,
+      { applicationId, eventName, oldAmount, newAmount },
+      ipAddress,
+      userAgent
+    );
+  }
+
   /**
    * 決済試行を記録
    */
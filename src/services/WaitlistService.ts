@@ -0,0 +1,238 @@
+import { RowDataPacket } from 'mysql2/promise';
+import pool from '../config/database';
+import WaitlistRepository, { WaitlistEntryWithDetails } from '../models/WaitlistRepository';
+import RoomRepository from '../models/RoomRepository';
+import ClosureRepository from '../models/ClosureRepository';
+import TimeSlotRepository from '../models/TimeSlotRepository';
+import SystemSettingsService from './SystemSettingsService';
+import { notificationService } from './NotificationService';
+import { maxConcurrentBookings } from '../utils/flexibleTime';
+import { timeSlotRange } from '../utils/timeSlots';
+import { blockedRanges } from '../utils/turnover';
+import { facilityDate } from '../utils/bookingWindow';
+import { createError } from '../middleware/errorHandler';
+import { WaitlistEntry } from '../models/types';
+
+// 案内の有効時間の既定値（waitlist_offer_hours が未設定の場合）
+const DEFAULT_OFFER_HOURS = 24;
+
+/**
+ * 空き待ちサービス
+ * - 満室の時間帯に空き待ちを登録し、キャンセルで空きが出た場合に登録順で期限付きの案内を送る
+ * - 案内中の時間帯は期限まで案内を受けた利用者のために確保する（他の利用者からは満室に見える）
+ * - 期限切れの案内は空き待ちの操作・空き状況の表示時に終了し、次の方に案内する
+ */
+export class WaitlistService {
+  /**
+   * 空き待ちを登録（満室の時間帯のみ）
+   */
+  async join(
+    userId: number,
+    data: { room_id: number; date: string; time_slot_id: number }
+  ): Promise<WaitlistEntry> {
+    await this.processExpiredOffers();
+
+    const room = await RoomRepository.findById(data.room_id);
+    if (!room || !room.isActive) {
+      throw createError('Room not found', 404);
+    }
+    if (room.isFlexibleTime) {
+      throw createError('自由時間制の部屋は空き待ちを登録できません', 400);
+    }
+
+    const timezoneOffset = (await SystemSettingsService.getSettingValue('timezone_offset')) || '+09:00';
+    if (data.date < facilityDate(new Date(), timezoneOffset)) {
+      throw createError('過去の日付には空き待ちを登録できません', 400);
+    }
+
+    const slot = (await TimeSlotRepository.findRoomTimeSlots(room.id)).find((s) => s.id === data.time_slot_id);
+    if (!slot) {
+      throw createError(`時間帯ID ${data.time_slot_id} はこの部屋では予約できません`, 400);
+    }
+
+    const closure = await ClosureRepository.findConflict(room.id, data.date, [slot.code]);
+    if (closure) {
+      throw createError(`Room "${room.name}" is closed on ${data.date}${closure.reason ? ` (休館: ${closure.reason})` : ''}`, 409);
+    }
+
+    if (await RoomRepository.checkTimeSlotAvailability(room.id, data.date, [slot], undefined, userId)) {
+      throw createError('この時間帯には空きがあります。空き待ちではなく予約をお申し込みください', 409);
+    }
+
+    if (await WaitlistRepository.findActive(userId, room.id, data.date, slot.id)) {
+      throw createError('この時間帯の空き待ちはすでに登録されています', 409);
+    }
+
+    return WaitlistRepository.create({ user_id: userId, room_id: room.id, date: data.date, time_slot_id: slot.id });
+  }
+
+  /**
+   * 利用者の空き待ち一覧
+   */
+  async getUserEntries(userId: number): Promise<WaitlistEntryWithDetails[]> {
+    await this.processExpiredOffers();
+    return WaitlistRepository.findByUser(userId);
+  }
+
+  /**
+   * 空き待ちを取り消す（案内中の場合は確保していた時間帯を次の方に案内）
+   */
+  async leave(userId: number, entryId: number): Promise<void> {
+    const entry = await WaitlistRepository.findById(entryId);
+    if (!entry || entry.user_id !== userId) {
+      throw createError('Waitlist entry not found', 404);
+    }
+    if (entry.status !== 'waiting' && entry.status !== 'offered') {
+      throw createError('This waitlist entry is no longer active', 400);
+    }
+
+    await WaitlistRepository.updateStatus(entryId, 'cancelled');
+
+    if (entry.status === 'offered') {
+      await this.offerReleasedSlots([entry]);
+    }
+  }
+
+  /**
+   * 申請のキャンセルで空いた部屋・日付の空き待ちに案内を送る
+   */
+  async offerReleasedApplication(applicationId: number): Promise<void> {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT room_id, date FROM usages WHERE application_id = ?',
+      [applicationId]
+    );
+    await this.offerReleasedSlots(rows as { room_id: number; date: Date }[]);
+  }
+
+  /**
+   * 空きが出た部屋・日付の空き待ちに、登録順で案内を送る
+   * 時間帯ごとに先頭の空き待ちだけを案内し、案内した時間帯は期限まで確保する
+   */
+  async offerReleasedSlots(releases: { room_id: number; date: Date | string }[]): Promise<void> {
+    const keys = new Set(releases.map((release) => `${release.room_id}|${this.toDateString(release.date)}`));
+
+    const offeredIds: number[] = [];
+    for (const key of keys) {
+      const [roomId, date] = key.split('|');
+      offeredIds.push(...(await this.offerForRoomDate(Number(roomId), date)));
+    }
+
+    for (const id of offeredIds) {
+      await this.sendOffer(id);
+    }
+  }
+
+  /**
+   * 期限切れの案内を終了し、次の方に案内する
+   */
+  async processExpiredOffers(): Promise<void> {
+    await WaitlistRepository.expirePastEntries();
+    const expired = await WaitlistRepository.expireOffers();
+    if (expired.length > 0) {
+      await this.offerReleasedSlots(expired);
+    }
+  }
+
+  /**
+   * 案内を受けた利用者の予約が完了した場合に案内を完了にする
+   */
+  async acceptOffers(userId: number, usages: { room_id: number; date: Date | string }[]): Promise<void> {
+    for (const usage of usages) {
+      await WaitlistRepository.acceptOffers(userId, usage.room_id, this.toDateString(usage.date));
+    }
+  }
+
+  /**
+   * 1つの部屋・日付について、空きのある時間帯の空き待ちを案内中にする
+   * 予約と同じく部屋の行ロックを取得し、同時に行われる予約と競合しないようにする
+   *
+   * @returns 案内中にした空き待ちのID
+   */
+  private async offerForRoomDate(roomId: number, date: string): Promise<number[]> {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [roomRows] = await connection.query<RowDataPacket[]>(
+        'SELECT id, is_active, max_reservation_count, turnover_buffer_minutes FROM rooms WHERE id = ? FOR UPDATE',
+        [roomId]
+      );
+      const room = roomRows[0];
+      const waiting = room && room.is_active ? await WaitlistRepository.findWaiting(connection, roomId, date) : [];
+
+      const offeredIds: number[] = [];
+      if (waiting.length > 0) {
+        const maxCount = room.max_reservation_count || 1;
+        const roomSlots = await TimeSlotRepository.findRoomTimeSlots(roomId, connection);
+        const bookings = await TimeSlotRepository.findBookedRanges(roomId, date, date, { connection });
+        const expiresAt = new Date(Date.now() + (await this.getOfferHours()) * 60 * 60 * 1000);
+
+        for (const entry of waiting) {
+          const slot = roomSlots.find((s) => s.id === entry.time_slot_id);
+          if (!slot || (await ClosureRepository.findConflict(roomId, date, [slot.code]))) {
+            continue;
+          }
+          if (maxConcurrentBookings(bookings, timeSlotRange(slot)) >= maxCount) {
+            continue;
+          }
+
+          await WaitlistRepository.markOffered(connection, entry.id, expiresAt);
+          bookings.push(
+            ...blockedRanges([timeSlotRange(slot)], null, Number(room.turnover_buffer_minutes || 0)).map((range) => ({
+              date,
+              ...range,
+            }))
+          );
+          offeredIds.push(entry.id);
+        }
+      }
+
+      await connection.commit();
+      return offeredIds;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  private async sendOffer(entryId: number): Promise<void> {
+    const entry = await WaitlistRepository.findByIdWithDetails(entryId);
+    if (!entry) {
+      return;
+    }
+
+    await notificationService.sendNotification({
+      template_code: 'waitlist_offer',
+      recipient_type: 'user',
+      recipient_id: entry.user_id,
+      variables: {
+        user_name: entry.user_name,
+        room_name: entry.room_name,
+        usage_date: new Date(entry.date).toLocaleDateString('ja-JP'),
+        time_slots: `${entry.time_slot_name}（${entry.start_time}〜${entry.end_time}）`,
+        expires_at: entry.offer_expires_at ? new Date(entry.offer_expires_at).toLocaleString('ja-JP') : '',
+      },
+      related_entity_type: 'waitlist_entry',
+      related_entity_id: entry.id,
+    });
+  }
+
+  private async getOfferHours(): Promise<number> {
+    const hours = await SystemSettingsService.getSettingValue('waitlist_offer_hours');
+    return typeof hours === 'number' && hours > 0 ? hours : DEFAULT_OFFER_HOURS;
+  }
+
+  private toDateString(date: Date | string): string {
+    if (typeof date === 'string') {
+      return date.slice(0, 10);
+    }
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+}
+
+export default new WaitlistService();
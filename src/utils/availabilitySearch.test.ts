@@ -0,0 +1,168 @@
+import {
+  AvailabilitySearchCriteria,
+  bookableSearchRange,
+  closeUnbookableSlots,
+  matchDay,
+  rankRoomMatches,
+  searchDates,
+  validateSearchCriteria,
+} from './availabilitySearch';
+
+describe('Availability Search Module', () => {
+  const criteria: AvailabilitySearchCriteria = {
+    startDate: '2026-11-01',
+    endDate: '2026-11-30',
+    slotCodes: [],
+    minCapacity: null,
+    equipmentIds: [],
+    weekdays: null,
+  };
+
+  describe('validateSearchCriteria', () => {
+    it('should accept a valid range', () => {
+      expect(validateSearchCriteria(criteria)).toBeNull();
+    });
+
+    it('should reject invalid or reversed dates', () => {
+      expect(validateSearchCriteria({ ...criteria, startDate: '2026-11-31' })).not.toBeNull();
+      expect(validateSearchCriteria({ ...criteria, endDate: '2026-10-31' })).not.toBeNull();
+    });
+
+    it('should reject ranges longer than the limit', () => {
+      expect(validateSearchCriteria({ ...criteria, endDate: '2027-01-02' })).toBe('検索期間は62日以内で指定してください');
+      expect(validateSearchCriteria({ ...criteria, endDate: '2027-01-01' })).toBeNull();
+    });
+
+    it('should reject invalid capacity, weekdays and equipment', () => {
+      expect(validateSearchCriteria({ ...criteria, minCapacity: 0 })).not.toBeNull();
+      expect(validateSearchCriteria({ ...criteria, weekdays: [7] })).not.toBeNull();
+      expect(validateSearchCriteria({ ...criteria, weekdays: [] })).not.toBeNull();
+      expect(validateSearchCriteria({ ...criteria, equipmentIds: [NaN] })).not.toBeNull();
+    });
+  });
+
+  describe('searchDates', () => {
+    it('should list every date without a weekday filter', () => {
+      expect(searchDates('2026-11-28', '2026-12-02', null)).toEqual([
+        '2026-11-28',
+        '2026-11-29',
+        '2026-11-30',
+        '2026-12-01',
+        '2026-12-02',
+      ]);
+    });
+
+    it('should keep only the requested weekdays', () => {
+      // 2026-11-01 は日曜
+      expect(searchDates('2026-11-01', '2026-11-14', [0, 6])).toEqual(['2026-11-01', '2026-11-07', '2026-11-08', '2026-11-14']);
+    });
+  });
+
+  describe('bookableSearchRange', () => {
+    // 2026-11-10 10:00（+09:00）
+    const now = new Date('2026-11-10T01:00:00Z');
+    const policy = { advanceDays: 30, minLeadHours: 0 };
+
+    it('should start from today when the range starts in the past', () => {
+      expect(bookableSearchRange('2026-11-01', '2026-11-30', policy, now, '+09:00')).toEqual({
+        startDate: '2026-11-10',
+        endDate: '2026-11-30',
+      });
+    });
+
+    it('should end at the last bookable date', () => {
+      expect(bookableSearchRange('2026-11-20', '2026-12-31', policy, now, '+09:00')).toEqual({
+        startDate: '2026-11-20',
+        endDate: '2026-12-10',
+      });
+    });
+
+    it('should return null when no date is bookable', () => {
+      expect(bookableSearchRange('2026-11-01', '2026-11-09', policy, now, '+09:00')).toBeNull();
+      expect(bookableSearchRange('2026-12-11', '2026-12-20', policy, now, '+09:00')).toBeNull();
+    });
+  });
+
+  describe('closeUnbookableSlots', () => {
+    // 2026-11-10 10:00（+09:00）
+    const now = new Date('2026-11-10T01:00:00Z');
+    const slots = {
+      morning: { time_slot_id: 1, available: true, equipment_remaining: {} },
+      afternoon: { time_slot_id: 2, available: true, equipment_remaining: {} },
+      evening: { time_slot_id: 3, available: true, equipment_remaining: {} },
+    };
+    const startTimes = { morning: '09:00', afternoon: '13:00', evening: '18:00' };
+
+    it('should close slots that have already started today', () => {
+      const result = closeUnbookableSlots('2026-11-10', slots, startTimes, { advanceDays: null, minLeadHours: 0 }, now, '+09:00');
+      expect(result.morning.available).toBe(false);
+      expect(result.afternoon.available).toBe(true);
+      expect(result.evening.available).toBe(true);
+    });
+
+    it('should close slots within the minimum lead time', () => {
+      const result = closeUnbookableSlots('2026-11-10', slots, startTimes, { advanceDays: null, minLeadHours: 6 }, now, '+09:00');
+      expect(result.afternoon.available).toBe(false);
+      expect(result.evening.available).toBe(true);
+    });
+
+    it('should leave later dates unchanged', () => {
+      const result = closeUnbookableSlots('2026-11-11', slots, startTimes, { advanceDays: null, minLeadHours: 6 }, now, '+09:00');
+      expect(matchDay(result, [], [])).toHaveLength(3);
+    });
+  });
+
+  describe('matchDay', () => {
+    const slots = {
+      morning: { time_slot_id: 1, available: true, equipment_remaining: { 5: 1 } },
+      afternoon: { time_slot_id: 2, available: false, equipment_remaining: { 5: 1 } },
+      evening: { time_slot_id: 3, available: true, equipment_remaining: { 5: 0 } },
+    };
+
+    it('should return every free slot when no slot is requested', () => {
+      expect(matchDay(slots, [], [])).toEqual([
+        { code: 'morning', time_slot_id: 1 },
+        { code: 'evening', time_slot_id: 3 },
+      ]);
+    });
+
+    it('should require all requested slots to be free', () => {
+      expect(matchDay(slots, ['morning'], [])).toEqual([{ code: 'morning', time_slot_id: 1 }]);
+      expect(matchDay(slots, ['morning', 'afternoon'], [])).toBeNull();
+      expect(matchDay(slots, ['night'], [])).toBeNull();
+    });
+
+    it('should treat slots without the required equipment as taken', () => {
+      expect(matchDay(slots, [], [5])).toEqual([{ code: 'morning', time_slot_id: 1 }]);
+      expect(matchDay(slots, ['evening'], [5])).toBeNull();
+    });
+  });
+
+  describe('rankRoomMatches', () => {
+    const day = { date: '2026-11-01', weekday: 0, free_slots: [] };
+
+    it('should rank rooms with more matching days first and drop rooms without any', () => {
+      const ranked = rankRoomMatches(
+        [
+          { id: 1, capacity: 30, displayOrder: 1, days: [day] },
+          { id: 2, capacity: 30, displayOrder: 2, days: [day, day] },
+          { id: 3, capacity: 30, displayOrder: 3, days: [] },
+        ],
+        null
+      );
+      expect(ranked.map((match) => match.id)).toEqual([2, 1]);
+    });
+
+    it('should prefer the room closest to the requested capacity', () => {
+      const ranked = rankRoomMatches(
+        [
+          { id: 1, capacity: 200, displayOrder: 1, days: [day] },
+          { id: 2, capacity: 40, displayOrder: 2, days: [day] },
+          { id: 3, capacity: 40, displayOrder: 0, days: [day] },
+        ],
+        30
+      );
+      expect(ranked.map((match) => match.id)).toEqual([3, 2, 1]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * 部屋を横断した空き状況の検索モジュール
+ *
+ * 期間・曜日・時間帯・定員・必要な設備の条件で、条件に合う空きのある日を部屋ごとにまとめて並べ替える
+ * - 時間帯を指定した場合は、指定した時間帯がすべて空いている日のみ該当する
+ * - 時間帯を指定しない場合は、いずれかの時間帯が空いている日が該当する
+ * - 必要な設備を指定した場合は、その時間帯に設備の残数がある時間帯のみ空きとする
+ * - 受付期間外の日・時間帯（過去の日時、受付を締め切った時間帯、受付開始前の日）は空きとしない
+ */
+
+import { BookingWindowPolicy, addDays, checkBookingWindow, facilityDate, lastBookableDate } from './bookingWindow';
+import { weekdayOf } from './recurrence';
+
+// 1回の検索で指定できる期間の上限（日数）
+export const MAX_SEARCH_DAYS = 62;
+
+export interface AvailabilitySearchCriteria {
+  startDate: string;
+  endDate: string;
+  slotCodes: string[];        // 空いている必要のある時間帯コード（空の場合はいずれかの時間帯）
+  minCapacity: number | null;
+  equipmentIds: number[];     // 部屋で利用できる必要のある設備（room_equipment）
+  weekdays: number[] | null;  // 曜日（0 = 日曜〜6 = 土曜、null の場合はすべて）
+}
+
+export interface SearchSlotAvailability {
+  time_slot_id: number;
+  available: boolean;
+  equipment_remaining: { [equipmentId: string]: number };
+}
+
+export interface SearchDayMatch {
+  date: string;
+  weekday: number;
+  free_slots: { code: string; time_slot_id: number }[];
+}
+
+export interface RankableRoomMatch {
+  capacity: number;
+  displayOrder: number;
+  days: SearchDayMatch[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && addDays(date, 0) === date;
+}
+
+/**
+ * 検索条件の妥当性をチェック
+ * @returns エラーメッセージ（問題がない場合は null）
+ */
+export function validateSearchCriteria(criteria: AvailabilitySearchCriteria): string | null {
+  if (!isValidDate(criteria.startDate) || !isValidDate(criteria.endDate)) {
+    return '検索期間の開始日と終了日を YYYY-MM-DD 形式で指定してください';
+  }
+  if (criteria.endDate < criteria.startDate) {
+    return '終了日は開始日以降の日付を指定してください';
+  }
+  if (addDays(criteria.startDate, MAX_SEARCH_DAYS - 1) < criteria.endDate) {
+    return `検索期間は${MAX_SEARCH_DAYS}日以内で指定してください`;
+  }
+  if (criteria.minCapacity !== null && (!Number.isInteger(criteria.minCapacity) || criteria.minCapacity < 1)) {
+    return '人数は1以上の整数で指定してください';
+  }
+  if (criteria.weekdays !== null && (criteria.weekdays.length === 0 || !criteria.weekdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6))) {
+    return '曜日は 0（日曜）〜6（土曜）で指定してください';
+  }
+  if (!criteria.equipmentIds.every((id) => Number.isInteger(id) && id > 0)) {
+    return '設備IDが正しくありません';
+  }
+  return null;
+}
+
+/**
+ * 検索期間のうち指定した曜日の日付
+ */
+export function searchDates(startDate: string, endDate: string, weekdays: number[] | null): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (weekdays === null || weekdays.includes(weekdayOf(date))) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * 検索期間のうち受付期間内の範囲（今日より前の日と最後の予約可能日より後の日を除く）
+ * @returns 受付期間内の開始日・終了日（該当する日がない場合は null）
+ */
+export function bookableSearchRange(
+  startDate: string,
+  endDate: string,
+  policy: BookingWindowPolicy,
+  now: Date,
+  timezoneOffset: string
+): { startDate: string; endDate: string } | null {
+  const today = facilityDate(now, timezoneOffset);
+  const lastDate = lastBookableDate(policy, now, timezoneOffset);
+
+  const first = startDate < today ? today : startDate;
+  const last = lastDate !== null && lastDate < endDate ? lastDate : endDate;
+  return first <= last ? { startDate: first, endDate: last } : null;
+}
+
+/**
+ * 受付期間外の時間帯（開始時刻を過ぎた時間帯・受付を締め切った時間帯）を空きなしにする
+ * @param startTimes - 時間帯コードごとの開始時刻（HH:mm）
+ */
+export function closeUnbookableSlots<T extends SearchSlotAvailability>(
+  date: string,
+  slots: { [code: string]: T },
+  startTimes: { [code: string]: string },
+  policy: BookingWindowPolicy,
+  now: Date,
+  timezoneOffset: string
+): { [code: string]: T } {
+  const result: { [code: string]: T } = {};
+  for (const [code, slot] of Object.entries(slots)) {
+    const startTime = startTimes[code];
+    const bookable = !startTime || checkBookingWindow(policy, date, startTime, now, timezoneOffset) === null;
+    result[code] = bookable ? slot : { ...slot, available: false };
+  }
+  return result;
+}
+
+/**
+ * 1日の空き状況が検索条件に合うか
+ * @returns 条件に合う空いている時間帯（条件に合わない場合は null）
+ */
+export function matchDay(
+  slots: { [code: string]: SearchSlotAvailability },
+  slotCodes: string[],
+  equipmentIds: number[]
+): { code: string; time_slot_id: number }[] | null {
+  const isFree = (slot: SearchSlotAvailability | undefined): slot is SearchSlotAvailability =>
+    !!slot && slot.available && equipmentIds.every((id) => (slot.equipment_remaining[id] ?? 0) > 0);
+
+  if (slotCodes.length > 0) {
+    if (!slotCodes.every((code) => isFree(slots[code]))) {
+      return null;
+    }
+    return slotCodes.map((code) => ({ code, time_slot_id: slots[code].time_slot_id }));
+  }
+
+  const free = Object.entries(slots)
+    .filter(([, slot]) => isFree(slot))
+    .map(([code, slot]) => ({ code, time_slot_id: slot.time_slot_id }));
+  return free.length > 0 ? free : null;
+}
+
+/**
+ * 検索結果の並べ替え（該当する日のない部屋は除外）
+ * 該当する日の多い順、定員が希望人数に近い順（人数未指定の場合は定員の小さい順）、表示順
+ */
+export function rankRoomMatches<T extends RankableRoomMatch>(matches: T[], minCapacity: number | null): T[] {
+  const surplus = (match: T) => match.capacity - (minCapacity ?? 0);
+
+  return matches
+    .filter((match) => match.days.length > 0)
+    .sort((a, b) => b.days.length - a.days.length || surplus(a) - surplus(b) || a.displayOrder - b.displayOrder);
+}
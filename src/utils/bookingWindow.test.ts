@@ -0,0 +1,98 @@
+import {
+  addDays,
+  applyUserCategory,
+  checkBookingWindow,
+  facilityDate,
+  lastBookableDate,
+  resolveBookingWindowPolicy,
+  BookingWindowPolicy,
+} from './bookingWindow';
+
+describe('Booking Window Module', () => {
+  // 2025-06-01 10:00 JST
+  const now = new Date('2025-06-01T01:00:00Z');
+  const policy: BookingWindowPolicy = { advanceDays: 90, minLeadHours: 24 };
+
+  describe('resolveBookingWindowPolicy', () => {
+    it('should use system defaults when the room has no overrides', () => {
+      expect(resolveBookingWindowPolicy(policy, {})).toEqual(policy);
+      expect(resolveBookingWindowPolicy(policy, null)).toEqual(policy);
+    });
+
+    it('should prefer room-level overrides', () => {
+      expect(
+        resolveBookingWindowPolicy(policy, { reservationAdvanceDays: 180, reservationMinLeadHours: 72 })
+      ).toEqual({ advanceDays: 180, minLeadHours: 72 });
+    });
+
+    it('should treat a missing advance-days setting as unlimited', () => {
+      expect(resolveBookingWindowPolicy({ advanceDays: null, minLeadHours: 0 }).advanceDays).toBeNull();
+    });
+  });
+
+  describe('applyUserCategory', () => {
+    const categoryAdvanceDays = { resident: 180, registered_group: 180, outside: null };
+
+    it('should replace the system advance days for categories with their own window', () => {
+      expect(applyUserCategory(policy, 'resident', categoryAdvanceDays)).toEqual({ advanceDays: 180, minLeadHours: 24 });
+    });
+
+    it('should fall back to the system setting for other categories and guests', () => {
+      expect(applyUserCategory(policy, 'outside', categoryAdvanceDays)).toEqual(policy);
+      expect(applyUserCategory(policy, 'business', categoryAdvanceDays)).toEqual(policy);
+      expect(applyUserCategory(policy, null, categoryAdvanceDays)).toEqual(policy);
+      expect(applyUserCategory(policy, 'resident', null)).toEqual(policy);
+    });
+
+    it('should still let room-level overrides take precedence', () => {
+      const categoryPolicy = applyUserCategory(policy, 'resident', categoryAdvanceDays);
+
+      expect(resolveBookingWindowPolicy(categoryPolicy, { reservationAdvanceDays: 30 }).advanceDays).toBe(30);
+      expect(resolveBookingWindowPolicy(categoryPolicy, {}).advanceDays).toBe(180);
+    });
+  });
+
+  describe('date helpers', () => {
+    it('should compute the facility date using the timezone offset', () => {
+      // 2025-05-31 23:30 UTC is already 2025-06-01 in JST
+      expect(facilityDate(new Date('2025-05-31T23:30:00Z'), '+09:00')).toBe('2025-06-01');
+      expect(facilityDate(new Date('2025-05-31T23:30:00Z'), '+00:00')).toBe('2025-05-31');
+    });
+
+    it('should compute the last bookable date', () => {
+      expect(lastBookableDate(policy, now)).toBe('2025-08-30');
+      expect(lastBookableDate({ advanceDays: 180, minLeadHours: 0 }, now)).toBe('2025-11-28');
+      expect(lastBookableDate({ advanceDays: null, minLeadHours: 0 }, now)).toBeNull();
+    });
+
+    it('should add days across month boundaries', () => {
+      expect(addDays('2025-06-01', 90)).toBe('2025-08-30');
+      expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    });
+  });
+
+  describe('checkBookingWindow', () => {
+    it('should accept a date inside the window', () => {
+      expect(checkBookingWindow(policy, '2025-06-10', '09:00', now)).toBeNull();
+    });
+
+    it('should reject past start times', () => {
+      expect(checkBookingWindow(policy, '2025-05-31', '18:00', now)).toMatch(/過去/);
+      expect(checkBookingWindow(policy, '2025-06-01', '09:00', now)).toMatch(/過去/);
+    });
+
+    it('should reject dates beyond the advance-days limit', () => {
+      expect(checkBookingWindow(policy, '2025-08-30', '18:00', now)).toBeNull();
+      expect(checkBookingWindow(policy, '2025-08-31', '09:00', now)).toMatch(/90日先/);
+    });
+
+    it('should reject start times within the minimum lead time', () => {
+      expect(checkBookingWindow(policy, '2025-06-02', '09:00', now)).toMatch(/24時間前/);
+      expect(checkBookingWindow(policy, '2025-06-02', '13:00', now)).toBeNull();
+    });
+
+    it('should not limit dates when advance days is null', () => {
+      expect(checkBookingWindow({ advanceDays: null, minLeadHours: 0 }, '2030-01-01', '09:00', now)).toBeNull();
+    });
+  });
+});
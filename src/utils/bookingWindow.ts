@@ -0,0 +1,128 @@
+/**
+ * 予約受付期間（ブッキングウィンドウ）の判定モジュール
+ *
+ * - 利用日が「今日 + 最大予約可能日数」より先でないこと
+ * - 利用開始時刻まで最低時間（時間）以上あること（過去の日時は常に予約不可）
+ * - 利用者区分（市民・登録団体など）ごとに最大予約可能日数を設定でき、システム設定の日数に代えて適用する
+ * - 部屋ごとに設定がある場合はシステム設定・利用者区分の設定より優先
+ */
+
+export interface BookingWindowPolicy {
+  advanceDays: number | null; // 何日先まで予約可能か（null: 制限なし）
+  minLeadHours: number;       // 利用開始の何時間前まで予約可能か
+}
+
+export interface BookingWindowRoomOverrides {
+  reservationAdvanceDays?: number | null;
+  reservationMinLeadHours?: number | null;
+}
+
+// 利用者区分ごとの最大予約可能日数（未設定の区分はシステム設定を使用）
+export type CategoryAdvanceDays = { [category: string]: number | null | undefined };
+
+/**
+ * システム設定に利用者区分ごとの最大予約可能日数を適用
+ */
+export function applyUserCategory(
+  defaults: BookingWindowPolicy,
+  category: string | null | undefined,
+  categoryAdvanceDays: CategoryAdvanceDays | null | undefined
+): BookingWindowPolicy {
+  const advanceDays = category ? categoryAdvanceDays?.[category] : undefined;
+  if (advanceDays === null || advanceDays === undefined || isNaN(Number(advanceDays))) {
+    return defaults;
+  }
+  return { ...defaults, advanceDays: Number(advanceDays) };
+}
+
+/**
+ * システム設定に部屋ごとの上書き設定を適用
+ */
+export function resolveBookingWindowPolicy(
+  defaults: BookingWindowPolicy,
+  room?: BookingWindowRoomOverrides | null
+): BookingWindowPolicy {
+  const advanceDays = room?.reservationAdvanceDays ?? defaults.advanceDays;
+  const minLeadHours = room?.reservationMinLeadHours ?? defaults.minLeadHours;
+
+  return {
+    advanceDays: advanceDays === null || advanceDays === undefined ? null : Number(advanceDays),
+    minLeadHours: Math.max(0, Number(minLeadHours) || 0),
+  };
+}
+
+/**
+ * タイムゾーンオフセット（例: +09:00）を分に変換
+ */
+function offsetToMinutes(timezoneOffset: string): number {
+  const match = /^([+-])(\d{2}):?(\d{2})$/.exec(timezoneOffset);
+  if (!match) {
+    return 0;
+  }
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * 施設のタイムゾーンにおける日付（YYYY-MM-DD）
+ */
+export function facilityDate(moment: Date, timezoneOffset: string): string {
+  return new Date(moment.getTime() + offsetToMinutes(timezoneOffset) * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * YYYY-MM-DD に日数を加算
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * 予約できる最後の利用日（YYYY-MM-DD、制限なしの場合は null）
+ */
+export function lastBookableDate(
+  policy: BookingWindowPolicy,
+  now: Date = new Date(),
+  timezoneOffset: string = '+09:00'
+): string | null {
+  return policy.advanceDays === null ? null : addDays(facilityDate(now, timezoneOffset), policy.advanceDays);
+}
+
+/**
+ * 予約受付期間内かを判定し、期間外の場合はエラーメッセージを返す
+ *
+ * @param date - 利用日（YYYY-MM-DD）
+ * @param startTime - 利用開始時刻（HH:mm または HH:mm:ss）
+ */
+export function checkBookingWindow(
+  policy: BookingWindowPolicy,
+  date: string,
+  startTime: string,
+  now: Date = new Date(),
+  timezoneOffset: string = '+09:00'
+): string | null {
+  const time = startTime.length === 5 ? `${startTime}:00` : startTime;
+  const startAt = new Date(`${date}T${time}${timezoneOffset}`);
+
+  if (isNaN(startAt.getTime())) {
+    return `Invalid usage date: ${date}`;
+  }
+
+  if (startAt.getTime() <= now.getTime()) {
+    return `Cannot reserve ${date} ${startTime.slice(0, 5)} because it is in the past (過去の日時は予約できません)`;
+  }
+
+  const lastDate = lastBookableDate(policy, now, timezoneOffset);
+  if (lastDate !== null && date > lastDate) {
+    return `Reservations for ${date} are not open yet (予約は${policy.advanceDays}日先まで受け付けています)`;
+  }
+
+  if (policy.minLeadHours > 0 && startAt.getTime() - now.getTime() < policy.minLeadHours * 60 * 60 * 1000) {
+    return `Reservations for ${date} ${startTime.slice(0, 5)} are closed (利用開始の${policy.minLeadHours}時間前で受付を締め切っています)`;
+  }
+
+  return null;
+}
@@ -0,0 +1,46 @@
+import { maxAllocatedQuantity, remainingEquipmentQuantity, EquipmentAllocation } from './equipmentStock';
+
+describe('Equipment Stock Module', () => {
+  const allocation = (startTime: string, endTime: string, quantity: number): EquipmentAllocation => ({
+    equipmentId: 1,
+    startTime,
+    endTime,
+    quantity,
+  });
+
+  describe('maxAllocatedQuantity', () => {
+    it('should sum the quantities of overlapping allocations', () => {
+      const allocations = [allocation('09:00', '12:00', 2), allocation('10:00', '11:00', 1)];
+
+      expect(maxAllocatedQuantity(allocations, { startTime: '09:00', endTime: '12:00' })).toBe(3);
+    });
+
+    it('should not double count back-to-back slots of the same booking', () => {
+      const allocations = [allocation('09:00', '12:00', 2), allocation('12:00', '13:00', 2)];
+
+      expect(maxAllocatedQuantity(allocations, { startTime: '09:00', endTime: '17:00' })).toBe(2);
+    });
+
+    it('should ignore allocations outside the range', () => {
+      const allocations = [allocation('09:00', '12:00', 4)];
+
+      expect(maxAllocatedQuantity(allocations, { startTime: '13:00', endTime: '17:00' })).toBe(0);
+    });
+  });
+
+  describe('remainingEquipmentQuantity', () => {
+    it('should return the stock left over the busiest requested range', () => {
+      const allocations = [allocation('09:00', '12:00', 1), allocation('13:00', '17:00', 3)];
+      const ranges = [
+        { startTime: '09:00', endTime: '12:00' },
+        { startTime: '13:00', endTime: '17:00' },
+      ];
+
+      expect(remainingEquipmentQuantity(4, allocations, ranges)).toBe(1);
+    });
+
+    it('should never go below zero', () => {
+      expect(remainingEquipmentQuantity(2, [allocation('09:00', '12:00', 3)], [{ startTime: '09:00', endTime: '12:00' }])).toBe(0);
+    });
+  });
+});
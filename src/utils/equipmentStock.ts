@@ -0,0 +1,56 @@
+/**
+ * 設備の在庫計算モジュール
+ *
+ * 設備の最大数量（max_quantity）を保有数とし、時間の重なる予約の数量の合計が保有数を超えないようにする
+ */
+
+import { TimeRange, parseTime } from './flexibleTime';
+
+export interface EquipmentAllocation extends TimeRange {
+  equipmentId: number;
+  quantity: number;
+}
+
+/**
+ * 指定した時間帯に同時に貸し出されている数量の最大値
+ */
+export function maxAllocatedQuantity(allocations: EquipmentAllocation[], range: TimeRange): number {
+  const start = parseTime(range.startTime) ?? 0;
+  const end = parseTime(range.endTime) ?? 0;
+
+  const events: [number, number][] = [];
+  for (const allocation of allocations) {
+    const allocationStart = Math.max(start, parseTime(allocation.startTime) ?? 0);
+    const allocationEnd = Math.min(end, parseTime(allocation.endTime) ?? 0);
+    if (allocationStart < allocationEnd) {
+      events.push([allocationStart, allocation.quantity], [allocationEnd, -allocation.quantity]);
+    }
+  }
+
+  // 同時刻では返却を先に処理する（連続する時間帯の同じ貸し出しは二重に数えない）
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let max = 0;
+  for (const [, delta] of events) {
+    current += delta;
+    max = Math.max(max, current);
+  }
+  return max;
+}
+
+/**
+ * 予約するすべての時間で貸し出せる残数
+ *
+ * @param stock - 保有数
+ * @param allocations - 同じ設備・同じ日の貸し出し
+ * @param ranges - 予約する時間
+ */
+export function remainingEquipmentQuantity(
+  stock: number,
+  allocations: EquipmentAllocation[],
+  ranges: TimeRange[]
+): number {
+  const allocated = ranges.reduce((max, range) => Math.max(max, maxAllocatedQuantity(allocations, range)), 0);
+  return Math.max(0, stock - allocated);
+}
@@ -0,0 +1,91 @@
+import {
+  calculateFlexibleRoomCharge,
+  countTimeUnits,
+  formatTime,
+  maxConcurrentBookings,
+  parseTime,
+  validateFlexibleTimeRange,
+  FlexibleTimeRoom,
+} from './flexibleTime';
+
+describe('Flexible Time Module', () => {
+  const room: FlexibleTimeRoom = {
+    minDurationMinutes: 60,
+    timeUnitMinutes: 30,
+    pricePerUnit: 500,
+    weekendPricePerUnit: null,
+  };
+
+  describe('parseTime / formatTime', () => {
+    it('should convert between HH:MM and minutes', () => {
+      expect(parseTime('09:30')).toBe(570);
+      expect(parseTime('09:30:00')).toBe(570);
+      expect(formatTime(570)).toBe('09:30');
+    });
+
+    it('should reject malformed times', () => {
+      expect(parseTime('9時')).toBeNull();
+      expect(parseTime('25:00')).toBeNull();
+      expect(parseTime(undefined)).toBeNull();
+    });
+  });
+
+  describe('validateFlexibleTimeRange', () => {
+    const openingHours = { startTime: '09:00', endTime: '21:30' };
+
+    it('should accept a range aligned to the time unit', () => {
+      expect(validateFlexibleTimeRange(room, { startTime: '10:00', endTime: '11:30' }, openingHours).valid).toBe(true);
+    });
+
+    it('should reject ranges not aligned to the time unit', () => {
+      expect(validateFlexibleTimeRange(room, { startTime: '10:15', endTime: '11:15' }).error).toMatch(/30分単位/);
+    });
+
+    it('should reject ranges shorter than the minimum duration', () => {
+      expect(validateFlexibleTimeRange(room, { startTime: '10:00', endTime: '10:30' }).error).toMatch(/最小利用時間/);
+    });
+
+    it('should reject ranges ending before they start', () => {
+      expect(validateFlexibleTimeRange(room, { startTime: '12:00', endTime: '10:00' }).valid).toBe(false);
+    });
+
+    it('should reject ranges outside opening hours', () => {
+      expect(validateFlexibleTimeRange(room, { startTime: '08:00', endTime: '10:00' }, openingHours).valid).toBe(false);
+      expect(validateFlexibleTimeRange(room, { startTime: '20:30', endTime: '22:00' }, openingHours).valid).toBe(false);
+    });
+  });
+
+  describe('calculateFlexibleRoomCharge', () => {
+    it('should count units and fall back to the weekday price on weekends', () => {
+      const range = { startTime: '10:00', endTime: '12:00' };
+      expect(countTimeUnits(room, range)).toBe(4);
+      expect(calculateFlexibleRoomCharge(room, range, true)).toBe(2000);
+      expect(calculateFlexibleRoomCharge({ ...room, weekendPricePerUnit: 800 }, range, true)).toBe(3200);
+    });
+  });
+
+  describe('maxConcurrentBookings', () => {
+    const bookings = [
+      { startTime: '09:00', endTime: '10:00' },
+      { startTime: '10:00', endTime: '11:00' },
+      { startTime: '10:30', endTime: '12:00' },
+    ];
+
+    it('should not count bookings that only touch the range', () => {
+      expect(maxConcurrentBookings(bookings, { startTime: '12:00', endTime: '13:00' })).toBe(0);
+      expect(maxConcurrentBookings(bookings, { startTime: '08:00', endTime: '09:00' })).toBe(0);
+    });
+
+    it('should count the maximum overlap rather than every overlapping booking', () => {
+      expect(maxConcurrentBookings(bookings, { startTime: '09:00', endTime: '10:30' })).toBe(1);
+      expect(maxConcurrentBookings(bookings, { startTime: '09:00', endTime: '12:00' })).toBe(2);
+    });
+
+    it('should count a booking with count as that many bookings', () => {
+      const weighted = [...bookings, { startTime: '11:30', endTime: '13:00', count: 3 }];
+
+      expect(maxConcurrentBookings(weighted, { startTime: '09:00', endTime: '12:00' })).toBe(4);
+      expect(maxConcurrentBookings(weighted, { startTime: '12:00', endTime: '13:00' })).toBe(3);
+    });
+  });
+});
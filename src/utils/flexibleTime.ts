@@ -0,0 +1,151 @@
+/**
+ * 自由時間制の部屋（練習室・会議室など）の時間計算モジュール
+ *
+ * 開始・終了時刻（HH:MM）で予約し、time_unit_minutes 単位で料金を計算する
+ */
+
+export interface FlexibleTimeRoom {
+  name?: string;
+  minDurationMinutes: number | null;  // 最小利用時間（分）
+  timeUnitMinutes: number | null;     // 時間単位（分）
+  pricePerUnit: number | null;        // 平日の単位あたり料金
+  weekendPricePerUnit?: number | null; // 土日祝日の単位あたり料金（未設定の場合は平日料金）
+}
+
+export interface TimeRange {
+  startTime: string; // HH:MM
+  endTime: string;   // HH:MM
+}
+
+// 時間単位が未設定の部屋の既定値
+export const DEFAULT_TIME_UNIT_MINUTES = 60;
+
+/**
+ * HH:MM（または HH:MM:SS）を 0:00 からの分数に変換。不正な形式は null
+ */
+export function parseTime(time: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(String(time ?? ''));
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * 0:00 からの分数を HH:MM に変換
+ */
+export function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 部屋の時間単位（分）
+ */
+export function timeUnitOf(room: FlexibleTimeRoom): number {
+  return room.timeUnitMinutes && room.timeUnitMinutes > 0 ? room.timeUnitMinutes : DEFAULT_TIME_UNIT_MINUTES;
+}
+
+/**
+ * 予約時間の妥当性をチェック
+ * - 開始・終了は時間単位の区切り
+ * - 最小利用時間以上
+ * - 営業時間（指定された場合）内
+ */
+export function validateFlexibleTimeRange(
+  room: FlexibleTimeRoom,
+  range: Partial<TimeRange>,
+  openingHours?: TimeRange | null
+): { valid: boolean; error?: string } {
+  const start = parseTime(range.startTime);
+  const end = parseTime(range.endTime);
+
+  if (start === null || end === null) {
+    return { valid: false, error: '開始時刻と終了時刻を HH:MM 形式で指定してください' };
+  }
+  if (end <= start) {
+    return { valid: false, error: '終了時刻は開始時刻より後にしてください' };
+  }
+
+  const unit = timeUnitOf(room);
+  if (start % unit !== 0 || end % unit !== 0) {
+    return { valid: false, error: `開始・終了時刻は${unit}分単位で指定してください` };
+  }
+
+  if (room.minDurationMinutes && end - start < room.minDurationMinutes) {
+    return { valid: false, error: `最小利用時間は${room.minDurationMinutes}分です` };
+  }
+
+  if (openingHours) {
+    const open = parseTime(openingHours.startTime);
+    const close = parseTime(openingHours.endTime);
+    if (open !== null && close !== null && (start < open || end > close)) {
+      return {
+        valid: false,
+        error: `利用時間は${openingHours.startTime}〜${openingHours.endTime}の範囲で指定してください`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 予約時間に含まれる時間単位の数
+ */
+export function countTimeUnits(room: FlexibleTimeRoom, range: TimeRange): number {
+  const start = parseTime(range.startTime) ?? 0;
+  const end = parseTime(range.endTime) ?? 0;
+  return Math.max(0, Math.ceil((end - start) / timeUnitOf(room)));
+}
+
+/**
+ * 自由時間制の部屋料金（倍率適用前）
+ * 土日祝日は専用の単位料金が設定されていればそれを使用
+ */
+export function calculateFlexibleRoomCharge(
+  room: FlexibleTimeRoom,
+  range: TimeRange,
+  isWeekendOrHoliday: boolean
+): number {
+  const unitPrice = isWeekendOrHoliday && room.weekendPricePerUnit !== null && room.weekendPricePerUnit !== undefined
+    ? Number(room.weekendPricePerUnit)
+    : Number(room.pricePerUnit || 0);
+
+  return Math.round(countTimeUnits(room, range) * unitPrice);
+}
+
+/**
+ * 指定した時間帯に同時に入っている予約の最大数
+ * （在庫数が2以上の部屋では、重なる予約の数ではなく同時刻の最大数で判定する）
+ * count を指定した予約はその数の予約として数える
+ */
+export function maxConcurrentBookings(bookings: (TimeRange & { count?: number })[], range: TimeRange): number {
+  const start = parseTime(range.startTime) ?? 0;
+  const end = parseTime(range.endTime) ?? 0;
+
+  const events: [number, number][] = [];
+  for (const booking of bookings) {
+    const bookingStart = Math.max(start, parseTime(booking.startTime) ?? 0);
+    const bookingEnd = Math.min(end, parseTime(booking.endTime) ?? 0);
+    const count = booking.count ?? 1;
+    if (bookingStart < bookingEnd && count > 0) {
+      events.push([bookingStart, count], [bookingEnd, -count]);
+    }
+  }
+
+  // 同時刻では終了を先に処理する（終了と開始が接する予約は重ならない）
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let max = 0;
+  for (const [, delta] of events) {
+    current += delta;
+    max = Math.max(max, current);
+  }
+  return max;
+}
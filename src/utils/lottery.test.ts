@@ -0,0 +1,100 @@
+import { drawLottery, seededRandom, shuffleIds, LotteryEntryInput } from './lottery';
+import { TimeRange } from './flexibleTime';
+
+const MORNING: TimeRange = { startTime: '09:00', endTime: '12:00' };
+const AFTERNOON: TimeRange = { startTime: '13:00', endTime: '17:00' };
+
+function entry(id: number, ...preferences: [string, TimeRange[]][]): LotteryEntryInput {
+  return {
+    id,
+    preferences: preferences.map(([date, ranges], i) => ({ id: id * 10 + i + 1, rank: i + 1, date, ranges })),
+  };
+}
+
+describe('Lottery Module', () => {
+  describe('seeded shuffle', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = seededRandom('2026-12-room1');
+      const b = seededRandom('2026-12-room1');
+      const values = [a(), a(), a()];
+
+      expect([b(), b(), b()]).toEqual(values);
+      values.forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+
+    it('should not depend on the input order', () => {
+      const ids = [5, 1, 9, 3, 7, 2];
+
+      expect(shuffleIds(ids, 'seed')).toEqual(shuffleIds([...ids].reverse(), 'seed'));
+      expect([...shuffleIds(ids, 'seed')].sort((x, y) => x - y)).toEqual([1, 2, 3, 5, 7, 9]);
+    });
+
+    it('should change the order for a different seed', () => {
+      const ids = Array.from({ length: 20 }, (_, i) => i + 1);
+
+      expect(shuffleIds(ids, 'seed-a')).not.toEqual(shuffleIds(ids, 'seed-b'));
+    });
+  });
+
+  describe('drawLottery', () => {
+    it('should give each entry at most one preference and respect the room capacity', () => {
+      const entries = [1, 2, 3].map((id) => entry(id, ['2026-12-05', [MORNING]], ['2026-12-06', [MORNING]]));
+
+      const result = drawLottery(entries, 'seed', new Map(), 1);
+
+      // 第1希望の当選は1件のみ、次の1件は第2希望で当選、残りは落選
+      const winners = result.order.filter((id) => result.winners.has(id));
+      expect(winners).toHaveLength(2);
+      expect(result.winners.get(result.order[0])).toBe(result.order[0] * 10 + 1);
+      expect(result.winners.get(result.order[1])).toBe(result.order[1] * 10 + 2);
+      expect(result.winners.has(result.order[2])).toBe(false);
+    });
+
+    it('should allocate all first choices before any second choice', () => {
+      // 抽選順に関係なく、第1希望が空いている応募は第1希望で当選する
+      const entries = [
+        entry(1, ['2026-12-05', [MORNING]], ['2026-12-05', [AFTERNOON]]),
+        entry(2, ['2026-12-05', [AFTERNOON]]),
+      ];
+
+      for (const seed of ['a', 'b', 'c', 'd']) {
+        const result = drawLottery(entries, seed, new Map(), 1);
+        expect(result.winners.get(1)).toBe(11);
+        expect(result.winners.get(2)).toBe(21);
+      }
+    });
+
+    it('should count existing bookings and allow concurrent bookings up to the capacity', () => {
+      const entries = [1, 2, 3].map((id) => entry(id, ['2026-12-05', [AFTERNOON]]));
+      const existing = new Map([['2026-12-05', [AFTERNOON]]]);
+
+      const result = drawLottery(entries, 'seed', existing, 2);
+
+      expect(result.winners.size).toBe(1);
+      expect(result.winners.has(result.order[0])).toBe(true);
+    });
+
+    it('should require every slot of a preference to be available', () => {
+      const entries = [
+        entry(1, ['2026-12-05', [MORNING, AFTERNOON]]),
+        entry(2, ['2026-12-05', [MORNING, AFTERNOON]]),
+      ];
+      const existing = new Map([['2026-12-05', [AFTERNOON]]]);
+
+      expect(drawLottery(entries, 'seed', existing, 1).winners.size).toBe(0);
+    });
+
+    it('should be reproducible from the seed', () => {
+      const entries = [1, 2, 3, 4, 5].map((id) => entry(id, ['2026-12-05', [MORNING]], ['2026-12-05', [AFTERNOON]]));
+
+      const first = drawLottery(entries, 'round-7', new Map(), 1);
+      const second = drawLottery([...entries].reverse(), 'round-7', new Map(), 1);
+
+      expect(second.order).toEqual(first.order);
+      expect([...second.winners.entries()].sort()).toEqual([...first.winners.entries()].sort());
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * 抽選の割り当てロジック
+ *
+ * - 応募の順番はシード値から決まる乱数で並べ替える（同じシード値・応募内容なら同じ結果になる）
+ * - 第1希望をすべての応募者について割り当ててから第2希望、第3希望…の順に割り当てる
+ * - 1件の応募につき当選は1つの希望のみ
+ * - 部屋の同時予約数（max_reservation_count）を超えないように、時間の重なりで判定する
+ */
+
+import { TimeRange, maxConcurrentBookings } from './flexibleTime';
+
+export interface LotteryPreferenceInput {
+  id: number;
+  rank: number;          // 希望順位（1 = 第1希望）
+  date: string;          // YYYY-MM-DD
+  ranges: TimeRange[];   // 希望する時間帯の時間
+}
+
+export interface LotteryEntryInput {
+  id: number;
+  preferences: LotteryPreferenceInput[];
+}
+
+export interface LotteryDrawResult {
+  order: number[];                        // 抽選順（応募ID）
+  winners: Map<number, number>;           // 応募ID → 当選した希望ID
+}
+
+/**
+ * 文字列のシード値から 0 以上 1 未満の乱数を返す関数を作成（xmur3 + mulberry32）
+ */
+export function seededRandom(seed: string): () => number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  let state = (h ^= h >>> 16) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * シード値で並べ替え（Fisher-Yates）。入力の順序に依存しないよう ID 順に揃えてから並べ替える
+ */
+export function shuffleIds(ids: number[], seed: string): number[] {
+  const random = seededRandom(seed);
+  const result = [...ids].sort((a, b) => a - b);
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * 抽選を行い、応募ごとの当選した希望を返す
+ *
+ * @param existingBookings - 抽選前からある予約の時間（日付ごと）
+ * @param maxCount - 部屋の同時予約数
+ */
+export function drawLottery(
+  entries: LotteryEntryInput[],
+  seed: string,
+  existingBookings: Map<string, TimeRange[]>,
+  maxCount: number
+): LotteryDrawResult {
+  const order = shuffleIds(entries.map((entry) => entry.id), seed);
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+  const bookings = new Map<string, TimeRange[]>();
+  existingBookings.forEach((ranges, date) => bookings.set(date, [...ranges]));
+
+  const winners = new Map<number, number>();
+  const maxRank = Math.max(0, ...entries.flatMap((entry) => entry.preferences.map((p) => p.rank)));
+
+  for (let rank = 1; rank <= maxRank; rank++) {
+    for (const entryId of order) {
+      if (winners.has(entryId)) {
+        continue;
+      }
+
+      const preference = entriesById.get(entryId)!.preferences.find((p) => p.rank === rank);
+      if (!preference || preference.ranges.length === 0) {
+        continue;
+      }
+
+      const dayBookings = bookings.get(preference.date) || [];
+      if (preference.ranges.some((range) => maxConcurrentBookings(dayBookings, range) >= maxCount)) {
+        continue;
+      }
+
+      bookings.set(preference.date, [...dayBookings, ...preference.ranges]);
+      winners.set(entryId, preference.id);
+    }
+  }
+
+  return { order, winners };
+}
@@ -0,0 +1,99 @@
+import {
+  applyRoomTariff,
+  applyTimeSlotTariff,
+  findEffectiveTariff,
+  tariffDate,
+  RoomTariff,
+} from './priceRevision';
+import { Room } from './pricing';
+import { ConfiguredTimeSlot } from './timeSlots';
+
+describe('Price Revision Module', () => {
+  const room: Room = {
+    id: 1,
+    name: 'ホール',
+    basePriceMorning: 10000,
+    basePriceAfternoon: 15000,
+    basePriceEvening: 20000,
+    extensionPriceMidday: 3000,
+    extensionPriceEvening: 3000,
+    weekendPriceMorning: null,
+    weekendPriceAfternoon: null,
+    weekendPriceEvening: null,
+    weekendExtensionPriceMidday: null,
+    weekendExtensionPriceEvening: null,
+    acPricePerHour: 1000,
+  };
+
+  const tariff = (effectiveFrom: string, basePriceMorning: number): RoomTariff => ({
+    effectiveFrom,
+    basePriceMorning,
+    basePriceAfternoon: 16000,
+    basePriceEvening: 21000,
+    extensionPriceMidday: 3300,
+    extensionPriceEvening: 3300,
+    weekendPriceMorning: 13000,
+    weekendPriceAfternoon: null,
+    weekendPriceEvening: null,
+    weekendExtensionPriceMidday: null,
+    weekendExtensionPriceEvening: null,
+    acPricePerHour: 1100,
+    pricePerUnit: null,
+    weekendPricePerUnit: null,
+    timeSlotPrices: [{ timeSlotId: 1, basePrice: basePriceMorning, weekendPrice: 13000 }],
+  });
+
+  describe('tariffDate', () => {
+    it('should use the usage date by default policy', () => {
+      expect(tariffDate('usage_date', '2026-05-10', '2026-02-01', '2026-03-01')).toBe('2026-05-10');
+    });
+
+    it('should use the booking date, or today for new bookings', () => {
+      expect(tariffDate('booking_date', '2026-05-10', '2026-02-01', '2026-03-01')).toBe('2026-02-01');
+      expect(tariffDate('booking_date', '2026-05-10', null, '2026-03-01')).toBe('2026-03-01');
+    });
+  });
+
+  describe('findEffectiveTariff', () => {
+    const tariffs = [tariff('2000-01-01', 10000), tariff('2026-04-01', 11000), tariff('2027-04-01', 12000)];
+
+    it('should pick the latest revision effective on the date', () => {
+      expect(findEffectiveTariff(tariffs, '2026-03-31')!.basePriceMorning).toBe(10000);
+      expect(findEffectiveTariff(tariffs, '2026-04-01')!.basePriceMorning).toBe(11000);
+      expect(findEffectiveTariff(tariffs, '2028-01-01')!.basePriceMorning).toBe(12000);
+    });
+
+    it('should return null before the first revision', () => {
+      expect(findEffectiveTariff(tariffs, '1999-12-31')).toBeNull();
+    });
+  });
+
+  describe('applyRoomTariff', () => {
+    it('should replace the room prices with the tariff prices', () => {
+      const priced = applyRoomTariff(room, tariff('2026-04-01', 11000));
+
+      expect(priced.name).toBe('ホール');
+      expect(priced.basePriceMorning).toBe(11000);
+      expect(priced.weekendPriceMorning).toBe(13000);
+      expect(priced.acPricePerHour).toBe(1100);
+    });
+
+    it('should keep the current prices without a tariff', () => {
+      expect(applyRoomTariff(room, null)).toBe(room);
+    });
+  });
+
+  describe('applyTimeSlotTariff', () => {
+    const slots: ConfiguredTimeSlot[] = [
+      { id: 1, code: 'morning', name: '午前', slotType: 'regular', startTime: '09:00', endTime: '12:00', basePrice: 10000, weekendPrice: null },
+      { id: 9, code: 'night', name: '深夜', slotType: 'regular', startTime: '21:00', endTime: '23:00', basePrice: 5000, weekendPrice: null },
+    ];
+
+    it('should replace slot prices and keep slots added after the revision', () => {
+      const priced = applyTimeSlotTariff(slots, tariff('2026-04-01', 11000));
+
+      expect(priced[0]).toMatchObject({ basePrice: 11000, weekendPrice: 13000 });
+      expect(priced[1]).toMatchObject({ basePrice: 5000, weekendPrice: null });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * 料金改定（適用開始日つきの料金表）の計算モジュール
+ *
+ * 部屋・設備の料金は改定ごとに適用開始日つきで保存し、利用明細は方針に応じて
+ * 予約日または利用日に有効な料金表で計算する。
+ * 料金を改定しても、すでに予約済みの利用明細の料金は変わらない
+ */
+
+import { Room } from './pricing';
+import { ConfiguredTimeSlot } from './timeSlots';
+
+// 料金表を選ぶ基準日（usage_date: 利用日, booking_date: 予約日）
+export type PriceRevisionBasis = 'usage_date' | 'booking_date';
+
+export const PRICE_REVISION_BASES: PriceRevisionBasis[] = ['usage_date', 'booking_date'];
+
+export interface TimeSlotTariff {
+  timeSlotId: number;
+  basePrice: number;
+  weekendPrice: number | null;
+}
+
+// 部屋の料金表（適用開始日から次の改定の前日まで有効）
+export interface RoomTariff {
+  effectiveFrom: string; // YYYY-MM-DD
+  basePriceMorning: number;
+  basePriceAfternoon: number;
+  basePriceEvening: number;
+  extensionPriceMidday: number;
+  extensionPriceEvening: number;
+  weekendPriceMorning: number | null;
+  weekendPriceAfternoon: number | null;
+  weekendPriceEvening: number | null;
+  weekendExtensionPriceMidday: number | null;
+  weekendExtensionPriceEvening: number | null;
+  acPricePerHour: number;
+  pricePerUnit: number | null;
+  weekendPricePerUnit: number | null;
+  timeSlotPrices: TimeSlotTariff[];
+}
+
+// 設備の料金表
+export interface EquipmentTariff {
+  effectiveFrom: string;
+  priceType: 'per_slot' | 'flat' | 'free';
+  unitPrice: number;
+}
+
+/**
+ * 料金表を選ぶ基準日
+ * 予約日を基準にする場合、予約日が分からないとき（新規申請）は今日とする
+ */
+export function tariffDate(
+  basis: PriceRevisionBasis,
+  usageDate: string,
+  bookingDate: string | null | undefined,
+  today: string
+): string {
+  return basis === 'booking_date' ? bookingDate || today : usageDate;
+}
+
+/**
+ * 基準日に有効な料金表（適用開始日が基準日以前のもののうち最も新しいもの、なければ null）
+ */
+export function findEffectiveTariff<T extends { effectiveFrom: string }>(tariffs: T[], date: string): T | null {
+  let effective: T | null = null;
+  for (const tariff of tariffs) {
+    if (tariff.effectiveFrom <= date && (!effective || tariff.effectiveFrom > effective.effectiveFrom)) {
+      effective = tariff;
+    }
+  }
+  return effective;
+}
+
+/**
+ * 部屋の料金を料金表の料金に置き換える（料金表がない場合は現在の料金のまま）
+ */
+export function applyRoomTariff<T extends Room>(room: T, tariff: RoomTariff | null): T {
+  if (!tariff) {
+    return room;
+  }
+
+  return {
+    ...room,
+    basePriceMorning: tariff.basePriceMorning,
+    basePriceAfternoon: tariff.basePriceAfternoon,
+    basePriceEvening: tariff.basePriceEvening,
+    extensionPriceMidday: tariff.extensionPriceMidday,
+    extensionPriceEvening: tariff.extensionPriceEvening,
+    weekendPriceMorning: tariff.weekendPriceMorning,
+    weekendPriceAfternoon: tariff.weekendPriceAfternoon,
+    weekendPriceEvening: tariff.weekendPriceEvening,
+    weekendExtensionPriceMidday: tariff.weekendExtensionPriceMidday,
+    weekendExtensionPriceEvening: tariff.weekendExtensionPriceEvening,
+    acPricePerHour: tariff.acPricePerHour,
+    pricePerUnit: tariff.pricePerUnit,
+    weekendPricePerUnit: tariff.weekendPricePerUnit,
+  };
+}
+
+/**
+ * 時間帯の料金を料金表の料金に置き換える
+ * 料金表の作成後に追加した時間帯は現在の料金のまま
+ */
+export function applyTimeSlotTariff(slots: ConfiguredTimeSlot[], tariff: RoomTariff | null): ConfiguredTimeSlot[] {
+  if (!tariff) {
+    return slots;
+  }
+
+  return slots.map((slot) => {
+    const price = tariff.timeSlotPrices.find((p) => p.timeSlotId === slot.id);
+    return price ? { ...slot, basePrice: price.basePrice, weekendPrice: price.weekendPrice } : slot;
+  });
+}
@@ -2,11 +2,18 @@ import {
   calculateTicketMultiplier,
   calculateUsageCharges,
   calculateCancellationFee,
+  calculateFeeReduction,
+  calculateReducedSubtotal,
+  daysBeforeUsage,
+  findCancellationTier,
+  validateCancellationTiers,
+  CancellationFeeTier,
   validateUsageInput,
   Room,
   UsageInput,
   EquipmentUsageInput,
 } from './pricing';
+import { PricingPeriod } from './pricingPeriod';
 
 // Mock HolidayService
 jest.mock('../services/HolidayService', () => ({
@@ -164,6 +171,78 @@ describe('Pricing Module', () => {
     });
   });
 
+  describe('calculateUsageCharges - Flexible-Time Rooms', () => {
+    const practiceRoom: Room = {
+      ...sampleRoom,
+      id: 2,
+      name: 'Practice Room',
+      isFlexibleTime: true,
+      minDurationMinutes: 60,
+      timeUnitMinutes: 30,
+      pricePerUnit: 500,
+      weekendPricePerUnit: 700,
+    };
+
+    const usage: UsageInput = {
+      useMorning: false,
+      useAfternoon: false,
+      useEvening: false,
+      useMiddayExtension: false,
+      useEveningExtension: false,
+      acRequested: false,
+      startTime: '10:00',
+      endTime: '12:30',
+    };
+
+    it('should charge per time unit on weekdays', async () => {
+      (HolidayService.isWeekendOrHoliday as jest.Mock).mockResolvedValue(false);
+
+      const result = await calculateUsageCharges(practiceRoom, usage, [], 1.5, testWeekdayDate);
+
+      expect(result.roomBaseChargeBeforeMultiplier).toBe(5 * 500);
+      expect(result.roomChargeAfterMultiplier).toBe(3750);
+    });
+
+    it('should apply the weekend unit price', async () => {
+      (HolidayService.isWeekendOrHoliday as jest.Mock).mockResolvedValue(true);
+
+      const result = await calculateUsageCharges(practiceRoom, usage, [], 1.0, testWeekendDate);
+
+      expect(result.roomBaseChargeBeforeMultiplier).toBe(5 * 700);
+    });
+  });
+
+  describe('calculateUsageCharges - Configured Time Slots', () => {
+    const usage: UsageInput = {
+      useMorning: true,
+      useAfternoon: false,
+      useEvening: false,
+      useMiddayExtension: true,
+      useEveningExtension: false,
+      acRequested: false,
+      timeSlots: [
+        { id: 1, code: 'morning', name: '午前', slotType: 'regular', startTime: '09:00', endTime: '12:00', basePrice: 12000, weekendPrice: 14000 },
+        { id: 2, code: 'midday_extension', name: '正午延長', slotType: 'extension', startTime: '12:00', endTime: '13:00', basePrice: 2500, weekendPrice: null },
+      ],
+    };
+
+    it('should use the room time slot prices instead of the room base prices', async () => {
+      (HolidayService.isWeekendOrHoliday as jest.Mock).mockResolvedValue(false);
+
+      const result = await calculateUsageCharges(sampleRoom, usage, [], 1.0, testWeekdayDate);
+
+      expect(result.roomBaseChargeBeforeMultiplier).toBe(12000 + 2500);
+    });
+
+    it('should apply weekend slot prices where configured', async () => {
+      (HolidayService.isWeekendOrHoliday as jest.Mock).mockResolvedValue(true);
+
+      const result = await calculateUsageCharges(sampleRoom, usage, [], 1.0, testWeekendDate);
+
+      expect(result.roomBaseChargeBeforeMultiplier).toBe(14000 + 2500);
+    });
+  });
+
   describe('calculateUsageCharges - Extension Blocks', () => {
     beforeEach(() => {
       (HolidayService.isWeekendOrHoliday as jest.Mock).mockResolvedValue(false);
@@ -334,6 +413,151 @@ describe('Pricing Module', () => {
     });
   });
 
+  describe('calculateUsageCharges - Breakdown', () => {
+    beforeEach(() => {
+      (HolidayService.isWeekendOrHoliday as jest.Mock).mockResolvedValue(false);
+    });
+
+    it('should list each slot and mark extensions between booked slots as free', async () => {
+      const usage: UsageInput = {
+        useMorning: true,
+        useAfternoon: true,
+        useEvening: false,
+        useMiddayExtension: true,
+        useEveningExtension: true,
+        acRequested: false,
+      };
+
+      const result = await calculateUsageCharges(sampleRoom, usage, [], 1.5, testWeekdayDate);
+
+      expect(result.breakdown.roomLines).toEqual([
+        { label: '午前', type: 'regular', amount: 15000, free: false },
+        { label: '正午延長', type: 'extension', amount: 0, free: true },
+        { label: '午後', type: 'regular', amount: 20000, free: false },
+        { label: '夕方延長', type: 'extension', amount: 3000, free: false },
+      ]);
+      expect(result.breakdown.extensionCharge).toBe(3000);
+      expect(result.breakdown.ticketMultiplier).toBe(1.5);
+      expect(result.breakdown.isWeekendOrHoliday).toBe(false);
+      expect(result.roomBaseChargeBeforeMultiplier).toBe(38000);
+    });
+
+    it('should return a line per equipment item', async () => {
+      const usage: UsageInput = {
+        useMorning: true,
+        useAfternoon: false,
+        useEvening: false,
+        useMiddayExtension: false,
+        useEveningExtension: false,
+        acRequested: false,
+      };
+      const equipment: EquipmentUsageInput[] = [
+        { equipmentId: 1, priceType: 'per_slot', unitPrice: 500, quantity: 2, slotCount: 1 },
+        { equipmentId: 2, priceType: 'flat', unitPrice: 3000, quantity: 1, slotCount: 1 },
+        { equipmentId: 3, priceType: 'free', unitPrice: 0, quantity: 4, slotCount: 1 },
+      ];
+
+      const result = await calculateUsageCharges(sampleRoom, usage, equipment, 1.0, testWeekdayDate);
+
+      expect(result.breakdown.equipmentLines.map((line) => line.amount)).toEqual([1000, 3000, 0]);
+      expect(result.equipmentCharge).toBe(4000);
+    });
+
+    it('should show the pricing period applied to each slot', async () => {
+      const usage: UsageInput = {
+        useMorning: true,
+        useAfternoon: true,
+        useEvening: false,
+        useMiddayExtension: true,
+        useEveningExtension: false,
+        acRequested: false,
+      };
+      const festival: PricingPeriod = {
+        id: 5,
+        name: '夏祭り期間',
+        startDate: '2025-01-10',
+        endDate: '2025-01-20',
+        roomIds: [sampleRoom.id],
+        slotCodes: ['afternoon', 'midday_extension'],
+        adjustmentType: 'multiplier',
+        multiplier: 1.5,
+        price: null,
+        weekendPrice: null,
+        priority: 0,
+      };
+
+      const result = await calculateUsageCharges(sampleRoom, usage, [], 1.0, testWeekdayDate, [festival]);
+
+      expect(result.breakdown.roomLines).toEqual([
+        { label: '午前', type: 'regular', amount: 15000, free: false },
+        { label: '正午延長', type: 'extension', amount: 0, free: true },
+        {
+          label: '午後',
+          type: 'regular',
+          amount: 30000,
+          free: false,
+          standardAmount: 20000,
+          pricingPeriod: { id: 5, name: '夏祭り期間' },
+        },
+      ]);
+      expect(result.breakdown.pricingPeriodAdjustment).toBe(10000);
+      expect(result.roomBaseChargeBeforeMultiplier).toBe(45000);
+    });
+
+    it('should give fixed period prices precedence over weekend prices', async () => {
+      (HolidayService.isWeekendOrHoliday as jest.Mock).mockResolvedValue(true);
+      const usage: UsageInput = {
+        useMorning: true,
+        useAfternoon: false,
+        useEvening: false,
+        useMiddayExtension: false,
+        useEveningExtension: false,
+        acRequested: false,
+      };
+      const yearEnd: PricingPeriod = {
+        id: 6,
+        name: '年末',
+        startDate: '2025-01-18',
+        endDate: '2025-01-18',
+        roomIds: null,
+        slotCodes: null,
+        adjustmentType: 'fixed_price',
+        multiplier: null,
+        price: 25000,
+        weekendPrice: null,
+        priority: 0,
+      };
+
+      const result = await calculateUsageCharges(sampleRoom, usage, [], 2.0, testWeekendDate, [yearEnd]);
+
+      expect(result.roomBaseChargeBeforeMultiplier).toBe(25000);
+      expect(result.roomChargeAfterMultiplier).toBe(50000);
+      expect(result.breakdown.roomLines[0].standardAmount).toBe(18000);
+    });
+
+    it('should estimate AC from the booked time without adding it to the subtotal', async () => {
+      const usage: UsageInput = {
+        useMorning: true,
+        useAfternoon: false,
+        useEvening: false,
+        useMiddayExtension: true,
+        useEveningExtension: false,
+        acRequested: true,
+        timeSlots: [
+          { id: 1, code: 'morning', name: '午前', slotType: 'regular', startTime: '09:00', endTime: '12:00', basePrice: 12000, weekendPrice: null },
+          { id: 2, code: 'midday_extension', name: '正午延長', slotType: 'extension', startTime: '12:00', endTime: '13:00', basePrice: 2500, weekendPrice: null },
+        ],
+      };
+
+      const result = await calculateUsageCharges(sampleRoom, usage, [], 1.0, testWeekdayDate);
+
+      expect(result.breakdown.acEstimatedHours).toBe(4);
+      expect(result.breakdown.acEstimate).toBe(4000);
+      expect(result.acCharge).toBe(0);
+      expect(result.subtotalAmount).toBe(14500);
+    });
+  });
+
   describe('calculateCancellationFee', () => {
     it('should return 0 when not cancelled', () => {
       const usageDate = new Date('2025-12-25');
@@ -354,6 +578,106 @@ describe('Pricing Module', () => {
       const fee = calculateCancellationFee(usageDate, cancelledAt, 10000);
       expect(fee).toBe(10000);
     });
+
+    describe('with tiered policy', () => {
+      const tiers: CancellationFeeTier[] = [
+        { daysBefore: 30, rate: 0 },
+        { daysBefore: 7, rate: 50 },
+        { daysBefore: 0, rate: 100 },
+      ];
+      const usageDate = new Date(2025, 11, 25);
+
+      it('should count calendar days before the usage date', () => {
+        expect(daysBeforeUsage(usageDate, new Date(2025, 11, 18, 23, 0))).toBe(7);
+        expect(daysBeforeUsage(usageDate, new Date(2025, 11, 26, 9, 0))).toBe(-1);
+        expect(daysBeforeUsage(new Date(2026, 0, 2), new Date(2025, 11, 25))).toBe(8);
+      });
+
+      it('should apply the tier matching the days before usage', () => {
+        expect(calculateCancellationFee(usageDate, new Date(2025, 10, 25), 10000, tiers)).toBe(0);
+        expect(calculateCancellationFee(usageDate, new Date(2025, 10, 26), 10000, tiers)).toBe(5000);
+        expect(calculateCancellationFee(usageDate, new Date(2025, 11, 18), 10000, tiers)).toBe(5000);
+        expect(calculateCancellationFee(usageDate, new Date(2025, 11, 19), 10000, tiers)).toBe(10000);
+      });
+
+      it('should use the closest tier after the usage date has passed', () => {
+        expect(findCancellationTier(tiers, -3)).toEqual({ daysBefore: 0, rate: 100 });
+      });
+
+      it('should round fees down to the yen', () => {
+        expect(calculateCancellationFee(usageDate, new Date(2025, 11, 20), 999, [{ daysBefore: 0, rate: 33 }])).toBe(329);
+      });
+
+      it('should charge the reduced amount of a reduced or exempt usage', () => {
+        const charges = [{ roomChargeAfterMultiplier: 15000, equipmentCharge: 3000, subtotalAmount: 20000 }];
+        const onTheDay = new Date(2025, 11, 25, 9, 0);
+
+        const reduced = calculateReducedSubtotal(charges, { rate: 50, scope: 'room_and_equipment' });
+        expect(calculateCancellationFee(usageDate, onTheDay, reduced, tiers)).toBe(11000);
+
+        // 全額免除の場合は減免の対象外の空調料金のみ
+        const exempt = calculateReducedSubtotal(charges, { rate: 100, scope: 'room_and_equipment' });
+        expect(calculateCancellationFee(usageDate, onTheDay, exempt, tiers)).toBe(2000);
+      });
+    });
+  });
+
+  describe('validateCancellationTiers', () => {
+    it('should accept a valid tier list', () => {
+      expect(validateCancellationTiers([{ daysBefore: 7, rate: 50 }, { daysBefore: 0, rate: 100 }]).valid).toBe(true);
+    });
+
+    it('should require a same-day tier', () => {
+      expect(validateCancellationTiers([{ daysBefore: 7, rate: 50 }]).valid).toBe(false);
+    });
+
+    it('should reject invalid rates and duplicate days', () => {
+      expect(validateCancellationTiers([{ daysBefore: 0, rate: 120 }]).valid).toBe(false);
+      expect(validateCancellationTiers([{ daysBefore: 0, rate: 50 }, { daysBefore: 0, rate: 100 }]).valid).toBe(false);
+      expect(validateCancellationTiers([]).valid).toBe(false);
+    });
+  });
+
+  describe('calculateFeeReduction', () => {
+    const charges = { roomChargeAfterMultiplier: 15000, equipmentCharge: 3001 };
+
+    it('should reduce only the room charge when scoped to room', () => {
+      expect(calculateFeeReduction(charges, { rate: 50, scope: 'room' })).toBe(7500);
+    });
+
+    it('should reduce only the equipment charge when scoped to equipment', () => {
+      expect(calculateFeeReduction(charges, { rate: 50, scope: 'equipment' })).toBe(1500); // 1500.5 → 切り捨て
+    });
+
+    it('should exempt room and equipment charges in full', () => {
+      expect(calculateFeeReduction(charges, { rate: 100, scope: 'room_and_equipment' })).toBe(18001);
+    });
+
+    it('should clamp rates outside 0-100', () => {
+      expect(calculateFeeReduction(charges, { rate: 150, scope: 'room' })).toBe(15000);
+      expect(calculateFeeReduction(charges, { rate: -10, scope: 'room' })).toBe(0);
+    });
+  });
+
+  describe('calculateReducedSubtotal', () => {
+    const usages = [
+      { roomChargeAfterMultiplier: 15000, equipmentCharge: 3001, subtotalAmount: 20001 },
+      { roomChargeAfterMultiplier: 10000, equipmentCharge: 0, subtotalAmount: 12000 },
+    ];
+
+    it('should return the plain subtotal without a reduction', () => {
+      expect(calculateReducedSubtotal(usages, null)).toBe(32001);
+    });
+
+    it('should subtract the reduction of each usage', () => {
+      // 9000（18001 の50%、切り捨て）+ 5000 を減額
+      expect(calculateReducedSubtotal(usages, { rate: 50, scope: 'room_and_equipment' })).toBe(18001);
+    });
+
+    it('should leave only the non-reducible charges on a full exemption', () => {
+      // 空調料金（小計 - 部屋料金 - 設備料金）のみ残る
+      expect(calculateReducedSubtotal(usages, { rate: 100, scope: 'room_and_equipment' })).toBe(4000);
+    });
   });
 
   describe('validateUsageInput', () => {
@@ -4,6 +4,7 @@
  * このモジュールは以下の料金計算ロジックを実装しています：
  * - 部屋の基本料金と延長料金
  * - 土日祝日料金（設定されている場合）
+ * - 料金期間（繁忙期・特別期間の倍率または固定料金）
  * - 入場料倍率
  * - 設備料金
  * - 空調料金
@@ -11,6 +12,9 @@
  */
 
 import HolidayService from '../services/HolidayService';
+import { calculateFlexibleRoomCharge, countTimeUnits, parseTime } from './flexibleTime';
+import { PricingPeriod, applyPricingPeriod, findPricingPeriod } from './pricingPeriod';
+import { ConfiguredTimeSlot, LEGACY_SLOT_CODES, calculateTimeSlotCharge, isExtensionFree } from './timeSlots';
 
 export interface Room {
   id: number;
@@ -26,6 +30,11 @@ export interface Room {
   weekendExtensionPriceMidday: number | null;   // 土日祝日正午延長料金
   weekendExtensionPriceEvening: number | null;  // 土日祝日夕方延長料金
   acPricePerHour: number;       // 空調の時間単価
+  isFlexibleTime?: boolean;              // 自由時間制（開始・終了時刻で予約）
+  minDurationMinutes?: number | null;    // 最小利用時間（分）
+  timeUnitMinutes?: number | null;       // 時間単位（分）
+  pricePerUnit?: number | null;          // 平日の単位あたり料金
+  weekendPricePerUnit?: number | null;   // 土日祝日の単位あたり料金
 }
 
 export interface UsageInput {
@@ -36,6 +45,9 @@ export interface UsageInput {
   useEveningExtension: boolean;  // 夕方延長を使用
   acRequested: boolean;          // 空調を要求
   acHours?: number;              // 実際の使用時間（予約時はnullの可能性あり）
+  startTime?: string | null;     // 自由時間制の開始時刻（HH:MM）
+  endTime?: string | null;       // 自由時間制の終了時刻（HH:MM）
+  timeSlots?: ConfiguredTimeSlot[]; // 予約する時間帯（指定時は部屋の時間帯料金で計算）
 }
 
 export interface EquipmentUsageInput {
@@ -52,6 +64,36 @@ export interface UsageCharges {
   equipmentCharge: number;                 // 設備料金
   acCharge: number;                        // 空調料金
   subtotalAmount: number;                  // 小計金額
+  breakdown: UsageChargeBreakdown;         // 料金の内訳（見積もり・確認画面用）
+}
+
+export interface RoomChargeLine {
+  label: string;                                  // 時間帯名、または自由時間制の利用時間
+  type: 'regular' | 'extension' | 'time_units';
+  amount: number;                                 // 倍率適用前の料金
+  free: boolean;                                  // 前後の時間帯を予約しているため無料の延長枠
+  standardAmount?: number;                        // 料金期間を適用する前の通常の料金（料金期間の適用時のみ）
+  pricingPeriod?: { id: number; name: string };   // 適用した料金期間
+}
+
+export interface EquipmentChargeLine {
+  equipmentId: number;
+  priceType: 'per_slot' | 'flat' | 'free';
+  unitPrice: number;
+  quantity: number;
+  slotCount: number;
+  amount: number;
+}
+
+export interface UsageChargeBreakdown {
+  isWeekendOrHoliday: boolean;          // 土日祝日料金を適用
+  ticketMultiplier: number;             // 入場料倍率（部屋料金のみに適用）
+  roomLines: RoomChargeLine[];
+  extensionCharge: number;              // 部屋料金のうち延長枠の料金（倍率適用前）
+  pricingPeriodAdjustment: number;      // 料金期間による部屋料金の増減（倍率適用前）
+  equipmentLines: EquipmentChargeLine[];
+  acEstimatedHours: number | null;      // 空調の見込み時間（予約した時間の長さ）
+  acEstimate: number;                   // 空調料金の見込み（実際の料金は利用後の使用時間で確定）
 }
 
 /**
@@ -93,86 +135,159 @@ function countMainSlots(usage: UsageInput): number {
 }
 
 /**
- * 主要枠と延長枠を含む部屋の基本料金を計算
+ * 部屋料金の内訳の1行（料金期間が適用される場合は期間の料金にする）
+ * @param units - 固定料金を掛ける数（時間帯は1、自由時間制は時間単位数）
+ */
+function roomChargeLine(
+  label: string,
+  type: RoomChargeLine['type'],
+  standardAmount: number,
+  free: boolean,
+  period: PricingPeriod | null,
+  isWeekendOrHoliday: boolean,
+  units = 1
+): RoomChargeLine {
+  if (free) {
+    return { label, type, amount: 0, free };
+  }
+  if (!period) {
+    return { label, type, amount: standardAmount, free };
+  }
+  return {
+    label,
+    type,
+    amount: applyPricingPeriod(standardAmount, period, isWeekendOrHoliday, units),
+    free,
+    standardAmount,
+    pricingPeriod: { id: period.id, name: period.name },
+  };
+}
+
+/**
+ * 主要枠と延長枠を含む部屋の基本料金を内訳ごとに計算
  *
  * ルール：
+ * - 自由時間制の部屋は開始・終了時刻から時間単位数 × 単位料金で課金
+ * - 時間帯が指定された場合は部屋の時間帯料金（room_time_slot_prices）で課金
  * - 主要枠は基本料金で課金
  * - 土日祝日は専用料金が設定されていればそれを使用、なければ平日料金を使用
  * - 延長枠は隣接する両方の枠が予約されている場合は無料
  * - 延長枠は連続予約なしで使用される場合は課金
+ * - 料金期間に該当する枠は期間の料金（無料の延長枠は無料のまま）
  *
  * @param room - 部屋情報
  * @param usage - 使用情報
  * @param isWeekendOrHoliday - 土日祝日フラグ
+ * @param periodFor - 時間帯コード（自由時間制は null）に適用する料金期間
  */
-function calculateRoomBaseCharge(room: Room, usage: UsageInput, isWeekendOrHoliday: boolean): number {
-  let charge = 0;
+function calculateRoomChargeLines(
+  room: Room,
+  usage: UsageInput,
+  isWeekendOrHoliday: boolean,
+  periodFor: (slotCode: string | null) => PricingPeriod | null = () => null
+): RoomChargeLine[] {
+  // 自由時間制の部屋は時間単位で課金
+  if (room.isFlexibleTime && usage.startTime && usage.endTime) {
+    const flexibleRoom = {
+      minDurationMinutes: room.minDurationMinutes ?? null,
+      timeUnitMinutes: room.timeUnitMinutes ?? null,
+      pricePerUnit: room.pricePerUnit ?? null,
+      weekendPricePerUnit: room.weekendPricePerUnit ?? null,
+    };
+    const range = { startTime: usage.startTime, endTime: usage.endTime };
+    return [
+      roomChargeLine(
+        `${usage.startTime}〜${usage.endTime}`,
+        'time_units',
+        calculateFlexibleRoomCharge(flexibleRoom, range, isWeekendOrHoliday),
+        false,
+        periodFor(null),
+        isWeekendOrHoliday,
+        countTimeUnits(flexibleRoom, range)
+      ),
+    ];
+  }
+
+  // 設定された時間帯の料金
+  if (usage.timeSlots) {
+    const slots = usage.timeSlots;
+    return slots.map((slot) =>
+      roomChargeLine(
+        slot.name,
+        slot.slotType,
+        calculateTimeSlotCharge([slot], isWeekendOrHoliday),
+        slot.slotType === 'extension' && isExtensionFree(slot, slots),
+        periodFor(slot.code),
+        isWeekendOrHoliday
+      )
+    );
+  }
+
+  const price = (weekday: number, weekend: number | null) =>
+    isWeekendOrHoliday && weekend !== null ? weekend : weekday;
+  const line = (label: string, type: RoomChargeLine['type'], code: string, standardAmount: number, free = false) =>
+    roomChargeLine(label, type, standardAmount, free, periodFor(code), isWeekendOrHoliday);
+  const lines: RoomChargeLine[] = [];
 
   // 基本枠の料金を追加
   if (usage.useMorning) {
-    charge += isWeekendOrHoliday && room.weekendPriceMorning !== null
-      ? room.weekendPriceMorning
-      : room.basePriceMorning;
+    lines.push(line('午前', 'regular', LEGACY_SLOT_CODES.use_morning, price(room.basePriceMorning, room.weekendPriceMorning)));
   }
 
-  if (usage.useAfternoon) {
-    charge += isWeekendOrHoliday && room.weekendPriceAfternoon !== null
-      ? room.weekendPriceAfternoon
-      : room.basePriceAfternoon;
+  // 正午延長（12:00-13:00、午前と午後の間）を処理（午前と午後の両方が予約されている場合は無料）
+  if (usage.useMiddayExtension) {
+    lines.push(
+      line(
+        '正午延長',
+        'extension',
+        LEGACY_SLOT_CODES.use_midday_extension,
+        price(room.extensionPriceMidday, room.weekendExtensionPriceMidday),
+        usage.useMorning && usage.useAfternoon
+      )
+    );
   }
 
-  if (usage.useEvening) {
-    charge += isWeekendOrHoliday && room.weekendPriceEvening !== null
-      ? room.weekendPriceEvening
-      : room.basePriceEvening;
+  if (usage.useAfternoon) {
+    lines.push(line('午後', 'regular', LEGACY_SLOT_CODES.use_afternoon, price(room.basePriceAfternoon, room.weekendPriceAfternoon)));
   }
 
-  // 正午延長（12:00-13:00、午前と午後の間）を処理
-  if (usage.useMiddayExtension) {
-    // 午前と午後の両方が予約されている場合は無料
-    const isFree = usage.useMorning && usage.useAfternoon;
-    if (!isFree) {
-      charge += isWeekendOrHoliday && room.weekendExtensionPriceMidday !== null
-        ? room.weekendExtensionPriceMidday
-        : room.extensionPriceMidday;
-    }
+  // 夕方延長（17:00-18:00、午後と夜間の間）を処理（午後と夜間の両方が予約されている場合は無料）
+  if (usage.useEveningExtension) {
+    lines.push(
+      line(
+        '夕方延長',
+        'extension',
+        LEGACY_SLOT_CODES.use_evening_extension,
+        price(room.extensionPriceEvening, room.weekendExtensionPriceEvening),
+        usage.useAfternoon && usage.useEvening
+      )
+    );
   }
 
-  // 夕方延長（17:00-18:00、午後と夜間の間）を処理
-  if (usage.useEveningExtension) {
-    // 午後と夜間の両方が予約されている場合は無料
-    const isFree = usage.useAfternoon && usage.useEvening;
-    if (!isFree) {
-      charge += isWeekendOrHoliday && room.weekendExtensionPriceEvening !== null
-        ? room.weekendExtensionPriceEvening
-        : room.extensionPriceEvening;
-    }
+  if (usage.useEvening) {
+    lines.push(line('夜間', 'regular', LEGACY_SLOT_CODES.use_evening, price(room.basePriceEvening, room.weekendPriceEvening)));
   }
 
-  return charge;
+  return lines;
 }
 
 /**
- * 料金タイプと数量に基づいて設備料金を計算
+ * 料金タイプと数量に基づいて設備ごとの料金を計算
  */
-function calculateEquipmentCharge(equipmentUsages: EquipmentUsageInput[]): number {
-  let total = 0;
-
-  for (const equipment of equipmentUsages) {
-    if (equipment.priceType === 'free') {
-      continue;
-    }
+function calculateEquipmentChargeLines(equipmentUsages: EquipmentUsageInput[]): EquipmentChargeLine[] {
+  return equipmentUsages.map((equipment) => {
+    let amount = 0;
 
     if (equipment.priceType === 'per_slot') {
       // 料金 = 単価 × 数量 × 枠数
-      total += equipment.unitPrice * equipment.quantity * equipment.slotCount;
+      amount = equipment.unitPrice * equipment.quantity * equipment.slotCount;
     } else if (equipment.priceType === 'flat') {
       // 料金 = 単価（定額料金、枠数は無視）
-      total += equipment.unitPrice;
+      amount = equipment.unitPrice;
     }
-  }
 
-  return total;
+    return { ...equipment, amount };
+  });
 }
 
 /**
@@ -188,6 +303,29 @@ function calculateAcCharge(room: Room, usage: UsageInput): number {
   return Math.round(usage.acHours * room.acPricePerHour);
 }
 
+/**
+ * 空調の見込み時間（予約した時間の長さ、時間帯が特定できない場合は null）
+ */
+function estimateAcHours(usage: UsageInput): number | null {
+  const ranges = usage.startTime && usage.endTime
+    ? [{ startTime: usage.startTime, endTime: usage.endTime }]
+    : usage.timeSlots;
+  if (!ranges) {
+    return null;
+  }
+
+  let minutes = 0;
+  for (const range of ranges) {
+    const start = parseTime(range.startTime);
+    const end = parseTime(range.endTime);
+    if (start === null || end === null) {
+      return null;
+    }
+    minutes += end - start;
+  }
+  return minutes / 60;
+}
+
 /**
  * 1つの使用明細のすべての料金を計算
  *
@@ -195,7 +333,8 @@ function calculateAcCharge(room: Room, usage: UsageInput): number {
  * @param usageInput - 使用詳細（枠、空調など）
  * @param equipmentUsages - 使用する設備
  * @param ticketMultiplier - 入場料に基づく倍率（1.0、1.5、または2.0）
- * @param usageDate - 使用日（土日祝日判定用）
+ * @param usageDate - 使用日（土日祝日判定・料金期間の判定用）
+ * @param pricingPeriods - 料金期間（使用日を含む期間のみ適用）
  * @returns すべての料金の詳細内訳
  */
 export async function calculateUsageCharges(
@@ -203,23 +342,34 @@ export async function calculateUsageCharges(
   usageInput: UsageInput,
   equipmentUsages: EquipmentUsageInput[],
   ticketMultiplier: number,
-  usageDate: string
+  usageDate: string,
+  pricingPeriods: PricingPeriod[] = []
 ): Promise<UsageCharges> {
   // 土日祝日かどうかを判定
   const isWeekendOrHoliday = await HolidayService.isWeekendOrHoliday(usageDate);
 
-  // 部屋の基本料金を計算（倍率適用前）
-  const roomBaseChargeBeforeMultiplier = calculateRoomBaseCharge(room, usageInput, isWeekendOrHoliday);
+  // 部屋の基本料金を計算（倍率適用前、料金期間を適用）
+  const roomLines = calculateRoomChargeLines(room, usageInput, isWeekendOrHoliday, (slotCode) =>
+    findPricingPeriod(pricingPeriods, usageDate, room.id, slotCode)
+  );
+  const roomBaseChargeBeforeMultiplier = roomLines.reduce((sum, line) => sum + line.amount, 0);
 
   // 入場料倍率を部屋料金のみに適用
   const roomChargeAfterMultiplier = Math.round(roomBaseChargeBeforeMultiplier * ticketMultiplier);
 
   // 設備料金を計算（倍率の影響を受けない）
-  const equipmentCharge = calculateEquipmentCharge(equipmentUsages);
+  const equipmentLines = calculateEquipmentChargeLines(equipmentUsages);
+  const equipmentCharge = equipmentLines.reduce((sum, line) => sum + line.amount, 0);
 
   // 空調料金を計算（倍率の影響を受けない）
   const acCharge = calculateAcCharge(room, usageInput);
 
+  // 使用時間が未入力の場合は予約した時間の長さで空調料金を見積もる（小計には含めない）
+  const acEstimatedHours = usageInput.acRequested
+    ? usageInput.acHours ?? estimateAcHours(usageInput)
+    : null;
+  const acEstimate = acEstimatedHours ? Math.round(acEstimatedHours * room.acPricePerHour) : 0;
+
   // 小計合計
   const subtotalAmount = roomChargeAfterMultiplier + equipmentCharge + acCharge;
 
@@ -229,46 +379,149 @@ export async function calculateUsageCharges(
     equipmentCharge,
     acCharge,
     subtotalAmount,
+    breakdown: {
+      isWeekendOrHoliday,
+      ticketMultiplier,
+      roomLines,
+      extensionCharge: roomLines
+        .filter((line) => line.type === 'extension')
+        .reduce((sum, line) => sum + line.amount, 0),
+      pricingPeriodAdjustment: roomLines
+        .filter((line) => line.pricingPeriod)
+        .reduce((sum, line) => sum + line.amount - line.standardAmount!, 0),
+      equipmentLines,
+      acEstimatedHours,
+      acEstimate,
+    },
   };
 }
 
+export interface CancellationFeeTier {
+  daysBefore: number;  // 使用日の何日前（暦日）以降のキャンセルに適用するか
+  rate: number;        // キャンセル料率（%）
+}
+
+/**
+ * 既定のキャンセル料段階（使用日前は無料、当日以降は全額）
+ */
+export const DEFAULT_CANCELLATION_TIERS: CancellationFeeTier[] = [
+  { daysBefore: 1, rate: 0 },
+  { daysBefore: 0, rate: 100 },
+];
+
+/**
+ * キャンセル日が使用日の何日前か（暦日、時刻は無視）。使用日を過ぎている場合は負の値
+ */
+export function daysBeforeUsage(usageDate: Date, cancelledAt: Date): number {
+  const usageDateOnly = Date.UTC(usageDate.getFullYear(), usageDate.getMonth(), usageDate.getDate());
+  const cancelledDateOnly = Date.UTC(cancelledAt.getFullYear(), cancelledAt.getMonth(), cancelledAt.getDate());
+  return Math.round((usageDateOnly - cancelledDateOnly) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * 適用されるキャンセル料段階を取得
+ * daysBefore 以下で最も大きい段階を使用し、使用日を過ぎている場合は最も直前の段階を使用
+ */
+export function findCancellationTier(tiers: CancellationFeeTier[], daysBefore: number): CancellationFeeTier {
+  const sorted = [...tiers].sort((a, b) => b.daysBefore - a.daysBefore);
+  return sorted.find((tier) => tier.daysBefore <= daysBefore) || sorted[sorted.length - 1];
+}
+
+/**
+ * キャンセル料段階の妥当性をチェック
+ */
+export function validateCancellationTiers(tiers: any): { valid: boolean; error?: string } {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return { valid: false, error: 'キャンセル料の段階を1つ以上指定してください' };
+  }
+
+  const seen = new Set<number>();
+  for (const tier of tiers) {
+    if (!tier || !Number.isInteger(tier.daysBefore) || tier.daysBefore < 0) {
+      return { valid: false, error: '日数は0以上の整数で指定してください' };
+    }
+    if (typeof tier.rate !== 'number' || isNaN(tier.rate) || tier.rate < 0 || tier.rate > 100) {
+      return { valid: false, error: 'キャンセル料率は0〜100の範囲で指定してください' };
+    }
+    if (seen.has(tier.daysBefore)) {
+      return { valid: false, error: `${tier.daysBefore}日前の段階が重複しています` };
+    }
+    seen.add(tier.daysBefore);
+  }
+
+  if (!seen.has(0)) {
+    return { valid: false, error: '使用日当日（0日前）の段階は必須です' };
+  }
+
+  return { valid: true };
+}
+
 /**
  * キャンセル日と使用日に基づいてキャンセル料金を計算
  *
- * ルール：
+ * ルール（tiers 未指定時）：
  * - 使用日前（暦日）にキャンセル: 0%（料金なし）
  * - 使用日当日以降にキャンセル: 100%（全額）
  *
  * @param usageDate - 予定されている使用日
  * @param cancelledAt - キャンセルが発生した日時（キャンセルされていない場合はnull）
  * @param subtotalAmount - この使用に対して課金される合計金額
- * @returns キャンセル料金額
+ * @param tiers - 予約時点のキャンセル料段階
+ * @returns キャンセル料金額（1円未満切り捨て）
  */
 export function calculateCancellationFee(
   usageDate: Date,
   cancelledAt: Date | null,
-  subtotalAmount: number
+  subtotalAmount: number,
+  tiers: CancellationFeeTier[] = DEFAULT_CANCELLATION_TIERS
 ): number {
   // キャンセルされていない
   if (!cancelledAt) {
     return 0;
   }
 
-  // 暦日を比較（時刻は無視）
-  const usageDateOnly = new Date(usageDate.getFullYear(), usageDate.getMonth(), usageDate.getDate());
-  const cancelledDateOnly = new Date(
-    cancelledAt.getFullYear(),
-    cancelledAt.getMonth(),
-    cancelledAt.getDate()
-  );
+  const tier = findCancellationTier(tiers, daysBeforeUsage(usageDate, cancelledAt));
+  return Math.floor((subtotalAmount * tier.rate) / 100);
+}
 
-  // 使用日前にキャンセルされた場合: 0%料金
-  if (cancelledDateOnly < usageDateOnly) {
-    return 0;
-  }
+export type FeeReductionScope = 'room' | 'equipment' | 'room_and_equipment';
+
+export interface FeeReduction {
+  rate: number;              // 減額率（%）。全額免除は100
+  scope: FeeReductionScope;  // 減免の対象
+}
+
+/**
+ * 使用明細1件あたりの減免額を計算
+ *
+ * ルール：
+ * - 部屋料金は入場料倍率の適用後の金額を対象とする
+ * - 空調料金は減免の対象外
+ * - 1円未満は切り捨て（減免額が少なくなる方向）
+ */
+export function calculateFeeReduction(
+  charges: Pick<UsageCharges, 'roomChargeAfterMultiplier' | 'equipmentCharge'>,
+  reduction: FeeReduction
+): number {
+  const roomTarget = reduction.scope === 'equipment' ? 0 : charges.roomChargeAfterMultiplier;
+  const equipmentTarget = reduction.scope === 'room' ? 0 : charges.equipmentCharge;
+  const rate = Math.min(Math.max(reduction.rate, 0), 100);
 
-  // 使用日当日以降にキャンセルされた場合: 100%料金
-  return subtotalAmount;
+  return Math.floor(((roomTarget + equipmentTarget) * rate) / 100);
+}
+
+/**
+ * 使用明細の減免後の小計の合計（申請の合計金額のうちキャンセル料を除いた部分）
+ * 減免額は明細ごとに計算して切り捨てる（申請の合計金額の再計算と同じ）
+ */
+export function calculateReducedSubtotal(
+  usageCharges: Pick<UsageCharges, 'roomChargeAfterMultiplier' | 'equipmentCharge' | 'subtotalAmount'>[],
+  reduction: FeeReduction | null
+): number {
+  return usageCharges.reduce(
+    (total, usage) => total + usage.subtotalAmount - (reduction ? calculateFeeReduction(usage, reduction) : 0),
+    0
+  );
 }
 
 /**
@@ -0,0 +1,93 @@
+import { applyPricingPeriod, findPricingPeriod, validatePricingPeriod, PricingPeriod } from './pricingPeriod';
+
+describe('Pricing Period Module', () => {
+  const period = (overrides: Partial<PricingPeriod>): PricingPeriod => ({
+    id: 1,
+    name: '夏祭り期間',
+    startDate: '2026-08-01',
+    endDate: '2026-08-16',
+    roomIds: null,
+    slotCodes: null,
+    adjustmentType: 'multiplier',
+    multiplier: 1.5,
+    price: null,
+    weekendPrice: null,
+    priority: 0,
+    ...overrides,
+  });
+
+  describe('findPricingPeriod', () => {
+    it('should include both the start and end dates', () => {
+      const periods = [period({})];
+
+      expect(findPricingPeriod(periods, '2026-08-01', 1, 'morning')).toBe(periods[0]);
+      expect(findPricingPeriod(periods, '2026-08-16', 1, 'morning')).toBe(periods[0]);
+      expect(findPricingPeriod(periods, '2026-08-17', 1, 'morning')).toBeNull();
+    });
+
+    it('should only apply to the listed rooms and time slots', () => {
+      const periods = [period({ roomIds: [2], slotCodes: ['evening'] })];
+
+      expect(findPricingPeriod(periods, '2026-08-05', 1, 'evening')).toBeNull();
+      expect(findPricingPeriod(periods, '2026-08-05', 2, 'morning')).toBeNull();
+      expect(findPricingPeriod(periods, '2026-08-05', 2, 'evening')).toBe(periods[0]);
+    });
+
+    it('should not apply slot-limited periods to flexible-time rooms', () => {
+      expect(findPricingPeriod([period({ slotCodes: ['evening'] })], '2026-08-05', 1, null)).toBeNull();
+      expect(findPricingPeriod([period({})], '2026-08-05', 1, null)).not.toBeNull();
+    });
+
+    it('should prefer the highest priority, then the latest start date', () => {
+      const season = period({ id: 1, startDate: '2026-07-01', endDate: '2026-08-31' });
+      const festival = period({ id: 2, startDate: '2026-08-10', endDate: '2026-08-12' });
+      const override = period({ id: 3, startDate: '2026-06-01', endDate: '2026-09-30', priority: 10 });
+
+      expect(findPricingPeriod([season, festival], '2026-08-11', 1, 'morning')).toBe(festival);
+      expect(findPricingPeriod([season, festival, override], '2026-08-11', 1, 'morning')).toBe(override);
+    });
+  });
+
+  describe('applyPricingPeriod', () => {
+    it('should multiply the standard (weekday or weekend) amount', () => {
+      expect(applyPricingPeriod(10000, period({ multiplier: 1.25 }), false)).toBe(12500);
+      expect(applyPricingPeriod(333, period({ multiplier: 1.5 }), true)).toBe(500);
+    });
+
+    it('should use the fixed price regardless of the standard amount', () => {
+      const fixed = period({ adjustmentType: 'fixed_price', multiplier: null, price: 20000, weekendPrice: 25000 });
+
+      expect(applyPricingPeriod(10000, fixed, false)).toBe(20000);
+      expect(applyPricingPeriod(12000, fixed, true)).toBe(25000);
+    });
+
+    it('should use the fixed price on weekends when no weekend price is set', () => {
+      const fixed = period({ adjustmentType: 'fixed_price', multiplier: null, price: 800 });
+
+      expect(applyPricingPeriod(3500, fixed, true, 5)).toBe(4000);
+    });
+  });
+
+  describe('validatePricingPeriod', () => {
+    const { id, ...input } = period({});
+
+    it('should accept a valid period', () => {
+      expect(validatePricingPeriod(input).valid).toBe(true);
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(validatePricingPeriod({ ...input, endDate: '2026-07-31' }).valid).toBe(false);
+    });
+
+    it('should require a positive multiplier or a fixed price', () => {
+      expect(validatePricingPeriod({ ...input, multiplier: 0 }).valid).toBe(false);
+      expect(validatePricingPeriod({ ...input, adjustmentType: 'fixed_price', price: null }).valid).toBe(false);
+      expect(validatePricingPeriod({ ...input, adjustmentType: 'fixed_price', price: 5000 }).valid).toBe(true);
+    });
+
+    it('should reject empty room or slot lists', () => {
+      expect(validatePricingPeriod({ ...input, roomIds: [] }).valid).toBe(false);
+      expect(validatePricingPeriod({ ...input, slotCodes: [] }).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * 料金期間（繁忙期・特別期間の料金）の計算モジュール
+ *
+ * 祭りの期間や年末年始など、期間を指定して部屋料金を倍率または固定料金で変更する。
+ * 土日祝日料金との優先順位：
+ * - 倍率：その日の通常の料金（平日料金または土日祝日料金）に倍率を掛ける
+ * - 固定料金：平日・土日祝日料金より優先する（土日祝日の固定料金が設定されていれば土日祝日はそれを使用）
+ * 期間が重なる場合は優先度が高いもの（同じ場合は開始日が遅いもの、さらに同じ場合は後から登録したもの）を1つだけ適用する
+ */
+
+export type PricingAdjustmentType = 'multiplier' | 'fixed_price';
+
+export const PRICING_ADJUSTMENT_TYPES: PricingAdjustmentType[] = ['multiplier', 'fixed_price'];
+
+export interface PricingPeriod {
+  id: number;
+  name: string;
+  startDate: string;                // YYYY-MM-DD
+  endDate: string;                  // YYYY-MM-DD（この日を含む）
+  roomIds: number[] | null;         // 対象の部屋（null = すべての部屋）
+  slotCodes: string[] | null;       // 対象の時間帯コード（null = すべての時間帯と自由時間制の部屋）
+  adjustmentType: PricingAdjustmentType;
+  multiplier: number | null;        // 倍率（adjustmentType = multiplier）
+  price: number | null;             // 固定料金（時間帯あたり、自由時間制は単位あたり）
+  weekendPrice: number | null;      // 土日祝日の固定料金（未設定の場合は price）
+  priority: number;
+}
+
+/**
+ * 利用日・部屋・時間帯に適用する料金期間
+ * @param slotCode - 時間帯コード（自由時間制の部屋は null。時間帯を限定した期間は適用しない）
+ */
+export function findPricingPeriod(
+  periods: PricingPeriod[],
+  date: string,
+  roomId: number,
+  slotCode: string | null
+): PricingPeriod | null {
+  const matches = periods.filter(
+    (period) =>
+      period.startDate <= date &&
+      date <= period.endDate &&
+      (!period.roomIds || period.roomIds.includes(roomId)) &&
+      (!period.slotCodes || (slotCode !== null && period.slotCodes.includes(slotCode)))
+  );
+
+  matches.sort(
+    (a, b) => b.priority - a.priority || b.startDate.localeCompare(a.startDate) || b.id - a.id
+  );
+  return matches[0] || null;
+}
+
+/**
+ * 料金期間を適用した金額（1円未満は四捨五入）
+ * @param standardAmount - 通常の料金（平日料金または土日祝日料金）
+ * @param units - 固定料金を掛ける数（時間帯は1、自由時間制は時間単位数）
+ */
+export function applyPricingPeriod(
+  standardAmount: number,
+  period: PricingPeriod,
+  isWeekendOrHoliday: boolean,
+  units = 1
+): number {
+  if (period.adjustmentType === 'multiplier') {
+    return Math.round(standardAmount * Number(period.multiplier ?? 1));
+  }
+
+  const price = isWeekendOrHoliday && period.weekendPrice !== null ? period.weekendPrice : period.price ?? 0;
+  return Math.round(Number(price) * units);
+}
+
+/**
+ * 料金期間の入力の妥当性をチェック
+ */
+export function validatePricingPeriod(period: Omit<PricingPeriod, 'id'>): { valid: boolean; error?: string } {
+  if (!period.name || !period.name.trim()) {
+    return { valid: false, error: '期間名を入力してください' };
+  }
+  if (period.endDate < period.startDate) {
+    return { valid: false, error: '終了日は開始日以降の日付を指定してください' };
+  }
+  if (period.roomIds && period.roomIds.length === 0) {
+    return { valid: false, error: '対象の部屋を1つ以上指定してください（すべての部屋の場合は指定しない）' };
+  }
+  if (period.slotCodes && period.slotCodes.length === 0) {
+    return { valid: false, error: '対象の時間帯を1つ以上指定してください（すべての時間帯の場合は指定しない）' };
+  }
+
+  if (period.adjustmentType === 'multiplier') {
+    if (period.multiplier === null || !(period.multiplier > 0)) {
+      return { valid: false, error: '倍率は0より大きい値を指定してください' };
+    }
+  } else if (period.adjustmentType === 'fixed_price') {
+    if (period.price === null || !Number.isInteger(period.price) || period.price < 0) {
+      return { valid: false, error: '固定料金は0以上の整数で指定してください' };
+    }
+    if (period.weekendPrice !== null && (!Number.isInteger(period.weekendPrice) || period.weekendPrice < 0)) {
+      return { valid: false, error: '土日祝日の固定料金は0以上の整数で指定してください' };
+    }
+  } else {
+    return { valid: false, error: '料金の変更方法が正しくありません' };
+  }
+
+  return { valid: true };
+}
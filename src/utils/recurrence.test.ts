@@ -0,0 +1,77 @@
+import { expandRecurrence, nthWeekdayOfMonth, weekdayOf, MAX_RECURRENCE_OCCURRENCES } from './recurrence';
+
+describe('Recurrence Module', () => {
+  describe('date helpers', () => {
+    it('should return the weekday of a date', () => {
+      expect(weekdayOf('2026-11-03')).toBe(2); // Tuesday
+      expect(weekdayOf('2026-11-01')).toBe(0); // Sunday
+    });
+
+    it('should find the nth and last weekday of a month', () => {
+      expect(nthWeekdayOfMonth(2026, 11, 2, 2)).toBe('2026-11-10');
+      expect(nthWeekdayOfMonth(2026, 11, 5, -1)).toBe('2026-11-27');
+      expect(nthWeekdayOfMonth(2026, 11, 2, 5)).toBeNull();
+    });
+  });
+
+  describe('weekly', () => {
+    it('should repeat on the start weekday until the end date', () => {
+      const result = expandRecurrence('2026-11-03', { frequency: 'weekly', until: '2026-12-01' });
+
+      expect(result.error).toBeUndefined();
+      expect(result.dates).toEqual(['2026-11-03', '2026-11-10', '2026-11-17', '2026-11-24', '2026-12-01']);
+    });
+
+    it('should support several weekdays every N weeks with a count', () => {
+      const result = expandRecurrence('2026-11-03', {
+        frequency: 'weekly',
+        interval: 2,
+        weekdays: [2, 4],
+        count: 4,
+      });
+
+      expect(result.dates).toEqual(['2026-11-03', '2026-11-05', '2026-11-17', '2026-11-19']);
+    });
+
+    it('should cover a year of weekly bookings', () => {
+      const result = expandRecurrence('2026-11-03', { frequency: 'weekly', until: '2027-11-02' });
+
+      expect(result.dates).toHaveLength(53);
+    });
+  });
+
+  describe('monthly', () => {
+    it('should repeat on the nth weekday of the start date by default', () => {
+      const result = expandRecurrence('2026-11-10', { frequency: 'monthly', count: 3 });
+
+      expect(result.dates).toEqual(['2026-11-10', '2026-12-08', '2027-01-12']);
+    });
+
+    it('should support the last weekday and skip months without a 5th weekday', () => {
+      expect(
+        expandRecurrence('2026-11-01', { frequency: 'monthly', week_of_month: -1, weekday: 5, count: 2 }).dates
+      ).toEqual(['2026-11-27', '2026-12-25']);
+      expect(
+        expandRecurrence('2026-11-01', { frequency: 'monthly', week_of_month: 5, weekday: 2, until: '2027-03-31' }).dates
+      ).toEqual(['2026-12-29', '2027-03-30']);
+    });
+  });
+
+  describe('validation', () => {
+    it('should require an end date or count', () => {
+      expect(expandRecurrence('2026-11-03', { frequency: 'weekly' }).error).toBeDefined();
+    });
+
+    it('should reject invalid rules', () => {
+      expect(expandRecurrence('2026-11-03', { frequency: 'weekly', until: '2026-10-01' }).error).toBeDefined();
+      expect(expandRecurrence('2026-11-03', { frequency: 'weekly', weekdays: [7], count: 2 }).error).toBeDefined();
+      expect(expandRecurrence('2026-02-30', { frequency: 'weekly', count: 2 }).error).toBeDefined();
+    });
+
+    it('should limit the number of occurrences', () => {
+      const result = expandRecurrence('2026-11-02', { frequency: 'weekly', weekdays: [1, 3, 5], until: '2027-11-01' });
+
+      expect(result.error).toContain(String(MAX_RECURRENCE_OCCURRENCES));
+    });
+  });
+});
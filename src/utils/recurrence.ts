@@ -0,0 +1,177 @@
+/**
+ * 定期予約（繰り返し予約）の日付展開モジュール
+ *
+ * 毎週（N週ごと・複数曜日）と毎月第N曜日の繰り返しに対応する。終了は終了日または回数で指定する
+ */
+
+import { addDays } from './bookingWindow';
+
+export type RecurrenceFrequency = 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;      // weekly: N週ごと（既定は毎週）
+  weekdays?: number[];    // weekly: 曜日（0 = 日曜〜6 = 土曜、既定は開始日の曜日）
+  week_of_month?: number; // monthly: 第N曜日（1〜5、-1 = 最終、既定は開始日の週）
+  weekday?: number;       // monthly: 曜日（既定は開始日の曜日）
+  until?: string;         // 終了日（YYYY-MM-DD、この日を含む）
+  count?: number;         // 回数
+}
+
+// 1回の申請で登録できる回数の上限（週2回・1年分）
+export const MAX_RECURRENCE_OCCURRENCES = 104;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(date: string | undefined): date is string {
+  if (!date || !DATE_PATTERN.test(date)) {
+    return false;
+  }
+  return addDays(date, 0) === date;
+}
+
+function isWeekday(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+}
+
+/**
+ * YYYY-MM-DD の曜日（0 = 日曜）
+ */
+export function weekdayOf(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * 指定した月の第N曜日（-1 = 最終）。該当する日がない月は null
+ */
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): string | null {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const firstDay = 1 + ((weekday - firstWeekday + 7) % 7);
+
+  let day: number;
+  if (nth === -1) {
+    day = firstDay + Math.floor((daysInMonth - firstDay) / 7) * 7;
+  } else {
+    day = firstDay + (nth - 1) * 7;
+    if (day > daysInMonth) {
+      return null;
+    }
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function validateRule(startDate: string, rule: RecurrenceRule): string | null {
+  if (!isValidDate(startDate)) {
+    return '開始日を YYYY-MM-DD 形式で指定してください';
+  }
+  if (!rule || (rule.frequency !== 'weekly' && rule.frequency !== 'monthly')) {
+    return '繰り返しの種類は weekly または monthly を指定してください';
+  }
+  if (rule.until === undefined && rule.count === undefined) {
+    return '繰り返しの終了日または回数を指定してください';
+  }
+  if (rule.until !== undefined && (!isValidDate(rule.until) || rule.until < startDate)) {
+    return '終了日は開始日以降の日付を YYYY-MM-DD 形式で指定してください';
+  }
+  if (
+    rule.count !== undefined &&
+    (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_RECURRENCE_OCCURRENCES)
+  ) {
+    return `回数は1〜${MAX_RECURRENCE_OCCURRENCES}回で指定してください`;
+  }
+
+  if (rule.frequency === 'weekly') {
+    if (rule.interval !== undefined && (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 12)) {
+      return '繰り返しの間隔は1〜12週で指定してください';
+    }
+    if (rule.weekdays !== undefined && (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0 || !rule.weekdays.every(isWeekday))) {
+      return '曜日は0（日曜）〜6（土曜）で指定してください';
+    }
+  } else {
+    if (
+      rule.week_of_month !== undefined &&
+      !(rule.week_of_month === -1 || (Number.isInteger(rule.week_of_month) && rule.week_of_month >= 1 && rule.week_of_month <= 5))
+    ) {
+      return '第N曜日は1〜5（最終は -1）で指定してください';
+    }
+    if (rule.weekday !== undefined && !isWeekday(rule.weekday)) {
+      return '曜日は0（日曜）〜6（土曜）で指定してください';
+    }
+  }
+
+  return null;
+}
+
+function expandWeekly(startDate: string, rule: RecurrenceRule, limit: number): string[] {
+  const interval = rule.interval || 1;
+  const weekdays = rule.weekdays || [weekdayOf(startDate)];
+  const startWeekday = weekdayOf(startDate);
+  const dates: string[] = [];
+
+  // 開始日を含む週（日曜始まり）から interval 週ごとに該当する曜日を展開
+  for (let offset = 0; dates.length < limit; offset++) {
+    const date = addDays(startDate, offset);
+    if (rule.until && date > rule.until) {
+      break;
+    }
+    const week = Math.floor((offset + startWeekday) / 7);
+    if (week % interval === 0 && weekdays.includes(weekdayOf(date))) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+function expandMonthly(startDate: string, rule: RecurrenceRule, limit: number): string[] {
+  const [startYear, startMonth, startDay] = startDate.split('-').map(Number);
+  const weekday = rule.weekday ?? weekdayOf(startDate);
+  const nth = rule.week_of_month ?? Math.ceil(startDay / 7);
+  const dates: string[] = [];
+
+  for (let i = 0; dates.length < limit; i++) {
+    const year = startYear + Math.floor((startMonth - 1 + i) / 12);
+    const month = ((startMonth - 1 + i) % 12) + 1;
+    const firstOfMonth = `${year}-${String(month).padStart(2, '0')}-01`;
+    if (rule.until && firstOfMonth > rule.until) {
+      break;
+    }
+
+    const date = nthWeekdayOfMonth(year, month, weekday, nth);
+    if (date && date >= startDate && (!rule.until || date <= rule.until)) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * 繰り返しの設定から利用日の一覧を作成（日付順）
+ *
+ * @param startDate - 開始日（YYYY-MM-DD、繰り返しの起点）
+ */
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): { dates: string[]; error?: string } {
+  const error = validateRule(startDate, rule);
+  if (error) {
+    return { dates: [], error };
+  }
+
+  // 上限を超えるかを判定するため1件多く展開する
+  const limit = rule.count ?? MAX_RECURRENCE_OCCURRENCES + 1;
+  const dates = rule.frequency === 'weekly'
+    ? expandWeekly(startDate, rule, limit)
+    : expandMonthly(startDate, rule, limit);
+
+  if (dates.length === 0) {
+    return { dates: [], error: '指定した期間に該当する利用日がありません' };
+  }
+  if (dates.length > MAX_RECURRENCE_OCCURRENCES) {
+    return { dates: [], error: `定期予約は1回の申請につき${MAX_RECURRENCE_OCCURRENCES}回までです` };
+  }
+
+  return { dates };
+}
@@ -0,0 +1,57 @@
+import { linkedRoomIds, validateRoomComposition, RoomComposition } from './roomComposition';
+
+describe('Room Composition Module', () => {
+  // 大ホール(1) = ホールA(2) + ホールB(3)
+  const hall: RoomComposition[] = [
+    { combinedRoomId: 1, partRoomId: 2 },
+    { combinedRoomId: 1, partRoomId: 3 },
+  ];
+
+  describe('linkedRoomIds', () => {
+    it('should link the combined room to all of its parts', () => {
+      expect(linkedRoomIds(hall, 1)).toEqual([2, 3]);
+    });
+
+    it('should link a part to the combined room but not to the other part', () => {
+      expect(linkedRoomIds(hall, 2)).toEqual([1]);
+      expect(linkedRoomIds(hall, 3)).toEqual([1]);
+    });
+
+    it('should link combined rooms that share a part', () => {
+      // 東側(4) = ホールB(3) + ホールC(5)
+      const compositions = [...hall, { combinedRoomId: 4, partRoomId: 3 }, { combinedRoomId: 4, partRoomId: 5 }];
+
+      expect(linkedRoomIds(compositions, 1)).toEqual([2, 3, 4]);
+      expect(linkedRoomIds(compositions, 3)).toEqual([1, 4]);
+      expect(linkedRoomIds(compositions, 2)).toEqual([1]);
+    });
+
+    it('should return nothing for a room without a composition', () => {
+      expect(linkedRoomIds(hall, 9)).toEqual([]);
+    });
+  });
+
+  describe('validateRoomComposition', () => {
+    it('should accept at least two parts or removing the composition', () => {
+      expect(validateRoomComposition([], 1, [2, 3]).valid).toBe(true);
+      expect(validateRoomComposition(hall, 1, []).valid).toBe(true);
+    });
+
+    it('should allow replacing the parts of the same combined room', () => {
+      expect(validateRoomComposition(hall, 1, [2, 3, 4]).valid).toBe(true);
+    });
+
+    it('should reject a single part, duplicates and the combined room itself', () => {
+      expect(validateRoomComposition([], 1, [2]).valid).toBe(false);
+      expect(validateRoomComposition([], 1, [2, 2]).valid).toBe(false);
+      expect(validateRoomComposition([], 1, [1, 2]).valid).toBe(false);
+    });
+
+    it('should reject nested compositions', () => {
+      // ホールA を全体の部屋にはできない
+      expect(validateRoomComposition(hall, 2, [4, 5]).valid).toBe(false);
+      // 大ホールを他の全体の部屋の一部にはできない
+      expect(validateRoomComposition(hall, 6, [1, 4]).valid).toBe(false);
+    });
+  });
+});
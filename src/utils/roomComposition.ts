@@ -0,0 +1,68 @@
+/**
+ * 部屋の構成（全体・分割して貸し出す部屋）の計算モジュール
+ *
+ * 大ホールを「ホールA」「ホールB」に分割して貸し出す場合など：
+ * - 全体の部屋の予約は、構成する部屋（分割した部屋）をすべて使えなくする
+ * - 分割した部屋の予約は、その部屋を含む全体の部屋を使えなくする
+ * - 分割した部屋どうし（ホールAとホールB）は別々に予約できる
+ * 全体の部屋を別の全体の部屋の一部にする（入れ子の構成）ことはできない
+ */
+
+export interface RoomComposition {
+  combinedRoomId: number; // 全体の部屋
+  partRoomId: number;     // 全体の部屋を構成する部屋
+}
+
+/**
+ * 予約すると指定した部屋を使えなくする部屋
+ * - 指定した部屋を含む全体の部屋
+ * - 指定した部屋が全体の部屋の場合は、構成する部屋と、構成する部屋を共有する他の全体の部屋
+ */
+export function linkedRoomIds(compositions: RoomComposition[], roomId: number): number[] {
+  const parts = new Set(
+    compositions.filter((composition) => composition.combinedRoomId === roomId).map((composition) => composition.partRoomId)
+  );
+  const linked = new Set<number>(parts);
+  for (const { combinedRoomId, partRoomId } of compositions) {
+    if (partRoomId === roomId || parts.has(partRoomId)) {
+      linked.add(combinedRoomId);
+    }
+  }
+  linked.delete(roomId);
+  return Array.from(linked).sort((a, b) => a - b);
+}
+
+/**
+ * 全体の部屋の構成の妥当性をチェック
+ * @param compositions - 登録済みの構成（変更する全体の部屋の構成は含めても含めなくてもよい）
+ * @param partRoomIds - 構成する部屋（空の場合は構成を解除）
+ */
+export function validateRoomComposition(
+  compositions: RoomComposition[],
+  combinedRoomId: number,
+  partRoomIds: number[]
+): { valid: boolean; error?: string } {
+  if (partRoomIds.length === 0) {
+    return { valid: true };
+  }
+
+  const others = compositions.filter((composition) => composition.combinedRoomId !== combinedRoomId);
+
+  if (partRoomIds.includes(combinedRoomId)) {
+    return { valid: false, error: '全体の部屋自身を構成する部屋に指定することはできません' };
+  }
+  if (new Set(partRoomIds).size !== partRoomIds.length) {
+    return { valid: false, error: '構成する部屋が重複しています' };
+  }
+  if (partRoomIds.length < 2) {
+    return { valid: false, error: '構成する部屋を2つ以上指定してください' };
+  }
+  if (others.some((composition) => composition.partRoomId === combinedRoomId)) {
+    return { valid: false, error: 'この部屋は他の全体の部屋の一部のため、全体の部屋にできません' };
+  }
+  if (others.some((composition) => partRoomIds.includes(composition.combinedRoomId))) {
+    return { valid: false, error: '全体の部屋を構成する部屋に指定することはできません' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,89 @@
+import { calculateUsageTax, roundTax, splitTaxIncluded, summarizeTaxByRate } from './tax';
+
+describe('Tax Module', () => {
+  describe('roundTax', () => {
+    it('should apply the configured rounding rule', () => {
+      expect(roundTax(1363.6, 'floor')).toBe(1363);
+      expect(roundTax(1363.6, 'round')).toBe(1364);
+      expect(roundTax(1363.2, 'ceil')).toBe(1364);
+    });
+
+    it('should not move exact integers because of floating point error', () => {
+      expect(roundTax((1100 * 10) / 110, 'ceil')).toBe(100);
+      expect(roundTax((1100 * 10) / 110, 'floor')).toBe(100);
+    });
+
+    it('should round negative amounts symmetrically', () => {
+      expect(roundTax(-1363.6, 'floor')).toBe(-1363);
+    });
+  });
+
+  describe('splitTaxIncluded', () => {
+    it('should split a tax-included amount at the standard rate', () => {
+      expect(splitTaxIncluded(15000, 10, 'floor')).toEqual({
+        amount: 15000,
+        taxRate: 10,
+        taxExcludedAmount: 13637,
+        taxAmount: 1363,
+      });
+    });
+
+    it('should split at the reduced rate', () => {
+      expect(splitTaxIncluded(1080, 8, 'floor')).toEqual({
+        amount: 1080,
+        taxRate: 8,
+        taxExcludedAmount: 1000,
+        taxAmount: 80,
+      });
+    });
+
+    it('should treat a 0% rate as tax-free', () => {
+      expect(splitTaxIncluded(5000, 0, 'floor').taxAmount).toBe(0);
+    });
+  });
+
+  describe('calculateUsageTax', () => {
+    it('should split room, equipment and AC charges separately', () => {
+      const tax = calculateUsageTax(
+        { roomChargeAfterMultiplier: 22500, equipmentCharge: 3000, acCharge: 1500 },
+        { rate: 10, rounding: 'floor' }
+      );
+
+      expect(tax.taxRate).toBe(10);
+      expect(tax.room.taxAmount).toBe(2045);
+      expect(tax.equipment.taxAmount).toBe(272);
+      expect(tax.ac.taxAmount).toBe(136);
+      expect(tax.room.taxExcludedAmount + tax.room.taxAmount).toBe(22500);
+    });
+  });
+
+  describe('summarizeTaxByRate', () => {
+    it('should round once per rate instead of summing per-line tax', () => {
+      const lines = [
+        { amount: 15000, taxRate: 10 },
+        { amount: 15000, taxRate: 10 },
+      ];
+
+      // 明細ごとに切り捨てると 1363 × 2 = 2726 だが、請求書では合計 30000 から 2727
+      expect(summarizeTaxByRate(lines, 'floor')).toEqual([
+        { amount: 30000, taxRate: 10, taxExcludedAmount: 27273, taxAmount: 2727 },
+      ]);
+    });
+
+    it('should group lines by rate, highest rate first', () => {
+      const summary = summarizeTaxByRate(
+        [
+          { amount: 1080, taxRate: 8 },
+          { amount: 11000, taxRate: 10 },
+          { amount: -1100, taxRate: 10 },
+        ],
+        'floor'
+      );
+
+      expect(summary.map((line) => [line.taxRate, line.amount, line.taxAmount])).toEqual([
+        [10, 9900, 900],
+        [8, 1080, 80],
+      ]);
+    });
+  });
+});
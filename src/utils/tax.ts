@@ -0,0 +1,103 @@
+/**
+ * 消費税の計算モジュール（適格請求書の税率ごとの内訳用）
+ *
+ * 部屋・設備・空調・物販の料金は税込で設定されているため、税込金額から税抜金額と消費税額を求める。
+ * - 明細ごとの消費税額は内訳表示用（参考値）
+ * - 請求書の消費税額は税率ごとに合計した税込金額から1回だけ端数処理する（適格請求書の記載要件）
+ */
+
+import { UsageCharges } from './pricing';
+
+export type TaxRounding = 'floor' | 'round' | 'ceil';
+
+export const TAX_ROUNDINGS: TaxRounding[] = ['floor', 'round', 'ceil'];
+
+export interface TaxSettings {
+  rate: number;           // 税率（%）
+  rounding: TaxRounding;  // 1円未満の端数処理
+}
+
+// 設定がない場合の既定値（標準税率10%、切り捨て）
+export const DEFAULT_TAX_SETTINGS: TaxSettings = { rate: 10, rounding: 'floor' };
+
+export interface TaxedAmount {
+  amount: number;             // 税込金額
+  taxRate: number;
+  taxExcludedAmount: number;  // 税抜金額
+  taxAmount: number;          // 消費税額
+}
+
+export interface UsageTax {
+  taxRate: number;
+  room: TaxedAmount;
+  equipment: TaxedAmount;
+  ac: TaxedAmount;
+}
+
+/**
+ * 1円未満の端数を処理（負の金額は絶対値で処理して符号を戻す）
+ */
+export function roundTax(value: number, rounding: TaxRounding): number {
+  const sign = value < 0 ? -1 : 1;
+  const absolute = Math.abs(value);
+  // 浮動小数点の誤差で整数が切り上げ・切り捨てされないよう丸めてから処理
+  const normalized = Math.round(absolute * 1e6) / 1e6;
+
+  switch (rounding) {
+    case 'ceil':
+      return sign * Math.ceil(normalized);
+    case 'round':
+      return sign * Math.round(normalized);
+    default:
+      return sign * Math.floor(normalized);
+  }
+}
+
+/**
+ * 税込金額を税抜金額と消費税額に分ける
+ *
+ * 消費税額 = 税込金額 × 税率 / (100 + 税率)（端数処理あり）
+ */
+export function splitTaxIncluded(amount: number, taxRate: number, rounding: TaxRounding): TaxedAmount {
+  const taxAmount = taxRate > 0 ? roundTax((amount * taxRate) / (100 + taxRate), rounding) : 0;
+
+  return {
+    amount,
+    taxRate,
+    taxExcludedAmount: amount - taxAmount,
+    taxAmount,
+  };
+}
+
+/**
+ * 使用明細1件の部屋・設備・空調の料金ごとの消費税
+ */
+export function calculateUsageTax(
+  charges: Pick<UsageCharges, 'roomChargeAfterMultiplier' | 'equipmentCharge' | 'acCharge'>,
+  settings: TaxSettings
+): UsageTax {
+  return {
+    taxRate: settings.rate,
+    room: splitTaxIncluded(charges.roomChargeAfterMultiplier, settings.rate, settings.rounding),
+    equipment: splitTaxIncluded(charges.equipmentCharge, settings.rate, settings.rounding),
+    ac: splitTaxIncluded(charges.acCharge, settings.rate, settings.rounding),
+  };
+}
+
+/**
+ * 税率ごとの合計と消費税額（適格請求書の内訳）
+ * 税込金額を税率ごとに合計してから1回だけ端数処理する。税率の高い順
+ */
+export function summarizeTaxByRate(
+  lines: { amount: number; taxRate: number }[],
+  rounding: TaxRounding
+): TaxedAmount[] {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    totals.set(line.taxRate, (totals.get(line.taxRate) || 0) + line.amount);
+  }
+
+  return [...totals.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([taxRate, amount]) => splitTaxIncluded(amount, taxRate, rounding));
+}
@@ -0,0 +1,101 @@
+import {
+  calculateTimeSlotCharge,
+  countRegularSlots,
+  legacySlotFlags,
+  removeTimeSlot,
+  selectTimeSlots,
+  validateTimeSlotSelection,
+  ConfiguredTimeSlot,
+} from './timeSlots';
+
+describe('Time Slots Module', () => {
+  const slot = (
+    id: number,
+    code: string,
+    slotType: 'regular' | 'extension',
+    startTime: string,
+    endTime: string,
+    basePrice: number,
+    weekendPrice: number | null = null
+  ): ConfiguredTimeSlot => ({ id, code, name: code, slotType, startTime, endTime, basePrice, weekendPrice });
+
+  const roomSlots: ConfiguredTimeSlot[] = [
+    slot(1, 'morning', 'regular', '09:00', '12:00', 15000, 18000),
+    slot(2, 'midday_extension', 'extension', '12:00', '13:00', 3000),
+    slot(3, 'afternoon', 'regular', '13:00', '17:00', 20000, 24000),
+    slot(4, 'evening_extension', 'extension', '17:00', '18:00', 3000),
+    slot(5, 'evening', 'regular', '18:00', '21:30', 18000),
+    slot(6, 'night', 'regular', '21:00', '22:00', 5000),
+  ];
+
+  const pick = (...ids: number[]) => selectTimeSlots(roomSlots, { time_slot_ids: ids }).slots;
+
+  describe('selectTimeSlots', () => {
+    it('should select slots by id in start-time order', () => {
+      const result = selectTimeSlots(roomSlots, { time_slot_ids: [3, 1, 1] });
+
+      expect(result.error).toBeUndefined();
+      expect(result.slots.map((s) => s.code)).toEqual(['morning', 'afternoon']);
+    });
+
+    it('should fall back to the legacy slot flags', () => {
+      const result = selectTimeSlots(roomSlots, { use_morning: true, use_midday_extension: true });
+
+      expect(result.slots.map((s) => s.id)).toEqual([1, 2]);
+    });
+
+    it('should reject slots not offered for the room', () => {
+      expect(selectTimeSlots(roomSlots, { time_slot_ids: [99] }).error).toBeDefined();
+      expect(selectTimeSlots(roomSlots.slice(0, 1), { use_evening: true }).error).toBeDefined();
+    });
+  });
+
+  describe('validateTimeSlotSelection', () => {
+    it('should require at least one regular slot', () => {
+      expect(validateTimeSlotSelection(pick(2)).valid).toBe(false);
+    });
+
+    it('should require an adjacent regular slot for extensions', () => {
+      expect(validateTimeSlotSelection(pick(1, 2)).valid).toBe(true);
+      expect(validateTimeSlotSelection(pick(2, 5)).valid).toBe(false);
+    });
+
+    it('should reject overlapping slots', () => {
+      expect(validateTimeSlotSelection(pick(5, 6)).valid).toBe(false);
+    });
+  });
+
+  describe('calculateTimeSlotCharge', () => {
+    it('should charge an extension used without both neighbours', () => {
+      expect(calculateTimeSlotCharge(pick(1, 2), false)).toBe(15000 + 3000);
+    });
+
+    it('should not charge an extension between two booked slots', () => {
+      expect(calculateTimeSlotCharge(pick(1, 2, 3), false)).toBe(15000 + 20000);
+    });
+
+    it('should use weekend prices where configured', () => {
+      expect(calculateTimeSlotCharge(pick(1, 5), true)).toBe(18000 + 18000);
+    });
+  });
+
+  describe('legacySlotFlags / countRegularSlots', () => {
+    it('should derive the legacy flags from slot codes', () => {
+      expect(legacySlotFlags(pick(3, 4, 6))).toEqual({
+        use_morning: false,
+        use_afternoon: true,
+        use_evening: false,
+        use_midday_extension: false,
+        use_evening_extension: true,
+      });
+      expect(countRegularSlots(pick(3, 4, 6))).toBe(2);
+    });
+  });
+
+  describe('removeTimeSlot', () => {
+    it('should drop extensions left without an adjacent regular slot', () => {
+      expect(removeTimeSlot(pick(1, 2, 5), 'morning').map((s) => s.code)).toEqual(['evening']);
+      expect(removeTimeSlot(pick(1, 2, 3), 'morning').map((s) => s.code)).toEqual(['midday_extension', 'afternoon']);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * 時間帯予約の計算モジュール
+ *
+ * 時間帯の構成（time_slots）と部屋ごとの料金（room_time_slot_prices）は職員が管理画面で設定する。
+ * 利用明細の use_morning などのフラグは、初期設定の時間帯コードに対応する従来の列として引き続き保存する
+ */
+
+import { TimeRange, parseTime } from './flexibleTime';
+
+export interface ConfiguredTimeSlot {
+  id: number;
+  code: string;
+  name: string;
+  slotType: 'regular' | 'extension';
+  startTime: string;           // HH:MM
+  endTime: string;             // HH:MM
+  basePrice: number;           // 平日料金
+  weekendPrice: number | null; // 土日祝日料金（未設定の場合は平日料金）
+}
+
+export interface LegacySlotFlags {
+  use_morning: boolean;
+  use_afternoon: boolean;
+  use_evening: boolean;
+  use_midday_extension: boolean;
+  use_evening_extension: boolean;
+}
+
+/**
+ * 従来の時間帯フラグと初期設定の時間帯コードの対応
+ */
+export const LEGACY_SLOT_CODES: { [K in keyof LegacySlotFlags]: string } = {
+  use_morning: 'morning',
+  use_midday_extension: 'midday_extension',
+  use_afternoon: 'afternoon',
+  use_evening_extension: 'evening_extension',
+  use_evening: 'evening',
+};
+
+const byStartTime = (a: ConfiguredTimeSlot, b: ConfiguredTimeSlot) =>
+  (parseTime(a.startTime) ?? 0) - (parseTime(b.startTime) ?? 0);
+
+/**
+ * 時間帯の時刻
+ */
+export function timeSlotRange(slot: ConfiguredTimeSlot): TimeRange {
+  return { startTime: slot.startTime, endTime: slot.endTime };
+}
+
+/**
+ * 予約する時間帯を部屋の時間帯から選択（開始時刻順）
+ * time_slot_ids が指定されていない場合は従来の時間帯フラグから時間帯コードで選択する
+ */
+export function selectTimeSlots(
+  roomSlots: ConfiguredTimeSlot[],
+  selection: { time_slot_ids?: number[] | null } & Partial<LegacySlotFlags>
+): { slots: ConfiguredTimeSlot[]; error?: string } {
+  const slots: ConfiguredTimeSlot[] = [];
+
+  if (Array.isArray(selection.time_slot_ids) && selection.time_slot_ids.length > 0) {
+    for (const id of Array.from(new Set(selection.time_slot_ids.map(Number)))) {
+      const slot = roomSlots.find((s) => s.id === id);
+      if (!slot) {
+        return { slots: [], error: `時間帯ID ${id} はこの部屋では予約できません` };
+      }
+      slots.push(slot);
+    }
+  } else {
+    for (const [flag, code] of Object.entries(LEGACY_SLOT_CODES)) {
+      if (!selection[flag as keyof LegacySlotFlags]) continue;
+      const slot = roomSlots.find((s) => s.code === code);
+      if (!slot) {
+        return { slots: [], error: `時間帯「${code}」はこの部屋では予約できません` };
+      }
+      slots.push(slot);
+    }
+  }
+
+  return { slots: slots.sort(byStartTime) };
+}
+
+/**
+ * 延長枠に隣接する通常枠（前・後）
+ */
+function adjacentRegularSlots(extension: ConfiguredTimeSlot, slots: ConfiguredTimeSlot[]): {
+  before: ConfiguredTimeSlot | undefined;
+  after: ConfiguredTimeSlot | undefined;
+} {
+  const start = parseTime(extension.startTime);
+  const end = parseTime(extension.endTime);
+  const regular = slots.filter((s) => s.slotType === 'regular');
+  return {
+    before: regular.find((s) => parseTime(s.endTime) === start),
+    after: regular.find((s) => parseTime(s.startTime) === end),
+  };
+}
+
+/**
+ * 選択された時間帯の妥当性をチェック
+ * - 通常枠を少なくとも1つ含む
+ * - 時間帯どうしが重ならない
+ * - 延長枠には隣接する通常枠が必要
+ */
+export function validateTimeSlotSelection(slots: ConfiguredTimeSlot[]): { valid: boolean; error?: string } {
+  if (!slots.some((slot) => slot.slotType === 'regular')) {
+    return { valid: false, error: '少なくとも1つの通常の時間帯を選択する必要があります' };
+  }
+
+  const sorted = [...slots].sort(byStartTime);
+  for (let i = 1; i < sorted.length; i++) {
+    if ((parseTime(sorted[i].startTime) ?? 0) < (parseTime(sorted[i - 1].endTime) ?? 0)) {
+      return { valid: false, error: `時間帯「${sorted[i - 1].name}」と「${sorted[i].name}」が重なっています` };
+    }
+  }
+
+  for (const slot of sorted) {
+    if (slot.slotType !== 'extension') continue;
+    const { before, after } = adjacentRegularSlots(slot, sorted);
+    if (!before && !after) {
+      return { valid: false, error: `${slot.name}には隣接する時間帯を選択する必要があります` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 延長枠が無料かどうか（前後の通常枠が両方とも選択されている場合は無料）
+ */
+export function isExtensionFree(extension: ConfiguredTimeSlot, slots: ConfiguredTimeSlot[]): boolean {
+  const { before, after } = adjacentRegularSlots(extension, slots);
+  return !!before && !!after;
+}
+
+/**
+ * 選択された時間帯の部屋料金（倍率適用前）
+ * 土日祝日は専用料金が設定されていればそれを使用
+ */
+export function calculateTimeSlotCharge(slots: ConfiguredTimeSlot[], isWeekendOrHoliday: boolean): number {
+  let charge = 0;
+
+  for (const slot of slots) {
+    if (slot.slotType === 'extension' && isExtensionFree(slot, slots)) {
+      continue;
+    }
+    charge += isWeekendOrHoliday && slot.weekendPrice !== null
+      ? Number(slot.weekendPrice)
+      : Number(slot.basePrice);
+  }
+
+  return charge;
+}
+
+/**
+ * 通常枠の数（per_slot 料金の設備の枠数）
+ */
+export function countRegularSlots(slots: ConfiguredTimeSlot[]): number {
+  return slots.filter((slot) => slot.slotType === 'regular').length;
+}
+
+/**
+ * 選択された時間帯に対応する従来の時間帯フラグ
+ */
+export function legacySlotFlags(slots: ConfiguredTimeSlot[]): LegacySlotFlags {
+  const codes = new Set(slots.map((slot) => slot.code));
+  return {
+    use_morning: codes.has(LEGACY_SLOT_CODES.use_morning),
+    use_afternoon: codes.has(LEGACY_SLOT_CODES.use_afternoon),
+    use_evening: codes.has(LEGACY_SLOT_CODES.use_evening),
+    use_midday_extension: codes.has(LEGACY_SLOT_CODES.use_midday_extension),
+    use_evening_extension: codes.has(LEGACY_SLOT_CODES.use_evening_extension),
+  };
+}
+
+/**
+ * 時間帯を取り除いた残りの時間帯
+ * 隣接する通常枠がなくなった延長枠も併せて取り除く
+ */
+export function removeTimeSlot(slots: ConfiguredTimeSlot[], code: string): ConfiguredTimeSlot[] {
+  const remaining = slots.filter((slot) => slot.code !== code);
+  return remaining.filter((slot) => {
+    if (slot.slotType !== 'extension') return true;
+    const { before, after } = adjacentRegularSlots(slot, remaining);
+    return !!before || !!after;
+  });
+}
@@ -0,0 +1,98 @@
+import { blockedRanges, roomBlockedRanges, setupRange } from './turnover';
+import { maxConcurrentBookings } from './flexibleTime';
+
+describe('Turnover Module', () => {
+  const morning = { startTime: '09:00', endTime: '12:00' };
+  const afternoon = { startTime: '13:00', endTime: '17:00' };
+
+  describe('blockedRanges', () => {
+    it('should return only the booked time without setup or buffer', () => {
+      expect(blockedRanges([morning], null, 0)).toEqual([{ ...morning, reason: 'booking' }]);
+    });
+
+    it('should block the setup time before the first booked slot', () => {
+      expect(blockedRanges([afternoon], '11:30', 0)).toEqual([
+        { startTime: '11:30', endTime: '13:00', reason: 'setup' },
+        { ...afternoon, reason: 'booking' },
+      ]);
+    });
+
+    it('should ignore setup at or after the booking start', () => {
+      expect(blockedRanges([afternoon], '13:00', 0)).toEqual([{ ...afternoon, reason: 'booking' }]);
+    });
+
+    it('should add the turnover buffer before and after the booking including setup', () => {
+      expect(blockedRanges([afternoon], '12:30', 30)).toEqual([
+        { startTime: '12:00', endTime: '12:30', reason: 'turnover' },
+        { startTime: '12:30', endTime: '13:00', reason: 'setup' },
+        { ...afternoon, reason: 'booking' },
+        { startTime: '17:00', endTime: '17:30', reason: 'turnover' },
+      ]);
+    });
+
+    it('should not overlap between consecutive booked slots', () => {
+      const ranges = blockedRanges([morning, afternoon], null, 60);
+
+      expect(ranges).toEqual([
+        { startTime: '08:00', endTime: '09:00', reason: 'turnover' },
+        { ...morning, reason: 'booking' },
+        { startTime: '12:00', endTime: '13:00', reason: 'turnover' },
+        { ...afternoon, reason: 'booking' },
+        { startTime: '17:00', endTime: '18:00', reason: 'turnover' },
+      ]);
+      // 1件の予約は同時刻に1件としか数えない
+      expect(maxConcurrentBookings(ranges, { startTime: '08:00', endTime: '18:00' })).toBe(1);
+    });
+
+    it('should keep the buffer within the day', () => {
+      expect(blockedRanges([{ startTime: '00:30', endTime: '23:30' }], null, 60)).toEqual([
+        { startTime: '00:00', endTime: '00:30', reason: 'turnover' },
+        { startTime: '00:30', endTime: '23:30', reason: 'booking' },
+        { startTime: '23:30', endTime: '24:00', reason: 'turnover' },
+      ]);
+    });
+
+    it('should block an adjacent slot that does not leave enough turnover time', () => {
+      const ranges = blockedRanges([afternoon], null, 30);
+
+      expect(maxConcurrentBookings(ranges, { startTime: '17:00', endTime: '18:00' })).toBe(1);
+      expect(maxConcurrentBookings(ranges, { startTime: '17:30', endTime: '18:00' })).toBe(0);
+    });
+
+    it('should return nothing when there are no bookings', () => {
+      expect(blockedRanges([], '09:00', 30)).toEqual([]);
+    });
+  });
+
+  describe('setupRange', () => {
+    it('should return the time from setup to the booking start', () => {
+      expect(setupRange('08:30', '09:00')).toEqual({ startTime: '08:30', endTime: '09:00' });
+    });
+
+    it('should return null without setup or when setup starts with the booking', () => {
+      expect(setupRange(null, '09:00')).toBeNull();
+      expect(setupRange('09:00', '09:00')).toBeNull();
+      expect(setupRange('10:00', '09:00')).toBeNull();
+    });
+  });
+
+  describe('roomBlockedRanges', () => {
+    it('should keep bookings of the room itself as they are', () => {
+      const groups = [{ date: '2026-11-01', roomId: 1, setupTime: null, ranges: [morning] }];
+
+      expect(roomBlockedRanges(groups, 1, 30, 2)).toEqual([
+        { date: '2026-11-01', startTime: '08:30', endTime: '09:00', reason: 'turnover' },
+        { date: '2026-11-01', ...morning, reason: 'booking' },
+        { date: '2026-11-01', startTime: '12:00', endTime: '12:30', reason: 'turnover' },
+      ]);
+    });
+
+    it('should count bookings of linked rooms as the whole room', () => {
+      const groups = [{ date: '2026-11-01', roomId: 2, setupTime: null, ranges: [afternoon] }];
+      const ranges = roomBlockedRanges(groups, 1, 0, 3);
+
+      expect(ranges).toEqual([{ date: '2026-11-01', ...afternoon, reason: 'linked', count: 3 }]);
+      expect(maxConcurrentBookings(ranges, afternoon)).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * 準備・片付け（転換）時間の計算モジュール
+ *
+ * 予約は予約した時間帯に加えて、次の時間も部屋を使えなくする：
+ * - 準備：申請の準備開始日時（setup_datetime）が利用日の予約開始より前の場合は、準備開始から予約開始まで
+ * - 転換時間：部屋の turnover_buffer_minutes の分だけ、予約（準備を含む）の前後
+ * 前後の予約との間に転換時間以上の間隔がない時間帯は予約できない
+ */
+
+import { TimeRange, formatTime, parseTime } from './flexibleTime';
+
+// 部屋を使えない理由（booking: 予約, setup: 準備, turnover: 転換時間, linked: 全体・分割した部屋の予約）
+export type BlockReason = 'booking' | 'setup' | 'turnover' | 'linked';
+
+export interface BlockedRange extends TimeRange {
+  reason: BlockReason;
+  count?: number; // 同時刻の予約数として数える数（未設定は1。全体・分割した部屋の予約は部屋の在庫数）
+}
+
+const DAY_MINUTES = 24 * 60;
+
+type Interval = [number, number];
+
+/**
+ * 重なる・接する区間をまとめる
+ */
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals.filter(([start, end]) => start < end).sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 区間から別の区間の集合を除いた残り
+ */
+function subtractIntervals(interval: Interval, removed: Interval[]): Interval[] {
+  let pieces: Interval[] = [interval];
+  for (const [removeStart, removeEnd] of removed) {
+    pieces = pieces.flatMap(([start, end]) =>
+      [
+        [start, Math.min(end, removeStart)],
+        [Math.max(start, removeEnd), end],
+      ].filter(([s, e]) => s < e) as Interval[]
+    );
+  }
+  return pieces;
+}
+
+/**
+ * 1件の利用明細（または確保中の時間帯）で部屋を使えない時間
+ * 返す区間は重ならない（在庫数が2以上の部屋でも1件の予約として数える）
+ *
+ * @param bookings - 予約した時間（時間帯予約は時間帯ごと）
+ * @param setupTime - 利用日の準備開始時刻（HH:MM、準備がない場合は null）
+ * @param bufferMinutes - 部屋の転換時間（分）
+ */
+export function blockedRanges(bookings: TimeRange[], setupTime: string | null, bufferMinutes: number): BlockedRange[] {
+  const core = mergeIntervals(
+    bookings.map(({ startTime, endTime }) => [parseTime(startTime) ?? 0, parseTime(endTime) ?? 0] as Interval)
+  );
+  if (core.length === 0) {
+    return [];
+  }
+
+  const toRange = ([start, end]: Interval, reason: BlockReason): BlockedRange => ({
+    startTime: formatTime(start),
+    endTime: formatTime(end),
+    reason,
+  });
+
+  const ranges: BlockedRange[] = core.map((interval) => toRange(interval, 'booking'));
+
+  const setup = parseTime(setupTime);
+  const occupied = [...core];
+  if (setup !== null && setup < core[0][0]) {
+    ranges.push(toRange([setup, core[0][0]], 'setup'));
+    occupied.push([setup, core[0][0]]);
+  }
+
+  const buffer = Math.max(0, Math.floor(bufferMinutes || 0));
+  if (buffer > 0) {
+    const merged = mergeIntervals(occupied);
+    const expanded = mergeIntervals(
+      merged.map(([start, end]) => [Math.max(0, start - buffer), Math.min(DAY_MINUTES, end + buffer)] as Interval)
+    );
+    for (const interval of expanded) {
+      for (const piece of subtractIntervals(interval, merged)) {
+        ranges.push(toRange(piece, 'turnover'));
+      }
+    }
+  }
+
+  return ranges.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * 予約のために空いている必要がある時間（予約開始より前の準備時間を含む）
+ * @returns 準備時間がない場合は null
+ */
+export function setupRange(setupTime: string | null, startTime: string): TimeRange | null {
+  const setup = parseTime(setupTime);
+  const start = parseTime(startTime);
+  if (setup === null || start === null || setup >= start) {
+    return null;
+  }
+  return { startTime: formatTime(setup), endTime: formatTime(start) };
+}
+
+/**
+ * 1件の利用明細（または確保中の時間帯）の予約した時間
+ */
+export interface BookingGroup {
+  date: string;
+  roomId: number;
+  setupTime: string | null; // 利用日の準備開始時刻（HH:MM）
+  ranges: TimeRange[];
+}
+
+/**
+ * 部屋から見た予約の使えない時間（準備・転換時間を含む）
+ * 全体・分割した部屋の予約は reason = linked とし、この部屋の在庫数（count）の予約として数える
+ *
+ * @param groups - この部屋と全体・分割した部屋の予約
+ * @param bufferMinutes - この部屋の転換時間（分）
+ * @param maxCount - この部屋の在庫数
+ */
+export function roomBlockedRanges(
+  groups: BookingGroup[],
+  roomId: number,
+  bufferMinutes: number,
+  maxCount: number
+): (BlockedRange & { date: string })[] {
+  return groups.flatMap(({ date, roomId: bookedRoomId, setupTime, ranges }) =>
+    blockedRanges(ranges, setupTime, bufferMinutes).map((range) =>
+      bookedRoomId !== roomId
+        ? { date, ...range, reason: range.reason === 'booking' ? 'linked' as const : range.reason, count: maxCount }
+        : { date, ...range }
+    )
+  );
+}
@@ -0,0 +1,62 @@
+import { checkUsageRules, isUsageActivity, validateRoomLayout, RoomLayout, UsageRuleRoom } from './usageRules';
+
+describe('Usage Rules Module', () => {
+  const room: UsageRuleRoom = {
+    name: '会議室A',
+    capacity: 50,
+    prohibitedActivities: ['amplified_music', 'food'],
+  };
+  const school: RoomLayout = { id: 1, roomId: 1, name: 'スクール形式', capacity: 30 };
+
+  describe('checkUsageRules', () => {
+    it('should accept attendees up to the room capacity', () => {
+      expect(checkUsageRules(room, null, 50, [])).toEqual([]);
+    });
+
+    it('should reject attendees over the room capacity', () => {
+      expect(checkUsageRules(room, null, 51, [])).toEqual([
+        '参加予定人数（51名）が「会議室A」の定員（50名）を超えています',
+      ]);
+    });
+
+    it('should use the layout capacity when a layout is selected', () => {
+      expect(checkUsageRules(room, school, 30, [])).toEqual([]);
+      expect(checkUsageRules(room, school, 40, [])).toEqual([
+        '参加予定人数（40名）が「会議室A」のスクール形式の定員（30名）を超えています',
+      ]);
+    });
+
+    it('should skip the capacity check without attendees or capacity', () => {
+      expect(checkUsageRules(room, null, null, [])).toEqual([]);
+      expect(checkUsageRules({ ...room, capacity: null }, null, 500, [])).toEqual([]);
+    });
+
+    it('should reject prohibited activities', () => {
+      expect(checkUsageRules(room, null, 10, ['food', 'alcohol'])).toEqual(['「会議室A」では飲食はできません']);
+    });
+
+    it('should allow every activity when the room has no rules', () => {
+      expect(checkUsageRules({ ...room, prohibitedActivities: null }, null, 10, ['food', 'amplified_music'])).toEqual([]);
+    });
+
+    it('should report every violation', () => {
+      expect(checkUsageRules(room, null, 60, ['amplified_music', 'food'])).toHaveLength(3);
+    });
+  });
+
+  describe('isUsageActivity', () => {
+    it('should accept only known activity codes', () => {
+      expect(isUsageActivity('food')).toBe(true);
+      expect(isUsageActivity('karaoke')).toBe(false);
+    });
+  });
+
+  describe('validateRoomLayout', () => {
+    it('should require a name and a positive capacity', () => {
+      expect(validateRoomLayout({ name: 'シアター形式', capacity: 80 }).valid).toBe(true);
+      expect(validateRoomLayout({ name: ' ', capacity: 80 }).valid).toBe(false);
+      expect(validateRoomLayout({ name: 'シアター形式', capacity: 0 }).valid).toBe(false);
+      expect(validateRoomLayout({ name: 'シアター形式', capacity: 1.5 }).valid).toBe(false);
+    });
+  });
+});
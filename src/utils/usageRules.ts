@@ -0,0 +1,78 @@
+/**
+ * 部屋の利用ルールと定員の確認モジュール
+ *
+ * - 定員：参加予定人数が部屋の定員（レイアウトを選んだ場合はレイアウトの定員）を超えないこと
+ * - 利用ルール：申請者が申告した利用内容に、部屋で禁止している内容が含まれないこと
+ * 参加予定人数が未入力の場合は定員の確認を行わない
+ */
+
+export type UsageActivity = 'amplified_music' | 'food' | 'alcohol' | 'open_flame' | 'dance';
+
+export const USAGE_ACTIVITY_LABELS: { [activity in UsageActivity]: string } = {
+  amplified_music: '音響機器を使った演奏・音楽',
+  food: '飲食',
+  alcohol: '飲酒',
+  open_flame: '火気の使用',
+  dance: 'ダンス・激しい運動',
+};
+
+export const USAGE_ACTIVITIES = Object.keys(USAGE_ACTIVITY_LABELS) as UsageActivity[];
+
+export interface RoomLayout {
+  id: number;
+  roomId: number;
+  name: string;
+  capacity: number;
+}
+
+export interface UsageRuleRoom {
+  name: string;
+  capacity: number | null;                     // NULL: 定員なし
+  prohibitedActivities: UsageActivity[] | null; // NULL: 制限なし
+}
+
+export function isUsageActivity(value: string): value is UsageActivity {
+  return (USAGE_ACTIVITIES as string[]).includes(value);
+}
+
+/**
+ * 1件の利用明細の利用ルール・定員の確認
+ * @param layout - 利用するレイアウト（指定なしの場合は null）
+ * @returns 違反の内容（問題がない場合は空）
+ */
+export function checkUsageRules(
+  room: UsageRuleRoom,
+  layout: RoomLayout | null,
+  expectedAttendees: number | null,
+  activities: UsageActivity[]
+): string[] {
+  const violations: string[] = [];
+
+  const capacity = layout ? layout.capacity : room.capacity;
+  if (expectedAttendees !== null && capacity !== null && expectedAttendees > capacity) {
+    violations.push(
+      `参加予定人数（${expectedAttendees}名）が「${room.name}」${layout ? `の${layout.name}` : ''}の定員（${capacity}名）を超えています`
+    );
+  }
+
+  for (const activity of activities) {
+    if (room.prohibitedActivities?.includes(activity)) {
+      violations.push(`「${room.name}」では${USAGE_ACTIVITY_LABELS[activity]}はできません`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * レイアウトの入力の妥当性をチェック
+ */
+export function validateRoomLayout(layout: { name: string; capacity: number }): { valid: boolean; error?: string } {
+  if (!layout.name || !layout.name.trim()) {
+    return { valid: false, error: 'レイアウト名を入力してください' };
+  }
+  if (!Number.isInteger(layout.capacity) || layout.capacity < 1) {
+    return { valid: false, error: '定員は1以上の整数で指定してください' };
+  }
+  return { valid: true };
+}